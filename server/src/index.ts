@@ -6,7 +6,17 @@ import adminRouter from './routes/admin';
 import publicRouter from './routes/public';
 import museumsRouter from './routes/museums';
 import visitorRouter from './routes/visitor';
+import authRouter from './routes/auth';
+import feedbackRouter from './routes/feedback';
+import embeddingsRouter from './routes/embeddings';
+import jobsRouter from './routes/jobs';
+import importRouter from './routes/import';
+import translationsRouter from './routes/translations';
+import iiifRouter from './routes/iiif';
 import { connectToDatabase } from './utils/db';
+import { ensureBootstrapAdmin } from './services/auth';
+import { resumeInterruptedJobs } from './services/reembed';
+import { startJobWorker } from './services/jobs';
 import Logger from './utils/logger';
 
 // Ensure .env overrides any machine/user env so the latest keys are used
@@ -24,8 +34,15 @@ app.use((req, res, next) => {
   next();
 });
 
+app.use('/api/auth', authRouter);
+app.use('/api/admin/feedback', feedbackRouter);
+app.use('/api/admin/embeddings', embeddingsRouter);
+app.use('/api/admin/jobs', jobsRouter);
+app.use('/api/admin/import', importRouter);
+app.use('/api/admin/translations', translationsRouter);
 app.use('/api/admin', adminRouter);
 app.use('/api/museums', museumsRouter);
+app.use('/api/iiif', iiifRouter);
 app.use('/api/visit', visitorRouter);
 app.use('/api', publicRouter);
 
@@ -46,6 +63,9 @@ async function start() {
     // Connect to MongoDB only if URI is provided
     if (process.env.MONGODB_URI) {
       await connectToDatabase();
+      await ensureBootstrapAdmin();
+      await resumeInterruptedJobs();
+      startJobWorker();
     } else {
       Logger.warn('MONGODB_URI not set. API will run without DB until provided.');
     }
@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express';
+import { IUser } from '../models/User';
+import { connectToDatabase } from '../utils/db';
+import { resolveSession, hasPermission, Permission } from '../services/auth';
+import { canAccessMuseum } from '../services/tenancy';
+import Logger from '../utils/logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: IUser;
+      authToken?: string;
+    }
+  }
+}
+
+function extractToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  return null;
+}
+
+/**
+ * Reject requests without a valid staff session
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = extractToken(req);
+    if (!token) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await connectToDatabase();
+    const user = await resolveSession(token);
+    if (!user) {
+      return res.status(401).json({ error: 'Session expired or invalid' });
+    }
+
+    req.user = user;
+    req.authToken = token;
+    next();
+  } catch (error: any) {
+    Logger.error(`Auth middleware error: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+}
+
+/**
+ * Attach the staff user when a valid token is present, but let anonymous
+ * visitors through. Used by public routes that scope results for staff.
+ */
+export async function optionalAuth(req: Request, _res: Response, next: NextFunction) {
+  try {
+    const token = extractToken(req);
+    if (token) {
+      await connectToDatabase();
+      const user = await resolveSession(token);
+      if (user) {
+        req.user = user;
+        req.authToken = token;
+      }
+    }
+  } catch (error) {
+    Logger.warn(`Optional auth lookup failed: ${error}`);
+  }
+  next();
+}
+
+/**
+ * Reject requests whose staff role lacks the given permission.
+ * Must run after requireAuth.
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!hasPermission(req.user.role, permission)) {
+      Logger.warn(`Forbidden: ${req.user.email} (${req.user.role}) lacks ${permission} for ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({ error: 'You do not have permission to perform this action' });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Reject requests for a museum outside the caller's tenancy.
+ * Must run after requireAuth.
+ * @param param - Route parameter holding the museum id
+ */
+export function requireMuseumAccess(param: string = 'id') {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!canAccessMuseum(req.user, req.params[param])) {
+      Logger.warn(`Cross-tenant access denied: ${req.user.email} -> museum ${req.params[param]}`);
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    next();
+  };
+}
@@ -1,5 +1,77 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
+export const REFERENCE_VIEW_LABELS = ['front', 'side', 'back', 'detail', 'framed', 'visitor', 'other'] as const;
+
+export type ReferenceViewLabel = typeof REFERENCE_VIEW_LABELS[number];
+
+// Text or URLs keyed by language code; which languages exist depends on the museum (services/languages)
+export type LocalizedStrings = Partial<Record<string, string>>;
+
+// Review state of a translated description (services/translation-review)
+export const TRANSLATION_STATUSES = ['machine', 'reviewed', 'approved'] as const;
+
+export type TranslationStatus = typeof TRANSLATION_STATUSES[number];
+
+// How a translation of the description was produced (services/translation-providers) and reviewed
+export interface TranslationRecord {
+  provider: string; // Translation provider key, or "manual" for text a reviewer wrote from scratch
+  model?: string;
+  sourceLanguage: string;
+  translatedAt: Date;
+  glossaryViolations?: string[]; // Glossary terms the translation did not render as required
+  status?: TranslationStatus; // Unset means machine
+  stale?: boolean; // The source text changed after this translation was made or reviewed
+  reviewedBy?: string;
+  reviewedAt?: Date;
+}
+
+// How a narration script was written (services/narration-script); stored next to its text in narrations
+export const NARRATION_ORIGINS = ['llm', 'template', 'curator'] as const;
+
+export type NarrationOrigin = typeof NARRATION_ORIGINS[number];
+
+export interface NarrationScriptRecord {
+  origin: NarrationOrigin;
+  model?: string; // LLM that wrote it
+  descriptionHash: string; // Of the description it was written from
+  writtenAt: Date;
+  editedBy?: string; // Curator who wrote or last edited it
+  stale?: boolean; // A curator's script whose description changed since
+}
+
+// How a narration was produced (services/tts-providers); stored next to its URL in audioUrls
+export interface AudioRecord {
+  provider: string; // TTS provider key
+  voice: string;
+  format: string; // "mp3" or "wav"
+  hash: string; // Of provider, voice, language and text; names the file (services/audio-cache)
+  durationSeconds: number;
+  bytes: number;
+  generatedAt: Date;
+  captionsUrl?: string; // Sentence-level WebVTT transcript (services/captions)
+  captionTiming?: 'aligned' | 'estimated'; // From provider alignment, or estimated from sentence lengths
+}
+
+// An additional photo of the artwork, matched alongside the primary image
+export interface ReferenceImage {
+  _id?: mongoose.Types.ObjectId;
+  imageUrl: string;
+  label: ReferenceViewLabel;
+  embedding?: number[]; // CLIP embedding for this view
+  embeddingModel?: string; // Model key the embedding came from; unset means the original model
+  contentHash?: string;
+  perceptualHash?: string;
+  createdAt?: Date;
+}
+
+// Embeddings computed under another model by a re-embed job, waiting for cut-over
+export interface StagedEmbeddings {
+  model: string;
+  image?: number[];
+  references?: { referenceId: mongoose.Types.ObjectId; embedding: number[] }[];
+  updatedAt?: Date;
+}
+
 export interface ArtworkDocument extends Document {
   title: string;
   author?: string;
@@ -9,39 +81,39 @@ export interface ArtworkDocument extends Document {
   educationalNotes?: string;
   relatedWorks?: string;
   museumLinks?: string;
+  accessionNumber?: string; // The museum's own inventory number, e.g. from a bulk import manifest
   museumId?: mongoose.Types.ObjectId; // Link to museum
   imageEmbedding?: number[]; // CLIP embedding vector for image matching
-  descriptions?: {
-    en?: string;
-    fr?: string;
-    es?: string;
-    de?: string;
-    zh?: string;
-    ja?: string;
-    it?: string;
-    pt?: string;
-    ru?: string;
-    ar?: string;
-  };
+  embeddingModel?: string; // Model key imageEmbedding came from; unset means the original model
+  stagedEmbeddings?: StagedEmbeddings;
+  contentHash?: string; // SHA-256 of the primary image file, for duplicate detection
+  perceptualHash?: string; // dHash of the primary image, for near-duplicate detection
+  referenceImages?: ReferenceImage[]; // Extra views (side, detail, framed...) for matching
+  descriptions?: LocalizedStrings;
+  translations?: Partial<Record<string, TranslationRecord>>; // Keyed like descriptions; absent for text a person wrote
+  narrations?: LocalizedStrings; // Description rewritten to be read aloud; narrated instead of it when present
+  narrationScripts?: Partial<Record<string, NarrationScriptRecord>>; // Keyed like narrations
   imageUrl?: string;
   audioUrl?: string;
-  audioUrls?: {
-    en?: string;
-    fr?: string;
-    es?: string;
-    de?: string;
-    zh?: string;
-    ja?: string;
-    it?: string;
-    pt?: string;
-    ru?: string;
-    ar?: string;
-  };
+  audioUrls?: LocalizedStrings;
+  audio?: Partial<Record<string, AudioRecord>>; // Keyed like audioUrls
   sources?: { provider: string; url: string }[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const ReferenceImageSchema = new Schema<ReferenceImage>(
+  {
+    imageUrl: { type: String, required: true },
+    label: { type: String, enum: REFERENCE_VIEW_LABELS, default: 'other' },
+    embedding: { type: [Number] },
+    embeddingModel: { type: String },
+    contentHash: { type: String },
+    perceptualHash: { type: String },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
 const ArtworkSchema = new Schema<ArtworkDocument>(
   {
     title: { type: String, required: true },
@@ -52,34 +124,33 @@ const ArtworkSchema = new Schema<ArtworkDocument>(
     educationalNotes: { type: String },
     relatedWorks: { type: String },
     museumLinks: { type: String },
+    accessionNumber: { type: String, trim: true },
     museumId: { type: Schema.Types.ObjectId, ref: 'Museum', index: true },
     imageEmbedding: { type: [Number] }, // Array of numbers for CLIP vector
-    descriptions: {
-      en: { type: String },
-      fr: { type: String },
-      es: { type: String },
-      de: { type: String },
-      zh: { type: String },
-      ja: { type: String },
-      it: { type: String },
-      pt: { type: String },
-      ru: { type: String },
-      ar: { type: String },
+    embeddingModel: { type: String },
+    stagedEmbeddings: {
+      type: new Schema<StagedEmbeddings>({
+        model: { type: String, required: true },
+        image: { type: [Number], default: undefined },
+        references: {
+          type: [{ _id: false, referenceId: Schema.Types.ObjectId, embedding: [Number] }],
+          default: undefined
+        },
+        updatedAt: { type: Date }
+      }, { _id: false }),
+      default: undefined
     },
+    contentHash: { type: String, index: true },
+    perceptualHash: { type: String },
+    referenceImages: { type: [ReferenceImageSchema], default: undefined },
+    descriptions: { type: Schema.Types.Mixed },
+    translations: { type: Schema.Types.Mixed },
+    narrations: { type: Schema.Types.Mixed },
+    narrationScripts: { type: Schema.Types.Mixed },
     imageUrl: { type: String },
     audioUrl: { type: String },
-    audioUrls: {
-      en: { type: String },
-      fr: { type: String },
-      es: { type: String },
-      de: { type: String },
-      zh: { type: String },
-      ja: { type: String },
-      it: { type: String },
-      pt: { type: String },
-      ru: { type: String },
-      ar: { type: String },
-    },
+    audioUrls: { type: Schema.Types.Mixed },
+    audio: { type: Schema.Types.Mixed },
     sources: [
       {
         provider: String,
@@ -91,6 +162,9 @@ const ArtworkSchema = new Schema<ArtworkDocument>(
   { timestamps: true }
 );
 
+// Accession numbers are unique within a museum
+ArtworkSchema.index({ museumId: 1, accessionNumber: 1 }, { unique: true, partialFilterExpression: { accessionNumber: { $type: 'string' } } });
+
 export const Artwork: Model<ArtworkDocument> =
   mongoose.models.Artwork || mongoose.model<ArtworkDocument>('Artwork', ArtworkSchema);
 
@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed'] as const;
+export const JOB_STEP_STATUSES = ['pending', 'running', 'completed', 'failed', 'skipped'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+export type JobStepStatus = typeof JOB_STEP_STATUSES[number];
+
+export interface JobStep {
+  name: string;
+  status: JobStepStatus;
+  attempts: number;
+  error?: string; // Last failure, or why the step was skipped
+  result?: unknown; // Output later steps and the admin UI read
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * A unit of background work, run step by step by the job worker.
+ * Kept in Mongo so nothing beyond the database is needed and jobs survive restarts.
+ */
+export interface IJob extends Document {
+  type: string;
+  status: JobStatus;
+  artworkId?: mongoose.Types.ObjectId;
+  museumId?: mongoose.Types.ObjectId;
+  payload: Record<string, unknown>;
+  steps: JobStep[];
+  runAfter: Date; // Not picked up before this (retry backoff)
+  lockedUntil?: Date; // Lease held by the worker running the job
+  createdBy?: mongoose.Types.ObjectId;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobStepSchema = new Schema<JobStep>(
+  {
+    name: { type: String, required: true },
+    status: { type: String, enum: JOB_STEP_STATUSES, default: 'pending' },
+    attempts: { type: Number, default: 0 },
+    error: { type: String },
+    result: { type: Schema.Types.Mixed },
+    startedAt: { type: Date },
+    finishedAt: { type: Date }
+  },
+  { _id: false }
+);
+
+const JobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: JOB_STATUSES,
+      default: 'queued'
+    },
+    artworkId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Artwork',
+      index: true
+    },
+    museumId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Museum',
+      index: true
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    steps: {
+      type: [JobStepSchema],
+      default: []
+    },
+    runAfter: {
+      type: Date,
+      default: Date.now
+    },
+    lockedUntil: {
+      type: Date
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    finishedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true,
+    minimize: false
+  }
+);
+
+// The worker polls for the oldest runnable job
+JobSchema.index({ status: 1, runAfter: 1 });
+
+export const Job = mongoose.model<IJob>('Job', JobSchema);
@@ -1,15 +1,68 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// Visitor identification thresholds (cosine similarity, 0-1)
+export interface MatchingSettings {
+  minScore: number; // Below this the photo is treated as not in the collection
+  confidentScore: number; // Top score needed for a confident match
+  minMargin: number; // Lead the top artwork needs over the runner-up
+}
+
+// A glossary term translation must respect: rendered as given per language, or kept verbatim
+export interface GlossaryEntry {
+  term: string; // As written in the museum's source texts
+  translations?: Record<string, string>; // Preferred rendering per language code
+  doNotTranslate?: boolean; // Names, titles and terms of art that stay as they are
+  note?: string;
+}
+
+// How narration should say a name or term: replaced by a spoken alias, or given an IPA pronunciation
+export interface PronunciationEntry {
+  term: string; // As written in descriptions, e.g. "Van Eyck"
+  alias?: string; // Spelled the way it sounds, e.g. "van ike"
+  phoneme?: string; // IPA, used by providers that accept SSML phoneme tags
+  languages?: string[]; // Narration languages it applies to; unset means all
+}
+
+// Narration settings for one language; either part falls back to the museum's provider or its default voice
+export interface NarrationVoice {
+  provider?: string; // TTS provider key (services/tts-providers)
+  voice?: string; // Provider-specific voice id or name
+}
+
 export interface IMuseum extends Document {
   name: string;
   location: string;
   qrCode: string;
   website?: string;
   description?: string;
+  matching?: Partial<MatchingSettings> & {
+    calibratedAt?: Date;
+    calibrationSamples?: number;
+  };
+  partnerMuseumIds?: mongoose.Types.ObjectId[]; // Museums whose works may be recommended alongside ours
+  embeddingModel?: string; // Model used for identification and search; unset means the default
+  embeddingCutover?: string; // Model a cut-over is switching to; set only while it runs, so a crash is finished on restart
+  translationProvider?: string; // Machine translation provider key; unset means the default (services/translation-providers)
+  languages?: string[]; // Content languages, default first; unset means DEFAULT_LANGUAGES (services/languages)
+  glossary?: GlossaryEntry[]; // Applied to every machine translation (services/glossary)
+  approvedTranslationsOnly?: boolean; // Visitors only see source text and approved, current translations
+  ttsProvider?: string; // Narration provider key; unset means the default (services/tts-providers)
+  narrationVoices?: Record<string, NarrationVoice>; // Per-language provider and voice, keyed by language code
+  pronunciations?: PronunciationEntry[]; // Narration lexicon (services/pronunciation)
   createdAt: Date;
   updatedAt: Date;
 }
 
+const PronunciationSchema = new Schema<PronunciationEntry>(
+  {
+    term: { type: String, required: true, trim: true },
+    alias: { type: String, trim: true },
+    phoneme: { type: String, trim: true },
+    languages: { type: [String], default: undefined }
+  },
+  { _id: false }
+);
+
 const MuseumSchema = new Schema<IMuseum>(
   {
     name: {
@@ -37,6 +90,53 @@ const MuseumSchema = new Schema<IMuseum>(
     description: {
       type: String,
       trim: true
+    },
+    matching: {
+      minScore: { type: Number, min: 0, max: 1 },
+      confidentScore: { type: Number, min: 0, max: 1 },
+      minMargin: { type: Number, min: 0, max: 1 },
+      calibratedAt: { type: Date },
+      calibrationSamples: { type: Number }
+    },
+    partnerMuseumIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Museum'
+    }],
+    embeddingModel: {
+      type: String
+    },
+    embeddingCutover: {
+      type: String
+    },
+    translationProvider: {
+      type: String
+    },
+    languages: {
+      type: [String],
+      default: undefined
+    },
+    approvedTranslationsOnly: {
+      type: Boolean
+    },
+    ttsProvider: {
+      type: String
+    },
+    narrationVoices: {
+      type: Schema.Types.Mixed
+    },
+    pronunciations: {
+      type: [PronunciationSchema],
+      default: undefined
+    },
+    glossary: {
+      type: [{
+        _id: false,
+        term: { type: String, required: true, trim: true },
+        translations: { type: Schema.Types.Mixed },
+        doNotTranslate: { type: Boolean },
+        note: { type: String, trim: true }
+      }],
+      default: undefined
     }
   },
   {
@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const REEMBED_JOB_STATUSES = ['queued', 'running', 'paused', 'completed', 'failed', 'cancelled'] as const;
+
+export type ReembedJobStatus = typeof REEMBED_JOB_STATUSES[number];
+
+export interface ReembedFailure {
+  artworkId: mongoose.Types.ObjectId;
+  message: string;
+}
+
+/**
+ * A background run that re-embeds a museum (or every museum) with another model.
+ * New vectors are staged next to the live ones until an admin cuts over.
+ */
+export interface IReembedJob extends Document {
+  museumId?: mongoose.Types.ObjectId; // Unset means the whole database
+  targetModel: string;
+  status: ReembedJobStatus;
+  total: number;
+  processed: number;
+  failed: number;
+  lastArtworkId?: mongoose.Types.ObjectId; // Artworks are processed in _id order; resume after this one
+  failures: ReembedFailure[]; // Most recent failures only
+  createdBy?: mongoose.Types.ObjectId;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReembedFailureSchema = new Schema<ReembedFailure>(
+  {
+    artworkId: { type: Schema.Types.ObjectId, ref: 'Artwork', required: true },
+    message: { type: String, required: true }
+  },
+  { _id: false }
+);
+
+const ReembedJobSchema = new Schema<IReembedJob>(
+  {
+    museumId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Museum',
+      index: true
+    },
+    targetModel: {
+      type: String,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: REEMBED_JOB_STATUSES,
+      default: 'queued',
+      index: true
+    },
+    total: {
+      type: Number,
+      default: 0
+    },
+    processed: {
+      type: Number,
+      default: 0
+    },
+    failed: {
+      type: Number,
+      default: 0
+    },
+    lastArtworkId: {
+      type: Schema.Types.ObjectId
+    },
+    failures: {
+      type: [ReembedFailureSchema],
+      default: []
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    startedAt: {
+      type: Date
+    },
+    finishedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const ReembedJob = mongoose.model<IReembedJob>('ReembedJob', ReembedJobSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const STAFF_ROLES = ['super-admin', 'museum-admin', 'curator', 'translator', 'read-only'] as const;
+
+export type StaffRole = typeof STAFF_ROLES[number];
+
+export interface IUser extends Document {
+  email: string;
+  name?: string;
+  passwordHash: string;
+  role: StaffRole;
+  museumIds: mongoose.Types.ObjectId[]; // Museums this account may act on (ignored for super-admin)
+  active: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserSchema = new Schema<IUser>(
+  {
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      lowercase: true,
+      index: true
+    },
+    name: {
+      type: String,
+      trim: true
+    },
+    passwordHash: {
+      type: String,
+      required: true,
+      select: false // Never returned unless explicitly requested
+    },
+    role: {
+      type: String,
+      enum: STAFF_ROLES,
+      required: true,
+      default: 'read-only'
+    },
+    museumIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Museum',
+      index: true
+    }],
+    active: {
+      type: Boolean,
+      default: true
+    },
+    lastLoginAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const User = mongoose.model<IUser>('User', UserSchema);
@@ -0,0 +1,106 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const VISITOR_MATCH_STATUSES = ['unconfirmed', 'confirmed', 'pending-review', 'approved', 'rejected'] as const;
+
+export type VisitorMatchStatus = typeof VISITOR_MATCH_STATUSES[number];
+
+export interface MatchCandidate {
+  artworkId: mongoose.Types.ObjectId;
+  score: number;
+  view?: string;
+}
+
+/**
+ * One visitor identification attempt. Created by /identify with the photo's
+ * embedding; the visitor may then confirm which artwork it really was.
+ */
+export interface IVisitorMatch extends Document {
+  museumId: mongoose.Types.ObjectId;
+  embedding: number[];
+  embeddingModel?: string;
+  candidates: MatchCandidate[]; // What we showed the visitor, best first
+  confident: boolean;
+  status: VisitorMatchStatus;
+  confirmedArtworkId?: mongoose.Types.ObjectId;
+  confirmedScore?: number;
+  confirmedAt?: Date;
+  photoFile?: string; // Name in the private feedback store, kept only while a confirmation awaits curator review
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  expiresAt?: Date; // Unconfirmed attempts are purged after this
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MatchCandidateSchema = new Schema<MatchCandidate>(
+  {
+    artworkId: { type: Schema.Types.ObjectId, ref: 'Artwork', required: true },
+    score: { type: Number, required: true },
+    view: { type: String }
+  },
+  { _id: false }
+);
+
+const VisitorMatchSchema = new Schema<IVisitorMatch>(
+  {
+    museumId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Museum',
+      required: true,
+      index: true
+    },
+    embedding: {
+      type: [Number],
+      required: true
+    },
+    embeddingModel: {
+      type: String
+    },
+    candidates: {
+      type: [MatchCandidateSchema],
+      default: []
+    },
+    confident: {
+      type: Boolean,
+      default: false
+    },
+    status: {
+      type: String,
+      enum: VISITOR_MATCH_STATUSES,
+      default: 'unconfirmed',
+      index: true
+    },
+    confirmedArtworkId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Artwork',
+      index: true
+    },
+    confirmedScore: {
+      type: Number
+    },
+    confirmedAt: {
+      type: Date
+    },
+    photoFile: {
+      type: String
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reviewedAt: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Purge attempts nobody confirmed; confirmed ones clear expiresAt and are kept
+VisitorMatchSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const VisitorMatch = mongoose.model<IVisitorMatch>('VisitorMatch', VisitorMatchSchema);
@@ -1,19 +1,36 @@
 import { Router, Request, Response } from 'express';
+import mongoose from 'mongoose';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { connectToDatabase } from '../utils/db';
-import { Artwork } from '../models/Artwork';
+import { Artwork, ArtworkDocument, REFERENCE_VIEW_LABELS, ReferenceViewLabel } from '../models/Artwork';
 import { Museum } from '../models/Museum';
 import { recognizeArtworkFromImage } from '../services/vision';
-import { fetchFromWikipedia } from '../services/resources';
-import { synthesizeWithElevenLabs, generateMultiLanguageAudio } from '../services/tts';
+import { narrationVoice, synthesizeNarration } from '../services/tts';
+import { ttsProviders } from '../services/tts-providers';
+import { releaseAudioFiles } from '../services/audio-cache';
 import { translateDescription } from '../services/translation';
-import { generateImageEmbedding } from '../services/clip';
+import { translationProviders } from '../services/translation-providers';
+import { parseGlossary } from '../services/glossary';
+import { museumLanguages, normalizeLanguageCode, parseLanguageList } from '../services/languages';
+import { generateImageEmbedding, DEFAULT_EMBEDDING_MODEL } from '../services/clip';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { canAccessMuseum, artworkScope } from '../services/tenancy';
+import { indexArtwork, removeArtworkFromIndex, museumEmbeddingModel } from '../services/artwork-index';
+import { searchArtworks } from '../services/search';
+import { computeImageHashes, findDuplicateArtworks, DUPLICATE_ACTIONS, DuplicateAction, ImageHashes } from '../services/duplicates';
+import { enqueueJob, reportProgress, formatJob } from '../services/jobs';
+import { progressHistory, subscribeProgress } from '../services/progress';
+import { Job } from '../models/Job';
+import { UPLOAD_ENRICHMENT_JOB, FINALIZE_JOB, DRAFT_TITLE, DRAFT_DESCRIPTION } from '../services/enrichment';
 import Logger from '../utils/logger';
 
 const router = Router();
 
+// Every admin route requires a staff session
+router.use(requireAuth);
+
 const storage = multer.diskStorage({
   destination: (_req, _file, cb) => {
     const dest = path.join(__dirname, '..', '..', 'uploads');
@@ -35,8 +52,51 @@ const upload = multer({
   }
 });
 
+// Apply the admin's answer to a duplicate warning: add the upload as a view of, or the new image for, an existing artwork
+async function applyDuplicateAction(
+  action: 'attach' | 'replace',
+  target: ArtworkDocument,
+  file: Express.Multer.File,
+  embedding: number[],
+  embeddingModel: string,
+  hashes: ImageHashes,
+  label: ReferenceViewLabel
+) {
+  const imageUrl = `/uploads/${file.filename}`;
+
+  if (action === 'attach') {
+    target.referenceImages = [
+      ...(target.referenceImages || []),
+      {
+        imageUrl,
+        label,
+        embedding: embedding.length > 0 ? embedding : undefined,
+        embeddingModel: embedding.length > 0 ? embeddingModel : undefined,
+        ...hashes
+      }
+    ];
+  } else {
+    const previousUrl = target.imageUrl;
+    target.imageUrl = imageUrl;
+    target.imageEmbedding = embedding.length > 0 ? embedding : undefined;
+    target.embeddingModel = embedding.length > 0 ? embeddingModel : undefined;
+    target.contentHash = hashes.contentHash;
+    target.perceptualHash = hashes.perceptualHash;
+
+    if (previousUrl) {
+      const previous = path.join(__dirname, '..', '..', previousUrl.replace(/^\//, ''));
+      try { fs.existsSync(previous) && fs.unlinkSync(previous); } catch { }
+    }
+  }
+
+  await target.save();
+  await indexArtwork(target);
+
+  Logger.info(`Upload ${action === 'attach' ? `attached as ${label} view of` : 'replaced image of'} artwork ${target._id}`);
+}
+
 // Upload an image and create a draft artwork record
-router.post('/upload', upload.single('image'), async (req: Request, res: Response) => {
+router.post('/upload', requirePermission('artworks:create'), upload.single('image'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
     const file = req.file;
@@ -55,95 +115,128 @@ router.post('/upload', upload.single('image'), async (req: Request, res: Respons
     }
 
     if (!museumId) {
+      try { fs.unlinkSync(file.path); } catch { }
       return res.status(400).json({ error: 'Museum ID is required' });
     }
 
+    if (!canAccessMuseum(req.user!, museumId)) {
+      try { fs.unlinkSync(file.path); } catch { }
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
     // Verify museum exists
     const museum = await Museum.findById(museumId);
     if (!museum) {
+      try { fs.unlinkSync(file.path); } catch { }
       return res.status(404).json({ error: 'Museum not found' });
     }
 
     const imageUrl = `/uploads/${file.filename}`;
     const absPath = path.join(__dirname, '..', '..', 'uploads', file.filename);
 
-    // Generate CLIP embedding for image matching
-    Logger.info('Generating CLIP embedding...');
+    const { duplicateAction, targetArtworkId, label = 'other' } = req.body as {
+      duplicateAction?: DuplicateAction;
+      targetArtworkId?: string;
+      label?: ReferenceViewLabel;
+    };
+
+    if (duplicateAction && !DUPLICATE_ACTIONS.includes(duplicateAction)) {
+      try { fs.unlinkSync(file.path); } catch { }
+      return res.status(400).json({ error: `duplicateAction must be one of: ${DUPLICATE_ACTIONS.join(', ')}` });
+    }
+
+    if (duplicateAction === 'attach' && !REFERENCE_VIEW_LABELS.includes(label)) {
+      try { fs.unlinkSync(file.path); } catch { }
+      return res.status(400).json({ error: `Label must be one of: ${REFERENCE_VIEW_LABELS.join(', ')}` });
+    }
+
+    let target: ArtworkDocument | null = null;
+    if (duplicateAction === 'attach' || duplicateAction === 'replace') {
+      target = targetArtworkId ? await Artwork.findById(targetArtworkId) : null;
+      if (!target || String(target.museumId) !== String(museum._id)) {
+        try { fs.unlinkSync(file.path); } catch { }
+        return res.status(400).json({ error: 'targetArtworkId must be an artwork in this museum' });
+      }
+    }
+
+    // Generate CLIP embedding for image matching, with the model the museum identifies with
+    const embeddingModel = museum.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+    Logger.info(`Generating CLIP embedding (${embeddingModel})...`);
     let imageEmbedding: number[] = [];
+    let embeddingError: string | null = null;
     try {
-      imageEmbedding = await generateImageEmbedding(absPath);
+      imageEmbedding = await generateImageEmbedding(absPath, embeddingModel);
       Logger.info('CLIP embedding generated successfully');
     } catch (embError) {
       Logger.warn(`CLIP embedding generation failed: ${embError}`);
+      embeddingError = String(embError);
       // Continue without embedding - visitor matching won't work but admin can still upload
     }
 
-    // Try AI recognition
-    const ai = await recognizeArtworkFromImage(absPath);
-    let wiki = null;
-    if (ai.title) {
-      wiki = await fetchFromWikipedia(`${ai.title} ${ai.author || ''}`.trim());
-    }
-
-    // Create initial artwork with basic info
-    const baseDescription = wiki?.description || ai.description || 'Artwork uploaded to museum system.';
-
-    // Auto-translate description if we have one
-    let descriptions = { en: baseDescription };
-    let audioUrls = {};
+    const hashes = await computeImageHashes(absPath);
 
-    if (baseDescription && baseDescription !== 'Set OPENAI_API_KEY to enable recognition.') {
-      Logger.info('Auto-translating initial description...');
-      try {
-        descriptions = await translateDescription(baseDescription, 'en');
-        Logger.info('Translations completed');
-      } catch (error) {
-        Logger.warn(`Translation failed, using English only: ${error}`);
-        descriptions = { en: baseDescription, fr: baseDescription, es: baseDescription } as any;
-      }
+    if (target) {
+      await applyDuplicateAction(duplicateAction as 'attach' | 'replace', target, file, imageEmbedding, embeddingModel, hashes, label);
+      return res.json({
+        id: target._id,
+        imageUrl,
+        duplicateAction,
+        title: target.title,
+        views: serializeViews(target)
+      });
+    }
 
-      // Try audio generation but don't fail the upload if it doesn't work
-      Logger.info('Attempting audio generation...');
-      try {
-        audioUrls = await generateMultiLanguageAudio(descriptions);
-        Logger.info('Audio files generated');
-      } catch (ttsError) {
-        Logger.warn(`Audio generation failed (upload will continue without audio): ${ttsError}`);
-        // Continue without audio - upload will still succeed
+    // Check for duplicates before spending money on vision, translation and TTS
+    if (duplicateAction !== 'create') {
+      const duplicates = await findDuplicateArtworks(museum._id, hashes, imageEmbedding, embeddingModel);
+      if (duplicates.length > 0) {
+        try { fs.unlinkSync(file.path); } catch { }
+        Logger.info(`Upload looks like ${duplicates.length} existing artwork(s), asking admin how to proceed`);
+        return res.status(409).json({
+          error: 'This image looks like an artwork already in this museum',
+          duplicates,
+          actions: DUPLICATE_ACTIONS
+        });
       }
     }
 
+    // Save a draft right away; recognition, Wikipedia, translation and audio run as a background job
     const doc = await Artwork.create({
-      title: ai.title || 'Unlabeled Artwork',
-      author: ai.author,
-      year: ai.year,
-      style: ai.style,
-      description: baseDescription,
+      title: DRAFT_TITLE,
+      description: DRAFT_DESCRIPTION,
       museumId: museum._id,
       imageEmbedding: imageEmbedding.length > 0 ? imageEmbedding : undefined,
-      descriptions,
-      imageUrl,
-      sources: wiki?.sources,
-      audioUrls: Object.keys(audioUrls).length > 0 ? audioUrls : undefined
+      embeddingModel: imageEmbedding.length > 0 ? embeddingModel : undefined,
+      ...hashes,
+      imageUrl
     });
 
-    res.json({
+    await indexArtwork(doc);
+
+    const job = await enqueueJob(UPLOAD_ENRICHMENT_JOB, {
+      artworkId: doc._id,
+      museumId: museum._id,
+      createdBy: req.user!._id
+    });
+
+    // Stages that already ran in this request, so the live checklist starts complete up to here
+    if (embeddingError) {
+      reportProgress(job, 'embedding', 'warning', `Embedding failed, visitors cannot match this artwork yet: ${embeddingError}`, { status: 'failed' });
+    } else {
+      reportProgress(job, 'embedding', 'success', `Embedded with ${embeddingModel} (${imageEmbedding.length} dimensions)`, { status: 'completed' });
+    }
+    reportProgress(
+      job,
+      'duplicates',
+      'success',
+      duplicateAction === 'create' ? 'Created anyway after duplicate warning' : 'No duplicates found',
+      { status: 'completed' }
+    );
+
+    res.status(202).json({
       id: doc._id,
       imageUrl,
-      ai,
-      wiki,
-      autoTranslated: Object.keys(descriptions).length > 1,
-      audioGenerated: Object.keys(audioUrls),
-      descriptions: {
-        english: (descriptions as any).en || baseDescription,
-        french: (descriptions as any).fr || (descriptions as any).en || baseDescription,
-        spanish: (descriptions as any).es || (descriptions as any).en || baseDescription
-      },
-      audioUrls: {
-        english: (audioUrls as any).en || undefined,
-        french: (audioUrls as any).fr || undefined,
-        spanish: (audioUrls as any).es || undefined
-      }
+      jobId: job._id
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Unknown error';
@@ -154,85 +247,99 @@ router.post('/upload', upload.single('image'), async (req: Request, res: Respons
   }
 });
 
-// Save finalized metadata for an artwork
-router.post('/:id/finalize', async (req: Request, res: Response) => {
+// Stream an artwork's processing progress as Server-Sent Events (optionally for one job)
+router.get('/:id/progress', requirePermission('artworks:create'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
-    const { id } = req.params;
-    const { title, author, year, style, description, sources, sourceLanguage = 'en' } = req.body || {};
+    const { jobId } = req.query as { jobId?: string };
 
-    if (!description) {
-      return res.status(400).json({ error: 'Description is required for translation and audio generation' });
+    const doc = await Artwork.findById(req.params.id).select('museumId');
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    if (!canAccessMuseum(req.user!, doc.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
     }
 
-    Logger.info(`Auto-translating description from ${sourceLanguage} to all languages...`);
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
 
-    // ALWAYS translate to all 3 languages automatically
-    const descriptions = await translateDescription(description, sourceLanguage);
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
 
-    Logger.info(`Translations completed: ${JSON.stringify({
-      en: descriptions.en?.substring(0, 50) + '...',
-      fr: descriptions.fr?.substring(0, 50) + '...',
-      es: descriptions.es?.substring(0, 50) + '...'
-    })}`);
+    // Current step states first, then the recent log, then live events
+    const job = jobId
+      ? await Job.findOne({ _id: jobId, artworkId: doc._id })
+      : await Job.findOne({ artworkId: doc._id }).sort({ createdAt: -1 });
+    if (job) send('snapshot', formatJob(job));
+
+    const matches = (event: { jobId?: string }) => !jobId || event.jobId === jobId;
+    progressHistory(doc._id).filter(matches).forEach(event => send('progress', event));
 
-    Logger.info('Generating audio in all 3 languages...');
+    const unsubscribe = subscribeProgress(doc._id, event => {
+      if (matches(event)) send('progress', event);
+    });
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    Logger.error(`Progress stream error: ${message}`);
+    if (!res.headersSent) res.status(500).json({ error: message });
+  }
+});
+
+// Save finalized metadata for an artwork
+router.post('/:id/finalize', requirePermission('artworks:create'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+    const { id } = req.params;
+    const { title, author, year, style, description, sources } = req.body || {};
+
+    if (!description) {
+      return res.status(400).json({ error: 'Description is required for translation and audio generation' });
+    }
 
-    // ALWAYS generate audio in all 3 languages automatically
-    const audioUrls = await generateMultiLanguageAudio(descriptions);
+    // Check tenancy before queueing the (slow, paid) translation and TTS steps
+    const existing = await Artwork.findById(id);
+    if (!existing) return res.status(404).json({ error: 'Not found' });
+    if (!canAccessMuseum(req.user!, existing.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
 
-    Logger.info(`Audio generation completed: ${JSON.stringify(Object.keys(audioUrls))}`);
+    // The description may be written in any of the museum's languages; it defaults to the first
+    const languages = museumLanguages(existing.museumId ? await Museum.findById(existing.museumId) : null);
+    const sourceLanguage = req.body?.sourceLanguage ? normalizeLanguageCode(req.body.sourceLanguage) : languages[0];
+    if (!sourceLanguage || !languages.includes(sourceLanguage)) {
+      return res.status(400).json({ error: `sourceLanguage must be one of: ${languages.join(', ')}` });
+    }
 
+    // Metadata is saved now; translation and audio follow in a background job
     const updated = await Artwork.findByIdAndUpdate(
       id,
-      {
-        title,
-        author,
-        year,
-        style,
-        description: descriptions[sourceLanguage as keyof typeof descriptions], // Use translated version as main description
-        descriptions, // Store all translations
-        sources,
-        audioUrls // Store all audio files
-      },
+      { title, author, year, style, description, sources },
       { new: true }
     );
-
     if (!updated) return res.status(404).json({ error: 'Not found' });
 
-    res.json({
+    const job = await enqueueJob(FINALIZE_JOB, {
+      artworkId: updated._id,
+      museumId: updated.museumId,
+      payload: { description, sourceLanguage },
+      createdBy: req.user!._id
+    });
+
+    res.status(202).json({
       id: updated._id,
       title: updated.title,
-      author: updated.author,
-      year: updated.year,
-      style: updated.style,
       imageUrl: updated.imageUrl,
-
-      // All translations
-      descriptions: {
-        english: descriptions.en,
-        french: descriptions.fr,
-        spanish: descriptions.es
-      },
-
-      // All audio files
-      audioUrls: {
-        english: audioUrls.en,
-        french: audioUrls.fr,
-        spanish: audioUrls.es
-      },
-
-      sources: updated.sources,
-
-      // Summary
-      translationsGenerated: ['English', 'French', 'Spanish'],
-      audioFilesGenerated: Object.keys(audioUrls).map(lang => {
-        const langNames = { en: 'English', fr: 'French', es: 'Spanish' };
-        return langNames[lang as keyof typeof langNames];
-      }),
-
-      createdAt: updated.createdAt,
-      updatedAt: updated.updatedAt
+      jobId: job._id
     });
 
   } catch (err: unknown) {
@@ -243,23 +350,44 @@ router.post('/:id/finalize', async (req: Request, res: Response) => {
 });
 
 // Test translation endpoint
-router.post('/test-translation', async (req: Request, res: Response) => {
+router.post('/test-translation', requirePermission('translations:edit'), async (req: Request, res: Response) => {
   try {
-    const { text, sourceLanguage = 'en' } = req.body;
+    const { text, sourceLanguage = 'en', languages, provider, glossary } = req.body;
 
     if (!text) {
       return res.status(400).json({ error: 'Text is required' });
     }
+    if (!normalizeLanguageCode(sourceLanguage)) {
+      return res.status(400).json({ error: 'sourceLanguage must be a language code' });
+    }
+    const parsed = languages === undefined ? {} : parseLanguageList(languages);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    if (provider !== undefined && !translationProviders().some(p => p.key === provider)) {
+      return res.status(400).json({ error: `Unknown translation provider: ${provider}` });
+    }
+    const parsedGlossary = glossary === undefined ? {} : parseGlossary(glossary);
+    if (parsedGlossary.error) {
+      return res.status(400).json({ error: parsedGlossary.error });
+    }
 
     Logger.info(`Testing translation of: "${text}"`);
 
-    const translations = await translateDescription(text, sourceLanguage);
+    const result = await translateDescription(text, normalizeLanguageCode(sourceLanguage)!, parsed.languages, {
+      provider,
+      glossary: parsedGlossary.glossary
+    });
 
     res.json({
       original: text,
       sourceLanguage,
-      translations,
-      success: true
+      provider: result.provider,
+      translations: result.descriptions,
+      records: result.translations,
+      failed: result.failed,
+      success: result.failed.length === 0
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -267,30 +395,57 @@ router.post('/test-translation', async (req: Request, res: Response) => {
   }
 });
 
-// Test ElevenLabs TTS endpoint
-router.post('/test-tts', async (req: Request, res: Response) => {
+// Test TTS endpoint
+router.post('/test-tts', requirePermission('artworks:create'), async (req: Request, res: Response) => {
   try {
-    const { text = "Hello, this is a test of the text to speech system.", language = 'en' } = req.body;
+    const { text = "Hello, this is a test of the text to speech system.", language = 'en', provider, voice, museumId } = req.body;
+
+    if (!normalizeLanguageCode(language)) {
+      return res.status(400).json({ error: 'language must be a language code' });
+    }
+    if (provider !== undefined && !ttsProviders().some(p => p.key === provider)) {
+      return res.status(400).json({ error: `Unknown TTS provider: ${provider}` });
+    }
+    if (voice !== undefined && typeof voice !== 'string') {
+      return res.status(400).json({ error: 'voice must be text' });
+    }
+    if (museumId !== undefined && !mongoose.isValidObjectId(museumId)) {
+      return res.status(400).json({ error: 'Invalid museumId' });
+    }
+    if (museumId !== undefined && !canAccessMuseum(req.user!, museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    // With a museum, its voice and pronunciation lexicon apply unless provider/voice are given
+    if (museumId) await connectToDatabase();
+    const museum = museumId ? await Museum.findById(museumId).select('ttsProvider narrationVoices pronunciations') : null;
+    const narrator = museum ? narrationVoice(museum, normalizeLanguageCode(language)!) : null;
 
     Logger.info(`Testing TTS for language: ${language}`);
     Logger.info(`Text: ${text}`);
 
-    const audioUrl = await synthesizeWithElevenLabs({
-      text,
-      language: language as 'en' | 'fr' | 'es'
-    });
-
-    if (audioUrl) {
+    try {
+      const narration = await synthesizeNarration({
+        text,
+        language: normalizeLanguageCode(language)!,
+        provider: provider || narrator?.provider,
+        voice: voice || (!provider ? narrator?.voice : undefined),
+        pronunciations: museum?.pronunciations
+      });
       res.json({
         success: true,
-        audioUrl,
+        audioUrl: narration.url,
+        audio: narration.record,
+        cached: narration.cached,
         language,
         message: `Audio generated successfully in ${language}`
       });
-    } else {
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      Logger.warn(`TTS test failed: ${message}`);
       res.json({
         success: false,
-        message: 'TTS failed - check your ElevenLabs API key and console logs'
+        message: `TTS failed: ${message}`
       });
     }
   } catch (error) {
@@ -301,7 +456,7 @@ router.post('/test-tts', async (req: Request, res: Response) => {
 });
 
 // Test AI Vision Recognition
-router.post('/test-vision', upload.single('image'), async (req: Request, res: Response) => {
+router.post('/test-vision', requirePermission('artworks:create'), upload.single('image'), async (req: Request, res: Response) => {
   try {
     const file = req.file;
     if (!file) {
@@ -329,7 +484,7 @@ router.post('/test-vision', upload.single('image'), async (req: Request, res: Re
 });
 
 // Test Hugging Face API specifically
-router.post('/test-huggingface', upload.single('image'), async (req: Request, res: Response) => {
+router.post('/test-huggingface', requirePermission('artworks:create'), upload.single('image'), async (req: Request, res: Response) => {
   try {
     const file = req.file;
     if (!file) {
@@ -358,31 +513,195 @@ router.post('/test-huggingface', upload.single('image'), async (req: Request, re
   }
 });
 
+// Search artworks across every museum the caller can access (or one, with ?museumId=)
+router.get('/search', requirePermission('artworks:read'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { q, museumId, limit } = req.query as { q?: string; museumId?: string; limit?: string };
+
+    const query = (q || '').trim();
+    if (!query) {
+      return res.status(400).json({ error: 'Search query (q) is required' });
+    }
+
+    if (museumId && !canAccessMuseum(req.user!, museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    const hits = await searchArtworks(query, {
+      scope: museumId ? { museumId } : artworkScope(req.user!),
+      museumId,
+      limit: Math.min(Number(limit) || 20, 100)
+    });
+
+    res.json({
+      success: true,
+      query,
+      count: hits.length,
+      results: hits.map(({ artwork, score, semanticScore, keywordScore, matchedFields }) => ({
+        id: artwork._id,
+        museumId: artwork.museumId,
+        title: artwork.title,
+        author: artwork.author,
+        year: artwork.year,
+        style: artwork.style,
+        imageUrl: artwork.imageUrl,
+        relevance: Math.round(score * 100),
+        semanticScore: Math.round(semanticScore * 1000) / 1000,
+        keywordScore: Math.round(keywordScore * 100) / 100,
+        matchedFields
+      }))
+    });
+  } catch (error: any) {
+    Logger.error(`Error searching artworks: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Public shape of an artwork's views (embeddings stay server-side)
+function serializeViews(doc: Pick<ArtworkDocument, 'imageUrl' | 'imageEmbedding' | 'referenceImages'>) {
+  return [
+    ...(doc.imageUrl ? [{
+      id: 'primary',
+      label: 'primary',
+      imageUrl: doc.imageUrl,
+      hasEmbedding: !!doc.imageEmbedding?.length,
+      removable: false
+    }] : []),
+    ...(doc.referenceImages || []).map(ref => ({
+      id: ref._id,
+      label: ref.label,
+      imageUrl: ref.imageUrl,
+      hasEmbedding: !!ref.embedding?.length,
+      removable: true,
+      createdAt: ref.createdAt
+    }))
+  ];
+}
+
+// List the reference views an artwork is matched against
+router.get('/:id/views', requirePermission('artworks:read'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+    const doc = await Artwork.findById(req.params.id);
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    if (!canAccessMuseum(req.user!, doc.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    res.json({ success: true, labels: REFERENCE_VIEW_LABELS, views: serializeViews(doc) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    res.status(500).json({ error: message });
+  }
+});
+
+// Add a reference view (side, detail, framed...) to an existing artwork
+router.post('/:id/views', requirePermission('artworks:create'), upload.single('image'), async (req: Request, res: Response) => {
+  const file = req.file;
+  try {
+    await connectToDatabase();
+    const label = (req.body?.label || 'other') as ReferenceViewLabel;
+
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    if (!REFERENCE_VIEW_LABELS.includes(label)) {
+      fs.unlinkSync(file.path);
+      return res.status(400).json({ error: `Label must be one of: ${REFERENCE_VIEW_LABELS.join(', ')}` });
+    }
+
+    const doc = await Artwork.findById(req.params.id);
+    if (!doc || !canAccessMuseum(req.user!, doc.museumId)) {
+      fs.unlinkSync(file.path);
+      return doc
+        ? res.status(403).json({ error: 'You do not have access to this museum' })
+        : res.status(404).json({ error: 'Not found' });
+    }
+
+    // Without an embedding the view is useless for matching, so fail loudly here
+    const embeddingModel = await museumEmbeddingModel(doc.museumId);
+    const embedding = await generateImageEmbedding(file.path, embeddingModel);
+    const hashes = await computeImageHashes(file.path);
+
+    doc.referenceImages = [
+      ...(doc.referenceImages || []),
+      { imageUrl: `/uploads/${file.filename}`, label, embedding, embeddingModel, ...hashes }
+    ];
+    await doc.save();
+    await indexArtwork(doc);
+
+    Logger.info(`Reference view (${label}) added to artwork ${doc._id}`);
+
+    res.status(201).json({ success: true, views: serializeViews(doc) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    Logger.error(`Add reference view error: ${message}`);
+    if (file) {
+      try { fs.existsSync(file.path) && fs.unlinkSync(file.path); } catch { }
+    }
+    res.status(500).json({ error: message });
+  }
+});
+
+// Remove a reference view
+router.delete('/:id/views/:viewId', requirePermission('artworks:create'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+    const { id, viewId } = req.params;
+    const doc = await Artwork.findById(id);
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    if (!canAccessMuseum(req.user!, doc.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    const view = doc.referenceImages?.find(ref => String(ref._id) === viewId);
+    if (!view) return res.status(404).json({ error: 'View not found' });
+
+    doc.referenceImages = doc.referenceImages!.filter(ref => String(ref._id) !== viewId);
+    await doc.save();
+    await indexArtwork(doc);
+
+    // Best-effort delete file
+    const file = path.join(__dirname, '..', '..', view.imageUrl.replace(/^\//, ''));
+    try { fs.existsSync(file) && fs.unlinkSync(file); } catch { }
+
+    res.json({ success: true, views: serializeViews(doc) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    res.status(500).json({ error: message });
+  }
+});
+
 // Delete an artwork and its associated files
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('artworks:delete'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
     const { id } = req.params;
     const doc = await Artwork.findById(id);
     if (!doc) return res.status(404).json({ error: 'Not found' });
+    if (!canAccessMuseum(req.user!, doc.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
 
-    // Collect files to remove
+    // Collect files to remove; narrations may be shared with other artworks, so they are released instead
     const files: string[] = [];
     if (doc.imageUrl) files.push(path.join(__dirname, '..', '..', doc.imageUrl.replace(/^\//, '')));
-    if (doc.audioUrl) files.push(path.join(__dirname, '..', '..', doc.audioUrl.replace(/^\//, '')));
-    if (doc.audioUrls) {
-      for (const url of Object.values(doc.audioUrls)) {
-        if (url) files.push(path.join(__dirname, '..', '..', url.replace(/^\//, '')));
-      }
+    for (const ref of doc.referenceImages || []) {
+      files.push(path.join(__dirname, '..', '..', ref.imageUrl.replace(/^\//, '')));
     }
 
     // Delete DB document
     await Artwork.findByIdAndDelete(id);
+    await removeArtworkFromIndex(doc.museumId, doc._id);
 
     // Best-effort delete files
     for (const file of files) {
       try { fs.existsSync(file) && fs.unlinkSync(file); } catch { }
     }
+    await releaseAudioFiles([doc.audioUrl, ...Object.values(doc.audioUrls || {})]);
 
     res.json({ success: true });
   } catch (err: unknown) {
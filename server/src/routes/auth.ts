@@ -0,0 +1,236 @@
+import { Router, Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { User, STAFF_ROLES, StaffRole } from '../models/User';
+import { Museum } from '../models/Museum';
+import { connectToDatabase } from '../utils/db';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import {
+  login,
+  revokeSession,
+  revokeUserSessions,
+  hashPassword,
+  serializeUser
+} from '../services/auth';
+import Logger from '../utils/logger';
+
+const router = Router();
+
+const MIN_PASSWORD_LENGTH = 10;
+
+// Validate a museumIds payload; returns an error message or null
+async function validateMuseumIds(museumIds: unknown): Promise<string | null> {
+  if (!Array.isArray(museumIds)) {
+    return 'museumIds must be an array';
+  }
+
+  if (!museumIds.every(id => mongoose.isValidObjectId(id))) {
+    return 'museumIds contains an invalid id';
+  }
+
+  const found = await Museum.countDocuments({ _id: { $in: museumIds } });
+  if (found !== new Set(museumIds.map(String)).size) {
+    return 'museumIds references a museum that does not exist';
+  }
+
+  return null;
+}
+
+// POST /api/auth/login - Exchange email/password for a bearer token
+router.post('/login', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { email, password } = req.body || {};
+
+    if (!email || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Email and password must be strings' });
+    }
+
+    const result = await login(email, password);
+
+    if (!result) {
+      Logger.warn(`Failed login attempt for ${email}`);
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    Logger.info(`Staff login: ${result.user.email} (${result.user.role})`);
+
+    res.json({
+      success: true,
+      token: result.token,
+      expiresAt: result.expiresAt,
+      user: serializeUser(result.user)
+    });
+  } catch (error: any) {
+    Logger.error(`Login error: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/auth/logout - Revoke the current session
+router.post('/logout', requireAuth, async (req: Request, res: Response) => {
+  try {
+    await revokeSession(req.authToken!);
+    res.json({ success: true });
+  } catch (error: any) {
+    Logger.error(`Logout error: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/auth/me - Current staff user and permissions
+router.get('/me', requireAuth, (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    user: serializeUser(req.user!)
+  });
+});
+
+// GET /api/auth/users - List staff accounts
+router.get('/users', requireAuth, requirePermission('users:manage'), async (_req: Request, res: Response) => {
+  try {
+    const users = await User.find().sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: users.length,
+      users: users.map(serializeUser)
+    });
+  } catch (error: any) {
+    Logger.error(`Error fetching users: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/auth/users - Create a staff account
+router.post('/users', requireAuth, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const { email, name, password, role, museumIds = [] } = req.body || {};
+
+    if (!email || !password || !role) {
+      return res.status(400).json({ error: 'Email, password and role are required' });
+    }
+
+    const museumError = await validateMuseumIds(museumIds);
+    if (museumError) {
+      return res.status(400).json({ error: museumError });
+    }
+
+    if (!STAFF_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${STAFF_ROLES.join(', ')}` });
+    }
+
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const existing = await User.findOne({ email: String(email).toLowerCase().trim() });
+    if (existing) {
+      return res.status(409).json({ error: 'A user with this email already exists' });
+    }
+
+    const user = await User.create({
+      email,
+      name,
+      role: role as StaffRole,
+      museumIds,
+      passwordHash: await hashPassword(password)
+    });
+
+    Logger.info(`Staff user created: ${user.email} (${user.role}) by ${req.user!.email}`);
+
+    res.status(201).json({
+      success: true,
+      user: serializeUser(user)
+    });
+  } catch (error: any) {
+    Logger.error(`Error creating user: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/auth/users/:id - Update role, museums, name, active flag or password
+router.put('/users/:id', requireAuth, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const { name, role, active, password, museumIds } = req.body || {};
+
+    if (museumIds !== undefined) {
+      const museumError = await validateMuseumIds(museumIds);
+      if (museumError) {
+        return res.status(400).json({ error: museumError });
+      }
+    }
+
+    if (role !== undefined && !STAFF_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${STAFF_ROLES.join(', ')}` });
+    }
+
+    if (password !== undefined && String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      {
+        ...(name !== undefined && { name }),
+        ...(role !== undefined && { role }),
+        ...(museumIds !== undefined && { museumIds }),
+        ...(active !== undefined && { active: !!active }),
+        ...(password !== undefined && { passwordHash: await hashPassword(password) })
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Changing credentials or access level invalidates existing sessions
+    if (role !== undefined || museumIds !== undefined || active === false || password !== undefined) {
+      await revokeUserSessions(String(user._id));
+    }
+
+    Logger.info(`Staff user updated: ${user.email} by ${req.user!.email}`);
+
+    res.json({
+      success: true,
+      user: serializeUser(user)
+    });
+  } catch (error: any) {
+    Logger.error(`Error updating user: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/auth/users/:id - Remove a staff account
+router.delete('/users/:id', requireAuth, requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    if (String(req.user!._id) === req.params.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    const user = await User.findByIdAndDelete(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await revokeUserSessions(String(user._id));
+
+    Logger.info(`Staff user deleted: ${user.email} by ${req.user!.email}`);
+
+    res.json({
+      success: true,
+      message: 'User deleted successfully'
+    });
+  } catch (error: any) {
+    Logger.error(`Error deleting user: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,226 @@
+import { Router, Request, Response } from 'express';
+import { Museum } from '../models/Museum';
+import { ReembedJob, IReembedJob } from '../models/ReembedJob';
+import { connectToDatabase } from '../utils/db';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { canAccessMuseum, hasGlobalAccess, accessibleMuseumIds, museumScope } from '../services/tenancy';
+import { EMBEDDING_MODELS, DEFAULT_EMBEDDING_MODEL, isEmbeddingModel } from '../services/clip';
+import {
+  startReembedJob,
+  pauseReembedJob,
+  resumeReembedJob,
+  cancelReembedJob,
+  findConflictingJob,
+  cutOverMuseum,
+  CutoverResult
+} from '../services/reembed';
+import Logger from '../utils/logger';
+
+const router = Router();
+
+// Changing the matching model is a museum setting
+router.use(requireAuth, requirePermission('museums:update'));
+
+function formatJob(job: IReembedJob) {
+  return {
+    id: job._id,
+    museumId: job.museumId || null,
+    targetModel: job.targetModel,
+    status: job.status,
+    total: job.total,
+    processed: job.processed,
+    failed: job.failed,
+    percent: job.total > 0 ? Math.min(100, Math.round((job.processed / job.total) * 100)) : 0,
+    failures: job.failures,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    createdAt: job.createdAt
+  };
+}
+
+// Whole-database jobs are for global admins; museum jobs for that museum's staff
+function canManageJob(req: Request, job: IReembedJob): boolean {
+  return job.museumId ? canAccessMuseum(req.user!, job.museumId) : hasGlobalAccess(req.user!);
+}
+
+// GET /api/admin/embeddings/models - Available models and what each museum uses
+router.get('/models', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const museums = await Museum.find(museumScope(req.user!)).select('name embeddingModel').sort({ name: 1 });
+
+    res.json({
+      success: true,
+      defaultModel: DEFAULT_EMBEDDING_MODEL,
+      models: EMBEDDING_MODELS,
+      museums: museums.map(m => ({ id: m._id, name: m.name, embeddingModel: m.embeddingModel || DEFAULT_EMBEDDING_MODEL }))
+    });
+  } catch (error: any) {
+    Logger.error(`Error fetching embedding models: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/admin/embeddings/jobs - Recent re-embedding jobs
+router.get('/jobs', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { museumId } = req.query as { museumId?: string };
+    if (museumId && !canAccessMuseum(req.user!, museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    const filter: Record<string, unknown> = {};
+    if (museumId) {
+      filter.museumId = museumId;
+    } else if (!hasGlobalAccess(req.user!)) {
+      filter.museumId = { $in: accessibleMuseumIds(req.user!) };
+    }
+
+    const jobs = await ReembedJob.find(filter).sort({ createdAt: -1 }).limit(20);
+    res.json({ success: true, jobs: jobs.map(formatJob) });
+  } catch (error: any) {
+    Logger.error(`Error fetching re-embed jobs: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/admin/embeddings/jobs - Re-embed a museum, or every museum when museumId is omitted
+router.post('/jobs', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { museumId, model } = req.body as { museumId?: string; model?: string };
+
+    if (!isEmbeddingModel(model)) {
+      return res.status(400).json({ error: `Model must be one of: ${EMBEDDING_MODELS.map(m => m.key).join(', ')}` });
+    }
+
+    if (museumId) {
+      if (!canAccessMuseum(req.user!, museumId)) {
+        return res.status(403).json({ error: 'You do not have access to this museum' });
+      }
+      if (!(await Museum.exists({ _id: museumId }))) {
+        return res.status(404).json({ error: 'Museum not found' });
+      }
+    } else if (!hasGlobalAccess(req.user!)) {
+      return res.status(403).json({ error: 'Only global admins can re-embed the whole database' });
+    }
+
+    const conflict = await findConflictingJob(museumId);
+    if (conflict) {
+      return res.status(409).json({ error: 'A re-embedding job for these artworks is already in progress', job: formatJob(conflict) });
+    }
+
+    const job = await startReembedJob(model, museumId, req.user!);
+    res.status(202).json({ success: true, job: formatJob(job) });
+  } catch (error: any) {
+    Logger.error(`Error starting re-embed job: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/admin/embeddings/jobs/:id - Job progress
+router.get('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const job = await ReembedJob.findById(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (!canManageJob(req, job)) {
+      return res.status(403).json({ error: 'You do not have access to this job' });
+    }
+
+    res.json({ success: true, job: formatJob(job) });
+  } catch (error: any) {
+    Logger.error(`Error fetching re-embed job: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Which statuses each control action applies to
+const JOB_ACTIONS = {
+  pause: { from: ['queued', 'running'], run: pauseReembedJob },
+  resume: { from: ['paused', 'failed'], run: resumeReembedJob },
+  cancel: { from: ['queued', 'running', 'paused', 'failed'], run: cancelReembedJob }
+} as const;
+
+// POST /api/admin/embeddings/jobs/:id/(pause|resume|cancel)
+router.post('/jobs/:id/:action', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const action = JOB_ACTIONS[req.params.action as keyof typeof JOB_ACTIONS];
+    if (!action) {
+      return res.status(404).json({ error: 'Unknown action' });
+    }
+
+    const job = await ReembedJob.findById(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (!canManageJob(req, job)) {
+      return res.status(403).json({ error: 'You do not have access to this job' });
+    }
+    if (!(action.from as readonly string[]).includes(job.status)) {
+      return res.status(409).json({ error: `Cannot ${req.params.action} a job that is ${job.status}` });
+    }
+
+    const updated = await action.run(job);
+    res.json({ success: true, job: formatJob(updated) });
+  } catch (error: any) {
+    Logger.error(`Error updating re-embed job: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/admin/embeddings/cutover - Switch a museum (or every museum) to the re-embedded vectors
+router.post('/cutover', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { museumId, model, force = false } = req.body as { museumId?: string; model?: string; force?: boolean };
+
+    if (!isEmbeddingModel(model)) {
+      return res.status(400).json({ error: `Model must be one of: ${EMBEDDING_MODELS.map(m => m.key).join(', ')}` });
+    }
+
+    if (museumId ? !canAccessMuseum(req.user!, museumId) : !hasGlobalAccess(req.user!)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    const conflict = await findConflictingJob(museumId);
+    if (conflict) {
+      return res.status(409).json({ error: 'Finish or cancel the running re-embedding job first', job: formatJob(conflict) });
+    }
+
+    const museums = museumId ? await Museum.find({ _id: museumId }) : await Museum.find();
+    if (museumId && museums.length === 0) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    const results: Array<CutoverResult & { museumId: unknown; name: string }> = [];
+    for (const museum of museums) {
+      results.push({ museumId: museum._id, name: museum.name, ...(await cutOverMuseum(museum, model, force)) });
+    }
+
+    const blocked = results.filter(r => !r.switched);
+    if (blocked.length > 0) {
+      return res.status(409).json({
+        error: 'Some artworks have no vectors for the new model yet; re-run the job or force the cut-over',
+        results
+      });
+    }
+
+    res.json({ success: true, results });
+  } catch (error: any) {
+    Logger.error(`Error cutting over embedding model: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,153 @@
+import { Router, Request, Response } from 'express';
+import { VisitorMatch, VISITOR_MATCH_STATUSES, VisitorMatchStatus } from '../models/VisitorMatch';
+import { Artwork } from '../models/Artwork';
+import { connectToDatabase } from '../utils/db';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { canAccessMuseum, hasGlobalAccess, accessibleMuseumIds } from '../services/tenancy';
+import fs from 'fs';
+import { approveFeedback, feedbackPhotoPath, rejectFeedback } from '../services/feedback';
+import Logger from '../utils/logger';
+
+const router = Router();
+
+// Reviewing visitor feedback is curator work
+router.use(requireAuth, requirePermission('artworks:create'));
+
+// GET /api/admin/feedback - Visitor confirmations, defaults to the review queue
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { museumId, status = 'pending-review' } = req.query as { museumId?: string; status?: string };
+
+    if (!VISITOR_MATCH_STATUSES.includes(status as VisitorMatchStatus)) {
+      return res.status(400).json({ error: `Status must be one of: ${VISITOR_MATCH_STATUSES.join(', ')}` });
+    }
+
+    if (museumId && !canAccessMuseum(req.user!, museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    const filter: Record<string, unknown> = { status };
+    if (museumId) {
+      filter.museumId = museumId;
+    } else if (!hasGlobalAccess(req.user!)) {
+      filter.museumId = { $in: accessibleMuseumIds(req.user!) };
+    }
+
+    const items = await VisitorMatch.find(filter)
+      .select('-embedding')
+      .populate('confirmedArtworkId', 'title author imageUrl')
+      .populate('candidates.artworkId', 'title imageUrl')
+      .sort({ confirmedAt: -1 })
+      .limit(100);
+
+    res.json({
+      success: true,
+      count: items.length,
+      items: items.map(item => ({
+        id: item._id,
+        museumId: item.museumId,
+        status: item.status,
+        // Served to staff only, through GET /:id/photo
+        photoUrl: item.photoFile ? `/api/admin/feedback/${item._id}/photo` : undefined,
+        confident: item.confident,
+        confirmedScore: item.confirmedScore !== undefined ? Math.round(item.confirmedScore * 100) : null,
+        confirmedAt: item.confirmedAt,
+        confirmedArtwork: item.confirmedArtworkId,
+        suggested: item.candidates.map(c => ({ artwork: c.artworkId, score: Math.round(c.score * 100), view: c.view }))
+      }))
+    });
+  } catch (error: any) {
+    Logger.error(`Error fetching visitor feedback: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/admin/feedback/:id/photo - The visitor photo awaiting review
+router.get('/:id/photo', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const attempt = await VisitorMatch.findById(req.params.id).select('museumId photoFile');
+    if (!attempt) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+
+    if (!canAccessMuseum(req.user!, attempt.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    const file = feedbackPhotoPath(attempt);
+    if (!file || !fs.existsSync(file)) {
+      return res.status(404).json({ error: 'This confirmation has no photo' });
+    }
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.sendFile(file);
+  } catch (error: any) {
+    Logger.error(`Error sending visitor feedback photo: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/admin/feedback/:id/approve - Add the visitor photo as a reference view
+router.post('/:id/approve', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const attempt = await VisitorMatch.findById(req.params.id);
+    if (!attempt) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+
+    if (!canAccessMuseum(req.user!, attempt.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    if (attempt.status !== 'pending-review' || !attempt.photoFile) {
+      return res.status(409).json({ error: 'Only feedback awaiting review can be approved' });
+    }
+
+    const artwork = await Artwork.findById(attempt.confirmedArtworkId);
+    if (!artwork) {
+      return res.status(404).json({ error: 'Confirmed artwork no longer exists' });
+    }
+
+    await approveFeedback(attempt, artwork, req.user!);
+
+    res.json({ success: true, status: attempt.status });
+  } catch (error: any) {
+    Logger.error(`Error approving visitor feedback: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/admin/feedback/:id/reject - Discard the visitor photo
+router.post('/:id/reject', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const attempt = await VisitorMatch.findById(req.params.id);
+    if (!attempt) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+
+    if (!canAccessMuseum(req.user!, attempt.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    if (attempt.status !== 'pending-review') {
+      return res.status(409).json({ error: 'Only feedback awaiting review can be rejected' });
+    }
+
+    await rejectFeedback(attempt, req.user!);
+
+    res.json({ success: true, status: attempt.status });
+  } catch (error: any) {
+    Logger.error(`Error rejecting visitor feedback: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
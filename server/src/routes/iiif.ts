@@ -0,0 +1,151 @@
+import { Router, Request, Response } from 'express';
+import mongoose from 'mongoose';
+import fs from 'fs';
+import { connectToDatabase } from '../utils/db';
+import { Artwork } from '../models/Artwork';
+import { Museum } from '../models/Museum';
+import {
+  imageDimensions,
+  imageInfo,
+  parseImageRequest,
+  renderImage,
+  ImageRequestError,
+  IMAGE_FORMATS,
+  IMAGE_PROFILE
+} from '../services/iiif-image';
+import {
+  artworkManifest,
+  museumCollection,
+  publicImages,
+  imageFilePath,
+  imageServiceId,
+  PRESENTATION_CONTEXT
+} from '../services/iiif-presentation';
+import Logger from '../utils/logger';
+
+// Public like the artwork images themselves, so IIIF viewers (Mirador, Universal Viewer) can load them
+const router = Router();
+
+const CACHE_CONTROL = 'public, max-age=86400';
+
+function baseUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+// Image file behind an Image API identifier (<artworkId> or <artworkId>-<viewId>), if it may be published
+async function resolveImage(identifier: string): Promise<string | null> {
+  const [artworkId] = identifier.split('-');
+  if (!mongoose.isValidObjectId(artworkId)) return null;
+
+  await connectToDatabase();
+  const artwork = await Artwork.findById(artworkId).select('imageUrl referenceImages._id referenceImages.imageUrl referenceImages.label');
+  if (!artwork) return null;
+
+  const image = publicImages(artwork).find(i => i.identifier === identifier);
+  if (!image) return null;
+
+  const filePath = imageFilePath(image.imageUrl);
+  return filePath && fs.existsSync(filePath) ? filePath : null;
+}
+
+// JSON-LD with the context's media type, as the specs recommend
+function sendJsonLd(res: Response, body: object, context: string) {
+  res.setHeader('Content-Type', `application/ld+json;profile="${context}"`);
+  res.setHeader('Cache-Control', CACHE_CONTROL);
+  res.send(JSON.stringify(body));
+}
+
+// GET /api/iiif/image/:identifier - Redirect to info.json
+router.get('/image/:identifier', (req: Request, res: Response) => {
+  res.redirect(303, `${imageServiceId(baseUrl(req), req.params.identifier)}/info.json`);
+});
+
+// GET /api/iiif/image/:identifier/info.json - Image API 3.0 image information
+router.get('/image/:identifier/info.json', async (req: Request, res: Response) => {
+  try {
+    const filePath = await resolveImage(req.params.identifier);
+    if (!filePath) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    const info = imageInfo(imageServiceId(baseUrl(req), req.params.identifier), await imageDimensions(filePath));
+    sendJsonLd(res, info, 'http://iiif.io/api/image/3/context.json');
+  } catch (error: any) {
+    Logger.error(`Error building IIIF image info: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/iiif/image/:identifier/:region/:size/:rotation/:quality.:format - Image API 3.0 image request
+router.get('/image/:identifier/:region/:size/:rotation/:qualityFormat', async (req: Request, res: Response) => {
+  try {
+    const filePath = await resolveImage(req.params.identifier);
+    if (!filePath) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    const { region, size, rotation, qualityFormat } = req.params;
+    const request = parseImageRequest({ region, size, rotation, qualityFormat }, await imageDimensions(filePath));
+    const image = await renderImage(filePath, request);
+
+    res.setHeader('Content-Type', IMAGE_FORMATS[request.format].mimeType);
+    res.setHeader('Link', `<http://iiif.io/api/image/3/${IMAGE_PROFILE}.json>;rel="profile"`);
+    res.setHeader('Cache-Control', CACHE_CONTROL);
+    res.send(image);
+  } catch (error: any) {
+    if (error instanceof ImageRequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    Logger.error(`Error rendering IIIF image: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/iiif/artworks/:id/manifest - Presentation 3.0 manifest of an artwork
+router.get('/artworks/:id/manifest', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Artwork not found' });
+    }
+
+    const artwork = await Artwork.findById(req.params.id).select('-imageEmbedding -referenceImages.embedding -stagedEmbeddings');
+    if (!artwork) {
+      return res.status(404).json({ error: 'Artwork not found' });
+    }
+
+    const museum = artwork.museumId ? await Museum.findById(artwork.museumId) : null;
+    sendJsonLd(res, await artworkManifest(artwork, museum, baseUrl(req)), PRESENTATION_CONTEXT);
+  } catch (error: any) {
+    Logger.error(`Error building IIIF manifest: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/iiif/museums/:id/collection - Presentation 3.0 collection of a museum's artworks
+router.get('/museums/:id/collection', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    const museum = await Museum.findById(req.params.id);
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    const artworks = await Artwork.find({ museumId: museum._id })
+      .select('title imageUrl referenceImages._id referenceImages.imageUrl referenceImages.label')
+      .sort({ createdAt: 1 });
+
+    sendJsonLd(res, museumCollection(museum, artworks, baseUrl(req)), PRESENTATION_CONTEXT);
+  } catch (error: any) {
+    Logger.error(`Error building IIIF collection: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import os from 'os';
+import fs from 'fs';
+import { Museum, IMuseum } from '../models/Museum';
+import { connectToDatabase } from '../utils/db';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { canAccessMuseum } from '../services/tenancy';
+import { hasPermission } from '../services/auth';
+import { MAX_ARCHIVE_BYTES, MAX_MANIFEST_BYTES } from '../services/bulk-import';
+import { isCollectionArchive } from '../services/collection-archive';
+import { enqueueArchiveImport } from '../services/archive-import';
+import { museumLanguages, normalizeLanguageCode } from '../services/languages';
+import Logger from '../utils/logger';
+
+const router = Router();
+
+// Bulk import creates artworks just like single uploads
+router.use(requireAuth, requirePermission('artworks:create'));
+
+// Uploads land in the temp dir; an accepted archive is moved aside for its import job
+const upload = multer({ dest: os.tmpdir(), limits: { fileSize: MAX_ARCHIVE_BYTES } });
+
+// The archive and manifest uploads, answering 413 rather than a bare 500 when one is too large
+function receiveFiles(req: Request, res: Response, next: NextFunction) {
+  upload.fields([{ name: 'archive', maxCount: 1 }, { name: 'manifest', maxCount: 1 }])(req, res, error => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ error: `Uploads are limited to ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB; split the collection into several archives` });
+    }
+    next(error);
+  });
+}
+
+// POST /api/admin/import - Import a ZIP of images with an optional CSV/JSON manifest into a museum,
+// or restore a collection archive from GET /api/museums/:id/export?format=archive.
+// The archive is imported by a background job: answers 202 with its jobId; the per-row report is the
+// result of the job's `import` step, and each created artwork gets its own enrichment job (jobId per row).
+router.post(
+  '/',
+  receiveFiles,
+  async (req: Request, res: Response) => {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const archive = files?.archive?.[0];
+    const manifest = files?.manifest?.[0];
+
+    try {
+      await connectToDatabase();
+
+      const { museumId, sourceLanguage } = req.body as { museumId?: string; sourceLanguage?: string };
+
+      if (!archive) {
+        return res.status(400).json({ error: 'A ZIP archive is required' });
+      }
+      if (!/\.zip$/i.test(archive.originalname)) {
+        return res.status(400).json({ error: 'The archive must be a .zip file' });
+      }
+      if (manifest && !/\.(csv|json)$/i.test(manifest.originalname)) {
+        return res.status(400).json({ error: 'The manifest must be a .csv or .json file' });
+      }
+      if (manifest && manifest.size > MAX_MANIFEST_BYTES) {
+        return res.status(413).json({ error: `The manifest may be at most ${MAX_MANIFEST_BYTES / 1024 / 1024} MB` });
+      }
+
+      // A collection archive without a target museum recreates the museum it came from
+      const restoring = await isCollectionArchive(archive.path);
+      if (!museumId && !restoring) {
+        return res.status(400).json({ error: 'Museum ID is required' });
+      }
+      if (!museumId && !hasPermission(req.user!.role, 'museums:create')) {
+        return res.status(403).json({ error: 'Choose a museum to restore into; creating one requires museums:create' });
+      }
+      if (museumId && !canAccessMuseum(req.user!, museumId)) {
+        return res.status(403).json({ error: 'You do not have access to this museum' });
+      }
+
+      let museum: IMuseum | null = null;
+      if (museumId) {
+        museum = await Museum.findById(museumId);
+        if (!museum) {
+          return res.status(404).json({ error: 'Museum not found' });
+        }
+      }
+
+      // Manifest descriptions are written in one of the museum's languages (restores keep theirs)
+      const languages = museumLanguages(museum);
+      const language = sourceLanguage ? normalizeLanguageCode(sourceLanguage) : languages[0];
+      if (!restoring && (!language || !languages.includes(language))) {
+        return res.status(400).json({ error: `sourceLanguage must be one of: ${languages.join(', ')}` });
+      }
+
+      // The job takes the files over; they are no longer cleaned up below
+      const job = await enqueueArchiveImport(archive, manifest, {
+        museumId,
+        restoring,
+        sourceLanguage: restoring ? undefined : language,
+        createdBy: req.user!._id
+      });
+
+      res.status(202).json({ success: true, jobId: job._id, restoring });
+    } catch (error: any) {
+      Logger.error(`Error importing archive: ${error}`);
+      res.status(500).json({ error: error.message });
+    } finally {
+      for (const file of [archive, manifest]) {
+        if (file) try { fs.unlinkSync(file.path); } catch { }
+      }
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,103 @@
+import { Router, Request, Response } from 'express';
+import { Job, JOB_STATUSES, JobStatus } from '../models/Job';
+import { Artwork } from '../models/Artwork';
+import { connectToDatabase } from '../utils/db';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { canAccessMuseum, hasGlobalAccess, accessibleMuseumIds } from '../services/tenancy';
+import { retryJob, formatJob } from '../services/jobs';
+import { isSupersededUpload } from '../services/enrichment';
+import Logger from '../utils/logger';
+
+const router = Router();
+
+// Enrichment jobs belong to the upload workflow
+router.use(requireAuth, requirePermission('artworks:create'));
+
+// GET /api/admin/jobs - Recent jobs, newest first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { museumId, artworkId, status } = req.query as { museumId?: string; artworkId?: string; status?: string };
+
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      return res.status(400).json({ error: `Status must be one of: ${JOB_STATUSES.join(', ')}` });
+    }
+    if (museumId && !canAccessMuseum(req.user!, museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    const filter: Record<string, unknown> = {};
+    if (status) filter.status = status;
+    if (artworkId) filter.artworkId = artworkId;
+    if (museumId) {
+      filter.museumId = museumId;
+    } else if (!hasGlobalAccess(req.user!)) {
+      filter.museumId = { $in: accessibleMuseumIds(req.user!) };
+    }
+
+    const jobs = await Job.find(filter).sort({ createdAt: -1 }).limit(50);
+    res.json({ success: true, jobs: jobs.map(formatJob) });
+  } catch (error: any) {
+    Logger.error(`Error fetching jobs: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/admin/jobs/:id - Job progress with the artwork as enriched so far
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const job = await Job.findById(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (job.museumId && !canAccessMuseum(req.user!, job.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    const artwork = job.artworkId
+      ? await Artwork.findById(job.artworkId).select('title author year style description descriptions translations narrations audioUrls audio imageUrl sources')
+      : null;
+
+    res.json({ success: true, job: formatJob(job), artwork });
+  } catch (error: any) {
+    Logger.error(`Error fetching job: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/admin/jobs/:id/retry - Re-run failed steps (all, or the one named in `step`)
+router.post('/:id/retry', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const job = await Job.findById(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (job.museumId && !canAccessMuseum(req.user!, job.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+    if (job.status === 'running' || job.status === 'queued') {
+      return res.status(409).json({ error: 'Job is still in progress' });
+    }
+    // Re-running recognition or Wikipedia would overwrite the curator's finalized metadata
+    if (await isSupersededUpload(job)) {
+      return res.status(409).json({ error: 'The artwork was finalized; its upload enrichment can no longer be re-run' });
+    }
+
+    const requeued = await retryJob(job, req.body?.step);
+    if (!requeued) {
+      return res.status(409).json({ error: 'No failed steps to re-run' });
+    }
+
+    res.json({ success: true, job: formatJob(requeued) });
+  } catch (error: any) {
+    Logger.error(`Error retrying job: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,12 +1,29 @@
 import { Router, Request, Response } from 'express';
-import { Museum } from '../models/Museum';
+import mongoose from 'mongoose';
+import { Museum, IMuseum } from '../models/Museum';
 import { Artwork } from '../models/Artwork';
+import { User } from '../models/User';
 import { connectToDatabase } from '../utils/db';
 import QRCode from 'qrcode';
 import Logger from '../utils/logger';
+import { requireAuth, requirePermission, requireMuseumAccess } from '../middleware/auth';
+import { museumScope, canAccessMuseum } from '../services/tenancy';
+import { dropMuseumIndex } from '../services/artwork-index';
+import { matchingSettings, calibrateMuseum, DEFAULT_MATCHING, MIN_CALIBRATION_SAMPLES } from '../services/confidence';
+import { EXPORT_FORMATS, ExportFormat, collectionToCsv, collectionToJson } from '../services/collection-export';
+import { buildCollectionArchive } from '../services/collection-archive';
+import { museumLanguages, parseLanguageList } from '../services/languages';
+import { defaultTranslationProvider, translationProviders } from '../services/translation-providers';
+import { artworkGlossaryViolations, parseGlossary } from '../services/glossary';
+import { defaultTtsProvider, ttsProviders } from '../services/tts-providers';
+import { parseNarrationVoices } from '../services/tts';
+import { parsePronunciations } from '../services/pronunciation';
 
 const router = Router();
 
+// Museum management is staff-only and scoped to the caller's museums; visitors use /api/visit
+router.use(requireAuth);
+
 // Helper to generate QR code slug from museum name
 function generateQRCode(name: string, location: string): string {
   const slug = `${name}-${location}`
@@ -19,12 +36,80 @@ function generateQRCode(name: string, location: string): string {
   return `${slug}-${timestamp}`;
 }
 
+// Partner museums must exist and cannot include the museum itself
+async function validatePartnerIds(museumId: string, partnerIds: unknown): Promise<string | null> {
+  if (!Array.isArray(partnerIds)) {
+    return 'partnerMuseumIds must be an array';
+  }
+
+  if (!partnerIds.every(id => mongoose.isValidObjectId(id))) {
+    return 'partnerMuseumIds contains an invalid id';
+  }
+
+  if (partnerIds.some(id => String(id) === museumId)) {
+    return 'A museum cannot be its own partner';
+  }
+
+  const found = await Museum.countDocuments({ _id: { $in: partnerIds } });
+  if (found !== new Set(partnerIds.map(String)).size) {
+    return 'partnerMuseumIds references a museum that does not exist';
+  }
+
+  return null;
+}
+
+// A museum's translation provider must be registered; null or '' goes back to the default, undefined leaves it
+function validateTranslationProvider(provider: unknown): string | null {
+  if (provider === undefined || provider === null || provider === '') return null;
+  if (typeof provider !== 'string' || !translationProviders().some(p => p.key === provider)) {
+    return `translationProvider must be one of: ${translationProviders().map(p => p.key).join(', ')}`;
+  }
+  return null;
+}
+
+// Same for the museum's TTS provider
+function validateTtsProvider(provider: unknown): string | null {
+  if (provider === undefined || provider === null || provider === '') return null;
+  if (typeof provider !== 'string' || !ttsProviders().some(p => p.key === provider)) {
+    return `ttsProvider must be one of: ${ttsProviders().map(p => p.key).join(', ')}`;
+  }
+  return null;
+}
+
+// GET /api/museums/translation-providers - Providers a museum can translate with
+router.get('/translation-providers', requirePermission('museums:read'), (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    defaultProvider: defaultTranslationProvider(),
+    providers: translationProviders().map(provider => ({
+      key: provider.key,
+      label: provider.label,
+      available: !provider.unavailableReason(),
+      unavailableReason: provider.unavailableReason()
+    }))
+  });
+});
+
+// GET /api/museums/tts-providers - Providers a museum can narrate with
+router.get('/tts-providers', requirePermission('museums:read'), (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    defaultProvider: defaultTtsProvider(),
+    providers: ttsProviders().map(provider => ({
+      key: provider.key,
+      label: provider.label,
+      available: !provider.unavailableReason(),
+      unavailableReason: provider.unavailableReason()
+    }))
+  });
+});
+
 // GET /api/museums - List all museums
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requirePermission('museums:read'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
 
-    const museums = await Museum.find().sort({ createdAt: -1 });
+    const museums = await Museum.find(museumScope(req.user!)).sort({ createdAt: -1 });
 
     res.json({
       success: true,
@@ -38,7 +123,7 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // GET /api/museums/:id - Get specific museum
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('museums:read'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
 
@@ -65,16 +150,31 @@ router.get('/:id', async (req: Request, res: Response) => {
 });
 
 // POST /api/museums - Create new museum
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('museums:create'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
 
-    const { name, location, website, description } = req.body;
+    const { name, location, website, description, languages, translationProvider, approvedTranslationsOnly, ttsProvider, narrationVoices } = req.body;
 
     if (!name || !location) {
       return res.status(400).json({ error: 'Name and location are required' });
     }
 
+    const providerError = validateTranslationProvider(translationProvider) || validateTtsProvider(ttsProvider);
+    if (providerError) {
+      return res.status(400).json({ error: providerError });
+    }
+
+    const parsedVoices = narrationVoices !== undefined && narrationVoices !== null ? parseNarrationVoices(narrationVoices) : {};
+    if (parsedVoices.error) {
+      return res.status(400).json({ error: parsedVoices.error });
+    }
+
+    const parsedLanguages = languages !== undefined ? parseLanguageList(languages) : {};
+    if (parsedLanguages.error) {
+      return res.status(400).json({ error: parsedLanguages.error });
+    }
+
     // Generate unique QR code
     const qrCode = generateQRCode(name, location);
 
@@ -89,7 +189,12 @@ router.post('/', async (req: Request, res: Response) => {
       location,
       qrCode,
       website,
-      description
+      description,
+      languages: parsedLanguages.languages,
+      translationProvider: translationProvider || undefined,
+      approvedTranslationsOnly: approvedTranslationsOnly === true || undefined,
+      ttsProvider: ttsProvider || undefined,
+      narrationVoices: parsedVoices.voices
     });
 
     Logger.info(`Museum created: ${museum.name} (QR: ${museum.qrCode})`);
@@ -105,11 +210,53 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // PUT /api/museums/:id - Update museum
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('museums:update'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
 
-    const { name, location, website, description } = req.body;
+    const { name, location, website, description, partnerMuseumIds, languages, translationProvider, approvedTranslationsOnly, ttsProvider, narrationVoices } = req.body;
+
+    if (partnerMuseumIds !== undefined) {
+      const partnerError = await validatePartnerIds(req.params.id, partnerMuseumIds);
+      if (partnerError) {
+        return res.status(400).json({ error: partnerError });
+      }
+
+      // Linking a museum shares its artworks in "related" results, so new partners must be
+      // museums the caller also administers; partners linked earlier may stay
+      const current = await Museum.findById(req.params.id).select('partnerMuseumIds');
+      const linked = new Set((current?.partnerMuseumIds || []).map(String));
+      const foreign = partnerMuseumIds.filter((id: unknown) => !linked.has(String(id)) && !canAccessMuseum(req.user!, id));
+      if (foreign.length > 0) {
+        return res.status(403).json({ error: `No access to partner museum ${foreign.join(', ')}` });
+      }
+    }
+
+    const providerError = validateTranslationProvider(translationProvider) || validateTtsProvider(ttsProvider);
+    if (providerError) {
+      return res.status(400).json({ error: providerError });
+    }
+
+    const parsedVoices = narrationVoices !== undefined && narrationVoices !== null ? parseNarrationVoices(narrationVoices) : {};
+    if (parsedVoices.error) {
+      return res.status(400).json({ error: parsedVoices.error });
+    }
+
+    if (approvedTranslationsOnly !== undefined && typeof approvedTranslationsOnly !== 'boolean') {
+      return res.status(400).json({ error: 'approvedTranslationsOnly must be true or false' });
+    }
+
+    // Languages are validated here; translation, narration and the visitor app follow the list
+    const parsedLanguages = languages !== undefined ? parseLanguageList(languages) : {};
+    if (parsedLanguages.error) {
+      return res.status(400).json({ error: parsedLanguages.error });
+    }
+
+    // '' or null puts a provider back to the server default
+    const unset = {
+      ...(translationProvider !== undefined && !translationProvider && { translationProvider: 1 }),
+      ...(ttsProvider !== undefined && !ttsProvider && { ttsProvider: 1 })
+    };
 
     const museum = await Museum.findByIdAndUpdate(
       req.params.id,
@@ -117,7 +264,14 @@ router.put('/:id', async (req: Request, res: Response) => {
         ...(name && { name }),
         ...(location && { location }),
         ...(website !== undefined && { website }),
-        ...(description !== undefined && { description })
+        ...(description !== undefined && { description }),
+        ...(partnerMuseumIds !== undefined && { partnerMuseumIds }),
+        ...(parsedLanguages.languages && { languages: parsedLanguages.languages }),
+        ...(approvedTranslationsOnly !== undefined && { approvedTranslationsOnly }),
+        ...(narrationVoices !== undefined && { narrationVoices: parsedVoices.voices || {} }),
+        ...(Object.keys(unset).length > 0 && { $unset: unset }),
+        ...(translationProvider && { translationProvider }),
+        ...(ttsProvider && { ttsProvider })
       },
       { new: true, runValidators: true }
     );
@@ -139,7 +293,7 @@ router.put('/:id', async (req: Request, res: Response) => {
 });
 
 // DELETE /api/museums/:id - Delete museum
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('museums:delete'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
 
@@ -159,6 +313,11 @@ router.delete('/:id', async (req: Request, res: Response) => {
     }
 
     await Museum.findByIdAndDelete(req.params.id);
+    dropMuseumIndex(museum._id);
+
+    // Unbind staff accounts and partnerships from the deleted museum
+    await User.updateMany({ museumIds: museum._id }, { $pull: { museumIds: museum._id } });
+    await Museum.updateMany({ partnerMuseumIds: museum._id }, { $pull: { partnerMuseumIds: museum._id } });
 
     Logger.info(`Museum deleted: ${museum.name}`);
 
@@ -173,7 +332,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
 });
 
 // GET /api/museums/:id/qr - Generate QR code image
-router.get('/:id/qr', async (req: Request, res: Response) => {
+router.get('/:id/qr', requirePermission('museums:read'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
 
@@ -214,7 +373,7 @@ router.get('/:id/qr', async (req: Request, res: Response) => {
 });
 
 // GET /api/museums/:id/artworks - Get all artworks for a museum
-router.get('/:id/artworks', async (req: Request, res: Response) => {
+router.get('/:id/artworks', requirePermission('artworks:read'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
 
@@ -224,7 +383,9 @@ router.get('/:id/artworks', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Museum not found' });
     }
 
-    const artworks = await Artwork.find({ museumId: museum._id }).sort({ createdAt: -1 });
+    const artworks = await Artwork.find({ museumId: museum._id })
+      .select('-imageEmbedding -referenceImages.embedding')
+      .sort({ createdAt: -1 });
 
     res.json({
       success: true,
@@ -241,4 +402,323 @@ router.get('/:id/artworks', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/museums/:id/export?format=csv|json|archive - Download the whole collection
+router.get('/:id/export', requirePermission('artworks:read'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const format = ((req.query.format as string) || 'json') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const museum = await Museum.findById(req.params.id);
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    // Only the archive carries vectors; CSV/JSON stay readable
+    const artworks = await Artwork.find({ museumId: museum._id })
+      .select(format === 'archive' ? '-stagedEmbeddings' : '-imageEmbedding -referenceImages.embedding -stagedEmbeddings')
+      .sort({ createdAt: 1 });
+
+    const baseName = `${museum.qrCode}-${new Date().toISOString().slice(0, 10)}`;
+    // The dashboard downloads cross-origin and reads the file name and missing-file count
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition, X-Missing-Files');
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    Logger.info(`Exporting ${artworks.length} artworks of ${museum.name} as ${format}`);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}.csv"`);
+      // BOM so spreadsheet apps read the translations as UTF-8
+      return res.send(`\uFEFF${collectionToCsv(artworks, baseUrl, museumLanguages(museum))}`);
+    }
+
+    if (format === 'json') {
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}.json"`);
+      return res.json(collectionToJson(museum, artworks, baseUrl));
+    }
+
+    const { archive, missingFiles } = buildCollectionArchive(museum, artworks);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}.zip"`);
+    res.setHeader('X-Missing-Files', String(missingFiles.length));
+    // Headers are gone by the time a file fails to read, so the download is cut off instead
+    archive.on('error', error => {
+      Logger.error(`Error streaming archive of museum ${museum._id}: ${error}`);
+      res.destroy(error);
+    });
+    // A client that goes away stops the reading of further files
+    res.on('close', () => {
+      if (!res.writableFinished) archive.abort();
+    });
+    archive.pipe(res);
+    await archive.finalize();
+  } catch (error: any) {
+    Logger.error(`Error exporting museum: ${error}`);
+    if (res.headersSent) return res.destroy();
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Matching settings as stored plus the effective values after defaults
+function formatMatching(museum: IMuseum) {
+  return {
+    ...matchingSettings(museum),
+    calibratedAt: museum.matching?.calibratedAt || null,
+    calibrationSamples: museum.matching?.calibrationSamples || 0,
+    defaults: DEFAULT_MATCHING
+  };
+}
+
+// GET /api/museums/:id/matching - Visitor identification thresholds
+router.get('/:id/matching', requirePermission('museums:read'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const museum = await Museum.findById(req.params.id);
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    res.json({
+      success: true,
+      matching: formatMatching(museum)
+    });
+  } catch (error: any) {
+    Logger.error(`Error fetching matching settings: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/museums/:id/matching - Set thresholds by hand (null resets a field to the default)
+router.put('/:id/matching', requirePermission('museums:update'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const museum = await Museum.findById(req.params.id);
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    // Hand-set values replace any previous calibration
+    const current = museum.matching;
+    const matching: IMuseum['matching'] = {
+      minScore: current?.minScore,
+      confidentScore: current?.confidentScore,
+      minMargin: current?.minMargin
+    };
+    for (const field of ['minScore', 'confidentScore', 'minMargin'] as const) {
+      const value = req.body?.[field];
+      if (value === undefined) continue;
+      if (value === null) {
+        delete matching[field];
+        continue;
+      }
+      if (typeof value !== 'number' || value < 0 || value > 1) {
+        return res.status(400).json({ error: `${field} must be a number between 0 and 1` });
+      }
+      matching[field] = value;
+    }
+
+    const effective = matchingSettings({ matching });
+    if (effective.minScore > effective.confidentScore) {
+      return res.status(400).json({ error: 'minScore cannot be above confidentScore' });
+    }
+
+    museum.matching = matching;
+    await museum.save();
+
+    Logger.info(`Matching settings updated for ${museum.name}: ${JSON.stringify(effective)}`);
+
+    res.json({
+      success: true,
+      matching: formatMatching(museum)
+    });
+  } catch (error: any) {
+    Logger.error(`Error updating matching settings: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/museums/:id/matching/calibrate - Derive thresholds from confirmed visitor matches
+router.post('/:id/matching/calibrate', requirePermission('museums:update'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const museum = await Museum.findById(req.params.id);
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    const result = await calibrateMuseum(museum);
+
+    if (!result) {
+      return res.status(400).json({
+        error: `Calibration needs at least ${MIN_CALIBRATION_SAMPLES} confirmed visitor matches`
+      });
+    }
+
+    res.json({
+      success: true,
+      matching: formatMatching(museum),
+      calibration: {
+        samples: result.samples,
+        precision: Math.round(result.precision * 100),
+        coverage: Math.round(result.coverage * 100)
+      }
+    });
+  } catch (error: any) {
+    Logger.error(`Error calibrating matching settings: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/museums/:id/glossary - Terms translations must respect
+router.get('/:id/glossary', requirePermission('museums:read'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const museum = await Museum.findById(req.params.id).select('name languages glossary');
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    res.json({
+      success: true,
+      languages: museumLanguages(museum),
+      glossary: museum.glossary || []
+    });
+  } catch (error: any) {
+    Logger.error(`Error fetching glossary: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/museums/:id/glossary - Replace the glossary; applies to translations made from now on
+router.put('/:id/glossary', requirePermission('translations:edit'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const parsed = parseGlossary(req.body?.glossary);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const museum = await Museum.findByIdAndUpdate(
+      req.params.id,
+      { glossary: parsed.glossary },
+      { new: true, runValidators: true }
+    );
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    Logger.info(`Glossary updated for ${museum.name}: ${parsed.glossary!.length} terms`);
+
+    res.json({
+      success: true,
+      languages: museumLanguages(museum),
+      glossary: museum.glossary || []
+    });
+  } catch (error: any) {
+    Logger.error(`Error updating glossary: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/museums/:id/glossary/violations - Machine translations that break the current glossary
+router.get('/:id/glossary/violations', requirePermission('museums:read'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const museum = await Museum.findById(req.params.id).select('glossary');
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    const artworks = await Artwork.find({ museumId: museum._id, translations: { $exists: true } })
+      .select('title descriptions translations');
+    const violations = artworks
+      .map(artwork => ({
+        artworkId: String(artwork._id),
+        title: artwork.title,
+        languages: artworkGlossaryViolations(artwork, museum.glossary)
+      }))
+      .filter(entry => Object.keys(entry.languages).length > 0);
+
+    res.json({
+      success: true,
+      checked: artworks.length,
+      count: violations.length,
+      violations
+    });
+  } catch (error: any) {
+    Logger.error(`Error checking glossary: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/museums/:id/pronunciations - How narration should say names and terms
+router.get('/:id/pronunciations', requirePermission('museums:read'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const museum = await Museum.findById(req.params.id).select('name languages pronunciations');
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    res.json({
+      success: true,
+      languages: museumLanguages(museum),
+      pronunciations: museum.pronunciations || []
+    });
+  } catch (error: any) {
+    Logger.error(`Error fetching pronunciations: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/museums/:id/pronunciations - Replace the lexicon; narrations using a changed term are redone at the next finalize
+router.put('/:id/pronunciations', requirePermission('translations:edit'), requireMuseumAccess('id'), async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const parsed = parsePronunciations(req.body?.pronunciations);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const museum = await Museum.findByIdAndUpdate(
+      req.params.id,
+      { pronunciations: parsed.pronunciations },
+      { new: true, runValidators: true }
+    );
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    Logger.info(`Pronunciation lexicon updated for ${museum.name}: ${parsed.pronunciations!.length} terms`);
+
+    res.json({
+      success: true,
+      pronunciations: museum.pronunciations || []
+    });
+  } catch (error: any) {
+    Logger.error(`Error updating pronunciations: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
@@ -1,15 +1,35 @@
 import { Router, Request, Response } from 'express';
 import { connectToDatabase } from '../utils/db';
 import { Artwork } from '../models/Artwork';
+import { Museum } from '../models/Museum';
 import { getDescriptionByLanguage } from '../services/translation';
+import { localizedValue, museumLanguages, resolveLanguage } from '../services/languages';
+import { descriptionStatus, publishedValues } from '../services/translation-review';
+import { optionalAuth } from '../middleware/auth';
+import { artworkScope, canAccessMuseum } from '../services/tenancy';
 
 const router = Router();
 
-router.get('/artworks', async (_req: Request, res: Response) => {
+// Anonymous visitors see everything public; signed-in staff are scoped to their museums
+router.use(optionalAuth);
+
+router.get('/artworks', async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
-    const items = await Artwork.find().sort({ createdAt: -1 }).limit(100);
-    res.json(items);
+    const items = await Artwork.find(req.user ? artworkScope(req.user) : {}).sort({ createdAt: -1 }).limit(100);
+    if (req.user) return res.json(items);
+
+    // Visitors get only the translations each museum publishes
+    const museums = await Museum.find({ _id: { $in: items.map(item => item.museumId) } }).select('approvedTranslationsOnly');
+    const museumsById = new Map(museums.map(museum => [String(museum._id), museum]));
+    res.json(items.map(item => {
+      const museum = museumsById.get(String(item.museumId));
+      return {
+        ...item.toObject(),
+        descriptions: publishedValues(item.descriptions, item, museum),
+        audioUrls: publishedValues(item.audioUrls, item, museum)
+      };
+    }));
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Unknown error';
     res.status(500).json({ error: message });
@@ -19,26 +39,29 @@ router.get('/artworks', async (_req: Request, res: Response) => {
 router.get('/artworks/:id', async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
-    const { lang = 'en' } = req.query;
-    const language = ['en', 'fr', 'es'].includes(lang as string) ? (lang as 'en' | 'fr' | 'es') : 'en';
-    
     const item = await Artwork.findById(req.params.id);
     if (!item) return res.status(404).json({ error: 'Not found' });
-    
-    // Get language-specific content
-    const localizedDescription = getDescriptionByLanguage(item, language);
-    const localizedAudioUrl = item.audioUrls?.[language] || item.audioUrl;
+    if (req.user && !canAccessMuseum(req.user, item.museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    // The requested language if the museum offers it, otherwise the museum's default
+    const museum = item.museumId ? await Museum.findById(item.museumId).select('languages approvedTranslationsOnly') : null;
+    const languages = museumLanguages(museum);
+    const language = resolveLanguage(req.query.lang, languages);
+
+    // Get language-specific content, leaving out translations the museum has not published
+    const published = { descriptions: publishedValues(item.descriptions, item, museum), description: item.description };
+    const localizedDescription = getDescriptionByLanguage(published, language, languages);
+    const localizedAudioUrl = localizedValue(publishedValues(item.audioUrls, item, museum), language, languages) || item.audioUrl;
     
     res.json({
       ...item.toObject(),
       currentLanguage: language,
       localizedDescription,
       localizedAudioUrl,
-      availableLanguages: {
-        en: !!item.descriptions?.en,
-        fr: !!item.descriptions?.fr,
-        es: !!item.descriptions?.es
-      }
+      translationStatus: descriptionStatus(item, [language, ...languages].find(code => published.descriptions[code]) || ''),
+      availableLanguages: Object.fromEntries(languages.map(code => [code, !!published.descriptions[code]]))
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Unknown error';
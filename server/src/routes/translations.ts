@@ -0,0 +1,383 @@
+import { Router, Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Artwork, ArtworkDocument, TranslationRecord, TRANSLATION_STATUSES, TranslationStatus } from '../models/Artwork';
+import { Museum, IMuseum } from '../models/Museum';
+import { connectToDatabase } from '../utils/db';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../services/auth';
+import { canAccessMuseum, hasGlobalAccess, accessibleMuseumIds } from '../services/tenancy';
+import { LanguageCode, museumLanguages, normalizeLanguageCode } from '../services/languages';
+import { checkGlossary } from '../services/glossary';
+import { translateDescription } from '../services/translation';
+import { descriptionSourceLanguage, descriptionStatus } from '../services/translation-review';
+import { descriptionHash, writeNarrationScript } from '../services/narration-script';
+import Logger from '../utils/logger';
+
+const router = Router();
+
+// Reviewing translations is translator work; approving them also needs translations:approve
+router.use(requireAuth, requirePermission('translations:edit'));
+
+// Statuses a reviewer can set by hand; "machine" only comes from a provider
+const REVIEW_STATUSES: TranslationStatus[] = ['reviewed', 'approved'];
+
+// Artwork fields the review screen needs
+const REVIEW_FIELDS = 'title author imageUrl museumId description descriptions translations narrations narrationScripts';
+
+// One language of an artwork as the review screen shows it, glossary re-checked against the current list
+function reviewEntry(artwork: ArtworkDocument, language: LanguageCode, sourceLanguage: LanguageCode, museum: IMuseum | null) {
+  const record = artwork.translations?.[language];
+  const text = artwork.descriptions?.[language] || '';
+  const source = artwork.descriptions?.[sourceLanguage] || artwork.description || '';
+  return {
+    language,
+    text,
+    status: text ? descriptionStatus(artwork, language) : null,
+    stale: !!record?.stale,
+    provider: record?.provider || null,
+    model: record?.model || null,
+    translatedAt: record?.translatedAt || null,
+    reviewedBy: record?.reviewedBy || null,
+    reviewedAt: record?.reviewedAt || null,
+    glossaryViolations: record && text ? checkGlossary(source, text, museum?.glossary, sourceLanguage, language) : []
+  };
+}
+
+// The review screen for one artwork: its source text next to every language of the museum
+function formatReview(artwork: ArtworkDocument, museum: IMuseum | null) {
+  const languages = museumLanguages(museum);
+  const sourceLanguage = descriptionSourceLanguage(artwork, languages);
+  const others = [...languages, ...Object.keys(artwork.descriptions || {})]
+    .filter((language, index, all) => language !== sourceLanguage && all.indexOf(language) === index);
+  return {
+    artwork: { id: artwork._id, title: artwork.title, imageUrl: artwork.imageUrl, museumId: artwork.museumId },
+    sourceLanguage,
+    source: artwork.descriptions?.[sourceLanguage] || artwork.description || '',
+    translations: others.map(language => reviewEntry(artwork, language, sourceLanguage, museum)),
+    // The script the audio guide reads for each language that has a description
+    narrations: [sourceLanguage, ...others].filter(language => artwork.descriptions?.[language]).map(language => {
+      const record = artwork.narrationScripts?.[language];
+      return {
+        language,
+        text: artwork.narrations?.[language] || '',
+        origin: artwork.narrations?.[language] ? record?.origin || null : null,
+        model: record?.model || null,
+        stale: !!record?.stale,
+        editedBy: record?.editedBy || null,
+        writtenAt: record?.writtenAt || null
+      };
+    })
+  };
+}
+
+async function reviewedArtwork(req: Request, res: Response): Promise<{ artwork: ArtworkDocument; museum: IMuseum | null } | null> {
+  if (!mongoose.isValidObjectId(req.params.artworkId)) {
+    res.status(400).json({ error: 'Invalid artwork id' });
+    return null;
+  }
+  const artwork = await Artwork.findById(req.params.artworkId).select(REVIEW_FIELDS);
+  if (!artwork) {
+    res.status(404).json({ error: 'Artwork not found' });
+    return null;
+  }
+  if (!canAccessMuseum(req.user!, artwork.museumId)) {
+    res.status(403).json({ error: 'You do not have access to this museum' });
+    return null;
+  }
+  const museum = artwork.museumId ? await Museum.findById(artwork.museumId).select('languages glossary translationProvider') : null;
+  return { artwork, museum };
+}
+
+// GET /api/admin/translations - Artworks with translations to review (machine or stale), or with the given status
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { museumId, status } = req.query as { museumId?: string; status?: string };
+
+    if (status && status !== 'stale' && !TRANSLATION_STATUSES.includes(status as TranslationStatus)) {
+      return res.status(400).json({ error: `Status must be one of: ${[...TRANSLATION_STATUSES, 'stale'].join(', ')}` });
+    }
+
+    if (museumId && !canAccessMuseum(req.user!, museumId)) {
+      return res.status(403).json({ error: 'You do not have access to this museum' });
+    }
+
+    const filter: Record<string, unknown> = { translations: { $exists: true } };
+    if (museumId) {
+      filter.museumId = museumId;
+    } else if (!hasGlobalAccess(req.user!)) {
+      filter.museumId = { $in: accessibleMuseumIds(req.user!) };
+    }
+
+    const matches = (record?: TranslationRecord) => {
+      if (!record) return false;
+      if (status === 'stale') return !!record.stale;
+      if (status) return (record.status || 'machine') === status;
+      return !!record.stale || (record.status || 'machine') === 'machine';
+    };
+
+    const artworks = await Artwork.find(filter).select('title imageUrl museumId translations').sort({ updatedAt: -1 }).limit(500);
+    const items = artworks
+      .map(artwork => ({
+        id: artwork._id,
+        title: artwork.title,
+        imageUrl: artwork.imageUrl,
+        museumId: artwork.museumId,
+        languages: Object.entries(artwork.translations || {})
+          .filter(([, record]) => matches(record))
+          .map(([language, record]) => ({ language, status: record!.status || 'machine', stale: !!record!.stale }))
+      }))
+      .filter(item => item.languages.length > 0);
+
+    res.json({
+      success: true,
+      count: items.length,
+      items
+    });
+  } catch (error: any) {
+    Logger.error(`Error fetching translation review queue: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/admin/translations/:artworkId - Source text and every translation with its review state
+router.get('/:artworkId', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const found = await reviewedArtwork(req, res);
+    if (!found) return;
+
+    res.json({ success: true, ...formatReview(found.artwork, found.museum) });
+  } catch (error: any) {
+    Logger.error(`Error fetching translations: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/admin/translations/:artworkId/:language - Edit and/or review a translation,
+// or edit the source text (which marks every translation stale)
+router.put('/:artworkId/:language', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const found = await reviewedArtwork(req, res);
+    if (!found) return;
+    const { artwork, museum } = found;
+
+    const language = normalizeLanguageCode(req.params.language);
+    if (!language) {
+      return res.status(400).json({ error: 'Invalid language code' });
+    }
+
+    const { text, status = 'reviewed' } = req.body || {};
+    if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+      return res.status(400).json({ error: 'text must be non-empty' });
+    }
+
+    const sourceLanguage = descriptionSourceLanguage(artwork, museumLanguages(museum));
+    const reviewer = req.user!.name || req.user!.email;
+
+    if (language === sourceLanguage) {
+      if (text === undefined) {
+        return res.status(400).json({ error: 'text is required to edit the source description' });
+      }
+      const update: Record<string, unknown> = {
+        [`descriptions.${language}`]: text.trim(),
+        description: text.trim()
+      };
+      // Every translation was made from the old text
+      for (const other of Object.keys(artwork.translations || {})) {
+        update[`translations.${other}.stale`] = true;
+      }
+      await Artwork.updateOne({ _id: artwork._id }, { $set: update });
+      Logger.info(`Source description of ${artwork._id} edited by ${reviewer}; translations marked stale`);
+    } else {
+      if (!museumLanguages(museum).includes(language) && !artwork.descriptions?.[language]) {
+        return res.status(400).json({ error: `${language} is not one of the museum's languages` });
+      }
+      if (!REVIEW_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` });
+      }
+      if (status === 'approved' && !hasPermission(req.user!.role, 'translations:approve')) {
+        return res.status(403).json({ error: 'Missing permission: translations:approve' });
+      }
+
+      const translated = text !== undefined ? text.trim() : artwork.descriptions?.[language];
+      if (!translated) {
+        return res.status(400).json({ error: `There is no ${language} text yet; send text to write one` });
+      }
+
+      const previous = artwork.translations?.[language];
+      const source = artwork.descriptions?.[sourceLanguage] || artwork.description || '';
+      const glossaryViolations = checkGlossary(source, translated, museum?.glossary, sourceLanguage, language);
+      const record: TranslationRecord = {
+        provider: previous?.provider || 'manual',
+        ...(previous?.model && { model: previous.model }),
+        sourceLanguage,
+        translatedAt: previous?.translatedAt || new Date(),
+        ...(glossaryViolations.length > 0 && { glossaryViolations }),
+        // Reviewing against the current source clears the stale flag
+        status,
+        reviewedBy: reviewer,
+        reviewedAt: new Date()
+      };
+      await Artwork.updateOne({ _id: artwork._id }, {
+        $set: { [`descriptions.${language}`]: translated, [`translations.${language}`]: record }
+      });
+      Logger.info(`${language} translation of ${artwork._id} marked ${status} by ${reviewer}`);
+    }
+
+    const updated = await Artwork.findById(artwork._id).select(REVIEW_FIELDS);
+    res.json({ success: true, ...formatReview(updated!, museum) });
+  } catch (error: any) {
+    Logger.error(`Error saving translation: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/admin/translations/:artworkId/:language/retranslate - Machine-translate one language again from the current source
+router.post('/:artworkId/:language/retranslate', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const found = await reviewedArtwork(req, res);
+    if (!found) return;
+    const { artwork, museum } = found;
+
+    const language = normalizeLanguageCode(req.params.language);
+    const sourceLanguage = descriptionSourceLanguage(artwork, museumLanguages(museum));
+    const source = artwork.descriptions?.[sourceLanguage] || artwork.description;
+    if (!language || language === sourceLanguage) {
+      return res.status(400).json({ error: 'Choose a language other than the source' });
+    }
+    if (!source) {
+      return res.status(400).json({ error: 'The artwork has no source description' });
+    }
+
+    const result = await translateDescription(source, sourceLanguage, [language], {
+      provider: museum?.translationProvider,
+      glossary: museum?.glossary
+    });
+    if (result.failed.length > 0) {
+      return res.status(502).json({ error: `Translation to ${language} failed` });
+    }
+
+    await Artwork.updateOne({ _id: artwork._id }, {
+      $set: {
+        [`descriptions.${language}`]: result.descriptions[language],
+        [`translations.${language}`]: result.translations[language]
+      }
+    });
+
+    const updated = await Artwork.findById(artwork._id).select(REVIEW_FIELDS);
+    res.json({ success: true, ...formatReview(updated!, museum) });
+  } catch (error: any) {
+    Logger.error(`Error retranslating: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The description language a narration script is for, or null after sending the error
+function narrationLanguage(req: Request, res: Response, artwork: ArtworkDocument): LanguageCode | null {
+  const language = normalizeLanguageCode(req.params.language);
+  if (!language) {
+    res.status(400).json({ error: 'Invalid language code' });
+    return null;
+  }
+  if (!artwork.descriptions?.[language]) {
+    res.status(400).json({ error: `There is no ${language} description to narrate` });
+    return null;
+  }
+  return language;
+}
+
+// PUT /api/admin/translations/:artworkId/:language/narration - Write or edit the narration script
+// (`text`), or drop it (`text: null`) so the next finalize writes a new one. Audio follows at the next finalize.
+router.put('/:artworkId/:language/narration', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const found = await reviewedArtwork(req, res);
+    if (!found) return;
+    const { artwork, museum } = found;
+
+    const language = narrationLanguage(req, res, artwork);
+    if (!language) return;
+
+    const { text } = req.body || {};
+    if (text !== null && (typeof text !== 'string' || !text.trim())) {
+      return res.status(400).json({ error: 'text must be non-empty, or null to drop the script' });
+    }
+
+    const curator = req.user!.name || req.user!.email;
+    if (text === null) {
+      await Artwork.updateOne({ _id: artwork._id }, {
+        $unset: { [`narrations.${language}`]: 1, [`narrationScripts.${language}`]: 1 }
+      });
+      Logger.info(`${language} narration script of ${artwork._id} dropped by ${curator}`);
+    } else {
+      await Artwork.updateOne({ _id: artwork._id }, {
+        $set: {
+          [`narrations.${language}`]: text.trim(),
+          // Written against the current description, so no longer stale
+          [`narrationScripts.${language}`]: {
+            origin: 'curator',
+            descriptionHash: descriptionHash(artwork.descriptions![language]!),
+            writtenAt: new Date(),
+            editedBy: curator
+          }
+        }
+      });
+      Logger.info(`${language} narration script of ${artwork._id} edited by ${curator}`);
+    }
+
+    const updated = await Artwork.findById(artwork._id).select(REVIEW_FIELDS);
+    res.json({ success: true, ...formatReview(updated!, museum) });
+  } catch (error: any) {
+    Logger.error(`Error saving narration script: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/admin/translations/:artworkId/:language/narration/regenerate - Write the script again
+// from the current description, replacing a curator's
+router.post('/:artworkId/:language/narration/regenerate', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const found = await reviewedArtwork(req, res);
+    if (!found) return;
+    const { artwork, museum } = found;
+
+    const language = narrationLanguage(req, res, artwork);
+    if (!language) return;
+
+    const description = artwork.descriptions![language]!;
+    const written = await writeNarrationScript(description, language, { title: artwork.title, author: artwork.author });
+    await Artwork.updateOne({ _id: artwork._id }, {
+      $set: {
+        [`narrations.${language}`]: written.text,
+        [`narrationScripts.${language}`]: {
+          origin: written.origin,
+          ...(written.model && { model: written.model }),
+          descriptionHash: descriptionHash(description),
+          writtenAt: new Date()
+        }
+      }
+    });
+
+    const updated = await Artwork.findById(artwork._id).select(REVIEW_FIELDS);
+    res.json({
+      success: true,
+      ...formatReview(updated!, museum),
+      ...(written.fallbackReason && { warning: `The LLM failed, so the template was used: ${written.fallbackReason}` })
+    });
+  } catch (error: any) {
+    Logger.error(`Error regenerating narration script: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
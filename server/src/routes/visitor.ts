@@ -1,11 +1,23 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
 import path from 'path';
+import mongoose from 'mongoose';
 import fs from 'fs';
-import { Museum } from '../models/Museum';
-import { Artwork } from '../models/Artwork';
+import { Museum, IMuseum } from '../models/Museum';
+import { Artwork, ArtworkDocument } from '../models/Artwork';
 import { connectToDatabase } from '../utils/db';
-import { generateImageEmbedding, findBestMatches, isConfidentMatch } from '../services/clip';
+import { generateImageEmbedding, findBestMatches, MatchResult, DEFAULT_EMBEDDING_MODEL } from '../services/clip';
+import { searchMuseumIndex, embeddedArtworksQuery } from '../services/artwork-index';
+import { recordMatchAttempt, confirmMatch } from '../services/feedback';
+import { assessMatch, matchingSettings } from '../services/confidence';
+import { searchArtworks } from '../services/search';
+import { findRelatedArtworks } from '../services/related';
+import { schemaOrgArtwork, linkedArtArtwork, linkedDataUrls, linkedArtUrl, LINKED_ART_CONTEXT } from '../services/linked-data';
+import { LanguageCode, museumLanguages, resolveLanguage } from '../services/languages';
+import { descriptionStatus, publishedLanguages, publishedValues } from '../services/translation-review';
+import { VisitorMatch } from '../models/VisitorMatch';
+import { optionalAuth } from '../middleware/auth';
+import { canAccessMuseum } from '../services/tenancy';
 import Logger from '../utils/logger';
 
 const router = Router();
@@ -37,6 +49,30 @@ const visitorUpload = multer({
   }
 });
 
+// Description and narration in the visitor's language, falling back through the museum's languages.
+// Museums that publish approved translations only fall back past the others; the status lets the
+// page show a "machine translated" badge.
+function localizedContent(
+  artwork: ArtworkDocument,
+  language: LanguageCode,
+  languages: LanguageCode[],
+  museum?: Pick<IMuseum, 'approvedTranslationsOnly'> | null
+) {
+  const published = publishedLanguages(artwork, museum);
+  const descriptionLanguage = [language, ...languages, ...published].find(code => published.includes(code));
+  // Captions belong to the narration they were timed against, so both come from the same language
+  const audioUrls = publishedValues(artwork.audioUrls, artwork, museum);
+  const audioLanguage = [language, ...languages, ...Object.keys(audioUrls)].find(code => audioUrls[code]);
+  return {
+    description: (descriptionLanguage && artwork.descriptions![descriptionLanguage]) || artwork.description,
+    descriptionLanguage: descriptionLanguage || null,
+    translationStatus: descriptionLanguage ? descriptionStatus(artwork, descriptionLanguage) : 'source',
+    audioUrl: audioLanguage && audioUrls[audioLanguage],
+    audioLanguage: audioLanguage || null,
+    captionsUrl: (audioLanguage && artwork.audio?.[audioLanguage]?.captionsUrl) || null
+  };
+}
+
 // GET /api/visit/:qrCode - Get museum info by QR code
 router.get('/:qrCode', async (req: Request, res: Response) => {
   try {
@@ -61,6 +97,7 @@ router.get('/:qrCode', async (req: Request, res: Response) => {
         location: museum.location,
         description: museum.description,
         website: museum.website,
+        languages: museumLanguages(museum),
         artworkCount
       }
     });
@@ -71,19 +108,20 @@ router.get('/:qrCode', async (req: Request, res: Response) => {
 });
 
 // POST /api/visit/:qrCode/identify - Upload visitor photo and match artwork
-router.post('/:qrCode/identify', visitorUpload.single('photo'), async (req: Request, res: Response) => {
+router.post('/:qrCode/identify', optionalAuth, visitorUpload.single('photo'), async (req: Request, res: Response) => {
   let tempFilePath: string | null = null;
 
   try {
     await connectToDatabase();
 
     const { qrCode } = req.params;
-    const { language = 'en' } = req.body;
+    const { language: requestedLanguage } = req.body;
+    const exactRequested = req.body.exact === 'true' || req.query.exact === 'true';
     const file = req.file;
 
     Logger.info(`Visitor artwork identification request: ${JSON.stringify({
       qrCode,
-      language,
+      language: requestedLanguage,
       hasFile: !!file,
       filename: file?.filename
     })}`);
@@ -103,15 +141,20 @@ router.post('/:qrCode/identify', visitorUpload.single('photo'), async (req: Requ
 
     Logger.info(`Museum found: ${museum.name}`);
 
-    // Get all artworks for this museum with embeddings
-    const artworks = await Artwork.find({
-      museumId: museum._id,
-      imageEmbedding: { $exists: true, $ne: [] }
-    });
+    // Staff of the museum can force the exact linear scan for correctness checks; visitors always get the index
+    const exact = exactRequested && !!req.user && canAccessMuseum(req.user, museum._id);
+
+    const languages = museumLanguages(museum);
+    const language = resolveLanguage(requestedLanguage, languages);
 
-    Logger.info(`Found ${artworks.length} artworks with embeddings in ${museum.name}`);
+    // Only embeddings from the museum's current model are comparable with the visitor photo
+    const embeddingModel = museum.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+    const embeddedQuery = embeddedArtworksQuery(museum._id, embeddingModel);
+    const totalArtworks = await Artwork.countDocuments(embeddedQuery);
 
-    if (artworks.length === 0) {
+    Logger.info(`Found ${totalArtworks} artworks with embeddings in ${museum.name}`);
+
+    if (totalArtworks === 0) {
       return res.json({
         success: false,
         error: 'No artworks with embeddings found in this museum',
@@ -124,44 +167,91 @@ router.post('/:qrCode/identify', visitorUpload.single('photo'), async (req: Requ
 
     // Generate embedding for visitor's photo
     Logger.info('Generating embedding for visitor photo...');
-    const visitorEmbedding = await generateImageEmbedding(tempFilePath);
+    const visitorEmbedding = await generateImageEmbedding(tempFilePath, embeddingModel);
     Logger.info('Visitor photo embedding generated');
 
-    // Find best matches
-    const matches = findBestMatches(visitorEmbedding, artworks, 3);
+    // Find best matches: ANN index first, exact linear scan as fallback
+    const started = Date.now();
+    const hits = exact ? null : await searchMuseumIndex(museum._id, visitorEmbedding, 3, embeddingModel);
+    let matches: MatchResult[];
+    let searchMode: 'ann' | 'exact';
+
+    if (hits) {
+      const found = await Artwork.find({ _id: { $in: hits.map(h => h.artworkId) } });
+      const byId = new Map(found.map(a => [String(a._id), a]));
+      matches = hits
+        .filter(h => byId.has(h.artworkId))
+        .map(h => {
+          const artwork = byId.get(h.artworkId)!;
+          const reference = h.viewId ? artwork.referenceImages?.find(r => String(r._id) === h.viewId) : undefined;
+          return { artwork, score: h.score, view: reference?.label || 'primary' };
+        });
+      searchMode = 'ann';
+    } else {
+      const artworks = await Artwork.find(embeddedQuery);
+      matches = findBestMatches(visitorEmbedding, artworks, 3, embeddingModel);
+      searchMode = 'exact';
+    }
+
+    Logger.info(`${searchMode} search over ${totalArtworks} artworks took ${Date.now() - started}ms`);
 
     Logger.info(`Match results: ${JSON.stringify(matches.map(m => ({
       title: m.artwork.title,
       score: (m.score * 100).toFixed(1) + '%'
     })))}`);
 
-    // Determine if we have a confident match
-    const confident = matches.length > 0 && isConfidentMatch(matches[0].score);
+    // Confident, uncertain or not in this collection, using the museum's thresholds
+    const assessment = assessMatch(matches.map(m => m.score), matchingSettings(museum));
+    const { confident, outcome } = assessment;
+
+    Logger.info(`Match outcome: ${outcome} (${assessment.reasons.join('; ')})`);
+
+    // Keep the attempt so the visitor can tell us which artwork it really was
+    const matchId = matches.length > 0
+      ? await recordMatchAttempt(museum._id, visitorEmbedding, embeddingModel, matches, confident)
+      : null;
 
     // Format response
-    const formatArtwork = (artwork: any, score: number) => ({
+    const formatArtwork = (artwork: ArtworkDocument, score: number, view?: string) => ({
       id: artwork._id,
       title: artwork.title,
       author: artwork.author,
       year: artwork.year,
       style: artwork.style,
       imageUrl: artwork.imageUrl,
-      description: artwork.descriptions?.[language] || artwork.descriptions?.en || artwork.description,
-      audioUrl: artwork.audioUrls?.[language] || artwork.audioUrls?.en,
+      ...localizedContent(artwork, language, languages, museum),
       matchScore: Math.round(score * 100), // Convert to percentage
+      matchedView: view,
       sources: artwork.sources
     });
 
     res.json({
       success: true,
       confident,
+      matchId,
+      language,
       museum: {
         id: museum._id,
         name: museum.name
       },
-      bestMatch: matches.length > 0 ? formatArtwork(matches[0].artwork, matches[0].score) : null,
-      alternatives: matches.slice(1).map(m => formatArtwork(m.artwork, m.score)),
-      totalArtworks: artworks.length
+      outcome,
+      confidence: {
+        reasons: assessment.reasons,
+        topScore: Math.round(assessment.topScore * 100),
+        margin: Math.round(assessment.margin * 100),
+        thresholds: {
+          minScore: Math.round(assessment.thresholds.minScore * 100),
+          confidentScore: Math.round(assessment.thresholds.confidentScore * 100),
+          minMargin: Math.round(assessment.thresholds.minMargin * 100)
+        }
+      },
+      // Nothing is presented as the answer when the photo looks like it is not in the collection
+      bestMatch: outcome !== 'not-in-collection' && matches.length > 0
+        ? formatArtwork(matches[0].artwork, matches[0].score, matches[0].view)
+        : null,
+      alternatives: (outcome === 'not-in-collection' ? matches : matches.slice(1)).map(m => formatArtwork(m.artwork, m.score, m.view)),
+      totalArtworks,
+      searchMode
     });
 
   } catch (error: any) {
@@ -180,13 +270,71 @@ router.post('/:qrCode/identify', visitorUpload.single('photo'), async (req: Requ
   }
 });
 
+// POST /api/visit/:qrCode/feedback - Visitor confirms which artwork they photographed
+router.post('/:qrCode/feedback', visitorUpload.single('photo'), async (req: Request, res: Response) => {
+  const tempFilePath: string | null = req.file?.path || null;
+
+  try {
+    await connectToDatabase();
+
+    const { qrCode } = req.params;
+    const { matchId, artworkId } = req.body || {};
+
+    if (!matchId || !artworkId) {
+      return res.status(400).json({ error: 'matchId and artworkId are required' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'The photo is required with feedback' });
+    }
+
+    if (!mongoose.isValidObjectId(matchId) || !mongoose.isValidObjectId(artworkId)) {
+      return res.status(400).json({ error: 'Invalid matchId or artworkId' });
+    }
+
+    const museum = await Museum.findOne({ qrCode: qrCode.toLowerCase() });
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    const attempt = await VisitorMatch.findOne({ _id: matchId, museumId: museum._id });
+    if (!attempt) {
+      return res.status(404).json({ error: 'Identification not found or expired' });
+    }
+
+    if (attempt.status !== 'unconfirmed') {
+      return res.status(409).json({ error: 'This identification was already confirmed' });
+    }
+
+    const artwork = await Artwork.findOne({ _id: artworkId, museumId: museum._id });
+    if (!artwork) {
+      return res.status(404).json({ error: 'Artwork not found in this museum' });
+    }
+
+    const confirmed = await confirmMatch(attempt, artwork, req.file.path);
+
+    res.json({
+      success: true,
+      status: confirmed.status,
+      queuedForReview: confirmed.status === 'pending-review'
+    });
+  } catch (error: any) {
+    Logger.error(`Error recording visitor feedback: ${error}`);
+    res.status(500).json({ error: error.message });
+  } finally {
+    // The photo is moved out of the temp folder only when queued for review
+    if (tempFilePath && fs.existsSync(tempFilePath)) {
+      try { fs.unlinkSync(tempFilePath); } catch { }
+    }
+  }
+});
+
 // GET /api/visit/:qrCode/artworks - Browse all artworks in museum
 router.get('/:qrCode/artworks', async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
 
     const { qrCode } = req.params;
-    const { language = 'en' } = req.query;
 
     const museum = await Museum.findOne({ qrCode: qrCode.toLowerCase() });
 
@@ -194,6 +342,8 @@ router.get('/:qrCode/artworks', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Museum not found' });
     }
 
+    const languages = museumLanguages(museum);
+    const language = resolveLanguage(req.query.language, languages);
     const artworks = await Artwork.find({ museumId: museum._id }).sort({ createdAt: -1 });
 
     const formattedArtworks = artworks.map(artwork => ({
@@ -203,16 +353,17 @@ router.get('/:qrCode/artworks', async (req: Request, res: Response) => {
       year: artwork.year,
       style: artwork.style,
       imageUrl: artwork.imageUrl,
-      description: (artwork.descriptions as any)?.[language as string] || (artwork.descriptions as any)?.en || artwork.description,
-      audioUrl: (artwork.audioUrls as any)?.[language as string] || (artwork.audioUrls as any)?.en,
+      ...localizedContent(artwork, language, languages, museum),
       sources: artwork.sources
     }));
 
     res.json({
       success: true,
+      language,
       museum: {
         id: museum._id,
-        name: museum.name
+        name: museum.name,
+        languages
       },
       count: formattedArtworks.length,
       artworks: formattedArtworks
@@ -223,13 +374,67 @@ router.get('/:qrCode/artworks', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/visit/:qrCode/search - Free-text search ("stormy sea with a small boat", "Monet")
+router.get('/:qrCode/search', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { qrCode } = req.params;
+    const { q, limit } = req.query as { q?: string; limit?: string };
+
+    const query = (q || '').trim();
+    if (!query) {
+      return res.status(400).json({ error: 'Search query (q) is required' });
+    }
+
+    const museum = await Museum.findOne({ qrCode: qrCode.toLowerCase() });
+
+    if (!museum) {
+      return res.status(404).json({ error: 'Museum not found' });
+    }
+
+    const languages = museumLanguages(museum);
+    const language = resolveLanguage(req.query.language, languages);
+    const hits = await searchArtworks(query, {
+      scope: { museumId: museum._id },
+      museumId: museum._id,
+      limit: Math.min(Number(limit) || 20, 50)
+    });
+
+    res.json({
+      success: true,
+      museum: {
+        id: museum._id,
+        name: museum.name
+      },
+      query,
+      language,
+      count: hits.length,
+      artworks: hits.map(({ artwork, score, matchedFields }) => ({
+        id: artwork._id,
+        title: artwork.title,
+        author: artwork.author,
+        year: artwork.year,
+        style: artwork.style,
+        imageUrl: artwork.imageUrl,
+        ...localizedContent(artwork, language, languages, museum),
+        sources: artwork.sources,
+        relevance: Math.round(score * 100),
+        matchedFields
+      }))
+    });
+  } catch (error: any) {
+    Logger.error(`Error searching artworks: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // GET /api/visit/artwork/:id - Get specific artwork details
 router.get('/artwork/:id', async (req: Request, res: Response) => {
   try {
     await connectToDatabase();
 
     const { id } = req.params;
-    const { language = 'en' } = req.query;
 
     const artwork = await Artwork.findById(id).populate('museumId');
 
@@ -237,6 +442,11 @@ router.get('/artwork/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Artwork not found' });
     }
 
+    const museum = artwork.museumId as unknown as IMuseum | null;
+    const languages = museumLanguages(museum);
+    const language = resolveLanguage(req.query.language, languages);
+    const urls = linkedDataUrls(`${req.protocol}://${req.get('host')}`);
+
     res.json({
       success: true,
       artwork: {
@@ -246,14 +456,19 @@ router.get('/artwork/:id', async (req: Request, res: Response) => {
         year: artwork.year,
         style: artwork.style,
         imageUrl: artwork.imageUrl,
-        description: (artwork.descriptions as any)?.[language as string] || (artwork.descriptions as any)?.en || artwork.description,
-        audioUrl: (artwork.audioUrls as any)?.[language as string] || (artwork.audioUrls as any)?.en,
+        ...localizedContent(artwork, language, languages, museum),
         sources: artwork.sources,
+        // Languages the page can switch to: the museum's, where this artwork has a description
+        language,
+        languages: languages.filter(code => publishedLanguages(artwork, museum).includes(code)),
         museum: artwork.museumId ? {
           id: (artwork.museumId as any)._id,
           name: (artwork.museumId as any).name,
           location: (artwork.museumId as any).location
-        } : null
+        } : null,
+        // schema.org JSON-LD for the page to embed, and where the Linked Art version is
+        jsonLd: schemaOrgArtwork(artwork, museum, urls, language, languages),
+        linkedArtUrl: linkedArtUrl(urls, artwork._id)
       }
     });
   } catch (error: any) {
@@ -262,4 +477,89 @@ router.get('/artwork/:id', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/visit/artwork/:id/linked-art - Linked Art (CIDOC-CRM) JSON-LD for aggregators
+router.get('/artwork/:id/linked-art', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { id } = req.params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ error: 'Invalid artwork id' });
+    }
+
+    const artwork = await Artwork.findById(id).select('-imageEmbedding -referenceImages -stagedEmbeddings');
+
+    if (!artwork) {
+      return res.status(404).json({ error: 'Artwork not found' });
+    }
+
+    const museum = artwork.museumId ? await Museum.findById(artwork.museumId) : null;
+    const urls = linkedDataUrls(`${req.protocol}://${req.get('host')}`);
+
+    res.setHeader('Content-Type', `application/ld+json;profile="${LINKED_ART_CONTEXT}"`);
+    res.send(JSON.stringify(linkedArtArtwork(artwork, museum, urls)));
+  } catch (error: any) {
+    Logger.error(`Error building Linked Art: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/visit/artwork/:id/related - Visually similar artworks ("more like this")
+router.get('/artwork/:id/related', async (req: Request, res: Response) => {
+  try {
+    await connectToDatabase();
+
+    const { id } = req.params;
+    const { limit, includePartners } = req.query as { limit?: string; includePartners?: string };
+
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(400).json({ error: 'Invalid artwork id' });
+    }
+
+    const artwork = await Artwork.findById(id);
+
+    if (!artwork) {
+      return res.status(404).json({ error: 'Artwork not found' });
+    }
+
+    // Partner works are shown in the visitor's language where they have it, like the artwork itself
+    const languages = museumLanguages(artwork.museumId ? await Museum.findById(artwork.museumId).select('languages') : null);
+    const language = resolveLanguage(req.query.language, languages);
+
+    const related = await findRelatedArtworks(artwork, {
+      limit: Math.min(Number(limit) || 8, 24),
+      includePartners: includePartners === 'true'
+    });
+
+    // Partner works carry their museum's name so the page can say where they are
+    const museums = await Museum.find({ _id: { $in: related.map(r => r.artwork.museumId) } }).select('name approvedTranslationsOnly');
+    const museumsById = new Map(museums.map(m => [String(m._id), m]));
+
+    res.json({
+      success: true,
+      artworkId: artwork._id,
+      count: related.length,
+      related: related.map(({ artwork: item, score, partner }) => ({
+        id: item._id,
+        title: item.title,
+        author: item.author,
+        year: item.year,
+        imageUrl: item.imageUrl,
+        // Each work follows its own museum's translation publishing rule
+        description: localizedContent(item, language, languages, museumsById.get(String(item.museumId))).description,
+        similarity: Math.round(score * 100),
+        partner,
+        museum: {
+          id: item.museumId,
+          name: museumsById.get(String(item.museumId))?.name || null
+        }
+      }))
+    });
+  } catch (error: any) {
+    Logger.error(`Error fetching related artworks: ${error}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
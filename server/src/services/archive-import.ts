@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { IJob, JobStep } from '../models/Job';
+import { Museum } from '../models/Museum';
+import { defineJobType, enqueueJob, saveStepProgress, SkipStep } from './jobs';
+import { importCollectionArchive, ImportProgress, ImportReport } from './bulk-import';
+import { restoreCollectionArchive } from './collection-archive';
+import { LanguageCode } from './languages';
+import { ZipArchive } from './zip-reader';
+
+/**
+ * Archive imports and collection restores run as a background job: the upload is kept
+ * under imports/ (outside the public uploads/) until the job is done with it, and the
+ * per-row report is saved on the job's `import` step as it grows.
+ */
+
+export const ARCHIVE_IMPORT_JOB = 'archive-import';
+
+const IMPORTS_DIR = process.env.IMPORT_DIR || path.join(__dirname, '..', '..', 'imports');
+
+interface ArchiveImportPayload {
+  archivePath: string;
+  manifest?: { name: string; path: string };
+  restoring: boolean;
+  sourceLanguage?: LanguageCode;
+}
+
+// Move an upload out of the temp dir, which may be cleaned before the job runs
+function keepUpload(file: Express.Multer.File, name: string): string {
+  fs.mkdirSync(IMPORTS_DIR, { recursive: true });
+  const target = path.join(IMPORTS_DIR, name);
+  try {
+    fs.renameSync(file.path, target);
+  } catch {
+    // The temp dir may be on another device
+    fs.copyFileSync(file.path, target);
+    fs.unlinkSync(file.path);
+  }
+  return target;
+}
+
+/**
+ * Keep the uploaded archive (and manifest) and queue the job that imports or restores it
+ * @param museumId - Target museum; unset when a restore recreates the archived museum
+ */
+export async function enqueueArchiveImport(
+  archive: Express.Multer.File,
+  manifest: Express.Multer.File | undefined,
+  fields: { museumId?: string; restoring: boolean; sourceLanguage?: LanguageCode; createdBy: unknown }
+): Promise<IJob> {
+  const id = crypto.randomBytes(8).toString('hex');
+  const payload: ArchiveImportPayload = {
+    archivePath: keepUpload(archive, `${id}.zip`),
+    manifest: manifest ? { name: manifest.originalname, path: keepUpload(manifest, `${id}.manifest${path.extname(manifest.originalname).toLowerCase()}`) } : undefined,
+    restoring: fields.restoring,
+    sourceLanguage: fields.sourceLanguage
+  };
+
+  return enqueueJob(ARCHIVE_IMPORT_JOB, {
+    museumId: fields.museumId,
+    payload: payload as unknown as Record<string, unknown>,
+    createdBy: fields.createdBy
+  });
+}
+
+async function runImport(job: IJob, step: JobStep): Promise<ImportReport> {
+  const payload = job.payload as unknown as ArchiveImportPayload;
+  if (!fs.existsSync(payload.archivePath)) throw new Error('The uploaded archive is no longer available; upload it again');
+
+  // A restore that created its museum on an earlier attempt continues into it
+  const museum = job.museumId ? await Museum.findById(job.museumId) : null;
+  if (job.museumId && !museum) throw new SkipStep('Museum was deleted');
+
+  const options = {
+    done: (step.result as ImportProgress | undefined)?.rows,
+    onProgress: async (progress: ImportProgress) => {
+      if (!job.museumId) job.museumId = new mongoose.Types.ObjectId(progress.museumId);
+      await saveStepProgress(job, step, progress);
+    }
+  };
+
+  const zip = await ZipArchive.open(payload.archivePath);
+  try {
+    if (payload.restoring) return await restoreCollectionArchive(museum, zip, options);
+    return await importCollectionArchive(museum!, zip, {
+      ...options,
+      manifest: payload.manifest && { name: payload.manifest.name, content: fs.readFileSync(payload.manifest.path, 'utf8') },
+      sourceLanguage: payload.sourceLanguage,
+      createdBy: job.createdBy
+    });
+  } finally {
+    zip.close();
+  }
+}
+
+// Runs after the import, whether it finished or failed for good
+async function cleanup(job: IJob) {
+  const payload = job.payload as unknown as ArchiveImportPayload;
+  for (const file of [payload.archivePath, payload.manifest?.path]) {
+    if (file) try { fs.unlinkSync(file); } catch { }
+  }
+}
+
+defineJobType(ARCHIVE_IMPORT_JOB, [
+  { name: 'import', run: runImport },
+  { name: 'cleanup', run: cleanup }
+]);
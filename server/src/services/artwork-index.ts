@@ -0,0 +1,394 @@
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import { Artwork } from '../models/Artwork';
+import { Museum } from '../models/Museum';
+import { HnswIndex, SerializedHnsw } from './hnsw';
+import { DEFAULT_EMBEDDING_MODEL, embeddingModelOf, embeddingModelFilter } from './clip';
+import Logger from '../utils/logger';
+
+// Per-museum HNSW indexes over artwork embeddings, persisted next to the model cache
+const INDEX_DIR = process.env.ANN_INDEX_DIR || path.join(__dirname, '..', '..', '.cache', 'ann-index');
+const ANN_ENABLED = process.env.ANN_INDEX !== 'off';
+const SAVE_DELAY_MS = 2000;
+// Artworks saved this long before an index was persisted are re-checked on load,
+// in case their index update had not landed yet when the file was written
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const indexes = new Map<string, Promise<HnswIndex | null>>();
+const indexModels = new Map<string, string>(); // Embedding model each loaded index was built from
+const saveTimers = new Map<string, NodeJS.Timeout>();
+
+// Museum ids arrive as ObjectIds, strings or untyped Document ids
+type MuseumRef = unknown;
+
+export interface ArtworkHit {
+  artworkId: string;
+  score: number; // Best cosine similarity over the artwork's views
+  viewId?: string; // Reference image id, or undefined for the primary image
+}
+
+// The graph file also records when it was written, to find artworks changed since
+interface PersistedIndex extends SerializedHnsw {
+  savedAt?: string;
+}
+
+interface IndexableArtwork {
+  _id: unknown;
+  museumId?: MuseumRef;
+  imageEmbedding?: number[];
+  embeddingModel?: string;
+  referenceImages?: { _id?: unknown; embedding?: number[]; embeddingModel?: string }[];
+}
+
+// Index keys: "<artworkId>" for the primary image, "<artworkId>#<referenceId>" for extra views.
+// Only embeddings from the museum's model are indexed.
+function viewKeys(artwork: IndexableArtwork, model: string): { key: string; embedding: number[] }[] {
+  const artworkId = String(artwork._id);
+  const keys: { key: string; embedding: number[] }[] = [];
+
+  if (artwork.imageEmbedding?.length && embeddingModelOf(artwork.embeddingModel) === model) {
+    keys.push({ key: artworkId, embedding: artwork.imageEmbedding });
+  }
+  for (const reference of artwork.referenceImages || []) {
+    if (reference.embedding?.length && embeddingModelOf(reference.embeddingModel) === model) {
+      keys.push({ key: `${artworkId}#${reference._id}`, embedding: reference.embedding });
+    }
+  }
+
+  return keys;
+}
+
+function parseKey(key: string): { artworkId: string; viewId?: string } {
+  const [artworkId, viewId] = key.split('#');
+  return { artworkId, viewId };
+}
+
+function removeArtworkKeys(index: HnswIndex, artworkId: string): boolean {
+  let removed = false;
+  for (const key of index.ids()) {
+    if (parseKey(key).artworkId === artworkId) {
+      removed = index.remove(key) || removed;
+    }
+  }
+  return removed;
+}
+
+// Bring an artwork's entries in line with its current views; unchanged vectors are left in place
+function syncArtworkKeys(index: HnswIndex, artwork: IndexableArtwork, model: string): boolean {
+  const artworkId = String(artwork._id);
+  const views = viewKeys(artwork, model);
+  const current = new Set(views.map(view => view.key));
+  let changed = false;
+
+  for (const key of index.ids()) {
+    if (parseKey(key).artworkId === artworkId && !current.has(key)) {
+      changed = index.remove(key) || changed;
+    }
+  }
+  for (const view of views) {
+    changed = index.add(view.key, view.embedding) || changed;
+  }
+  return changed;
+}
+
+// One file pair per museum and model, so a cut-over never loads vectors from the old model
+function indexPaths(museumId: string, model: string) {
+  const base = `${museumId}.${model.replace(/[^a-z0-9]+/gi, '_')}`;
+  return {
+    graph: path.join(INDEX_DIR, `${base}.json`),
+    vectors: path.join(INDEX_DIR, `${base}.vec`)
+  };
+}
+
+/**
+ * The embedding model a museum identifies and searches with
+ */
+export async function museumEmbeddingModel(museumId: MuseumRef): Promise<string> {
+  const museum = await Museum.findById(museumId).select('embeddingModel');
+  return museum?.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+}
+
+/**
+ * Mongo filter for a museum's artworks that have at least one view embedded with the given model
+ */
+export function embeddedArtworksQuery(museumId: MuseumRef, model: string = DEFAULT_EMBEDDING_MODEL) {
+  return {
+    museumId,
+    $or: [
+      { imageEmbedding: { $exists: true, $ne: [] }, embeddingModel: embeddingModelFilter(model) },
+      { referenceImages: { $elemMatch: { 'embedding.0': { $exists: true }, embeddingModel: embeddingModelFilter(model) } } }
+    ]
+  };
+}
+
+// Number of vectors a fresh index for this museum would hold
+async function countEmbeddedViews(museumId: string, model: string): Promise<number> {
+  const hasModel = (field: string) => ({ $eq: [{ $ifNull: [field, DEFAULT_EMBEDDING_MODEL] }, model] });
+  const [result] = await Artwork.aggregate([
+    { $match: { museumId: new mongoose.Types.ObjectId(museumId) } },
+    {
+      $project: {
+        views: {
+          $add: [
+            {
+              $cond: [{
+                $and: [{ $gt: [{ $size: { $ifNull: ['$imageEmbedding', []] } }, 0] }, hasModel('$embeddingModel')]
+              }, 1, 0]
+            },
+            {
+              $size: {
+                $filter: {
+                  input: { $ifNull: ['$referenceImages', []] },
+                  as: 'ref',
+                  cond: {
+                    $and: [{ $gt: [{ $size: { $ifNull: ['$$ref.embedding', []] } }, 0] }, hasModel('$$ref.embeddingModel')]
+                  }
+                }
+              }
+            }
+          ]
+        }
+      }
+    },
+    { $group: { _id: null, total: { $sum: '$views' } } }
+  ]);
+  return result?.total || 0;
+}
+
+function loadFromDisk(museumId: string, model: string): { index: HnswIndex; savedAt?: Date } | null {
+  const files = indexPaths(museumId, model);
+  if (!fs.existsSync(files.graph) || !fs.existsSync(files.vectors)) return null;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(files.graph, 'utf8')) as PersistedIndex;
+    return {
+      index: HnswIndex.fromSerialized(data, fs.readFileSync(files.vectors)),
+      savedAt: data.savedAt ? new Date(data.savedAt) : undefined
+    };
+  } catch (error) {
+    Logger.warn(`Discarding unreadable ANN index for museum ${museumId}: ${error}`);
+    return null;
+  }
+}
+
+// Remove every persisted index for a museum, whatever model it was built from
+function deleteFromDisk(museumId: string) {
+  if (!fs.existsSync(INDEX_DIR)) return;
+  for (const file of fs.readdirSync(INDEX_DIR)) {
+    if (file.startsWith(`${museumId}.`)) {
+      try { fs.unlinkSync(path.join(INDEX_DIR, file)); } catch { }
+    }
+  }
+}
+
+function saveToDisk(museumId: string, model: string, index: HnswIndex | null) {
+  const files = indexPaths(museumId, model);
+
+  if (!index || index.size === 0) {
+    for (const file of Object.values(files)) {
+      try { fs.existsSync(file) && fs.unlinkSync(file); } catch { }
+    }
+    return;
+  }
+
+  fs.mkdirSync(INDEX_DIR, { recursive: true });
+
+  // Write-then-rename so a crash never leaves a half-written index behind
+  fs.writeFileSync(`${files.vectors}.tmp`, index.vectorBuffer());
+  const persisted: PersistedIndex = { ...index.toJSON(), savedAt: new Date().toISOString() };
+  fs.writeFileSync(`${files.graph}.tmp`, JSON.stringify(persisted));
+  fs.renameSync(`${files.vectors}.tmp`, files.vectors);
+  fs.renameSync(`${files.graph}.tmp`, files.graph);
+}
+
+function scheduleSave(museumId: string) {
+  clearTimeout(saveTimers.get(museumId));
+
+  const timer = setTimeout(async () => {
+    saveTimers.delete(museumId);
+    try {
+      const index = await indexes.get(museumId);
+      // Compact here rather than on the update that crossed the threshold; it runs in slices between requests
+      if (index?.needsCompaction()) {
+        const started = Date.now();
+        await index.compact();
+        Logger.debug(`Compacted ANN index for museum ${museumId} in ${Date.now() - started}ms`);
+        // The museum may have been dropped or rebuilt meanwhile
+        if (await indexes.get(museumId) !== index) return;
+      }
+      saveToDisk(museumId, indexModels.get(museumId) || DEFAULT_EMBEDDING_MODEL, index);
+    } catch (error) {
+      Logger.error(`Failed to persist ANN index for museum ${museumId}: ${error}`);
+    }
+  }, SAVE_DELAY_MS);
+
+  timer.unref();
+  saveTimers.set(museumId, timer);
+}
+
+/**
+ * Build a museum's index from every embedded artwork in Mongo
+ */
+export async function rebuildMuseumIndex(museumId: MuseumRef): Promise<HnswIndex | null> {
+  const key = String(museumId);
+  const model = await museumEmbeddingModel(key);
+  const started = Date.now();
+  let index: HnswIndex | null = null;
+
+  const cursor = Artwork.find(embeddedArtworksQuery(key, model))
+    .select('imageEmbedding embeddingModel referenceImages._id referenceImages.embedding referenceImages.embeddingModel')
+    .cursor();
+  for await (const artwork of cursor) {
+    for (const view of viewKeys(artwork, model)) {
+      if (!index) index = new HnswIndex(view.embedding.length);
+      try {
+        index.add(view.key, view.embedding);
+      } catch (error) {
+        Logger.warn(`Skipping view ${view.key} while indexing: ${error}`);
+      }
+    }
+  }
+
+  Logger.info(`Built ANN index for museum ${key} (${model}): ${index?.size || 0} views in ${Date.now() - started}ms`);
+
+  indexes.set(key, Promise.resolve(index));
+  indexModels.set(key, model);
+  saveToDisk(key, model, index);
+  return index;
+}
+
+async function loadOrBuild(museumId: string): Promise<HnswIndex | null> {
+  const model = await museumEmbeddingModel(museumId);
+  indexModels.set(museumId, model);
+
+  const expected = await countEmbeddedViews(museumId, model);
+  if (expected === 0) return null;
+
+  const cached = loadFromDisk(museumId, model);
+  if (!cached) return rebuildMuseumIndex(museumId);
+
+  // Files written before savedAt was recorded cannot be refreshed
+  if (!cached.savedAt) {
+    Logger.warn(`ANN index for museum ${museumId} has no save time, rebuilding`);
+    return rebuildMuseumIndex(museumId);
+  }
+
+  // Re-apply artworks saved since the file was written; the count then catches deletions
+  const { index } = cached;
+  let refreshed = 0;
+  const cursor = Artwork.find({ museumId, updatedAt: { $gt: new Date(cached.savedAt.getTime() - REFRESH_MARGIN_MS) } })
+    .select('imageEmbedding embeddingModel referenceImages._id referenceImages.embedding referenceImages.embeddingModel')
+    .cursor();
+  for await (const artwork of cursor) {
+    if (syncArtworkKeys(index, artwork, model)) refreshed++;
+  }
+
+  if (index.size !== expected) {
+    Logger.warn(`ANN index for museum ${museumId} is stale (${index.size} vs ${expected}), rebuilding`);
+    return rebuildMuseumIndex(museumId);
+  }
+
+  Logger.info(`Loaded ANN index for museum ${museumId} from disk (${index.size} views, ${refreshed} artwork(s) refreshed)`);
+  if (refreshed > 0) scheduleSave(museumId);
+  return index;
+}
+
+async function getMuseumIndex(museumId: MuseumRef): Promise<HnswIndex | null> {
+  const key = String(museumId);
+  if (!indexes.has(key)) {
+    const pending = loadOrBuild(key);
+    indexes.set(key, pending);
+    // Allow a retry on the next request if loading failed
+    pending.catch(() => indexes.delete(key));
+  }
+  return indexes.get(key)!;
+}
+
+/**
+ * Add or replace all of an artwork's views in its museum's index
+ */
+export async function indexArtwork(artwork: IndexableArtwork): Promise<void> {
+  if (!ANN_ENABLED || !artwork.museumId) return;
+
+  const key = String(artwork.museumId);
+  try {
+    let index = await getMuseumIndex(key);
+    const model = indexModels.get(key) || DEFAULT_EMBEDDING_MODEL;
+    if (!index) {
+      const views = viewKeys(artwork, model);
+      if (views.length === 0) return;
+      index = new HnswIndex(views[0].embedding.length);
+      indexes.set(key, Promise.resolve(index));
+    }
+    if (syncArtworkKeys(index, artwork, model)) {
+      scheduleSave(key);
+    }
+  } catch (error) {
+    // The index is a cache of Mongo; drop it so the next search rebuilds cleanly
+    Logger.warn(`Failed to index artwork ${artwork._id}, index will be rebuilt: ${error}`);
+    indexes.delete(key);
+  }
+}
+
+/**
+ * Remove an artwork from its museum's index
+ */
+export async function removeArtworkFromIndex(museumId: MuseumRef, artworkId: unknown): Promise<void> {
+  if (!ANN_ENABLED || !museumId) return;
+
+  const key = String(museumId);
+  try {
+    const index = await getMuseumIndex(key);
+    if (index && removeArtworkKeys(index, String(artworkId))) {
+      scheduleSave(key);
+    }
+  } catch (error) {
+    Logger.warn(`Failed to remove artwork ${artworkId} from index: ${error}`);
+    indexes.delete(key);
+  }
+}
+
+/**
+ * Forget a museum's index entirely (e.g. when the museum is deleted)
+ */
+export function dropMuseumIndex(museumId: MuseumRef): void {
+  const key = String(museumId);
+  clearTimeout(saveTimers.get(key));
+  saveTimers.delete(key);
+  indexes.delete(key);
+  indexModels.delete(key);
+  deleteFromDisk(key);
+}
+
+/**
+ * Approximate top-k artworks for a query embedding, scoring each artwork by its best view.
+ * @param model - Model the query was embedded with; the index only answers for its own model
+ * @returns Hits, or null when the index is disabled or unavailable so callers can fall back to exact search
+ */
+export async function searchMuseumIndex(
+  museumId: MuseumRef,
+  embedding: number[],
+  topN: number = 3,
+  model: string = DEFAULT_EMBEDDING_MODEL
+): Promise<ArtworkHit[] | null> {
+  if (!ANN_ENABLED) return null;
+
+  try {
+    const index = await getMuseumIndex(museumId);
+    if (!index || index.dimensions !== embedding.length || indexModels.get(String(museumId)) !== model) return null;
+
+    // Over-fetch views so that several views of one artwork don't crowd out the others
+    const best = new Map<string, ArtworkHit>();
+    for (const hit of index.search(embedding, topN * 4)) {
+      const { artworkId, viewId } = parseKey(hit.id);
+      if (!best.has(artworkId)) {
+        best.set(artworkId, { artworkId, score: hit.score, viewId });
+      }
+    }
+    return Array.from(best.values()).slice(0, topN);
+  } catch (error) {
+    Logger.warn(`ANN search failed for museum ${museumId}, falling back to exact search: ${error}`);
+    return null;
+  }
+}
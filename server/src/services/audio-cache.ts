@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Artwork } from '../models/Artwork';
+import { LanguageCode } from './languages';
+import { AudioFormat } from './tts-providers';
+import Logger from '../utils/logger';
+
+/**
+ * Narration files are named by a hash of what produced them (provider, voice,
+ * language and text), so an unchanged narration is reused rather than synthesized
+ * again, and artworks with the same text share one file. A file is deleted once no
+ * artwork refers to it any more. A narration's WebVTT captions sit next to it
+ * under the same hash and go with it.
+ */
+
+const UPLOADS_DIR = path.resolve(__dirname, '..', '..', 'uploads');
+
+const AUDIO_FORMATS: AudioFormat[] = ['mp3', 'wav'];
+
+export interface NarrationInput {
+  text: string;
+  language: LanguageCode;
+  provider: string;
+  voice: string;
+}
+
+export function narrationHash({ text, language, provider, voice }: NarrationInput): string {
+  return crypto.createHash('sha256').update(JSON.stringify([provider, voice, language, text])).digest('hex').slice(0, 32);
+}
+
+export function narrationFileName(hash: string, format: AudioFormat): string {
+  return `narration_${hash}.${format}`;
+}
+
+// Path of an audio file the server stored itself, or null for other URLs
+function uploadedAudioPath(url: string | undefined): string | null {
+  return url && url.startsWith('/uploads/') ? path.join(UPLOADS_DIR, path.basename(url)) : null;
+}
+
+export function audioFileExists(url: string | undefined): boolean {
+  const file = uploadedAudioPath(url);
+  return !!file && fs.existsSync(file);
+}
+
+/**
+ * The narration already synthesized for this hash, in whichever format its provider produced
+ */
+export function cachedNarration(hash: string): { url: string; audio: Buffer; format: AudioFormat } | null {
+  for (const format of AUDIO_FORMATS) {
+    const name = narrationFileName(hash, format);
+    const file = path.join(UPLOADS_DIR, name);
+    if (fs.existsSync(file)) return { url: `/uploads/${name}`, audio: fs.readFileSync(file), format };
+  }
+  return null;
+}
+
+export function saveNarration(hash: string, audio: Buffer, format: AudioFormat): string {
+  const name = narrationFileName(hash, format);
+  fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+  fs.writeFileSync(path.join(UPLOADS_DIR, name), audio);
+  return `/uploads/${name}`;
+}
+
+export function cachedCaptions(hash: string): { url: string; vtt: string } | null {
+  const name = `narration_${hash}.vtt`;
+  const file = path.join(UPLOADS_DIR, name);
+  return fs.existsSync(file) ? { url: `/uploads/${name}`, vtt: fs.readFileSync(file, 'utf8') } : null;
+}
+
+export function saveCaptions(hash: string, vtt: string): string {
+  const name = `narration_${hash}.vtt`;
+  fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+  fs.writeFileSync(path.join(UPLOADS_DIR, name), vtt);
+  return `/uploads/${name}`;
+}
+
+/**
+ * Delete audio files no artwork refers to any more. Call after the references were
+ * removed or replaced; files still in use (shared narrations) are kept.
+ */
+export async function releaseAudioFiles(urls: Array<string | undefined>): Promise<string[]> {
+  const released: string[] = [];
+  for (const url of new Set(urls)) {
+    const file = uploadedAudioPath(url);
+    if (!file) continue;
+
+    const inUse = await Artwork.exists({
+      $or: [
+        { audioUrl: url },
+        // audioUrls is keyed by language, so look through its values
+        { $expr: { $in: [url, { $map: { input: { $objectToArray: { $ifNull: ['$audioUrls', {}] } }, as: 'entry', in: '$$entry.v' } }] } }
+      ]
+    });
+    if (inUse) continue;
+
+    try {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+      // Captions of a narration share its name
+      const captions = file.replace(/^(.*narration_[0-9a-f]+)\.(mp3|wav)$/, '$1.vtt');
+      if (captions !== file && fs.existsSync(captions)) fs.unlinkSync(captions);
+      released.push(url!);
+    } catch (error) {
+      Logger.warn(`Could not delete unused audio ${url}: ${error}`);
+    }
+  }
+  if (released.length > 0) Logger.debug(`Released ${released.length} unused audio file(s)`);
+  return released;
+}
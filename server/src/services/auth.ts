@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { User, IUser, StaffRole } from '../models/User';
+import { Session } from '../models/Session';
+import Logger from '../utils/logger';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_TTL_HOURS = process.env.SESSION_TTL_HOURS ? Number(process.env.SESSION_TTL_HOURS) : 12;
+
+export type Permission =
+  | 'museums:read'
+  | 'museums:create'
+  | 'museums:update'
+  | 'museums:delete'
+  | 'artworks:read'
+  | 'artworks:create'
+  | 'artworks:delete'
+  | 'translations:edit'
+  | 'translations:approve'
+  | 'users:manage';
+
+// What each staff role is allowed to do
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  'super-admin': [
+    'museums:read', 'museums:create', 'museums:update', 'museums:delete',
+    'artworks:read', 'artworks:create', 'artworks:delete',
+    'translations:edit', 'translations:approve', 'users:manage'
+  ],
+  'museum-admin': [
+    'museums:read', 'museums:update',
+    'artworks:read', 'artworks:create', 'artworks:delete',
+    'translations:edit', 'translations:approve'
+  ],
+  'curator': ['museums:read', 'artworks:read', 'artworks:create', 'translations:edit', 'translations:approve'],
+  'translator': ['museums:read', 'artworks:read', 'translations:edit'],
+  'read-only': ['museums:read', 'artworks:read']
+};
+
+export function hasPermission(role: StaffRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Hash a password with a random salt using scrypt
+ * @returns "salt:hash" in hex
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const derived = await scrypt(password, salt, 64);
+  return `${salt}:${derived.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const derived = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(derived, expected);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Check credentials and open a new session
+ * @returns Bearer token and user, or null if the credentials are wrong
+ */
+export async function login(email: string, password: string): Promise<{ token: string; expiresAt: Date; user: IUser } | null> {
+  const user = await User.findOne({ email: email.toLowerCase().trim() }).select('+passwordHash');
+  if (!user || !user.active) return null;
+
+  const valid = await verifyPassword(password, user.passwordHash);
+  if (!valid) return null;
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+  await Session.create({ tokenHash: hashToken(token), userId: user._id, expiresAt });
+
+  user.lastLoginAt = new Date();
+  await user.save();
+
+  return { token, expiresAt, user };
+}
+
+/**
+ * Resolve a bearer token to its active user
+ */
+export async function resolveSession(token: string): Promise<IUser | null> {
+  const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+  if (!session) return null;
+
+  const user = await User.findById(session.userId);
+  if (!user || !user.active) return null;
+
+  return user;
+}
+
+export async function revokeSession(token: string): Promise<void> {
+  await Session.deleteOne({ tokenHash: hashToken(token) });
+}
+
+export async function revokeUserSessions(userId: string): Promise<void> {
+  await Session.deleteMany({ userId });
+}
+
+/**
+ * Public shape of a staff user (never includes the password hash)
+ */
+export function serializeUser(user: IUser) {
+  return {
+    id: user._id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    museumIds: user.museumIds || [],
+    active: user.active,
+    permissions: ROLE_PERMISSIONS[user.role] || [],
+    lastLoginAt: user.lastLoginAt,
+    createdAt: user.createdAt
+  };
+}
+
+/**
+ * Create the first super-admin from ADMIN_EMAIL / ADMIN_PASSWORD when no staff exist yet
+ */
+export async function ensureBootstrapAdmin(): Promise<void> {
+  const count = await User.countDocuments();
+  if (count > 0) return;
+
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!email || !password) {
+    Logger.warn('No staff accounts exist. Set ADMIN_EMAIL and ADMIN_PASSWORD to create the first super-admin.');
+    return;
+  }
+
+  await User.create({
+    email,
+    name: 'Administrator',
+    passwordHash: await hashPassword(password),
+    role: 'super-admin'
+  });
+
+  Logger.info(`Bootstrap super-admin created: ${email}`);
+}
@@ -0,0 +1,453 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { Artwork } from '../models/Artwork';
+import { IMuseum } from '../models/Museum';
+import { computeImageHashes, findDuplicateArtworks } from './duplicates';
+import { enqueueJob } from './jobs';
+import { IMPORT_JOB, DRAFT_TITLE, DRAFT_DESCRIPTION, RECOGNIZED_FIELDS } from './enrichment';
+import { LanguageCode } from './languages';
+import { ArchiveEntry, ZipArchive } from './zip-reader';
+import Logger from '../utils/logger';
+
+const UPLOADS_DIR = path.join(__dirname, '..', '..', 'uploads');
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.tif', '.tiff', '.avif'];
+// Keeps one import job (and a zip bomb) bounded; larger collections are split into several archives
+export const MAX_IMPORT_IMAGES = 500;
+const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+// Largest archive upload accepted. Archives are read entry by entry from disk, so this
+// bounds disk use and upload time; only manifests are held in memory, up to MAX_MANIFEST_BYTES.
+export const MAX_ARCHIVE_BYTES = 1024 * 1024 * 1024;
+export const MAX_MANIFEST_BYTES = 16 * 1024 * 1024;
+// Rows between progress saves on the import job
+const PROGRESS_EVERY = 20;
+
+// Artwork fields a manifest can set
+export const MANIFEST_FIELDS = [
+  'title',
+  'author',
+  'year',
+  'style',
+  'description',
+  'educationalNotes',
+  'relatedWorks',
+  'museumLinks',
+  'accessionNumber'
+] as const;
+
+export type ManifestField = typeof MANIFEST_FIELDS[number];
+
+// Column names (lowercased, letters and digits only) accepted for each field
+const COLUMN_ALIASES: Record<string, ManifestField | 'file'> = {
+  file: 'file',
+  filename: 'file',
+  image: 'file',
+  imagefile: 'file',
+  path: 'file',
+  title: 'title',
+  author: 'author',
+  artist: 'author',
+  year: 'year',
+  date: 'year',
+  style: 'style',
+  description: 'description',
+  educationalnotes: 'educationalNotes',
+  relatedworks: 'relatedWorks',
+  museumlinks: 'museumLinks',
+  accession: 'accessionNumber',
+  accessionnumber: 'accessionNumber',
+  accessionno: 'accessionNumber',
+  objectnumber: 'accessionNumber',
+  inventorynumber: 'accessionNumber'
+};
+
+export interface ImportRowReport {
+  row: number; // 1-based manifest row; images the manifest does not list are numbered after it
+  file?: string;
+  sourceId?: string; // Id the artwork had in the deployment a collection archive came from
+  status: 'created' | 'error' | 'duplicate';
+  artworkId?: string;
+  jobId?: string;
+  title?: string;
+  errors?: string[];
+  duplicateOf?: { artworkId: string; title: string; reasons: string[] };
+  enrichedFields?: string[]; // Fields left empty by the manifest, for AI enrichment to fill in
+}
+
+// What a running import has done so far; saved on its job step, and read back by a retry
+export interface ImportProgress {
+  museumId: string;
+  total: number;
+  rows: ImportRowReport[];
+}
+
+export interface ImportRunOptions {
+  done?: ImportRowReport[]; // Rows an earlier attempt already finished
+  onProgress?: (progress: ImportProgress) => Promise<void>;
+}
+
+export interface ImportReport {
+  manifest: string | null;
+  museumId: string;
+  ignoredColumns: string[];
+  warnings?: string[];
+  summary: { total: number; created: number; errors: number; duplicates: number };
+  rows: ImportRowReport[];
+}
+
+interface ManifestRow {
+  row: number;
+  file?: string;
+  fields: Partial<Record<ManifestField, string>>;
+  errors: string[];
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF) into rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no artwork
+  return rows.filter(r => r.some(value => value.trim()));
+}
+
+/**
+ * Turn a CSV or JSON manifest into rows keyed by artwork field. JSON may be an
+ * array of objects or `{ "artworks": [...] }`.
+ */
+export function parseManifest(name: string, content: string): { rows: ManifestRow[]; ignoredColumns: string[] } {
+  let records: Record<string, unknown>[];
+
+  if (name.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(content.replace(/^\uFEFF/, ''));
+    const list = Array.isArray(parsed) ? parsed : parsed?.artworks;
+    if (!Array.isArray(list)) throw new Error('JSON manifest must be an array of artworks or { "artworks": [...] }');
+    records = list.map(item => (item && typeof item === 'object' && !Array.isArray(item) ? item : {}));
+  } else {
+    const [header, ...lines] = parseCsv(content);
+    if (!header) throw new Error('CSV manifest is empty');
+    records = lines.map(cells => Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])));
+  }
+
+  const ignored = new Set<string>();
+  const rows = records.map((record, index) => {
+    const row: ManifestRow = { row: index + 1, fields: {}, errors: [] };
+
+    for (const [column, value] of Object.entries(record)) {
+      const field = COLUMN_ALIASES[column.toLowerCase().replace(/[^a-z0-9]/g, '')];
+      if (!field) {
+        ignored.add(column);
+        continue;
+      }
+      if (value === null || value === undefined) continue;
+      if (typeof value === 'object') {
+        row.errors.push(`"${column}" must be text`);
+        continue;
+      }
+
+      const text = String(value).trim();
+      if (!text) continue;
+      if (field === 'file') row.file = text;
+      else row.fields[field] = text;
+    }
+
+    if (!row.file) row.errors.push('No image file given');
+    return row;
+  });
+
+  return { rows, ignoredColumns: Array.from(ignored) };
+}
+
+// Archive entries worth looking at: no folders, macOS resource forks or hidden files
+function archiveFiles(zip: ZipArchive): ArchiveEntry[] {
+  return zip.entries.filter(entry =>
+    !entry.isDirectory &&
+    !entry.name.startsWith('__MACOSX/') &&
+    !path.posix.basename(entry.name).startsWith('.')
+  );
+}
+
+function isImage(name: string): boolean {
+  return IMAGE_EXTENSIONS.includes(path.extname(name).toLowerCase());
+}
+
+// The shallowest CSV or JSON file in the archive, if any
+function findArchiveManifest(entries: ArchiveEntry[]): ArchiveEntry | null {
+  const manifests = entries
+    .filter(entry => /\.(csv|json)$/i.test(entry.name))
+    .sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+  return manifests[0] || null;
+}
+
+/**
+ * Resolve a manifest file reference to an archive image: by full path, by path
+ * relative to the manifest, or by file name when only one image has it
+ */
+function imageResolver(images: ArchiveEntry[], manifestDir: string) {
+  const byPath = new Map(images.map(entry => [entry.name.toLowerCase(), entry]));
+  const byName = new Map<string, ArchiveEntry[]>();
+  for (const entry of images) {
+    const name = path.posix.basename(entry.name).toLowerCase();
+    byName.set(name, [...(byName.get(name) || []), entry]);
+  }
+
+  return (reference: string): ArchiveEntry | string => {
+    const normalized = reference.replace(/\\/g, '/').replace(/^\.?\//, '').toLowerCase();
+    const direct = byPath.get(normalized) || byPath.get(path.posix.join(manifestDir, normalized).toLowerCase());
+    if (direct) return direct;
+
+    const named = byName.get(path.posix.basename(normalized)) || [];
+    if (named.length === 1) return named[0];
+    if (named.length > 1) return `"${reference}" matches ${named.length} images in the archive; give its folder too`;
+    return `"${reference}" is not an image in the archive`;
+  };
+}
+
+// Copy an archive image into uploads/ under a unique name, as the upload route does
+async function extractImage(zip: ZipArchive, entry: ArchiveEntry, row: number): Promise<string> {
+  const ext = path.extname(entry.name);
+  const base = path.basename(entry.name, ext).replace(/[^a-z0-9-_]/gi, '_');
+  const filename = `${Date.now()}_${row}_${base}${ext.toLowerCase()}`;
+  fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+  try {
+    await zip.extract(entry, path.join(UPLOADS_DIR, filename));
+  } catch (error) {
+    try { fs.unlinkSync(path.join(UPLOADS_DIR, filename)); } catch { }
+    throw error;
+  }
+  return filename;
+}
+
+/**
+ * Run import rows in order, reusing the reports of rows an earlier attempt finished
+ * and reporting progress every few rows
+ */
+export async function runImportRows<T>(
+  items: T[],
+  rowOf: (item: T) => number,
+  run: (item: T) => Promise<ImportRowReport>,
+  museumId: string,
+  options: ImportRunOptions
+): Promise<ImportRowReport[]> {
+  const done = new Map((options.done || []).map(report => [report.row, report]));
+  const reports: ImportRowReport[] = [];
+  const progress = () => options.onProgress?.({ museumId, total: items.length, rows: reports });
+
+  await progress();
+  for (const item of items) {
+    reports.push(done.get(rowOf(item)) || await run(item));
+    if (reports.length % PROGRESS_EVERY === 0) await progress();
+  }
+  return reports;
+}
+
+/**
+ * Import a ZIP of images into a museum; runs as a step of an archive import job.
+ * Each image becomes an artwork with its manifest fields and gets an import job
+ * that embeds and indexes it, then only fills in what the manifest left empty.
+ * Files identical or near-identical (by hash) to artworks already in the museum,
+ * or earlier in the same archive, are skipped.
+ * @param manifest - A separately uploaded manifest; otherwise a CSV/JSON file in the archive is used
+ */
+export async function importCollectionArchive(
+  museum: IMuseum,
+  zip: ZipArchive,
+  options: ImportRunOptions & { manifest?: { name: string; content: string }; sourceLanguage?: LanguageCode; createdBy?: unknown } = {}
+): Promise<ImportReport> {
+  const entries = archiveFiles(zip);
+  const images = entries.filter(entry => isImage(entry.name));
+
+  let manifest = options.manifest || null;
+  let manifestDir = '';
+  if (!manifest) {
+    const entry = findArchiveManifest(entries);
+    if (entry) {
+      manifest = { name: entry.name, content: (await zip.read(entry, MAX_MANIFEST_BYTES)).toString('utf8') };
+      manifestDir = path.posix.dirname(entry.name).replace(/^\.$/, '');
+    }
+  }
+
+  const { rows, ignoredColumns } = manifest ? parseManifest(manifest.name, manifest.content) : { rows: [], ignoredColumns: [] };
+
+  // Match manifest rows to images; images nobody listed are imported with no metadata
+  const resolve = imageResolver(images, manifestDir);
+  const claimed = new Map<ArchiveEntry, number>();
+  const accessionRows = new Map<string, number>();
+  const planned: { row: ManifestRow; entry?: ArchiveEntry }[] = [];
+
+  for (const row of rows) {
+    let entry: ArchiveEntry | undefined;
+    if (row.file) {
+      const resolved = resolve(row.file);
+      if (typeof resolved === 'string') {
+        row.errors.push(resolved);
+      } else if (claimed.has(resolved)) {
+        row.errors.push(`Image is already used by row ${claimed.get(resolved)}`);
+      } else {
+        entry = resolved;
+        claimed.set(resolved, row.row);
+      }
+    }
+
+    const accession = row.fields.accessionNumber;
+    if (accession) {
+      if (accessionRows.has(accession)) row.errors.push(`Accession number ${accession} is also used by row ${accessionRows.get(accession)}`);
+      else accessionRows.set(accession, row.row);
+    }
+    planned.push({ row, entry });
+  }
+  for (const entry of images) {
+    if (claimed.has(entry)) continue;
+    planned.push({ row: { row: planned.length + 1, file: entry.name, fields: {}, errors: [] }, entry });
+  }
+
+  if (planned.filter(p => p.entry).length > MAX_IMPORT_IMAGES) {
+    throw new Error(`An archive may hold at most ${MAX_IMPORT_IMAGES} images`);
+  }
+
+  const reports = await runImportRows(
+    planned,
+    ({ row }) => row.row,
+    ({ row, entry }) => importRow(museum, zip, row, entry, options),
+    String(museum._id),
+    options
+  );
+
+  const count = (status: ImportRowReport['status']) => reports.filter(r => r.status === status).length;
+  const report: ImportReport = {
+    manifest: manifest?.name || null,
+    museumId: String(museum._id),
+    ignoredColumns,
+    summary: { total: reports.length, created: count('created'), errors: count('error'), duplicates: count('duplicate') },
+    rows: reports
+  };
+
+  Logger.info(
+    `Imported archive into museum ${museum._id}: ${report.summary.created} created, ` +
+    `${report.summary.duplicates} duplicates, ${report.summary.errors} errors`
+  );
+  return report;
+}
+
+async function importRow(
+  museum: IMuseum,
+  zip: ZipArchive,
+  row: ManifestRow,
+  entry: ArchiveEntry | undefined,
+  options: { sourceLanguage?: LanguageCode; createdBy?: unknown }
+): Promise<ImportRowReport> {
+  const report = { row: row.row, file: entry?.name || row.file, title: row.fields.title };
+  const fail = (errors: string[]): ImportRowReport => ({ ...report, status: 'error', errors });
+
+  if (row.errors.length > 0 || !entry) return fail(row.errors);
+  if (entry.size > MAX_IMAGE_BYTES) return fail([`Image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`]);
+
+  if (row.fields.accessionNumber) {
+    const existing = await Artwork.findOne({ museumId: museum._id, accessionNumber: row.fields.accessionNumber }).select('title');
+    if (existing) {
+      return {
+        ...report,
+        status: 'duplicate',
+        duplicateOf: { artworkId: String(existing._id), title: existing.title, reasons: [`Same accession number ${row.fields.accessionNumber}`] }
+      };
+    }
+  }
+
+  let filename: string;
+  try {
+    filename = await extractImage(zip, entry, row.row);
+  } catch (error) {
+    return fail([`Could not extract the image: ${error instanceof Error ? error.message : error}`]);
+  }
+  const absPath = path.join(UPLOADS_DIR, filename);
+  const discard = () => { try { fs.unlinkSync(absPath); } catch { } };
+
+  try {
+    await sharp(absPath).metadata();
+  } catch {
+    discard();
+    return fail(['Not a readable image']);
+  }
+
+  try {
+    // Lookalikes by CLIP similarity are flagged later, by the job's embedding step
+    const hashes = await computeImageHashes(absPath);
+    const [duplicate] = await findDuplicateArtworks(museum._id, hashes, []);
+    if (duplicate) {
+      discard();
+      return {
+        ...report,
+        status: 'duplicate',
+        duplicateOf: { artworkId: duplicate.artworkId, title: duplicate.title, reasons: duplicate.reasons }
+      };
+    }
+
+    const doc = await Artwork.create({
+      title: DRAFT_TITLE,
+      description: DRAFT_DESCRIPTION,
+      ...row.fields,
+      museumId: museum._id,
+      ...hashes,
+      imageUrl: `/uploads/${filename}`
+    });
+
+    const manifestFields = Object.keys(row.fields) as ManifestField[];
+    // The source language is the manifest's; descriptions from recognition or Wikipedia are English
+    const sourceLanguage = manifestFields.includes('description') ? options.sourceLanguage : undefined;
+    const job = await enqueueJob(IMPORT_JOB, {
+      artworkId: doc._id,
+      museumId: museum._id,
+      payload: { manifestFields, ...(sourceLanguage ? { sourceLanguage } : {}) },
+      createdBy: options.createdBy
+    });
+
+    return {
+      ...report,
+      status: 'created',
+      artworkId: String(doc._id),
+      jobId: String(job._id),
+      title: doc.title,
+      enrichedFields: RECOGNIZED_FIELDS.filter(field => !manifestFields.includes(field))
+    };
+  } catch (error) {
+    discard();
+    return fail([error instanceof Error ? error.message : String(error)]);
+  }
+}
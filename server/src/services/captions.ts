@@ -0,0 +1,86 @@
+/**
+ * Sentence-level timed transcripts for narrations, exported as WebVTT. Timings come
+ * from the provider's character alignment when it returns one, otherwise they are
+ * estimated by sharing each chunk's duration among its sentences by length.
+ */
+
+export interface TimedSentence {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+// A sentence as captioned, and where its spoken form sits in the chunk sent to the provider
+export interface ChunkSentence {
+  text: string;
+  from: number;
+  to: number;
+}
+
+// Per-character timings in the chunk's spoken text
+export interface CharacterAlignment {
+  characters: string[];
+  startTimes: number[];
+  endTimes: number[];
+}
+
+export type CaptionTiming = 'aligned' | 'estimated';
+
+// Share [start, end] among the sentences by spoken length
+function estimatedSentences(sentences: ChunkSentence[], start: number, end: number): TimedSentence[] {
+  const total = sentences.reduce((sum, sentence) => sum + (sentence.to - sentence.from), 0) || 1;
+  let at = start;
+  return sentences.map(sentence => {
+    const length = (end - start) * (sentence.to - sentence.from) / total;
+    const timed = { start: at, end: at + length, text: sentence.text };
+    at += length;
+    return timed;
+  });
+}
+
+/**
+ * Timings for one chunk that starts at `offset` seconds in the narration. Alignment is
+ * only trusted when it covers exactly the text that was sent.
+ */
+export function chunkTimings(
+  spokenText: string,
+  sentences: ChunkSentence[],
+  offset: number,
+  duration: number,
+  alignment?: CharacterAlignment
+): { sentences: TimedSentence[]; timing: CaptionTiming } {
+  if (alignment && alignment.characters.join('') === spokenText && alignment.startTimes.length === spokenText.length) {
+    return {
+      timing: 'aligned',
+      sentences: sentences.map(sentence => ({
+        start: offset + alignment.startTimes[sentence.from],
+        end: offset + alignment.endTimes[Math.max(sentence.from, sentence.to - 1)],
+        text: sentence.text
+      }))
+    };
+  }
+  return { timing: 'estimated', sentences: estimatedSentences(sentences, offset, offset + duration) };
+}
+
+// 83.5 -> "00:01:23.500"
+function vttTimestamp(seconds: number): string {
+  const millis = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(millis / 3600000);
+  const minutes = Math.floor(millis / 60000) % 60;
+  const secs = Math.floor(millis / 1000) % 60;
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(millis % 1000, 3)}`;
+}
+
+// How the timings were made is kept in a NOTE block, so a reused file still reports it
+export function toWebVtt(sentences: TimedSentence[], timing: CaptionTiming): string {
+  const cues = sentences.map((sentence, index) =>
+    // A cue may not contain "-->" or blank lines
+    `${index + 1}\n${vttTimestamp(sentence.start)} --> ${vttTimestamp(sentence.end)}\n${sentence.text.replace(/-->/g, '->').replace(/\s*\n\s*/g, ' ')}`
+  );
+  return `WEBVTT\n\nNOTE timing: ${timing}\n\n${cues.join('\n\n')}\n`;
+}
+
+export function captionTimingOf(vtt: string): CaptionTiming {
+  return /^NOTE timing: aligned$/m.test(vtt) ? 'aligned' : 'estimated';
+}
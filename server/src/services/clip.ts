@@ -1,4 +1,4 @@
-import { pipeline, env } from '@xenova/transformers';
+import { pipeline, env, AutoTokenizer, CLIPTextModelWithProjection } from '@xenova/transformers';
 import fs from 'fs';
 import path from 'path';
 import Logger from '../utils/logger';
@@ -6,29 +6,83 @@ import Logger from '../utils/logger';
 // Configure transformers.js to use local cache
 env.cacheDir = path.join(__dirname, '..', '..', '.cache');
 
-// Singleton pattern for model loading (expensive operation)
-let clipModel: any = null;
+/**
+ * An embedding model plus the preprocessing version used with it.
+ * Vectors from different keys live in different spaces and are never compared.
+ */
+export interface EmbeddingModelSpec {
+  key: string; // Stored on every embedding, e.g. "clip-vit-base-patch32@1"
+  modelId: string; // Hugging Face model id
+  version: number; // Bump when preprocessing changes for the same model
+  dimensions: number;
+}
+
+export const EMBEDDING_MODELS: EmbeddingModelSpec[] = [
+  { key: 'clip-vit-base-patch32@1', modelId: 'Xenova/clip-vit-base-patch32', version: 1, dimensions: 512 },
+  { key: 'clip-vit-base-patch16@1', modelId: 'Xenova/clip-vit-base-patch16', version: 1, dimensions: 512 },
+  { key: 'clip-vit-large-patch14@1', modelId: 'Xenova/clip-vit-large-patch14', version: 1, dimensions: 768 }
+];
+
+// Used by museums that never switched model, and assumed for embeddings stored before tagging
+export const DEFAULT_EMBEDDING_MODEL = 'clip-vit-base-patch32@1';
+
+export function isEmbeddingModel(key: unknown): key is string {
+  return typeof key === 'string' && EMBEDDING_MODELS.some(m => m.key === key);
+}
+
+export function embeddingModelSpec(key: string): EmbeddingModelSpec {
+  const spec = EMBEDDING_MODELS.find(m => m.key === key);
+  if (!spec) {
+    throw new Error(`Unknown embedding model: ${key}`);
+  }
+  return spec;
+}
+
+/**
+ * The model an embedding was produced with; untagged embeddings predate versioning
+ */
+export function embeddingModelOf(tag?: string | null): string {
+  return tag || DEFAULT_EMBEDDING_MODEL;
+}
+
+/**
+ * Mongo condition on an embeddingModel field matching the given model
+ */
+export function embeddingModelFilter(model: string) {
+  return model === DEFAULT_EMBEDDING_MODEL ? { $in: [model, null] } : model;
+}
+
+// Singleton pattern for model loading (expensive operation), one per model
+const clipModels = new Map<string, Promise<any>>();
+const clipTextModels = new Map<string, Promise<{ tokenizer: any; model: any }>>();
 
 /**
  * Load CLIP model (cached after first load)
  */
-async function loadCLIPModel() {
-  if (!clipModel) {
-    Logger.info('Loading CLIP model (this may take a moment on first run)...');
-    clipModel = await pipeline('image-feature-extraction', 'Xenova/clip-vit-base-patch32');
-    Logger.info('CLIP model loaded successfully');
+function loadCLIPModel(modelKey: string) {
+  if (!clipModels.has(modelKey)) {
+    const { modelId } = embeddingModelSpec(modelKey);
+    Logger.info(`Loading CLIP model ${modelId} (this may take a moment on first run)...`);
+    const loading = pipeline('image-feature-extraction', modelId).then(model => {
+      Logger.info(`CLIP model ${modelId} loaded successfully`);
+      return model;
+    });
+    clipModels.set(modelKey, loading);
+    // Allow a retry if the download failed
+    loading.catch(() => clipModels.delete(modelKey));
   }
-  return clipModel;
+  return clipModels.get(modelKey)!;
 }
 
 /**
  * Generate CLIP embedding from image file
  * @param imagePath - Absolute path to image file
- * @returns 512-dimensional embedding vector
+ * @param modelKey - Embedding model to use (see EMBEDDING_MODELS)
+ * @returns Embedding vector (512 dimensions for the default model)
  */
-export async function generateImageEmbedding(imagePath: string): Promise<number[]> {
+export async function generateImageEmbedding(imagePath: string, modelKey: string = DEFAULT_EMBEDDING_MODEL): Promise<number[]> {
   try {
-    Logger.info(`Generating CLIP embedding for: ${imagePath}`);
+    Logger.info(`Generating CLIP embedding (${modelKey}) for: ${imagePath}`);
 
     // Verify file exists
     if (!fs.existsSync(imagePath)) {
@@ -36,7 +90,7 @@ export async function generateImageEmbedding(imagePath: string): Promise<number[
     }
 
     // Load model
-    const model = await loadCLIPModel();
+    const model = await loadCLIPModel(modelKey);
 
     // Generate embedding
     const result = await model(imagePath);
@@ -53,6 +107,46 @@ export async function generateImageEmbedding(imagePath: string): Promise<number[
   }
 }
 
+/**
+ * Load CLIP's text tower (cached after first load); it shares the image embedding space
+ */
+function loadCLIPTextModel(modelKey: string) {
+  if (!clipTextModels.has(modelKey)) {
+    const { modelId } = embeddingModelSpec(modelKey);
+    Logger.info(`Loading CLIP text model ${modelId}...`);
+    const loading = Promise.all([
+      AutoTokenizer.from_pretrained(modelId),
+      CLIPTextModelWithProjection.from_pretrained(modelId)
+    ]).then(([tokenizer, model]) => {
+      Logger.info(`CLIP text model ${modelId} loaded successfully`);
+      return { tokenizer, model };
+    });
+    clipTextModels.set(modelKey, loading);
+    // Allow a retry if the download failed
+    loading.catch(() => clipTextModels.delete(modelKey));
+  }
+  return clipTextModels.get(modelKey)!;
+}
+
+/**
+ * Generate CLIP embedding for a text query, comparable with image embeddings from the same model
+ * @param text - Free-text description, e.g. "stormy sea with a small boat"
+ * @param modelKey - Embedding model to use (see EMBEDDING_MODELS)
+ */
+export async function generateTextEmbedding(text: string, modelKey: string = DEFAULT_EMBEDDING_MODEL): Promise<number[]> {
+  try {
+    const { tokenizer, model } = await loadCLIPTextModel(modelKey);
+
+    const inputs = tokenizer([text], { padding: true, truncation: true });
+    const { text_embeds } = await model(inputs);
+
+    return Array.from(text_embeds.data as Float32Array);
+  } catch (error) {
+    Logger.error(`Error generating CLIP text embedding: ${error}`);
+    throw error;
+  }
+}
+
 /**
  * Calculate cosine similarity between two embeddings
  * @param embeddingA - First embedding vector
@@ -90,29 +184,59 @@ export function cosineSimilarity(embeddingA: number[], embeddingB: number[]): nu
   return similarity;
 }
 
+/**
+ * Collect every embedding an artwork can be matched against
+ * @param artwork - Artwork with a primary embedding and/or reference views
+ * @param modelKey - Only embeddings produced by this model are returned
+ * @returns One entry per view; the primary image is labelled 'primary'
+ */
+export function artworkEmbeddings(artwork: any, modelKey: string = DEFAULT_EMBEDDING_MODEL): { view: string; embedding: number[] }[] {
+  const views: { view: string; embedding: number[] }[] = [];
+
+  if (artwork.imageEmbedding && artwork.imageEmbedding.length > 0 && embeddingModelOf(artwork.embeddingModel) === modelKey) {
+    views.push({ view: 'primary', embedding: artwork.imageEmbedding });
+  }
+
+  for (const reference of artwork.referenceImages || []) {
+    if (reference.embedding && reference.embedding.length > 0 && embeddingModelOf(reference.embeddingModel) === modelKey) {
+      views.push({ view: reference.label || 'other', embedding: reference.embedding });
+    }
+  }
+
+  return views;
+}
+
 /**
  * Find best matching artwork from array based on embedding similarity
  * @param queryEmbedding - Embedding from visitor's photo
  * @param artworks - Array of artworks with embeddings
+ * @param modelKey - Model the query was embedded with; other models' embeddings are skipped
  * @returns Matched artwork info with confidence score
  */
 export interface MatchResult {
   artwork: any;
   score: number;
+  view?: string; // Which view of the artwork matched best
 }
 
 export function findBestMatches(
   queryEmbedding: number[],
   artworks: any[],
-  topN: number = 3
+  topN: number = 3,
+  modelKey: string = DEFAULT_EMBEDDING_MODEL
 ): MatchResult[] {
-  // Calculate similarity for each artwork
-  const matches: MatchResult[] = artworks
-    .filter(artwork => artwork.imageEmbedding && artwork.imageEmbedding.length > 0)
-    .map(artwork => ({
-      artwork,
-      score: cosineSimilarity(queryEmbedding, artwork.imageEmbedding)
-    }));
+  // Score each artwork by its best-matching view
+  const matches: MatchResult[] = [];
+  for (const artwork of artworks) {
+    let best: MatchResult | null = null;
+    for (const { view, embedding } of artworkEmbeddings(artwork, modelKey)) {
+      const score = cosineSimilarity(queryEmbedding, embedding);
+      if (!best || score > best.score) {
+        best = { artwork, score, view };
+      }
+    }
+    if (best) matches.push(best);
+  }
 
   // Sort by score (highest first)
   matches.sort((a, b) => b.score - a.score);
@@ -121,19 +245,10 @@ export function findBestMatches(
   return matches.slice(0, topN);
 }
 
-/**
- * Determine if a match is confident enough
- * @param score - Similarity score (0-1)
- * @param threshold - Minimum threshold (default 0.7)
- * @returns Boolean indicating if match is confident
- */
-export function isConfidentMatch(score: number, threshold: number = 0.7): boolean {
-  return score >= threshold;
-}
-
 export default {
   generateImageEmbedding,
+  generateTextEmbedding,
   cosineSimilarity,
-  findBestMatches,
-  isConfidentMatch
+  artworkEmbeddings,
+  findBestMatches
 };
@@ -0,0 +1,343 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import archiver, { Archiver } from 'archiver';
+import { Artwork, ArtworkDocument, AudioRecord } from '../models/Artwork';
+import { Museum, IMuseum } from '../models/Museum';
+import { embeddingModelOf } from './clip';
+import { indexArtwork } from './artwork-index';
+import { ImportReport, ImportRowReport, ImportRunOptions, MAX_MANIFEST_BYTES, runImportRows } from './bulk-import';
+import { ZipArchive } from './zip-reader';
+import Logger from '../utils/logger';
+
+const UPLOADS_DIR = path.join(__dirname, '..', '..', 'uploads');
+
+// Archive layout: export.json (format marker and museum), artworks.json, uploads/<file>
+export const ARCHIVE_FORMAT = 'museum-ai-collection';
+export const ARCHIVE_VERSION = 1;
+const MANIFEST_ENTRY = 'export.json';
+const ARTWORKS_ENTRY = 'artworks.json';
+const FILES_PREFIX = 'uploads/';
+// artworks.json carries every embedding, so it may be far larger than an import manifest
+const MAX_ARTWORKS_BYTES = 512 * 1024 * 1024;
+
+interface ArchiveManifest {
+  format: string;
+  version: number;
+  exportedAt: string;
+  museum: {
+    name: string;
+    location: string;
+    qrCode: string;
+    website?: string;
+    description?: string;
+    matching?: IMuseum['matching'];
+    embeddingModel?: string;
+    languages?: string[];
+    translationProvider?: string;
+    glossary?: IMuseum['glossary'];
+    approvedTranslationsOnly?: boolean;
+    ttsProvider?: string;
+    narrationVoices?: IMuseum['narrationVoices'];
+    pronunciations?: IMuseum['pronunciations'];
+  };
+  artworkCount: number;
+}
+
+// Everything an artwork needs to be restored exactly; ids are reassigned on restore
+type ArchivedArtwork = Record<string, unknown> & {
+  sourceId: string;
+  title: string;
+  imageUrl?: string;
+  audioUrl?: string;
+  audioUrls?: Record<string, string>;
+  audio?: Record<string, unknown>;
+  accessionNumber?: string;
+  contentHash?: string;
+  referenceImages?: Array<Record<string, unknown> & { imageUrl: string }>;
+};
+
+// Only files the server stored itself are archived or restored
+function uploadedFileName(url: string | undefined): string | null {
+  if (!url || !path.posix.normalize(url).startsWith('/uploads/')) return null;
+  const name = path.posix.basename(url);
+  return name && name !== '.' && name !== '..' ? name : null;
+}
+
+// Besides restored uploads, an archive may only point at remote files; any other path
+// would be served from wherever it leads by the IIIF image service
+function isRemoteUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+function artworkFileUrls(artwork: ArtworkDocument): string[] {
+  return [
+    artwork.imageUrl,
+    artwork.audioUrl,
+    ...Object.values(artwork.audioUrls || {}),
+    ...Object.values(artwork.audio || {}).map(record => record?.captionsUrl),
+    ...(artwork.referenceImages || []).map(view => view.imageUrl)
+  ].filter((url): url is string => !!url);
+}
+
+function archivedArtwork(artwork: ArtworkDocument): ArchivedArtwork {
+  const { _id, __v, museumId, stagedEmbeddings, ...fields } = artwork.toObject({ depopulate: true });
+  return { sourceId: String(_id), ...fields } as ArchivedArtwork;
+}
+
+/**
+ * Build a self-contained archive of a museum: its metadata, every artwork with
+ * embeddings and hashes, and the image and audio files they reference. The ZIP is
+ * a stream that reads each file from disk as it is written, so pipe it to the
+ * response and call finalize(); a collection is never held in memory whole.
+ * @returns The ZIP stream, plus referenced files that were missing on disk
+ */
+export function buildCollectionArchive(museum: IMuseum, artworks: ArtworkDocument[]): { archive: Archiver; missingFiles: string[] } {
+  // Media is already compressed; deflating it again only costs CPU
+  const zip = archiver('zip', { zlib: { level: 1 } });
+  const missingFiles: string[] = [];
+  const added = new Set<string>();
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    museum: {
+      name: museum.name,
+      location: museum.location,
+      qrCode: museum.qrCode,
+      website: museum.website,
+      description: museum.description,
+      matching: museum.matching,
+      embeddingModel: museum.embeddingModel,
+      languages: museum.languages,
+      translationProvider: museum.translationProvider,
+      glossary: museum.glossary,
+      approvedTranslationsOnly: museum.approvedTranslationsOnly,
+      ttsProvider: museum.ttsProvider,
+      narrationVoices: museum.narrationVoices,
+      pronunciations: museum.pronunciations
+    },
+    artworkCount: artworks.length
+  };
+
+  for (const artwork of artworks) {
+    for (const url of artworkFileUrls(artwork)) {
+      const name = uploadedFileName(url);
+      if (!name || added.has(name)) continue;
+      const filePath = path.join(UPLOADS_DIR, name);
+      if (!fs.existsSync(filePath)) {
+        missingFiles.push(url);
+        continue;
+      }
+      zip.file(filePath, { name: `${FILES_PREFIX}${name}` });
+      added.add(name);
+    }
+  }
+
+  zip.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_ENTRY });
+  zip.append(JSON.stringify(artworks.map(archivedArtwork)), { name: ARTWORKS_ENTRY });
+
+  if (missingFiles.length > 0) {
+    Logger.warn(`Export of museum ${museum._id} is missing ${missingFiles.length} file(s)`);
+  }
+  return { archive: zip, missingFiles };
+}
+
+async function readManifest(zip: ZipArchive): Promise<ArchiveManifest | null> {
+  const entry = zip.getEntry(MANIFEST_ENTRY);
+  if (!entry) return null;
+  try {
+    const manifest = JSON.parse((await zip.read(entry, MAX_MANIFEST_BYTES)).toString('utf8'));
+    return manifest?.format === ARCHIVE_FORMAT ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a ZIP is a collection archive (rather than images for bulk import).
+ * Reads only the central directory and export.json.
+ */
+export async function isCollectionArchive(archivePath: string): Promise<boolean> {
+  let zip: ZipArchive | null = null;
+  try {
+    zip = await ZipArchive.open(archivePath);
+    return !!(await readManifest(zip));
+  } catch {
+    return false;
+  } finally {
+    zip?.close();
+  }
+}
+
+function fileHash(file: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(file)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Restore a collection archive; runs as a step of an archive import job. Artworks
+ * keep their metadata, translations, audio, embeddings, hashes, views and timestamps;
+ * files are streamed into uploads/. Artworks already in the museum (same accession
+ * number or identical image) are skipped, so a restore can be re-run.
+ * @param museum - Target museum; when null a museum is created from the archived metadata
+ */
+export async function restoreCollectionArchive(museum: IMuseum | null, zip: ZipArchive, options: ImportRunOptions = {}): Promise<ImportReport> {
+  const manifest = await readManifest(zip);
+  if (!manifest) throw new Error('Not a collection archive');
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${manifest.version} is newer than this server supports (${ARCHIVE_VERSION})`);
+  }
+
+  const artworksEntry = zip.getEntry(ARTWORKS_ENTRY);
+  if (!artworksEntry) throw new Error(`Archive has no ${ARTWORKS_ENTRY}`);
+  const archived: ArchivedArtwork[] = JSON.parse((await zip.read(artworksEntry, MAX_ARTWORKS_BYTES)).toString('utf8'));
+
+  if (!museum) {
+    const { name, location, qrCode, website, description, matching, embeddingModel, languages, translationProvider, glossary, approvedTranslationsOnly, ttsProvider, narrationVoices, pronunciations } = manifest.museum;
+    if (await Museum.exists({ qrCode })) {
+      throw new Error(`A museum with QR code "${qrCode}" already exists; choose it to restore into`);
+    }
+    museum = await Museum.create({ name, location, qrCode, website, description, matching, embeddingModel, languages, translationProvider, glossary, approvedTranslationsOnly, ttsProvider, narrationVoices, pronunciations });
+    Logger.info(`Restored museum ${museum.name} (QR: ${museum.qrCode}) from archive`);
+  }
+
+  const warnings: string[] = [];
+  const museumModel = embeddingModelOf(museum.embeddingModel);
+  const archivedModels = new Set(archived.map(artwork => embeddingModelOf(artwork.embeddingModel as string | undefined)));
+  archivedModels.delete(museumModel);
+  if (archivedModels.size > 0) {
+    warnings.push(
+      `Some artworks were embedded with ${Array.from(archivedModels).join(', ')} but this museum identifies with ${museumModel}; ` +
+      'run a re-embedding job so visitors can match them'
+    );
+  }
+
+  // Archived file name -> URL it was restored to, shared across artworks
+  const restoredFiles = new Map<string, string>();
+  const restoreFile = async (url: string | undefined): Promise<string | undefined> => {
+    if (!url) return undefined;
+    const name = uploadedFileName(url);
+    if (!name) {
+      if (isRemoteUrl(url)) return url;
+      throw new Error(`Refusing to restore ${url}: only /uploads/ files and http(s) URLs are allowed`);
+    }
+    if (restoredFiles.has(name)) return restoredFiles.get(name);
+
+    const entry = zip.getEntry(`${FILES_PREFIX}${name}`);
+    if (!entry) return undefined;
+    fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+    // Keep the name unless this deployment already has a different file under it
+    const incoming = path.join(UPLOADS_DIR, `.restoring_${name}`);
+    try {
+      await zip.extract(entry, incoming);
+      const existing = path.join(UPLOADS_DIR, name);
+      const target = fs.existsSync(existing) && await fileHash(existing) !== await fileHash(incoming) ? `${Date.now()}_${name}` : name;
+      fs.renameSync(incoming, path.join(UPLOADS_DIR, target));
+      restoredFiles.set(name, `/uploads/${target}`);
+      return `/uploads/${target}`;
+    } finally {
+      try { fs.existsSync(incoming) && fs.unlinkSync(incoming); } catch { }
+    }
+  };
+
+  const restoreRow = async (record: ArchivedArtwork, index: number): Promise<ImportRowReport> => {
+    const report = { row: index + 1, file: uploadedFileName(record.imageUrl) || record.imageUrl, title: record.title, sourceId: record.sourceId };
+
+    try {
+      if (!record.title) {
+        return { ...report, status: 'error', errors: ['Artwork has no title'] };
+      }
+
+      const duplicateConditions: Record<string, unknown>[] = [];
+      if (record.accessionNumber) duplicateConditions.push({ accessionNumber: record.accessionNumber });
+      if (record.contentHash) duplicateConditions.push({ contentHash: record.contentHash }, { 'referenceImages.contentHash': record.contentHash });
+      const existing = duplicateConditions.length > 0
+        ? await Artwork.findOne({ museumId: museum._id, $or: duplicateConditions }).select('title accessionNumber')
+        : null;
+      if (existing) {
+        const reason = record.accessionNumber && existing.accessionNumber === record.accessionNumber
+          ? `Same accession number ${record.accessionNumber}`
+          : 'Identical image';
+        return { ...report, status: 'duplicate', duplicateOf: { artworkId: String(existing._id), title: existing.title, reasons: [reason] } };
+      }
+
+      const imageUrl = await restoreFile(record.imageUrl);
+      if (record.imageUrl && !imageUrl) {
+        return { ...report, status: 'error', errors: ['Image is missing from the archive'] };
+      }
+
+      const missing: string[] = [];
+      const restoreOptional = async (url: string | undefined, what: string) => {
+        const restored = await restoreFile(url);
+        if (url && !restored) missing.push(`${what} is missing from the archive`);
+        return restored;
+      };
+
+      const { sourceId, ...fields } = record;
+      const audioUrls: Record<string, string> = {};
+      for (const [language, url] of Object.entries(record.audioUrls || {})) {
+        const restored = await restoreOptional(url, `${language} audio`);
+        if (restored) audioUrls[language] = restored;
+      }
+      // Provider, voice and duration only for narrations whose file came back; captions are optional
+      const audio: Record<string, AudioRecord> = {};
+      for (const [language, narration] of Object.entries((record.audio || {}) as Record<string, AudioRecord>)) {
+        if (audioUrls[language]) audio[language] = { ...narration, captionsUrl: await restoreFile(narration.captionsUrl) };
+      }
+      const referenceImages = [];
+      for (const { _id, ...view } of record.referenceImages || []) {
+        const viewUrl = await restoreOptional(view.imageUrl, `${view.label} view`);
+        if (viewUrl) referenceImages.push({ ...view, imageUrl: viewUrl });
+      }
+
+      const doc = new Artwork({
+        ...fields,
+        museumId: museum._id,
+        imageUrl,
+        audioUrl: await restoreOptional(record.audioUrl, 'Audio'),
+        audioUrls,
+        audio: record.audio && audio,
+        referenceImages: record.referenceImages && referenceImages
+      });
+      // Keep the archived createdAt/updatedAt
+      await doc.save({ timestamps: false });
+      await indexArtwork(doc);
+
+      Logger.debug(`Restored artwork ${sourceId} as ${doc._id}`);
+      return { ...report, status: 'created', artworkId: String(doc._id), ...(missing.length > 0 ? { errors: missing } : {}) };
+    } catch (error) {
+      return { ...report, status: 'error', errors: [error instanceof Error ? error.message : String(error)] };
+    }
+  };
+
+  const rows = await runImportRows(
+    Array.from(archived.entries()),
+    ([index]) => index + 1,
+    ([index, record]) => restoreRow(record, index),
+    String(museum._id),
+    options
+  );
+
+  const count = (status: ImportRowReport['status']) => rows.filter(r => r.status === status).length;
+  const result: ImportReport = {
+    manifest: MANIFEST_ENTRY,
+    museumId: String(museum._id),
+    ignoredColumns: [],
+    warnings,
+    summary: { total: rows.length, created: count('created'), errors: count('error'), duplicates: count('duplicate') },
+    rows
+  };
+
+  Logger.info(
+    `Restored archive into museum ${museum._id}: ${result.summary.created} created, ` +
+    `${result.summary.duplicates} duplicates, ${result.summary.errors} errors`
+  );
+  return result;
+}
@@ -0,0 +1,122 @@
+import { ArtworkDocument } from '../models/Artwork';
+import { IMuseum } from '../models/Museum';
+import { DEFAULT_LANGUAGES, LanguageCode, languagesWithValues, museumLanguages } from './languages';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'archive'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Columns that hold a plain artwork field, in CSV order
+const CSV_FIELDS = [
+  'accessionNumber',
+  'title',
+  'author',
+  'year',
+  'style',
+  'description',
+  'educationalNotes',
+  'relatedWorks',
+  'museumLinks'
+] as const;
+
+// Stored URLs are server-relative; exports link to them absolutely
+function absoluteUrl(url: string | undefined, baseUrl: string): string | undefined {
+  return url && url.startsWith('/') ? `${baseUrl}${url}` : url;
+}
+
+/**
+ * An artwork as it appears in CSV/JSON exports: metadata, every language and source links, no vectors
+ */
+export function exportedArtwork(artwork: ArtworkDocument, baseUrl: string, languages: LanguageCode[] = DEFAULT_LANGUAGES) {
+  const descriptions: Record<string, string> = {};
+  const audioUrls: Record<string, string> = {};
+  for (const language of languagesWithValues(artwork.descriptions, languages)) {
+    descriptions[language] = artwork.descriptions![language]!;
+  }
+  for (const language of languagesWithValues(artwork.audioUrls, languages)) {
+    audioUrls[language] = absoluteUrl(artwork.audioUrls![language], baseUrl)!;
+  }
+
+  return {
+    id: String(artwork._id),
+    ...Object.fromEntries(CSV_FIELDS.map(field => [field, artwork[field] ?? null])),
+    imageUrl: absoluteUrl(artwork.imageUrl, baseUrl) ?? null,
+    referenceImages: (artwork.referenceImages || []).map(view => ({
+      label: view.label,
+      imageUrl: absoluteUrl(view.imageUrl, baseUrl)
+    })),
+    descriptions,
+    // Which provider and model machine-translated each description
+    translations: artwork.translations || {},
+    // Scripts the audio guide reads instead of the descriptions, and who or what wrote them
+    narrations: artwork.narrations || {},
+    narrationScripts: artwork.narrationScripts || {},
+    audioUrls,
+    // Which TTS provider and voice narrated each language, with duration and size
+    audio: artwork.audio || {},
+    sources: (artwork.sources || []).map(source => ({ provider: source.provider, url: source.url })),
+    createdAt: artwork.createdAt,
+    updatedAt: artwork.updatedAt
+  };
+}
+
+/**
+ * JSON export: museum metadata plus every artwork
+ */
+export function collectionToJson(museum: IMuseum, artworks: ArtworkDocument[], baseUrl: string) {
+  return {
+    exportedAt: new Date().toISOString(),
+    museum: {
+      id: String(museum._id),
+      name: museum.name,
+      location: museum.location,
+      website: museum.website ?? null,
+      description: museum.description ?? null,
+      languages: museumLanguages(museum)
+    },
+    count: artworks.length,
+    artworks: artworks.map(artwork => exportedArtwork(artwork, baseUrl, museumLanguages(museum)))
+  };
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV export, one artwork per row. Each language gets description_<lang> and
+ * audio_<lang> columns (only languages the collection uses, the museum's first); sources are
+ * "provider: url" separated by " | ".
+ */
+export function collectionToCsv(artworks: ArtworkDocument[], baseUrl: string, museumLanguageList: LanguageCode[] = DEFAULT_LANGUAGES): string {
+  const rows = artworks.map(artwork => exportedArtwork(artwork, baseUrl, museumLanguageList));
+  const used = Object.fromEntries(
+    rows.flatMap(row => [...Object.keys(row.descriptions), ...Object.keys(row.audioUrls)]).map(language => [language, 'used'])
+  );
+  const languages = languagesWithValues(used, museumLanguageList);
+
+  const header = [
+    'id',
+    ...CSV_FIELDS,
+    'imageUrl',
+    ...languages.map(language => `description_${language}`),
+    ...languages.map(language => `audio_${language}`),
+    'sources',
+    'createdAt',
+    'updatedAt'
+  ];
+
+  const lines = rows.map(row => [
+    row.id,
+    ...CSV_FIELDS.map(field => (row as Record<string, unknown>)[field]),
+    row.imageUrl,
+    ...languages.map(language => row.descriptions[language]),
+    ...languages.map(language => row.audioUrls[language]),
+    row.sources.map(source => `${source.provider}: ${source.url}`).join(' | '),
+    row.createdAt?.toISOString(),
+    row.updatedAt?.toISOString()
+  ].map(csvCell).join(','));
+
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,184 @@
+import { IMuseum, MatchingSettings } from '../models/Museum';
+import { VisitorMatch } from '../models/VisitorMatch';
+import { DEFAULT_EMBEDDING_MODEL, embeddingModelFilter } from './clip';
+import Logger from '../utils/logger';
+
+// Used until a museum is configured or calibrated
+export const DEFAULT_MATCHING: MatchingSettings = {
+  minScore: 0.6,
+  confidentScore: 0.75,
+  minMargin: 0.03
+};
+
+// Top scores spread less than this look like "everything is equally unlike the photo"
+const FLAT_SPREAD = 0.02;
+
+// Calibration wants enough confirmations to say something, and aims for this precision
+export const MIN_CALIBRATION_SAMPLES = 20;
+const TARGET_PRECISION = 0.95;
+const MARGIN_STEPS = [0, 0.01, 0.02, 0.03, 0.05, 0.08, 0.1];
+
+export type MatchOutcome = 'confident' | 'uncertain' | 'not-in-collection';
+
+export interface MatchAssessment {
+  outcome: MatchOutcome;
+  confident: boolean;
+  topScore: number;
+  margin: number; // Gap between the top two artworks (top score when only one)
+  thresholds: MatchingSettings;
+  reasons: string[];
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * A museum's matching thresholds, falling back to the defaults field by field
+ */
+export function matchingSettings(museum: Pick<IMuseum, 'matching'>): MatchingSettings {
+  const configured = museum.matching || {};
+  return {
+    minScore: configured.minScore ?? DEFAULT_MATCHING.minScore,
+    confidentScore: configured.confidentScore ?? DEFAULT_MATCHING.confidentScore,
+    minMargin: configured.minMargin ?? DEFAULT_MATCHING.minMargin
+  };
+}
+
+/**
+ * Decide whether the best match is confident, uncertain, or not in the collection at all
+ * @param scores - Per-artwork similarity scores, best first
+ */
+export function assessMatch(scores: number[], settings: MatchingSettings): MatchAssessment {
+  const topScore = scores[0] ?? 0;
+  const margin = scores.length > 1 ? topScore - scores[1] : topScore;
+  const spread = scores.length > 2 ? topScore - scores[scores.length - 1] : margin;
+  const reasons: string[] = [];
+  let outcome: MatchOutcome;
+
+  if (scores.length === 0) {
+    outcome = 'not-in-collection';
+    reasons.push('No artworks could be compared');
+  } else if (topScore < settings.minScore) {
+    outcome = 'not-in-collection';
+    reasons.push(`Best score ${pct(topScore)} is below the ${pct(settings.minScore)} floor for this collection`);
+  } else if (topScore < settings.confidentScore && scores.length > 2 && spread < FLAT_SPREAD) {
+    // A known artwork stands out from the rest; an unknown object scores about the same against everything
+    outcome = 'not-in-collection';
+    reasons.push(`Top ${scores.length} scores are within ${pct(spread)} of each other, which looks like an object outside the collection`);
+  } else {
+    const scoreOk = topScore >= settings.confidentScore;
+    const marginOk = margin >= settings.minMargin;
+    outcome = scoreOk && marginOk ? 'confident' : 'uncertain';
+
+    reasons.push(scoreOk
+      ? `Best score ${pct(topScore)} meets the ${pct(settings.confidentScore)} confidence threshold`
+      : `Best score ${pct(topScore)} is below the ${pct(settings.confidentScore)} confidence threshold`);
+    if (scores.length > 1) {
+      reasons.push(marginOk
+        ? `Lead of ${pct(margin)} over the runner-up meets the ${pct(settings.minMargin)} margin`
+        : `Lead of ${pct(margin)} over the runner-up is below the ${pct(settings.minMargin)} margin`);
+    }
+  }
+
+  return { outcome, confident: outcome === 'confident', topScore, margin, thresholds: settings, reasons };
+}
+
+interface CalibrationSample {
+  topScore: number;
+  margin: number;
+  correct: boolean; // The visitor confirmed the artwork we ranked first
+  confirmedScore: number;
+}
+
+export interface CalibrationResult {
+  settings: MatchingSettings;
+  samples: number;
+  precision: number; // Share of confident answers that were right, on the samples
+  coverage: number; // Share of right answers that were confident
+}
+
+/**
+ * Derive thresholds from confirmed visitor matches: the loosest score/margin pair that
+ * still reaches the target precision, and a floor below nearly every confirmed score.
+ */
+export function calibrate(samples: CalibrationSample[]): CalibrationResult {
+  const totalCorrect = samples.filter(s => s.correct).length;
+  const candidates = Array.from(new Set(samples.map(s => s.topScore))).sort((a, b) => a - b);
+
+  let best: { confidentScore: number; minMargin: number; precision: number; coverage: number } | null = null;
+  for (const confidentScore of candidates) {
+    for (const minMargin of MARGIN_STEPS) {
+      const accepted = samples.filter(s => s.topScore >= confidentScore && s.margin >= minMargin);
+      if (accepted.length === 0) continue;
+
+      const right = accepted.filter(s => s.correct).length;
+      const precision = right / accepted.length;
+      const coverage = totalCorrect > 0 ? right / totalCorrect : 0;
+      if (precision >= TARGET_PRECISION && (!best || coverage > best.coverage)) {
+        best = { confidentScore, minMargin, precision, coverage };
+      }
+    }
+  }
+
+  // Nothing reaches the target: only the very top score counts as confident
+  const chosen = best || {
+    confidentScore: candidates[candidates.length - 1] ?? DEFAULT_MATCHING.confidentScore,
+    minMargin: MARGIN_STEPS[MARGIN_STEPS.length - 1],
+    precision: 0,
+    coverage: 0
+  };
+
+  // Floor at the 5th percentile of genuine matches, kept under the confidence threshold
+  const confirmed = samples.map(s => s.confirmedScore).sort((a, b) => a - b);
+  const floor = confirmed[Math.floor(confirmed.length * 0.05)] ?? DEFAULT_MATCHING.minScore;
+  const minScore = Math.min(floor, chosen.confidentScore - 0.01);
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    settings: {
+      minScore: round(minScore),
+      confidentScore: round(chosen.confidentScore),
+      minMargin: round(chosen.minMargin)
+    },
+    samples: samples.length,
+    precision: chosen.precision,
+    coverage: chosen.coverage
+  };
+}
+
+/**
+ * Recalibrate a museum's thresholds from the matches its visitors confirmed and save them
+ * @returns The result, or null when there are too few confirmations to calibrate from
+ */
+export async function calibrateMuseum(museum: IMuseum): Promise<CalibrationResult | null> {
+  const attempts = await VisitorMatch.find({
+    museumId: museum._id,
+    status: { $in: ['confirmed', 'pending-review', 'approved'] },
+    'candidates.0': { $exists: true },
+    // Scores from another embedding model sit on a different scale
+    embeddingModel: embeddingModelFilter(museum.embeddingModel || DEFAULT_EMBEDDING_MODEL)
+  }).select('candidates confirmedArtworkId confirmedScore');
+
+  const samples: CalibrationSample[] = attempts.map(attempt => {
+    const [first, second] = attempt.candidates;
+    return {
+      topScore: first.score,
+      margin: second ? first.score - second.score : first.score,
+      correct: String(first.artworkId) === String(attempt.confirmedArtworkId),
+      confirmedScore: attempt.confirmedScore ?? 0
+    };
+  });
+
+  if (samples.length < MIN_CALIBRATION_SAMPLES) {
+    Logger.info(`Not calibrating museum ${museum.name}: only ${samples.length} confirmed matches`);
+    return null;
+  }
+
+  const result = calibrate(samples);
+
+  museum.matching = { ...result.settings, calibratedAt: new Date(), calibrationSamples: result.samples };
+  await museum.save();
+
+  Logger.info(`Calibrated matching for museum ${museum.name}: ${JSON.stringify(result.settings)} from ${result.samples} samples (precision ${pct(result.precision)}, coverage ${pct(result.coverage)})`);
+
+  return result;
+}
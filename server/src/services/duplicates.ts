@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import sharp from 'sharp';
+import { Artwork } from '../models/Artwork';
+import { embeddedArtworksQuery, searchMuseumIndex } from './artwork-index';
+import { DEFAULT_EMBEDDING_MODEL, findBestMatches } from './clip';
+import Logger from '../utils/logger';
+
+// dHash bits that may differ for two files to count as the same picture (out of 64)
+const PERCEPTUAL_MAX_DISTANCE = 10;
+// CLIP similarity above which two images almost certainly show the same artwork
+const VISUAL_MIN_SIMILARITY = 0.92;
+
+export const DUPLICATE_ACTIONS = ['attach', 'replace', 'create'] as const;
+
+export type DuplicateAction = typeof DUPLICATE_ACTIONS[number];
+
+export interface ImageHashes {
+  contentHash: string; // SHA-256 of the file bytes
+  perceptualHash?: string; // 64-bit difference hash as hex; survives resizing and re-encoding
+}
+
+export interface DuplicateCandidate {
+  artworkId: string;
+  title: string;
+  imageUrl?: string;
+  kind: 'exact' | 'near';
+  reasons: string[];
+  similarity?: number; // CLIP cosine similarity
+  distance?: number; // Perceptual hash Hamming distance
+}
+
+/**
+ * Difference hash: shrink to 9x8 greyscale and record whether each pixel is brighter than its right neighbour
+ */
+async function differenceHash(imagePath: string): Promise<string> {
+  const pixels = await sharp(imagePath).greyscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Content and perceptual hashes for an uploaded image
+ */
+export async function computeImageHashes(imagePath: string): Promise<ImageHashes> {
+  const contentHash = crypto.createHash('sha256').update(fs.readFileSync(imagePath)).digest('hex');
+
+  let perceptualHash: string | undefined;
+  try {
+    perceptualHash = await differenceHash(imagePath);
+  } catch (error) {
+    // Formats sharp cannot decode still get exact-duplicate detection
+    Logger.warn(`Perceptual hash failed for ${imagePath}: ${error}`);
+  }
+
+  return { contentHash, perceptualHash };
+}
+
+/**
+ * Existing artworks in the museum that a new image likely duplicates,
+ * by identical bytes, near-identical perceptual hash or near-identical CLIP embedding
+ * @param model - Embedding model the new image was embedded with
+ */
+export async function findDuplicateArtworks(
+  museumId: unknown,
+  hashes: ImageHashes,
+  embedding: number[],
+  model: string = DEFAULT_EMBEDDING_MODEL
+): Promise<DuplicateCandidate[]> {
+  const candidates = new Map<string, DuplicateCandidate>();
+
+  const note = (artwork: { _id: unknown; title: string; imageUrl?: string }, kind: 'exact' | 'near', reason: string) => {
+    const id = String(artwork._id);
+    const existing = candidates.get(id) || { artworkId: id, title: artwork.title, imageUrl: artwork.imageUrl, kind, reasons: [] };
+    if (kind === 'exact') existing.kind = 'exact';
+    existing.reasons.push(reason);
+    candidates.set(id, existing);
+    return existing;
+  };
+
+  const artworks = await Artwork.find({ museumId })
+    .select('title imageUrl contentHash perceptualHash referenceImages.contentHash referenceImages.perceptualHash');
+
+  for (const artwork of artworks) {
+    const images = [
+      { contentHash: artwork.contentHash, perceptualHash: artwork.perceptualHash, where: 'primary image' },
+      ...(artwork.referenceImages || []).map(r => ({ contentHash: r.contentHash, perceptualHash: r.perceptualHash, where: `${r.label} view` }))
+    ];
+
+    for (const image of images) {
+      if (image.contentHash && image.contentHash === hashes.contentHash) {
+        note(artwork, 'exact', `Identical file to the ${image.where}`);
+        continue;
+      }
+      if (image.perceptualHash && hashes.perceptualHash) {
+        const distance = hammingDistance(image.perceptualHash, hashes.perceptualHash);
+        if (distance <= PERCEPTUAL_MAX_DISTANCE) {
+          const candidate = note(artwork, 'near', `Looks the same as the ${image.where} (${distance}/64 bits differ)`);
+          candidate.distance = Math.min(candidate.distance ?? distance, distance);
+        }
+      }
+    }
+  }
+
+  if (embedding.length > 0) {
+    // Exact scan when the index is disabled or unavailable, as identify does
+    const hits = await searchMuseumIndex(museumId, embedding, 3, model) ?? findBestMatches(
+      embedding,
+      await Artwork.find(embeddedArtworksQuery(museumId, model))
+        .select('imageEmbedding embeddingModel referenceImages.label referenceImages.embedding referenceImages.embeddingModel'),
+      3,
+      model
+    ).map(match => ({ artworkId: String(match.artwork._id), score: match.score }));
+    for (const hit of hits) {
+      if (hit.score < VISUAL_MIN_SIMILARITY) continue;
+      const artwork = artworks.find(a => String(a._id) === hit.artworkId);
+      if (!artwork) continue;
+      const candidate = note(artwork, 'near', `CLIP similarity ${(hit.score * 100).toFixed(1)}%`);
+      candidate.similarity = hit.score;
+    }
+  }
+
+  // Exact matches first, then the closest near matches
+  return Array.from(candidates.values()).sort((a, b) =>
+    (a.kind === 'exact' ? 0 : 1) - (b.kind === 'exact' ? 0 : 1) || (b.similarity ?? 0) - (a.similarity ?? 0)
+  );
+}
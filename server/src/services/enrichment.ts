@@ -0,0 +1,378 @@
+import path from 'path';
+import { Artwork, ArtworkDocument } from '../models/Artwork';
+import { Museum } from '../models/Museum';
+import { Job, IJob, JobStep } from '../models/Job';
+import { recognizeArtworkFromImage, VisionResult } from './vision';
+import { fetchFromWikipedia } from './resources';
+import { translateDescription } from './translation';
+import { translationProvider, translationProviderOf } from './translation-providers';
+import { isHumanReviewed } from './translation-review';
+import { LanguageCode, museumLanguages } from './languages';
+import { narrationVoice, prepareNarration, synthesizeNarration, MultiLanguageAudio } from './tts';
+import { ttsProvider } from './tts-providers';
+import { descriptionHash, writeNarrationScript } from './narration-script';
+import { audioFileExists, releaseAudioFiles } from './audio-cache';
+import { defineJobType, reportProgress, SkipStep, StepHandler } from './jobs';
+import { generateImageEmbedding } from './clip';
+import { indexArtwork, museumEmbeddingModel } from './artwork-index';
+import { findDuplicateArtworks } from './duplicates';
+
+export const UPLOAD_ENRICHMENT_JOB = 'upload-enrichment';
+export const FINALIZE_JOB = 'finalize';
+// Bulk-imported artworks, which are embedded here rather than while the import request waits
+export const IMPORT_JOB = 'import';
+
+// Placeholders used until enrichment fills the draft in
+export const DRAFT_TITLE = 'Unlabeled Artwork';
+export const DRAFT_DESCRIPTION = 'Artwork uploaded to museum system.';
+
+// Fields recognition fills in; a bulk import manifest may already provide some of them
+export const RECOGNIZED_FIELDS = ['title', 'author', 'year', 'style', 'description'] as const;
+
+// Text the mock vision service returns; not worth translating or narrating
+const MOCK_DESCRIPTION = 'Set OPENAI_API_KEY to enable recognition.';
+
+const SERVER_ROOT = path.join(__dirname, '..', '..');
+
+async function jobArtwork(job: IJob): Promise<ArtworkDocument> {
+  const artwork = await Artwork.findById(job.artworkId);
+  if (!artwork) throw new SkipStep('Artwork was deleted');
+  return artwork;
+}
+
+// Fields the curator supplied (bulk import), which enrichment must not overwrite
+function providedFields(job: IJob): string[] {
+  return (job.payload.manifestFields as string[] | undefined) || [];
+}
+
+// The museum settings enrichment follows
+async function artworkMuseum(artwork: ArtworkDocument) {
+  return artwork.museumId ? Museum.findById(artwork.museumId).select('languages translationProvider glossary ttsProvider narrationVoices pronunciations') : null;
+}
+
+/**
+ * Whether a curator finalized the artwork after this upload job was queued. Finalize replaces
+ * what upload enrichment would write, so the upload job's remaining steps must not run.
+ */
+export async function isSupersededUpload(job: IJob): Promise<boolean> {
+  if (job.type !== UPLOAD_ENRICHMENT_JOB || !job.artworkId) return false;
+  return !!(await Job.exists({ type: FINALIZE_JOB, artworkId: job.artworkId }));
+}
+
+async function skipIfFinalized(job: IJob) {
+  if (await isSupersededUpload(job)) throw new SkipStep('Artwork was finalized by a curator');
+}
+
+// An upload enrichment step that stops once the artwork is finalized
+function uploadStep(name: string, run: StepHandler) {
+  return {
+    name,
+    run: async (job: IJob, step: JobStep) => {
+      await skipIfFinalized(job);
+      return run(job, step);
+    }
+  };
+}
+
+function stepResult<T>(job: IJob, name: string): T | undefined {
+  return job.steps.find(step => step.name === name)?.result as T | undefined;
+}
+
+// CLIP embedding of an imported image, then indexing. The import only caught duplicates by file hash;
+// one that merely looks like an existing artwork is flagged here for the curator, not deleted.
+async function embedding(job: IJob) {
+  const artwork = await jobArtwork(job);
+  const model = await museumEmbeddingModel(artwork.museumId);
+  if (artwork.imageEmbedding?.length && artwork.embeddingModel === model) throw new SkipStep('Already embedded');
+
+  const vector = await generateImageEmbedding(path.join(SERVER_ROOT, artwork.imageUrl.replace(/^\//, '')), model);
+  const [duplicate] = (await findDuplicateArtworks(artwork.museumId, { contentHash: artwork.contentHash || '', perceptualHash: artwork.perceptualHash }, vector, model))
+    .filter(candidate => candidate.artworkId !== String(artwork._id));
+
+  artwork.imageEmbedding = vector;
+  artwork.embeddingModel = model;
+  await artwork.save();
+  await indexArtwork(artwork);
+
+  reportProgress(job, 'embedding', 'success', `Embedded with ${model} (${vector.length} dimensions)`);
+  if (duplicate) {
+    reportProgress(job, 'duplicates', 'warning', `May be a duplicate of "${duplicate.title}": ${duplicate.reasons.join('; ')}`);
+  }
+  return { model, dimensions: vector.length, ...(duplicate && { possibleDuplicateOf: duplicate.artworkId }) };
+}
+
+// Identify the artwork from its image and fill in the draft
+async function recognize(job: IJob): Promise<VisionResult> {
+  const provided = providedFields(job);
+  if (RECOGNIZED_FIELDS.every(field => provided.includes(field))) throw new SkipStep('Manifest provides every field');
+
+  const artwork = await jobArtwork(job);
+  const ai = await recognizeArtworkFromImage(path.join(SERVER_ROOT, artwork.imageUrl.replace(/^\//, '')));
+
+  if (ai.provider === 'mock') {
+    reportProgress(job, 'recognize', 'warning', 'No vision API key configured; using placeholder analysis');
+  } else {
+    reportProgress(job, 'recognize', 'info', `Vision provider: ${ai.provider}`);
+  }
+  reportProgress(job, 'recognize', 'success', ai.title ? `Recognized "${ai.title}"${ai.author ? ` by ${ai.author}` : ''}` : 'No title recognized');
+
+  const recognized = {
+    title: ai.title || artwork.title,
+    author: ai.author,
+    year: ai.year,
+    style: ai.style,
+    description: ai.description || artwork.description
+  };
+  // Recognition is slow; the curator may have finalized meanwhile
+  await skipIfFinalized(job);
+  await Artwork.updateOne({ _id: artwork._id }, {
+    $set: Object.fromEntries(Object.entries(recognized).filter(([field]) => !provided.includes(field)))
+  });
+  return ai;
+}
+
+// Wikipedia's summary replaces the AI description when there is an article
+async function wikipedia(job: IJob) {
+  const provided = providedFields(job);
+  const artwork = await jobArtwork(job);
+  const ai = stepResult<VisionResult>(job, 'recognize');
+  const title = provided.includes('title') ? artwork.title : ai?.title;
+  const author = provided.includes('author') ? artwork.author : ai?.author;
+  if (!title) throw new SkipStep('No title recognized');
+
+  const wiki = await fetchFromWikipedia(`${title} ${author || ''}`.trim());
+  reportProgress(job, 'wikipedia', wiki ? 'success' : 'info', wiki ? `Found article "${wiki.title}"` : 'No matching article');
+  if (wiki) {
+    await skipIfFinalized(job);
+    await Artwork.updateOne({ _id: job.artworkId }, {
+      $set: {
+        ...(wiki.description && !provided.includes('description') ? { description: wiki.description } : {}),
+        ...(wiki.sources ? { sources: wiki.sources } : {})
+      }
+    });
+  }
+  return wiki;
+}
+
+// Machine translation with the museum's provider; languages it fails on are left out and retried.
+// Translations a reviewer edited or approved are never overwritten, only marked stale when the source changed.
+async function translate(job: IJob, step: JobStep) {
+  const artwork = await jobArtwork(job);
+  // Recognition writes English; finalize and bulk import say which language the curator wrote in
+  const sourceLanguage = (job.payload.sourceLanguage as LanguageCode) || 'en';
+  const text = (job.payload.description as string) || artwork.description;
+  if (!text || text === MOCK_DESCRIPTION) throw new SkipStep('No description to translate');
+
+  const museum = await artworkMuseum(artwork);
+  const provider = translationProvider(translationProviderOf(museum?.translationProvider));
+  // Translations made by an earlier attempt of this step are kept; only the failures are redone
+  const done: LanguageCode[] = (step.result as { languages?: LanguageCode[] } | undefined)?.languages || [];
+  const reviewed = Object.keys(artwork.translations || {}).filter(language =>
+    language !== sourceLanguage && !done.includes(language) && artwork.descriptions?.[language] && isHumanReviewed(artwork.translations![language])
+  );
+  const sourceChanged = artwork.descriptions?.[sourceLanguage] !== text;
+  const keep = <T>(values?: Partial<Record<LanguageCode, T>>) =>
+    Object.fromEntries([...done, ...reviewed].filter(language => values?.[language]).map(language => [language, values![language]]));
+  const keptTranslations = Object.fromEntries(Object.entries(keep(artwork.translations)).map(([language, record]) => [
+    language,
+    reviewed.includes(language) && sourceChanged ? { ...record, stale: true } : record
+  ]));
+
+  const unavailable = provider.unavailableReason();
+  const result = unavailable
+    ? { descriptions: { [sourceLanguage]: text }, translations: {}, failed: [] as LanguageCode[] }
+    : await translateDescription(
+      text,
+      sourceLanguage,
+      museumLanguages(museum).filter(language => !done.includes(language) && !reviewed.includes(language)),
+      {
+        provider: provider.key,
+        glossary: museum?.glossary,
+        onLanguage: (language, translated, error, glossaryViolations) => {
+          reportProgress(
+            job,
+            'translate',
+            translated && !glossaryViolations?.length ? 'success' : 'warning',
+            !translated
+              ? `Could not translate to ${language}: ${error}`
+              : glossaryViolations?.length
+                ? `Translated to ${language} (${provider.key}), but the glossary was not followed for: ${glossaryViolations.join(', ')}`
+                : `Translated to ${language} (${provider.key})`,
+            { language }
+          );
+        }
+      }
+    );
+
+  // Machine translations of an earlier description are dropped rather than kept alongside the new text
+  await Artwork.updateOne({ _id: artwork._id }, {
+    $set: {
+      descriptions: { ...keep(artwork.descriptions), ...result.descriptions },
+      translations: { ...keptTranslations, ...result.translations },
+      // Finalize keeps the curator's text as the main description
+      ...(job.type === FINALIZE_JOB ? { description: text } : {})
+    }
+  });
+  if (reviewed.length > 0) {
+    reportProgress(
+      job,
+      'translate',
+      sourceChanged ? 'warning' : 'info',
+      sourceChanged
+        ? `Kept reviewed translations (${reviewed.join(', ')}); marked stale because the source text changed`
+        : `Kept reviewed translations (${reviewed.join(', ')})`
+    );
+  }
+  if (unavailable) throw new SkipStep(`${provider.label}: ${unavailable}`);
+
+  step.result = { provider: provider.key, languages: [...done, ...Object.keys(result.translations)] };
+  if (result.failed.length > 0) throw new Error(`Translation failed for: ${result.failed.join(', ')}`);
+  return step.result;
+}
+
+// A script to be read aloud per language, written from its description. Scripts still matching their
+// description are kept; a curator's script is never replaced, only marked stale when the description changed.
+async function script(job: IJob, step: JobStep) {
+  const artwork = await jobArtwork(job);
+  if (!artwork.description || artwork.description === MOCK_DESCRIPTION) throw new SkipStep('No description to narrate');
+
+  const museum = await artworkMuseum(artwork);
+  const done: LanguageCode[] = (step.result as { languages?: LanguageCode[] } | undefined)?.languages || [];
+  const unchanged: string[] = [];
+
+  for (const language of museumLanguages(museum)) {
+    const description = artwork.descriptions?.[language];
+    if (!description || done.includes(language)) continue;
+
+    const hash = descriptionHash(description);
+    const previous = artwork.narrationScripts?.[language];
+    if (previous?.origin === 'curator' && artwork.narrations?.[language]) {
+      if (previous.descriptionHash !== hash && !previous.stale) {
+        await Artwork.updateOne({ _id: artwork._id }, { $set: { [`narrationScripts.${language}.stale`]: true } });
+        reportProgress(job, 'script', 'warning', `Kept the curator's ${language} narration script; marked stale because the description changed`, { language });
+      }
+      continue;
+    }
+    if (previous?.descriptionHash === hash && artwork.narrations?.[language]) {
+      unchanged.push(language);
+      continue;
+    }
+
+    const written = await writeNarrationScript(description, language, { title: artwork.title, author: artwork.author });
+    await Artwork.updateOne({ _id: artwork._id }, {
+      $set: {
+        [`narrations.${language}`]: written.text,
+        [`narrationScripts.${language}`]: {
+          origin: written.origin,
+          ...(written.model && { model: written.model }),
+          descriptionHash: hash,
+          writtenAt: new Date()
+        }
+      }
+    });
+    done.push(language);
+    reportProgress(
+      job,
+      'script',
+      written.fallbackReason ? 'warning' : 'success',
+      written.fallbackReason
+        ? `Wrote ${language} narration script from the template; the LLM failed: ${written.fallbackReason}`
+        : `Wrote ${language} narration script (${written.model || written.origin})`,
+      { language }
+    );
+  }
+
+  if (unchanged.length > 0) reportProgress(job, 'script', 'info', `Narration scripts unchanged for ${unchanged.join(', ')}`);
+  step.result = { languages: done };
+  return step.result;
+}
+
+// One narration per language; each is saved as soon as it exists, so a retry only redoes the missing ones.
+// Languages whose text, provider, voice and pronunciations are unchanged keep their file; replaced files are released.
+async function audio(job: IJob, step: JobStep) {
+  const artwork = await jobArtwork(job);
+  if (!artwork.description || artwork.description === MOCK_DESCRIPTION) throw new SkipStep('No description to narrate');
+
+  const museum = await artworkMuseum(artwork);
+  const done: MultiLanguageAudio = { ...(step.result as { audioUrls?: MultiLanguageAudio } | undefined)?.audioUrls };
+  const failed: string[] = [];
+  const unavailable: string[] = [];
+  const unchanged: string[] = [];
+  const replaced: string[] = [];
+
+  // Only the museum's languages are narrated, even if a description exists in another
+  for (const language of museumLanguages(museum)) {
+    if (!artwork.descriptions?.[language] || done[language]) continue;
+    // The script written for listening, when there is one
+    const text = artwork.narrations?.[language] || artwork.descriptions[language]!;
+
+    const { provider, voice } = narrationVoice(museum, language);
+    const options = { text, language, provider, voice, pronunciations: museum?.pronunciations };
+    const previousUrl = artwork.audioUrls?.[language];
+    const previous = artwork.audio?.[language];
+    // Audio from before captions existed goes through synthesis, which reuses the file and only adds its captions
+    if (previous?.hash === prepareNarration(options).hash && audioFileExists(previousUrl) && audioFileExists(previous.captionsUrl)) {
+      done[language] = previousUrl;
+      unchanged.push(language);
+      continue;
+    }
+
+    try {
+      const narration = await synthesizeNarration(options);
+      done[language] = narration.url;
+      await Artwork.updateOne({ _id: artwork._id }, {
+        $set: { [`audioUrls.${language}`]: narration.url, [`audio.${language}`]: narration.record }
+      });
+      if (previousUrl && previousUrl !== narration.url) replaced.push(previousUrl);
+      reportProgress(
+        job,
+        'audio',
+        'success',
+        narration.cached
+          ? `Reused existing ${language} audio`
+          : `Generated ${language} audio (${provider}, ${narration.record.durationSeconds}s)`,
+        { language }
+      );
+    } catch (error) {
+      const reason = ttsProvider(provider).unavailableReason();
+      if (reason) {
+        unavailable.push(`${language} (${ttsProvider(provider).label}: ${reason})`);
+        continue;
+      }
+      failed.push(language);
+      reportProgress(job, 'audio', 'warning', `${language} audio failed: ${error instanceof Error ? error.message : error}`, { language });
+    }
+  }
+
+  if (unchanged.length > 0) reportProgress(job, 'audio', 'info', `Audio unchanged for ${unchanged.join(', ')}`);
+  await releaseAudioFiles(replaced);
+
+  step.result = { audioUrls: done };
+  if (failed.length > 0) throw new Error(`Audio generation failed for: ${failed.join(', ')}`);
+  // Retrying cannot fix a missing key or engine
+  if (unavailable.length > 0) throw new SkipStep(`No TTS for ${unavailable.join(', ')}`);
+  return step.result;
+}
+
+defineJobType(UPLOAD_ENRICHMENT_JOB, [
+  uploadStep('recognize', recognize),
+  uploadStep('wikipedia', wikipedia),
+  uploadStep('translate', translate),
+  uploadStep('script', script),
+  uploadStep('audio', audio)
+]);
+
+defineJobType(IMPORT_JOB, [
+  { name: 'embedding', run: embedding },
+  { name: 'recognize', run: recognize },
+  { name: 'wikipedia', run: wikipedia },
+  { name: 'translate', run: translate },
+  { name: 'script', run: script },
+  { name: 'audio', run: audio }
+]);
+
+defineJobType(FINALIZE_JOB, [
+  { name: 'translate', run: translate },
+  { name: 'script', run: script },
+  { name: 'audio', run: audio }
+]);
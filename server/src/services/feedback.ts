@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import { ArtworkDocument } from '../models/Artwork';
+import { VisitorMatch, IVisitorMatch } from '../models/VisitorMatch';
+import { IUser } from '../models/User';
+import { artworkEmbeddings, cosineSimilarity, embeddingModelOf, generateImageEmbedding, MatchResult } from './clip';
+import { indexArtwork, museumEmbeddingModel } from './artwork-index';
+import Logger from '../utils/logger';
+
+const UPLOADS_DIR = path.join(__dirname, '..', '..', 'uploads');
+// Photos awaiting review stay outside uploads/, which is served publicly; staff see them through the feedback API
+const FEEDBACK_DIR = process.env.FEEDBACK_DIR || path.join(__dirname, '..', '..', 'visitor-feedback');
+
+// How long an unconfirmed identification stays around waiting for feedback
+const MATCH_TTL_HOURS = 24;
+
+/**
+ * Remember an identification attempt so the visitor can confirm it later
+ * @returns The match id to hand back to the visitor
+ */
+export async function recordMatchAttempt(
+  museumId: unknown,
+  embedding: number[],
+  embeddingModel: string,
+  matches: MatchResult[],
+  confident: boolean
+): Promise<string> {
+  const attempt = await VisitorMatch.create({
+    museumId,
+    embedding,
+    embeddingModel,
+    candidates: matches.map(m => ({ artworkId: m.artwork._id, score: m.score, view: m.view })),
+    confident,
+    expiresAt: new Date(Date.now() + MATCH_TTL_HOURS * 60 * 60 * 1000)
+  });
+  return String(attempt._id);
+}
+
+// Best similarity between the visitor photo and any view of the artwork embedded with the same model
+function scoreAgainstArtwork(attempt: IVisitorMatch, artwork: ArtworkDocument): number {
+  const embedding = attempt.embedding;
+  let best = 0;
+  for (const view of artworkEmbeddings(artwork, embeddingModelOf(attempt.embeddingModel))) {
+    if (view.embedding.length !== embedding.length) continue;
+    best = Math.max(best, cosineSimilarity(embedding, view.embedding));
+  }
+  return best;
+}
+
+/**
+ * Where a confirmation's photo is kept while it awaits review, if it has one
+ */
+export function feedbackPhotoPath(attempt: IVisitorMatch): string | null {
+  return attempt.photoFile ? path.join(FEEDBACK_DIR, path.basename(attempt.photoFile)) : null;
+}
+
+/**
+ * Record which artwork the visitor says they photographed.
+ * Weak or corrected matches go to the curator review queue with the photo attached;
+ * the photo is discarded otherwise.
+ * @param photoPath - Temporary path of the re-uploaded visitor photo
+ */
+export async function confirmMatch(
+  attempt: IVisitorMatch,
+  artwork: ArtworkDocument,
+  photoPath: string
+): Promise<IVisitorMatch> {
+  const candidate = attempt.candidates.find(c => String(c.artworkId) === String(artwork._id));
+  const score = candidate ? candidate.score : scoreAgainstArtwork(attempt, artwork);
+  const wasTopMatch = attempt.candidates.length > 0 && String(attempt.candidates[0].artworkId) === String(artwork._id);
+  const needsReview = !wasTopMatch || !attempt.confident;
+
+  attempt.confirmedArtworkId = artwork._id as mongoose.Types.ObjectId;
+  attempt.confirmedScore = score;
+  attempt.confirmedAt = new Date();
+  attempt.status = needsReview ? 'pending-review' : 'confirmed';
+  attempt.expiresAt = undefined;
+
+  if (needsReview) {
+    fs.mkdirSync(FEEDBACK_DIR, { recursive: true });
+    const name = `${attempt._id}${path.extname(photoPath) || '.jpg'}`;
+    fs.renameSync(photoPath, path.join(FEEDBACK_DIR, name));
+    attempt.photoFile = name;
+  }
+
+  await attempt.save();
+
+  Logger.info(`Visitor confirmed artwork ${artwork._id} (score ${(score * 100).toFixed(1)}%, ${attempt.status})`);
+
+  return attempt;
+}
+
+/**
+ * Promote a reviewed visitor photo to an extra reference view of the artwork.
+ * The stored photo the curator looked at is embedded again rather than trusting the
+ * identification vector, which came from a separate upload that may be a different image.
+ * It then moves to uploads/ under an unguessable name, like other reference views.
+ */
+export async function approveFeedback(attempt: IVisitorMatch, artwork: ArtworkDocument, reviewer: IUser): Promise<void> {
+  const photoPath = feedbackPhotoPath(attempt);
+  if (!photoPath) throw new Error('This confirmation has no photo to approve');
+  const embeddingModel = await museumEmbeddingModel(artwork.museumId);
+  const embedding = await generateImageEmbedding(photoPath, embeddingModel);
+
+  const name = `visitor_${crypto.randomBytes(16).toString('hex')}${path.extname(photoPath)}`;
+  fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+  fs.copyFileSync(photoPath, path.join(UPLOADS_DIR, name));
+  fs.unlinkSync(photoPath);
+
+  artwork.referenceImages = [
+    ...(artwork.referenceImages || []),
+    {
+      imageUrl: `/uploads/${name}`,
+      label: 'visitor',
+      embedding,
+      embeddingModel
+    }
+  ];
+  await artwork.save();
+  await indexArtwork(artwork);
+
+  attempt.status = 'approved';
+  attempt.photoFile = undefined;
+  attempt.reviewedBy = reviewer._id as mongoose.Types.ObjectId;
+  attempt.reviewedAt = new Date();
+  await attempt.save();
+
+  Logger.info(`Visitor photo ${attempt._id} approved as reference for artwork ${artwork._id} by ${reviewer.email}`);
+}
+
+export async function rejectFeedback(attempt: IVisitorMatch, reviewer: IUser): Promise<void> {
+  const file = feedbackPhotoPath(attempt);
+  if (file) {
+    try { fs.existsSync(file) && fs.unlinkSync(file); } catch { }
+  }
+
+  attempt.status = 'rejected';
+  attempt.photoFile = undefined;
+  attempt.reviewedBy = reviewer._id as mongoose.Types.ObjectId;
+  attempt.reviewedAt = new Date();
+  await attempt.save();
+
+  Logger.info(`Visitor photo ${attempt._id} rejected by ${reviewer.email}`);
+}
@@ -0,0 +1,160 @@
+import { ArtworkDocument } from '../models/Artwork';
+import { GlossaryEntry } from '../models/Museum';
+import { LanguageCode, normalizeLanguageCode } from './languages';
+
+/**
+ * Per-museum translation glossary. Before a provider sees the text, glossary
+ * terms are swapped for numbered placeholders; afterwards the placeholders are
+ * replaced with the required rendering and the result is checked, so a
+ * provider that drops or mangles a term is caught rather than trusted.
+ */
+
+// A glossary term found in the source text and what it must become
+interface ProtectedTerm {
+  term: string;
+  rendering: string;
+}
+
+export interface ProtectedText {
+  text: string;
+  terms: ProtectedTerm[];
+}
+
+// Providers are asked to leave these alone; the spacing tolerance covers engines that pad punctuation
+const PLACEHOLDER = /\[\[\s*(\d+)\s*\]\]/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word, case-insensitive match for any of the given phrases (longest first)
+export function phrasePattern(phrases: string[]): RegExp {
+  const alternatives = [...phrases].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return phrasePattern([phrase]).test(text);
+}
+
+// How the entry is written in a language: its preferred rendering, or the term itself when it is never translated
+function renderingIn(entry: GlossaryEntry, language: LanguageCode): string | undefined {
+  return entry.translations?.[language] || (entry.doNotTranslate ? entry.term : undefined);
+}
+
+// How the entry appears in a source text: the term, or its rendering when the source is written in another language
+function sourceForm(entry: GlossaryEntry, sourceLanguage: LanguageCode): string {
+  return entry.translations?.[sourceLanguage] || entry.term;
+}
+
+// Entries that constrain a translation between these two languages
+function applicableEntries(glossary: GlossaryEntry[], targetLanguage: LanguageCode): GlossaryEntry[] {
+  return glossary.filter(entry => !!renderingIn(entry, targetLanguage));
+}
+
+/**
+ * Replace every glossary term in the text with a placeholder the provider should pass through
+ */
+export function protectGlossaryTerms(
+  text: string,
+  glossary: GlossaryEntry[] = [],
+  sourceLanguage: LanguageCode,
+  targetLanguage: LanguageCode
+): ProtectedText {
+  const entries = applicableEntries(glossary, targetLanguage);
+  if (entries.length === 0) return { text, terms: [] };
+
+  const byForm = new Map(entries.map(entry => [sourceForm(entry, sourceLanguage).toLowerCase(), entry]));
+  const terms: ProtectedTerm[] = [];
+  const protectedText = text.replace(phrasePattern([...byForm.keys()]), match => {
+    const entry = byForm.get(match.toLowerCase())!;
+    // Never-translate terms keep the source's exact spelling and case
+    terms.push({ term: entry.term, rendering: entry.translations?.[targetLanguage] || match });
+    return `[[${terms.length - 1}]]`;
+  });
+  return { text: protectedText, terms };
+}
+
+/**
+ * Put the required renderings back where the provider left the placeholders
+ */
+export function restoreGlossaryTerms(translated: string, terms: ProtectedTerm[]): string {
+  return translated.replace(PLACEHOLDER, (placeholder, index) => terms[Number(index)]?.rendering ?? placeholder);
+}
+
+/**
+ * Glossary terms in the source text whose required rendering is missing from the translation
+ */
+export function checkGlossary(
+  sourceText: string,
+  translated: string,
+  glossary: GlossaryEntry[] = [],
+  sourceLanguage: LanguageCode,
+  targetLanguage: LanguageCode
+): string[] {
+  return applicableEntries(glossary, targetLanguage)
+    .filter(entry => containsPhrase(sourceText, sourceForm(entry, sourceLanguage)))
+    .filter(entry => !containsPhrase(translated, renderingIn(entry, targetLanguage)!))
+    .map(entry => entry.term);
+}
+
+/**
+ * Check an artwork's machine translations against the current glossary, which may
+ * have changed since they were made. Returns the violated terms per language.
+ */
+export function artworkGlossaryViolations(
+  artwork: Pick<ArtworkDocument, 'descriptions' | 'translations'>,
+  glossary: GlossaryEntry[] = []
+): Record<LanguageCode, string[]> {
+  const violations: Record<LanguageCode, string[]> = {};
+  for (const [language, record] of Object.entries(artwork.translations || {})) {
+    const source = record && artwork.descriptions?.[record.sourceLanguage];
+    const translated = artwork.descriptions?.[language];
+    if (!source || !translated) continue;
+
+    const terms = checkGlossary(source, translated, glossary, record.sourceLanguage, language);
+    if (terms.length > 0) violations[language] = terms;
+  }
+  return violations;
+}
+
+/**
+ * Validate a glossary from a request: terms unique (ignoring case), each either
+ * never translated or with at least one rendering. Returns the cleaned list, or an error message.
+ */
+export function parseGlossary(value: unknown): { glossary?: GlossaryEntry[]; error?: string } {
+  if (!Array.isArray(value)) return { error: 'glossary must be a list of entries' };
+
+  const glossary: GlossaryEntry[] = [];
+  for (const raw of value) {
+    const term = typeof raw?.term === 'string' ? raw.term.trim() : '';
+    if (!term) return { error: 'Every glossary entry needs a term' };
+    if (glossary.some(entry => entry.term.toLowerCase() === term.toLowerCase())) {
+      return { error: `"${term}" is in the glossary twice` };
+    }
+
+    const translations: Record<string, string> = {};
+    if (raw.translations !== undefined && (typeof raw.translations !== 'object' || raw.translations === null || Array.isArray(raw.translations))) {
+      return { error: `Translations for "${term}" must map language codes to text` };
+    }
+    for (const [code, rendering] of Object.entries(raw.translations || {})) {
+      const language = normalizeLanguageCode(code);
+      if (!language) return { error: `"${code}" is not a valid language code (glossary term "${term}")` };
+      if (typeof rendering !== 'string') return { error: `The ${language} rendering of "${term}" must be text` };
+      if (rendering.trim()) translations[language] = rendering.trim();
+    }
+
+    const doNotTranslate = raw.doNotTranslate === true;
+    if (!doNotTranslate && Object.keys(translations).length === 0) {
+      return { error: `"${term}" needs a rendering in at least one language, or to be marked never translate` };
+    }
+
+    glossary.push({
+      term,
+      ...(Object.keys(translations).length > 0 && { translations }),
+      ...(doNotTranslate && { doNotTranslate }),
+      ...(typeof raw.note === 'string' && raw.note.trim() && { note: raw.note.trim() })
+    });
+  }
+  return { glossary };
+}
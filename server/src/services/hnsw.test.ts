@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HnswIndex } from './hnsw';
+
+// Deterministic vectors so a failing recall can be reproduced
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+  };
+}
+
+function vectors(count: number, dimensions: number, seed: number): number[][] {
+  const next = random(seed);
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, next));
+}
+
+function buildIndex(data: number[][]): HnswIndex {
+  const index = new HnswIndex(data[0].length);
+  data.forEach((vector, i) => index.add(`v${i}`, vector));
+  return index;
+}
+
+// Share of the exact top-k that the index also returned
+function recall(index: HnswIndex, queries: number[][], k: number): number {
+  let found = 0;
+  for (const query of queries) {
+    const approximate = new Set(index.search(query, k).map(hit => hit.id));
+    found += index.exactSearch(query, k).filter(hit => approximate.has(hit.id)).length;
+  }
+  return found / (queries.length * k);
+}
+
+test('search agrees with the exact scan', () => {
+  const index = buildIndex(vectors(2000, 32, 1));
+  const queries = vectors(50, 32, 2);
+
+  assert.ok(recall(index, queries, 10) >= 0.95);
+  for (const query of queries.slice(0, 10)) {
+    const [best] = index.exactSearch(query, 1);
+    const [hit] = index.search(query, 1);
+    assert.equal(hit.id, best.id);
+    assert.ok(Math.abs(hit.score - best.score) < 1e-6);
+  }
+});
+
+test('removed vectors are never returned', () => {
+  const data = vectors(500, 16, 3);
+  const index = buildIndex(data);
+  for (let i = 0; i < 100; i++) index.remove(`v${i}`);
+
+  assert.equal(index.size, 400);
+  for (let i = 0; i < 100; i += 10) {
+    // The removed vector itself is the best possible query for it
+    const hits = index.search(data[i], 5);
+    assert.ok(hits.every(hit => Number(hit.id.slice(1)) >= 100));
+    assert.deepEqual(hits.map(hit => hit.id), index.exactSearch(data[i], 5).map(hit => hit.id));
+  }
+});
+
+test('re-adding an unchanged vector leaves the graph alone', () => {
+  const data = vectors(50, 8, 4);
+  const index = buildIndex(data);
+
+  assert.equal(index.add('v7', data[7]), false);
+  assert.equal(index.add('v7', data[8]), true);
+  assert.equal(index.size, 50);
+  assert.equal(index.search(data[8], 2).filter(hit => hit.id === 'v7' || hit.id === 'v8').length, 2);
+});
+
+test('compaction drops tombstones and keeps changes made while it runs', async () => {
+  const data = vectors(1500, 32, 5);
+  const index = buildIndex(data);
+  for (let i = 0; i < 600; i++) index.remove(`v${i}`);
+  assert.ok(index.needsCompaction());
+
+  const compacting = index.compact();
+  // Updates during compaction land on the current graph and must survive the swap
+  index.remove('v700');
+  index.add('late', data[3]);
+  await compacting;
+
+  assert.equal(index.needsCompaction(), false);
+  assert.equal(index.size, 900);
+  assert.equal(index.has('v700'), false);
+  assert.equal(index.search(data[3], 1)[0].id, 'late');
+  assert.ok(recall(index, vectors(30, 32, 6), 10) >= 0.95);
+});
+
+test('a serialized index answers like the original', () => {
+  const index = buildIndex(vectors(300, 16, 7));
+  index.remove('v0');
+  const restored = HnswIndex.fromSerialized(JSON.parse(JSON.stringify(index.toJSON())), index.vectorBuffer());
+
+  assert.equal(restored.size, index.size);
+  for (const query of vectors(10, 16, 8)) {
+    assert.deepEqual(restored.search(query, 5), index.search(query, 5));
+  }
+});
@@ -0,0 +1,414 @@
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest-neighbour
+ * search over CLIP embeddings (Malkov & Yashunin, 2016).
+ *
+ * Vectors are L2-normalised on insert, so the dot product of two stored
+ * vectors equals their cosine similarity and distance is `1 - cosine`.
+ * Removal is a tombstone: deleted nodes still route searches but are never
+ * returned. Compaction is left to the owner (see needsCompaction) and builds
+ * the replacement graph a slice at a time, so it never blocks the event loop.
+ */
+
+export interface HnswOptions {
+  M?: number; // Max neighbours per node on upper layers (layer 0 uses 2*M)
+  efConstruction?: number; // Candidate list size while inserting
+  efSearch?: number; // Default candidate list size while searching
+}
+
+export interface HnswHit {
+  id: string;
+  score: number; // Cosine similarity (higher is closer)
+}
+
+interface HnswNode {
+  id: string;
+  level: number;
+  neighbors: number[][]; // neighbors[layer] = node indices
+  deleted: boolean;
+}
+
+export interface SerializedHnsw {
+  version: 1;
+  dimensions: number;
+  M: number;
+  efConstruction: number;
+  efSearch: number;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: HnswNode[];
+}
+
+const MAX_LEVEL = 16;
+const COMPACT_SLICE_MS = 10; // Insert for this long, then yield to other work
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+// Insert into an array kept sorted by ascending distance
+function insertSorted(list: Candidate[], item: Candidate) {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (list[mid].distance < item.distance) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, item);
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(vector.length);
+  let magnitude = 0;
+  for (let i = 0; i < vector.length; i++) magnitude += vector[i] * vector[i];
+  magnitude = Math.sqrt(magnitude) || 1;
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / magnitude;
+  return out;
+}
+
+export class HnswIndex {
+  readonly dimensions: number;
+  readonly M: number;
+  readonly efConstruction: number;
+  efSearch: number;
+
+  private readonly maxNeighbors0: number;
+  private readonly levelMultiplier: number;
+  private nodes: HnswNode[] = [];
+  private vectors: Float32Array[] = [];
+  private idToNode = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private compacting: Promise<void> | null = null;
+
+  constructor(dimensions: number, options: HnswOptions = {}) {
+    this.dimensions = dimensions;
+    this.M = options.M ?? 16;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+    this.maxNeighbors0 = this.M * 2;
+    this.levelMultiplier = 1 / Math.log(this.M);
+  }
+
+  /** Number of live (non-deleted) vectors */
+  get size(): number {
+    return this.idToNode.size;
+  }
+
+  has(id: string): boolean {
+    return this.idToNode.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.idToNode.keys());
+  }
+
+  /** True once tombstones make up more than a quarter of the graph */
+  needsCompaction(): boolean {
+    return this.deletedCount > this.nodes.length / 4;
+  }
+
+  /**
+   * Insert a vector, replacing any existing vector with the same id.
+   * Returns false when the id already holds this vector and nothing changed.
+   */
+  add(id: string, vector: ArrayLike<number>): boolean {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+
+    const normalized = normalize(vector);
+
+    const existing = this.idToNode.get(id);
+    if (existing !== undefined) {
+      const stored = this.vectors[existing];
+      if (stored.every((value, i) => value === normalized[i])) return false;
+      this.remove(id);
+    }
+
+    const level = Math.min(MAX_LEVEL, Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier));
+    const nodeIndex = this.nodes.length;
+
+    this.nodes.push({
+      id,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    });
+    this.vectors.push(normalized);
+    this.idToNode.set(id, nodeIndex);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = nodeIndex;
+      this.maxLevel = level;
+      return true;
+    }
+
+    // Greedy descent through layers above the new node's level
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(normalized, current, layer);
+    }
+
+    // Connect on every layer the new node lives on
+    let entryPoints = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(normalized, entryPoints, this.efConstruction, layer);
+      const maxNeighbors = layer === 0 ? this.maxNeighbors0 : this.M;
+      const selected = candidates.slice(0, maxNeighbors).map(c => c.node);
+
+      this.nodes[nodeIndex].neighbors[layer] = selected;
+
+      for (const neighbor of selected) {
+        const links = this.nodes[neighbor].neighbors[layer];
+        links.push(nodeIndex);
+        if (links.length > maxNeighbors) {
+          this.nodes[neighbor].neighbors[layer] = this.pruneLinks(neighbor, links, maxNeighbors);
+        }
+      }
+
+      entryPoints = candidates.map(c => c.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = nodeIndex;
+    }
+    return true;
+  }
+
+  /**
+   * Tombstone a vector. Returns false if the id was not indexed.
+   */
+  remove(id: string): boolean {
+    const nodeIndex = this.idToNode.get(id);
+    if (nodeIndex === undefined) return false;
+
+    this.nodes[nodeIndex].deleted = true;
+    this.idToNode.delete(id);
+    this.deletedCount++;
+
+    if (this.idToNode.size === 0) {
+      this.clear();
+    }
+
+    return true;
+  }
+
+  /**
+   * Approximate top-k by cosine similarity
+   */
+  search(query: ArrayLike<number>, k: number, ef: number = this.efSearch): HnswHit[] {
+    if (this.entryPoint === -1 || k <= 0) return [];
+    if (query.length !== this.dimensions) {
+      throw new Error(`Query has ${query.length} dimensions, index expects ${this.dimensions}`);
+    }
+
+    const normalized = normalize(query);
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(normalized, current, layer);
+    }
+
+    // Widen the beam a little so tombstoned nodes do not starve the results
+    const beam = Math.max(ef, k) + Math.min(this.deletedCount, ef);
+    const candidates = this.searchLayer(normalized, [current], beam, 0);
+
+    const hits: HnswHit[] = [];
+    for (const candidate of candidates) {
+      if (this.nodes[candidate.node].deleted) continue;
+      hits.push({ id: this.nodes[candidate.node].id, score: 1 - candidate.distance });
+      if (hits.length === k) break;
+    }
+    return hits;
+  }
+
+  /**
+   * Exact top-k by linear scan over live vectors (for verification and tiny indexes)
+   */
+  exactSearch(query: ArrayLike<number>, k: number): HnswHit[] {
+    const normalized = normalize(query);
+    const hits: HnswHit[] = [];
+    for (const [id, nodeIndex] of this.idToNode) {
+      hits.push({ id, score: 1 - this.distance(normalized, this.vectors[nodeIndex]) });
+    }
+    hits.sort((a, b) => b.score - a.score);
+    return hits.slice(0, k);
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.vectors = [];
+    this.idToNode.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+  }
+
+  /**
+   * Rebuild the graph from live nodes only, dropping tombstones. The new graph is built
+   * alongside the current one in short slices; searches and updates keep using the
+   * current graph until the new one has caught up with them and is swapped in.
+   */
+  compact(): Promise<void> {
+    if (!this.compacting) {
+      this.compacting = this.buildCompacted().finally(() => { this.compacting = null; });
+    }
+    return this.compacting;
+  }
+
+  private async buildCompacted(): Promise<void> {
+    const live = Array.from(this.idToNode.entries()).map(([id, nodeIndex]) => ({ id, vector: this.vectors[nodeIndex] }));
+    const fresh = new HnswIndex(this.dimensions, { M: this.M, efConstruction: this.efConstruction, efSearch: this.efSearch });
+
+    let next = 0;
+    while (next < live.length) {
+      const sliceEnd = Date.now() + COMPACT_SLICE_MS;
+      while (next < live.length && Date.now() < sliceEnd) {
+        fresh.add(live[next].id, live[next].vector);
+        next++;
+      }
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    // Catch up with adds and removals made while building; unchanged vectors are skipped
+    for (const id of fresh.ids()) {
+      if (!this.idToNode.has(id)) fresh.remove(id);
+    }
+    for (const [id, nodeIndex] of this.idToNode) {
+      fresh.add(id, this.vectors[nodeIndex]);
+    }
+
+    this.nodes = fresh.nodes;
+    this.vectors = fresh.vectors;
+    this.idToNode = fresh.idToNode;
+    this.entryPoint = fresh.entryPoint;
+    this.maxLevel = fresh.maxLevel;
+    this.deletedCount = fresh.deletedCount;
+  }
+
+  toJSON(): SerializedHnsw {
+    return {
+      version: 1,
+      dimensions: this.dimensions,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes
+    };
+  }
+
+  /** Vectors packed node-by-node, in the same order as toJSON().nodes */
+  vectorBuffer(): Buffer {
+    const packed = new Float32Array(this.vectors.length * this.dimensions);
+    this.vectors.forEach((vector, i) => packed.set(vector, i * this.dimensions));
+    return Buffer.from(packed.buffer);
+  }
+
+  static fromSerialized(data: SerializedHnsw, vectors: Buffer): HnswIndex {
+    if (data.version !== 1) {
+      throw new Error(`Unsupported HNSW index version: ${data.version}`);
+    }
+
+    const expectedBytes = data.nodes.length * data.dimensions * 4;
+    if (vectors.byteLength !== expectedBytes) {
+      throw new Error(`Vector file is ${vectors.byteLength} bytes, expected ${expectedBytes}`);
+    }
+
+    const index = new HnswIndex(data.dimensions, {
+      M: data.M,
+      efConstruction: data.efConstruction,
+      efSearch: data.efSearch
+    });
+
+    // Copy into an aligned buffer; Buffer slices may not be 4-byte aligned
+    const packed = new Float32Array(new Uint8Array(vectors).buffer);
+
+    index.nodes = data.nodes;
+    index.vectors = data.nodes.map((_node, i) => packed.slice(i * data.dimensions, (i + 1) * data.dimensions));
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    data.nodes.forEach((node, i) => {
+      if (node.deleted) index.deletedCount++;
+      else index.idToNode.set(node.id, i);
+    });
+
+    return index;
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return 1 - dot;
+  }
+
+  private greedyClosest(query: Float32Array, start: number, layer: number): number {
+    let current = start;
+    let currentDistance = this.distance(query, this.vectors[current]);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.nodes[current].neighbors[layer] || []) {
+        const d = this.distance(query, this.vectors[neighbor]);
+        if (d < currentDistance) {
+          currentDistance = d;
+          current = neighbor;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  // Beam search on one layer; returns up to ef candidates sorted closest first
+  private searchLayer(query: Float32Array, entryPoints: number[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const node of entryPoints) {
+      const item = { node, distance: this.distance(query, this.vectors[node]) };
+      insertSorted(candidates, item);
+      insertSorted(results, item);
+    }
+    while (results.length > ef) results.pop();
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!;
+      const furthest = results[results.length - 1];
+      if (results.length >= ef && closest.distance > furthest.distance) break;
+
+      for (const neighbor of this.nodes[closest.node].neighbors[layer] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const d = this.distance(query, this.vectors[neighbor]);
+        if (results.length < ef || d < results[results.length - 1].distance) {
+          const item = { node: neighbor, distance: d };
+          insertSorted(candidates, item);
+          insertSorted(results, item);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // Keep the closest links of an over-full neighbour list
+  private pruneLinks(nodeIndex: number, links: number[], maxNeighbors: number): number[] {
+    const origin = this.vectors[nodeIndex];
+    return links
+      .map(link => ({ node: link, distance: this.distance(origin, this.vectors[link]) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxNeighbors)
+      .map(c => c.node);
+  }
+}
@@ -0,0 +1,228 @@
+import sharp from 'sharp';
+
+/**
+ * IIIF Image API 3.0: level 1 (pixel/square regions, width/height sizes) plus
+ * percent regions and sizes, confined sizes, upscaling, rotation, mirroring,
+ * gray/bitonal qualities and PNG/WebP/GIF output.
+ */
+
+export const IMAGE_CONTEXT = 'http://iiif.io/api/image/3/context.json';
+export const IMAGE_PROFILE = 'level1';
+
+// Largest image we render, per side; keeps a single request from exhausting memory
+export const MAX_IMAGE_SIZE = 4096;
+const TILE_SIZE = 512;
+
+export const IMAGE_FORMATS: Record<string, { mimeType: string; sharpFormat: 'jpeg' | 'png' | 'webp' | 'gif' }> = {
+  jpg: { mimeType: 'image/jpeg', sharpFormat: 'jpeg' },
+  png: { mimeType: 'image/png', sharpFormat: 'png' },
+  webp: { mimeType: 'image/webp', sharpFormat: 'webp' },
+  gif: { mimeType: 'image/gif', sharpFormat: 'gif' }
+};
+
+export const IMAGE_QUALITIES = ['default', 'color', 'gray', 'bitonal'] as const;
+
+export type ImageQuality = typeof IMAGE_QUALITIES[number];
+
+/**
+ * A request the Image API says to reject; status is the HTTP status to answer with
+ */
+export class ImageRequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+export interface ImageRequest {
+  region: { left: number; top: number; width: number; height: number };
+  size: Dimensions;
+  mirror: boolean;
+  rotation: number;
+  quality: ImageQuality;
+  format: string;
+}
+
+/**
+ * Pixel size of an image as displayed, i.e. after EXIF orientation
+ */
+export async function imageDimensions(filePath: string): Promise<Dimensions> {
+  const meta = await sharp(filePath).metadata();
+  if (!meta.width || !meta.height) throw new Error('Image has no dimensions');
+  // Orientations 5-8 are rotated by 90 degrees
+  return (meta.orientation || 1) >= 5
+    ? { width: meta.height, height: meta.width }
+    : { width: meta.width, height: meta.height };
+}
+
+/**
+ * info.json for an image service
+ */
+export function imageInfo(serviceId: string, { width, height }: Dimensions) {
+  const scaleFactors: number[] = [];
+  for (let factor = 1; factor === 1 || Math.max(width, height) / factor >= TILE_SIZE / 2; factor *= 2) {
+    scaleFactors.push(factor);
+  }
+
+  return {
+    '@context': IMAGE_CONTEXT,
+    id: serviceId,
+    type: 'ImageService3',
+    protocol: 'http://iiif.io/api/image',
+    profile: IMAGE_PROFILE,
+    width,
+    height,
+    maxWidth: MAX_IMAGE_SIZE,
+    maxHeight: MAX_IMAGE_SIZE,
+    tiles: [{ width: TILE_SIZE, scaleFactors }],
+    extraQualities: ['color', 'gray', 'bitonal'],
+    extraFormats: ['png', 'webp', 'gif'],
+    extraFeatures: [
+      'mirroring',
+      'regionByPct',
+      'rotationArbitrary',
+      'rotationBy90s',
+      'sizeByConfinedWh',
+      'sizeByPct',
+      'sizeUpscaling'
+    ]
+  };
+}
+
+function parseRegion(region: string, image: Dimensions): ImageRequest['region'] {
+  if (region === 'full') return { left: 0, top: 0, width: image.width, height: image.height };
+
+  if (region === 'square') {
+    const side = Math.min(image.width, image.height);
+    return { left: Math.floor((image.width - side) / 2), top: Math.floor((image.height - side) / 2), width: side, height: side };
+  }
+
+  const percent = region.startsWith('pct:');
+  const parts = (percent ? region.slice(4) : region).split(',');
+  const pattern = percent ? /^\d+(\.\d+)?$/ : /^\d+$/;
+  if (parts.length !== 4 || !parts.every(part => pattern.test(part))) {
+    throw new ImageRequestError(`Invalid region "${region}"`);
+  }
+
+  let [x, y, w, h] = parts.map(Number);
+  if (percent) {
+    x = Math.round((x / 100) * image.width);
+    y = Math.round((y / 100) * image.height);
+    w = Math.round((w / 100) * image.width);
+    h = Math.round((h / 100) * image.height);
+  }
+  if (w <= 0 || h <= 0) throw new ImageRequestError('Region must have a width and height');
+  if (x >= image.width || y >= image.height) throw new ImageRequestError('Region is outside the image');
+
+  // Regions reaching past the edge are cropped to the image
+  return { left: x, top: y, width: Math.min(w, image.width - x), height: Math.min(h, image.height - y) };
+}
+
+function parseSize(size: string, region: Dimensions): Dimensions {
+  const upscale = size.startsWith('^');
+  const spec = upscale ? size.slice(1) : size;
+  const aspect = region.width / region.height;
+  let width: number;
+  let height: number;
+
+  if (spec === 'max') {
+    const scale = upscale
+      ? Math.min(MAX_IMAGE_SIZE / region.width, MAX_IMAGE_SIZE / region.height)
+      : Math.min(1, MAX_IMAGE_SIZE / region.width, MAX_IMAGE_SIZE / region.height);
+    width = region.width * scale;
+    height = region.height * scale;
+  } else if (/^pct:\d+(\.\d+)?$/.test(spec)) {
+    const scale = Number(spec.slice(4)) / 100;
+    width = region.width * scale;
+    height = region.height * scale;
+  } else {
+    const match = /^(!)?(\d*),(\d*)$/.exec(spec);
+    if (!match || (!match[2] && !match[3]) || (match[1] && (!match[2] || !match[3]))) {
+      throw new ImageRequestError(`Invalid size "${size}"`);
+    }
+    const w = match[2] ? Number(match[2]) : null;
+    const h = match[3] ? Number(match[3]) : null;
+
+    if (match[1]) {
+      // Largest size that fits in w x h, keeping the aspect ratio
+      const scale = Math.min(w! / region.width, h! / region.height);
+      width = region.width * scale;
+      height = region.height * scale;
+    } else {
+      width = w ?? h! * aspect;
+      height = h ?? w! / aspect;
+    }
+  }
+
+  const result = { width: Math.round(width), height: Math.round(height) };
+  if (result.width < 1 || result.height < 1) throw new ImageRequestError('Requested size is empty');
+  if (!upscale && (result.width > region.width || result.height > region.height)) {
+    throw new ImageRequestError('Requested size is larger than the region; use ^ to upscale');
+  }
+  if (result.width > MAX_IMAGE_SIZE || result.height > MAX_IMAGE_SIZE) {
+    throw new ImageRequestError(`Requested size is larger than ${MAX_IMAGE_SIZE}px`);
+  }
+  return result;
+}
+
+/**
+ * Parse the {region}/{size}/{rotation}/{quality}.{format} part of an image request
+ */
+export function parseImageRequest(
+  params: { region: string; size: string; rotation: string; qualityFormat: string },
+  image: Dimensions
+): ImageRequest {
+  const region = parseRegion(params.region, image);
+  const size = parseSize(params.size, region);
+
+  const rotationMatch = /^(!)?(\d+(\.\d+)?)$/.exec(params.rotation);
+  if (!rotationMatch || Number(rotationMatch[2]) > 360) {
+    throw new ImageRequestError(`Invalid rotation "${params.rotation}"`);
+  }
+
+  const qualityMatch = /^([a-z]+)\.([a-z]+)$/.exec(params.qualityFormat);
+  if (!qualityMatch || !IMAGE_QUALITIES.includes(qualityMatch[1] as ImageQuality)) {
+    throw new ImageRequestError(`Invalid quality "${params.qualityFormat}"`);
+  }
+  if (!IMAGE_FORMATS[qualityMatch[2]]) {
+    throw new ImageRequestError(`Unsupported format "${qualityMatch[2]}"`, 415);
+  }
+
+  return {
+    region,
+    size,
+    mirror: !!rotationMatch[1],
+    rotation: Number(rotationMatch[2]) % 360,
+    quality: qualityMatch[1] as ImageQuality,
+    format: qualityMatch[2]
+  };
+}
+
+/**
+ * Render an image request. Follows the Image API order: region, size, mirror, rotation, quality.
+ */
+export async function renderImage(filePath: string, request: ImageRequest): Promise<Buffer> {
+  // sharp runs one rotation per pipeline, so crop and scale first, then transform the result
+  const { data, info } = await sharp(filePath)
+    .autoOrient()
+    .extract(request.region)
+    .resize(request.size.width, request.size.height, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let image = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+  if (request.mirror) image = image.flop();
+  if (request.rotation !== 0) {
+    // Corners uncovered by arbitrary rotation are transparent where the format allows it
+    const transparent = request.format !== 'jpg';
+    image = image.rotate(request.rotation, { background: { r: 255, g: 255, b: 255, alpha: transparent ? 0 : 1 } });
+  }
+  if (request.quality === 'gray') image = image.greyscale().toColourspace('b-w');
+  if (request.quality === 'bitonal') image = image.greyscale().threshold(128).toColourspace('b-w');
+
+  return image.toFormat(IMAGE_FORMATS[request.format].sharpFormat).toBuffer();
+}
@@ -0,0 +1,201 @@
+import path from 'path';
+import { ArtworkDocument } from '../models/Artwork';
+import { IMuseum } from '../models/Museum';
+import { imageDimensions, IMAGE_PROFILE, Dimensions } from './iiif-image';
+import { languagesWithValues, museumLanguages } from './languages';
+import { publishedValues } from './translation-review';
+import Logger from '../utils/logger';
+
+/**
+ * IIIF Presentation API 3.0 manifests (one per artwork) and collections (one per museum)
+ */
+
+export const PRESENTATION_CONTEXT = 'http://iiif.io/api/presentation/3/context.json';
+
+const SERVER_ROOT = path.join(__dirname, '..', '..');
+const UPLOADS_DIR = path.join(SERVER_ROOT, 'uploads');
+const THUMBNAIL_WIDTH = 300;
+
+// Language map, as used for every label, summary and value
+type LanguageMap = Record<string, string[]>;
+
+// Metadata labels in the languages the visitor app is offered in
+const LABELS: Record<string, LanguageMap> = {
+  author: { en: ['Author'], fr: ['Auteur'], es: ['Autor'] },
+  year: { en: ['Date'], fr: ['Date'], es: ['Fecha'] },
+  style: { en: ['Style'], fr: ['Style'], es: ['Estilo'] },
+  accessionNumber: { en: ['Accession number'], fr: ["Numéro d'inventaire"], es: ['Número de inventario'] },
+  sources: { en: ['Sources'], fr: ['Sources'], es: ['Fuentes'] },
+  heldBy: { en: ['Held by'], fr: ['Conservé par'], es: ['Conservado por'] }
+};
+
+// Visitor photos approved as reference views are for matching, not for publishing
+const PRIVATE_VIEW_LABELS = ['visitor'];
+
+export interface IiifImage {
+  identifier: string; // Image API identifier: the artwork id, or <artworkId>-<viewId> for a reference view
+  imageUrl: string;
+  label: string;
+}
+
+/**
+ * Images of an artwork that may be published: the primary image, then its reference views
+ */
+export function publicImages(artwork: ArtworkDocument): IiifImage[] {
+  const images: IiifImage[] = [];
+  if (artwork.imageUrl) images.push({ identifier: String(artwork._id), imageUrl: artwork.imageUrl, label: 'primary' });
+  for (const view of artwork.referenceImages || []) {
+    if (PRIVATE_VIEW_LABELS.includes(view.label)) continue;
+    images.push({ identifier: `${artwork._id}-${view._id}`, imageUrl: view.imageUrl, label: view.label });
+  }
+  return images;
+}
+
+/**
+ * Absolute path of a stored image URL, or null when the URL leads outside uploads/
+ */
+export function imageFilePath(imageUrl: string): string | null {
+  const filePath = path.resolve(SERVER_ROOT, imageUrl.replace(/^\//, ''));
+  return filePath.startsWith(UPLOADS_DIR + path.sep) ? filePath : null;
+}
+
+export function imageServiceId(baseUrl: string, identifier: string): string {
+  return `${baseUrl}/api/iiif/image/${identifier}`;
+}
+
+export function manifestId(baseUrl: string, artworkId: unknown): string {
+  return `${baseUrl}/api/iiif/artworks/${artworkId}/manifest`;
+}
+
+export function collectionId(baseUrl: string, museumId: unknown): string {
+  return `${baseUrl}/api/iiif/museums/${museumId}/collection`;
+}
+
+function imageService(baseUrl: string, identifier: string) {
+  return [{ id: imageServiceId(baseUrl, identifier), type: 'ImageService3', profile: IMAGE_PROFILE }];
+}
+
+function thumbnail(baseUrl: string, identifier: string) {
+  return [{
+    id: `${imageServiceId(baseUrl, identifier)}/full/${THUMBNAIL_WIDTH},/0/default.jpg`,
+    type: 'Image',
+    format: 'image/jpeg',
+    service: imageService(baseUrl, identifier)
+  }];
+}
+
+function metadataEntry(label: LanguageMap, value: string) {
+  return { label, value: { none: [value] } };
+}
+
+// Descriptions in every language the artwork publishes, as a language map
+function descriptionSummary(artwork: ArtworkDocument, museum: IMuseum | null): LanguageMap | undefined {
+  const summary: LanguageMap = {};
+  const published = publishedValues(artwork.descriptions, artwork, museum);
+  for (const language of languagesWithValues(published, museumLanguages(museum))) {
+    summary[language] = [published[language]!];
+  }
+  if (Object.keys(summary).length === 0 && artwork.description) summary.none = [artwork.description];
+  return Object.keys(summary).length > 0 ? summary : undefined;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+async function canvas(baseUrl: string, artworkId: unknown, image: IiifImage, index: number) {
+  const id = `${manifestId(baseUrl, artworkId)}/canvas/${index + 1}`;
+
+  let dimensions: Dimensions | null = null;
+  try {
+    const filePath = imageFilePath(image.imageUrl);
+    if (!filePath) throw new Error('not a stored upload');
+    dimensions = await imageDimensions(filePath);
+  } catch (error) {
+    // A missing file still gets a canvas so the manifest stays valid; viewers show it empty
+    Logger.warn(`IIIF: cannot read ${image.imageUrl}: ${error}`);
+  }
+
+  return {
+    id,
+    type: 'Canvas',
+    label: { en: [image.label === 'primary' ? 'Image' : `${image.label[0].toUpperCase()}${image.label.slice(1)} view`] },
+    ...(dimensions || { width: 1, height: 1 }),
+    thumbnail: thumbnail(baseUrl, image.identifier),
+    items: [{
+      id: `${id}/page`,
+      type: 'AnnotationPage',
+      items: [{
+        id: `${id}/page/image`,
+        type: 'Annotation',
+        motivation: 'painting',
+        body: {
+          id: `${imageServiceId(baseUrl, image.identifier)}/full/max/0/default.jpg`,
+          type: 'Image',
+          format: 'image/jpeg',
+          ...(dimensions || {}),
+          service: imageService(baseUrl, image.identifier)
+        },
+        target: id
+      }]
+    }]
+  };
+}
+
+/**
+ * Presentation 3.0 manifest of an artwork: the title as label, descriptions as a
+ * multilingual summary, author/year/style as metadata and one canvas per image
+ */
+export async function artworkManifest(artwork: ArtworkDocument, museum: IMuseum | null, baseUrl: string) {
+  const images = publicImages(artwork);
+
+  const metadata = [
+    ...(artwork.author ? [metadataEntry(LABELS.author, artwork.author)] : []),
+    ...(artwork.year ? [metadataEntry(LABELS.year, artwork.year)] : []),
+    ...(artwork.style ? [metadataEntry(LABELS.style, artwork.style)] : []),
+    ...(artwork.accessionNumber ? [metadataEntry(LABELS.accessionNumber, artwork.accessionNumber)] : []),
+    ...(artwork.sources?.length
+      ? [metadataEntry(
+        LABELS.sources,
+        artwork.sources.map(source => `<a href="${escapeHtml(source.url)}">${escapeHtml(source.provider)}</a>`).join(', ')
+      )]
+      : [])
+  ];
+
+  return {
+    '@context': PRESENTATION_CONTEXT,
+    id: manifestId(baseUrl, artwork._id),
+    type: 'Manifest',
+    label: { none: [artwork.title] },
+    ...(descriptionSummary(artwork, museum) ? { summary: descriptionSummary(artwork, museum) } : {}),
+    metadata,
+    ...(museum ? { requiredStatement: metadataEntry(LABELS.heldBy, museum.name) } : {}),
+    ...(images[0] ? { thumbnail: thumbnail(baseUrl, images[0].identifier) } : {}),
+    ...(museum ? { partOf: [{ id: collectionId(baseUrl, museum._id), type: 'Collection' }] } : {}),
+    items: await Promise.all(images.map((image, index) => canvas(baseUrl, artwork._id, image, index)))
+  };
+}
+
+/**
+ * Presentation 3.0 collection of a museum's artworks
+ */
+export function museumCollection(museum: IMuseum, artworks: ArtworkDocument[], baseUrl: string) {
+  return {
+    '@context': PRESENTATION_CONTEXT,
+    id: collectionId(baseUrl, museum._id),
+    type: 'Collection',
+    label: { none: [museum.name] },
+    ...(museum.description ? { summary: { none: [museum.description] } } : {}),
+    metadata: [metadataEntry(LABELS.heldBy, `${museum.name}, ${museum.location}`)],
+    ...(museum.website ? { homepage: [{ id: museum.website, type: 'Text', label: { none: [museum.name] }, format: 'text/html' }] } : {}),
+    items: artworks.map(artwork => {
+      const [image] = publicImages(artwork);
+      return {
+        id: manifestId(baseUrl, artwork._id),
+        type: 'Manifest',
+        label: { none: [artwork.title] },
+        ...(image ? { thumbnail: thumbnail(baseUrl, image.identifier) } : {})
+      };
+    })
+  };
+}
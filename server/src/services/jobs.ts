@@ -0,0 +1,269 @@
+import { Job, IJob, JobStep } from '../models/Job';
+import { publishProgress, ProgressLevel } from './progress';
+import Logger from '../utils/logger';
+
+// Attempts per step before it is marked failed and left for an admin to re-run
+const MAX_ATTEMPTS = 3;
+// First retry after 5s, then 10s, 20s...
+const RETRY_BASE_MS = 5000;
+// A job whose worker stopped renewing this lease (crash, restart) is picked up again
+const LEASE_MS = 5 * 60 * 1000;
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Throw from a step to mark it skipped rather than failed, e.g. when its service is not configured
+ */
+export class SkipStep extends Error {}
+
+/**
+ * Runs one step. The returned value is stored as the step's result; a step may also
+ * write partial progress to step.result before throwing so a retry can pick up from there.
+ */
+export type StepHandler = (job: IJob, step: JobStep) => Promise<unknown>;
+
+export interface JobStepDefinition {
+  name: string;
+  run: StepHandler;
+}
+
+const definitions = new Map<string, JobStepDefinition[]>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let draining = false;
+
+/**
+ * API shape of a job
+ */
+export function formatJob(job: IJob) {
+  return {
+    id: job._id,
+    type: job.type,
+    status: job.status,
+    artworkId: job.artworkId,
+    museumId: job.museumId,
+    steps: job.steps.map(step => ({
+      name: step.name,
+      status: step.status,
+      attempts: step.attempts,
+      error: step.error,
+      result: step.result,
+      startedAt: step.startedAt,
+      finishedAt: step.finishedAt
+    })),
+    runAfter: job.runAfter,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt
+  };
+}
+
+/**
+ * Publish a progress event for the job's artwork, if it has one
+ */
+export function reportProgress(
+  job: IJob,
+  stage: string,
+  level: ProgressLevel,
+  message: string,
+  extra: { status?: string; language?: string } = {}
+) {
+  if (!job.artworkId) return;
+  publishProgress(job.artworkId, { jobId: String(job._id), stage, level, message, ...extra });
+}
+
+/**
+ * Save a running step's partial result and renew the job's lease. Long steps call this
+ * as they go, so the admin can follow along and a retry can pick up where they stopped.
+ */
+export async function saveStepProgress(job: IJob, step: JobStep, result: unknown): Promise<void> {
+  step.result = result;
+  job.lockedUntil = new Date(Date.now() + LEASE_MS);
+  job.markModified('steps');
+  await job.save();
+}
+
+/**
+ * Register the ordered steps for a job type
+ */
+export function defineJobType(type: string, steps: JobStepDefinition[]) {
+  definitions.set(type, steps);
+}
+
+/**
+ * Queue a job; the worker starts on it right away if idle
+ */
+export async function enqueueJob(
+  type: string,
+  fields: { artworkId?: unknown; museumId?: unknown; payload?: Record<string, unknown>; createdBy?: unknown } = {}
+): Promise<IJob> {
+  const steps = definitions.get(type);
+  if (!steps) throw new Error(`Unknown job type: ${type}`);
+
+  const job = await Job.create({
+    type,
+    ...fields,
+    payload: fields.payload || {},
+    steps: steps.map(step => ({ name: step.name }))
+  });
+
+  Logger.info(`Job ${job._id} (${type}) queued`);
+  reportProgress(job, 'job', 'info', 'Queued for background processing', { status: 'queued' });
+  kickWorker();
+  return job;
+}
+
+/**
+ * Re-run failed steps of a job; all of them, or just the named one
+ * @returns The requeued job, or null when there was nothing to re-run
+ */
+export async function retryJob(job: IJob, stepName?: string): Promise<IJob | null> {
+  const steps = job.steps.filter(step => step.status === 'failed' && (!stepName || step.name === stepName));
+  if (steps.length === 0) return null;
+
+  for (const step of steps) {
+    step.status = 'pending';
+    step.attempts = 0;
+    step.error = undefined;
+  }
+  job.status = 'queued';
+  job.runAfter = new Date();
+  job.finishedAt = undefined;
+  job.markModified('steps');
+  await job.save();
+
+  Logger.info(`Job ${job._id} requeued to re-run ${steps.map(s => s.name).join(', ')}`);
+  for (const step of steps) {
+    reportProgress(job, step.name, 'info', 'Queued to re-run', { status: 'pending' });
+  }
+  reportProgress(job, 'job', 'info', 'Re-running failed steps', { status: 'queued' });
+  kickWorker();
+  return job;
+}
+
+// Atomically take the oldest runnable job, or one whose worker lease expired
+async function claimNextJob(): Promise<IJob | null> {
+  const now = new Date();
+  return Job.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'queued', runAfter: { $lte: now } },
+        { status: 'running', lockedUntil: { $lt: now } }
+      ]
+    },
+    { $set: { status: 'running', lockedUntil: new Date(now.getTime() + LEASE_MS) } },
+    { sort: { runAfter: 1 }, new: true }
+  );
+}
+
+async function runJob(job: IJob): Promise<void> {
+  const definition = definitions.get(job.type);
+  if (!definition) {
+    Logger.error(`Job ${job._id} has unknown type ${job.type}`);
+    job.status = 'failed';
+    job.finishedAt = new Date();
+    await job.save();
+    return;
+  }
+
+  for (const step of job.steps) {
+    // Completed, skipped and permanently failed steps are left as they are
+    if (step.status !== 'pending' && step.status !== 'running') continue;
+
+    const handler = definition.find(d => d.name === step.name);
+    step.status = 'running';
+    step.attempts += 1;
+    step.error = undefined;
+    step.startedAt = new Date();
+    step.finishedAt = undefined;
+    job.lockedUntil = new Date(Date.now() + LEASE_MS);
+    job.markModified('steps');
+    await job.save();
+    reportProgress(job, step.name, 'info', step.attempts > 1 ? `Started (attempt ${step.attempts})` : 'Started', { status: 'running' });
+
+    try {
+      if (!handler) throw new Error(`No handler for step ${step.name}`);
+      step.result = await handler.run(job, step);
+      step.status = 'completed';
+      reportProgress(job, step.name, 'success', 'Done', { status: 'completed' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      step.error = message;
+
+      if (error instanceof SkipStep) {
+        step.status = 'skipped';
+        Logger.info(`Job ${job._id}: ${step.name} skipped (${message})`);
+        reportProgress(job, step.name, 'info', `Skipped: ${message}`, { status: 'skipped' });
+      } else if (step.attempts < MAX_ATTEMPTS) {
+        // Back off and let the worker come back to this job later
+        const delay = RETRY_BASE_MS * 2 ** (step.attempts - 1);
+        step.status = 'pending';
+        step.finishedAt = new Date();
+        job.status = 'queued';
+        job.runAfter = new Date(Date.now() + delay);
+        job.lockedUntil = undefined;
+        job.markModified('steps');
+        await job.save();
+        Logger.warn(`Job ${job._id}: ${step.name} failed (attempt ${step.attempts}), retrying in ${delay / 1000}s: ${message}`);
+        reportProgress(job, step.name, 'warning', `${message}; retrying in ${delay / 1000}s`, { status: 'retrying' });
+        return;
+      } else {
+        // Later steps still run; most can work with what earlier steps saved
+        step.status = 'failed';
+        Logger.error(`Job ${job._id}: ${step.name} failed after ${step.attempts} attempts: ${message}`);
+        reportProgress(job, step.name, 'error', `Failed after ${step.attempts} attempts: ${message}`, { status: 'failed' });
+      }
+    }
+
+    step.finishedAt = new Date();
+    job.markModified('steps');
+    await job.save();
+  }
+
+  job.status = job.steps.some(step => step.status === 'failed') ? 'failed' : 'completed';
+  job.finishedAt = new Date();
+  job.lockedUntil = undefined;
+  await job.save();
+
+  Logger.info(`Job ${job._id} (${job.type}) ${job.status}`);
+  reportProgress(
+    job,
+    'job',
+    job.status === 'completed' ? 'success' : 'error',
+    job.status === 'completed' ? 'All steps finished' : 'Finished with failed steps',
+    { status: job.status }
+  );
+}
+
+// Run jobs one at a time until none are runnable
+async function drain() {
+  if (draining) return;
+  draining = true;
+  try {
+    let job: IJob | null;
+    while ((job = await claimNextJob())) {
+      try {
+        await runJob(job);
+      } catch (error) {
+        // Leave the job leased; it is picked up again once the lease runs out
+        Logger.error(`Job ${job._id} crashed: ${error}`);
+      }
+    }
+  } catch (error) {
+    Logger.error(`Job worker error: ${error}`);
+  } finally {
+    draining = false;
+  }
+}
+
+function kickWorker() {
+  if (pollTimer) drain();
+}
+
+/**
+ * Start polling for jobs. Jobs interrupted by a restart resume once their lease expires.
+ */
+export function startJobWorker() {
+  if (pollTimer) return;
+  pollTimer = setInterval(drain, POLL_INTERVAL_MS);
+  drain();
+  Logger.info('Job worker started');
+}
@@ -0,0 +1,92 @@
+import { IMuseum } from '../models/Museum';
+
+/**
+ * Content languages. Each museum enables its own list (the first one is its
+ * default); any BCP 47 language code works, so adding a language is configuration only.
+ */
+
+export type LanguageCode = string;
+
+// Museums that have not configured a list keep the original three languages
+export const DEFAULT_LANGUAGES: LanguageCode[] = ['en', 'fr', 'es'];
+
+// Language, optional script/region subtags ("pt", "zh-hant", "pt-br"); never dots, which would break Mongo paths
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/;
+
+export function normalizeLanguageCode(code: unknown): LanguageCode | null {
+  if (typeof code !== 'string') return null;
+  const normalized = code.trim().toLowerCase().replace(/_/g, '-');
+  return LANGUAGE_CODE.test(normalized) ? normalized : null;
+}
+
+/**
+ * English name of a language, for logs and translation prompts ("de" → "German")
+ */
+export function languageName(code: LanguageCode): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * The languages a museum publishes in, default first
+ */
+export function museumLanguages(museum?: Pick<IMuseum, 'languages'> | null): LanguageCode[] {
+  return museum?.languages?.length ? museum.languages : DEFAULT_LANGUAGES;
+}
+
+/**
+ * Validate a language list from a request: non-empty, valid codes, no repeats.
+ * Returns the normalized list, or an error message.
+ */
+export function parseLanguageList(value: unknown): { languages?: LanguageCode[]; error?: string } {
+  const list = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(list) || list.length === 0) {
+    return { error: 'languages must be a non-empty list of language codes' };
+  }
+
+  const languages: LanguageCode[] = [];
+  for (const entry of list) {
+    const code = normalizeLanguageCode(entry);
+    if (!code) return { error: `"${entry}" is not a valid language code` };
+    if (languages.includes(code)) return { error: `Language "${code}" is listed twice` };
+    languages.push(code);
+  }
+  return { languages };
+}
+
+/**
+ * The language to serve: the requested one when the museum offers it, otherwise the museum's default
+ */
+export function resolveLanguage(requested: unknown, languages: LanguageCode[]): LanguageCode {
+  const code = normalizeLanguageCode(requested);
+  return code && languages.includes(code) ? code : languages[0];
+}
+
+/**
+ * Pick a localized value: the language itself, then the museum's languages in order, then any
+ */
+export function localizedValue(
+  values: Partial<Record<LanguageCode, string>> | undefined,
+  language: LanguageCode,
+  languages: LanguageCode[] = DEFAULT_LANGUAGES
+): string | undefined {
+  if (!values) return undefined;
+  for (const code of [language, ...languages]) {
+    if (values[code]) return values[code];
+  }
+  return Object.values(values).find(value => !!value);
+}
+
+/**
+ * Languages that have a value, the museum's first (in its order), then any others
+ */
+export function languagesWithValues(
+  values: Partial<Record<LanguageCode, string>> | undefined,
+  languages: LanguageCode[] = DEFAULT_LANGUAGES
+): LanguageCode[] {
+  const present = Object.keys(values || {}).filter(code => !!values![code]);
+  return [...languages.filter(code => present.includes(code)), ...present.filter(code => !languages.includes(code))];
+}
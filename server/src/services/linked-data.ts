@@ -0,0 +1,226 @@
+import { ArtworkDocument } from '../models/Artwork';
+import { IMuseum } from '../models/Museum';
+import { manifestId } from './iiif-presentation';
+import { LanguageCode, languagesWithValues, localizedValue, museumLanguages } from './languages';
+import { publishedValues } from './translation-review';
+import { audioMimeType } from './tts-providers';
+
+/**
+ * Structured descriptions of artworks for search engines and aggregators:
+ * schema.org VisualArtwork and Linked Art (CIDOC-CRM) JSON-LD
+ */
+
+export const LINKED_ART_CONTEXT = 'https://linked.art/ns/v1/linked-art.json';
+
+export interface LinkedDataUrls {
+  apiBaseUrl: string; // Where this server is reached, for API and image URLs
+  siteBaseUrl: string; // Where the visitor app is, for page URLs
+}
+
+/**
+ * URLs for structured data: API links from the request, page links from BASE_URL (as for QR codes)
+ */
+export function linkedDataUrls(apiBaseUrl: string): LinkedDataUrls {
+  return { apiBaseUrl, siteBaseUrl: process.env.BASE_URL || 'http://localhost:3000' };
+}
+
+function absolute(url: string | undefined, baseUrl: string): string | undefined {
+  return url && url.startsWith('/') ? `${baseUrl}${url}` : url;
+}
+
+export function artworkPageUrl(urls: LinkedDataUrls, artworkId: unknown): string {
+  return `${urls.siteBaseUrl}/artwork/${artworkId}`;
+}
+
+export function linkedArtUrl(urls: LinkedDataUrls, artworkId: unknown): string {
+  return `${urls.apiBaseUrl}/api/visit/artwork/${artworkId}/linked-art`;
+}
+
+function museumPageUrl(urls: LinkedDataUrls, museum: IMuseum): string {
+  return `${urls.siteBaseUrl}/visit/${museum.qrCode}`;
+}
+
+// Years like "1889" or ranges like "1503-1519" become machine-readable dates; anything else stays text
+function yearRange(year: string | undefined): { begin: string; end: string } | null {
+  const match = /^\s*(\d{3,4})\s*(?:[-–]\s*(\d{3,4}))?\s*$/.exec(year || '');
+  if (!match) return null;
+  const begin = match[1].padStart(4, '0');
+  const end = (match[2] || match[1]).padStart(4, '0');
+  return { begin, end };
+}
+
+/**
+ * schema.org VisualArtwork for an artwork page, with its description and audio in the page's language
+ */
+export function schemaOrgArtwork(
+  artwork: ArtworkDocument,
+  museum: IMuseum | null,
+  urls: LinkedDataUrls,
+  language: LanguageCode,
+  languages: LanguageCode[] = museumLanguages(museum)
+) {
+  const description = localizedValue(publishedValues(artwork.descriptions, artwork, museum), language, languages) || artwork.description;
+  const audioUrl = publishedValues(artwork.audioUrls, artwork, museum)[language];
+  const dates = yearRange(artwork.year);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'VisualArtwork',
+    '@id': artworkPageUrl(urls, artwork._id),
+    url: artworkPageUrl(urls, artwork._id),
+    name: artwork.title,
+    ...(description ? { description } : {}),
+    inLanguage: language,
+    image: absolute(artwork.imageUrl, urls.apiBaseUrl),
+    ...(artwork.author ? { creator: { '@type': 'Person', name: artwork.author } } : {}),
+    ...(artwork.year ? { dateCreated: dates && dates.begin === dates.end ? dates.begin : artwork.year } : {}),
+    ...(artwork.style ? { artMovement: artwork.style } : {}),
+    ...(artwork.accessionNumber
+      ? { identifier: { '@type': 'PropertyValue', propertyID: 'accession number', value: artwork.accessionNumber } }
+      : {}),
+    ...(audioUrl
+      ? { audio: { '@type': 'AudioObject', contentUrl: absolute(audioUrl, urls.apiBaseUrl), inLanguage: language, encodingFormat: audioMimeType(artwork.audio?.[language]?.format) } }
+      : {}),
+    ...(artwork.sources?.length ? { sameAs: artwork.sources.map(source => source.url) } : {}),
+    ...(museum
+      ? {
+        publisher: {
+          '@type': 'Museum',
+          name: museum.name,
+          address: museum.location,
+          url: museum.website || museumPageUrl(urls, museum)
+        }
+      }
+      : {}),
+    subjectOf: [
+      { '@type': 'CreativeWork', url: linkedArtUrl(urls, artwork._id), encodingFormat: 'application/ld+json', name: 'Linked Art' },
+      { '@type': 'CreativeWork', url: manifestId(urls.apiBaseUrl, artwork._id), encodingFormat: 'application/ld+json', name: 'IIIF manifest' }
+    ],
+    dateModified: artwork.updatedAt
+  };
+}
+
+// Getty AAT concepts used below
+const AAT = {
+  workOfArt: { id: 'http://vocab.getty.edu/aat/300133025', type: 'Type', _label: 'works of art' },
+  primaryName: { id: 'http://vocab.getty.edu/aat/300404670', type: 'Type', _label: 'primary name' },
+  accessionNumber: { id: 'http://vocab.getty.edu/aat/300312355', type: 'Type', _label: 'accession number' },
+  briefText: { id: 'http://vocab.getty.edu/aat/300418049', type: 'Type', _label: 'brief text' },
+  description: { id: 'http://vocab.getty.edu/aat/300435416', type: 'Type', _label: 'description' },
+  style: { id: 'http://vocab.getty.edu/aat/300015646', type: 'Type', _label: 'styles and periods (object genre)' },
+  webPage: { id: 'http://vocab.getty.edu/aat/300264578', type: 'Type', _label: 'Web pages (documents)' }
+};
+
+// AAT language concepts; languages without one are labelled only
+const AAT_LANGUAGES: Partial<Record<LanguageCode, string>> = {
+  en: 'http://vocab.getty.edu/aat/300388277',
+  fr: 'http://vocab.getty.edu/aat/300388306',
+  es: 'http://vocab.getty.edu/aat/300389311',
+  de: 'http://vocab.getty.edu/aat/300388344',
+  it: 'http://vocab.getty.edu/aat/300388474'
+};
+
+function digitalObject(url: string, label: string, format?: string) {
+  return {
+    type: 'DigitalObject',
+    _label: label,
+    ...(format ? { format } : {}),
+    access_point: [{ id: url, type: 'DigitalObject' }]
+  };
+}
+
+/**
+ * Linked Art HumanMadeObject: names and accession number, descriptions in every
+ * language, production (artist and date), the holding museum, the image and
+ * where the object is documented (web page, IIIF manifest, sources)
+ */
+export function linkedArtArtwork(artwork: ArtworkDocument, museum: IMuseum | null, urls: LinkedDataUrls) {
+  const dates = yearRange(artwork.year);
+
+  const published = publishedValues(artwork.descriptions, artwork, museum);
+  const descriptions = languagesWithValues(published, museumLanguages(museum))
+    .map(language => ({
+      type: 'LinguisticObject',
+      classified_as: [{ ...AAT.description, classified_as: [AAT.briefText] }],
+      content: published[language],
+      language: [{ ...(AAT_LANGUAGES[language] ? { id: AAT_LANGUAGES[language] } : {}), type: 'Language', _label: language }]
+    }));
+  if (descriptions.length === 0 && artwork.description) {
+    descriptions.push({
+      type: 'LinguisticObject',
+      classified_as: [{ ...AAT.description, classified_as: [AAT.briefText] }],
+      content: artwork.description,
+      language: []
+    });
+  }
+
+  const keeper = museum
+    ? [{ id: museumPageUrl(urls, museum), type: 'Group', _label: museum.name }]
+    : undefined;
+
+  return {
+    '@context': LINKED_ART_CONTEXT,
+    id: linkedArtUrl(urls, artwork._id),
+    type: 'HumanMadeObject',
+    _label: artwork.title,
+    classified_as: [AAT.workOfArt],
+    identified_by: [
+      { type: 'Name', classified_as: [AAT.primaryName], content: artwork.title },
+      ...(artwork.accessionNumber
+        ? [{ type: 'Identifier', classified_as: [AAT.accessionNumber], content: artwork.accessionNumber }]
+        : [])
+    ],
+    referred_to_by: [
+      ...descriptions,
+      ...(artwork.style
+        ? [{ type: 'LinguisticObject', classified_as: [{ ...AAT.style, classified_as: [AAT.briefText] }], content: artwork.style }]
+        : [])
+    ],
+    ...(artwork.author || artwork.year
+      ? {
+        produced_by: {
+          type: 'Production',
+          ...(artwork.author ? { carried_out_by: [{ type: 'Person', _label: artwork.author }] } : {}),
+          ...(artwork.year
+            ? {
+              timespan: {
+                type: 'TimeSpan',
+                identified_by: [{ type: 'Name', content: artwork.year }],
+                ...(dates ? { begin_of_the_begin: `${dates.begin}-01-01T00:00:00Z`, end_of_the_end: `${dates.end}-12-31T23:59:59Z` } : {})
+              }
+            }
+            : {})
+        }
+      }
+      : {}),
+    ...(keeper ? { current_keeper: keeper } : {}),
+    ...(artwork.imageUrl
+      ? {
+        representation: [{
+          type: 'VisualItem',
+          digitally_shown_by: [digitalObject(absolute(artwork.imageUrl, urls.apiBaseUrl)!, `Image of ${artwork.title}`)]
+        }]
+      }
+      : {}),
+    subject_of: [
+      {
+        type: 'LinguisticObject',
+        _label: 'Web page',
+        digitally_carried_by: [{ ...digitalObject(artworkPageUrl(urls, artwork._id), 'Artwork page', 'text/html'), classified_as: [AAT.webPage] }]
+      },
+      {
+        type: 'LinguisticObject',
+        _label: 'IIIF manifest',
+        digitally_carried_by: [{
+          ...digitalObject(manifestId(urls.apiBaseUrl, artwork._id), 'IIIF manifest', 'application/ld+json;profile="http://iiif.io/api/presentation/3/context.json"'),
+          conforms_to: [{ id: 'http://iiif.io/api/presentation', type: 'InformationObject' }]
+        }]
+      },
+      ...(artwork.sources || []).map(source => ({
+        type: 'LinguisticObject',
+        _label: source.provider,
+        digitally_carried_by: [digitalObject(source.url, source.provider, 'text/html')]
+      }))
+    ]
+  };
+}
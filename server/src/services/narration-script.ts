@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { NarrationOrigin } from '../models/Artwork';
+import { LanguageCode, languageName } from './languages';
+
+/**
+ * Narration scripts: the written description rewritten for listening, which the
+ * audio guide reads instead of the label text. An LLM writes them when one is
+ * configured (Claude, then OpenAI, as for recognition); otherwise, or when it fails,
+ * a deterministic template tidies the description for speech.
+ */
+
+export interface NarrationScript {
+  text: string;
+  origin: Exclude<NarrationOrigin, 'curator'>;
+  model?: string;
+  fallbackReason?: string; // Why the LLM was not used, when one is configured
+}
+
+// What the script is about, to give the LLM context
+export interface ScriptSubject {
+  title?: string;
+  author?: string;
+}
+
+// Identifies the description a script was written from, so a changed description gets a new script
+export function descriptionHash(description: string): string {
+  return crypto.createHash('sha256').update(description.trim()).digest('hex').slice(0, 16);
+}
+
+function scriptPrompt(language: LanguageCode): string {
+  return `You write museum audio guide scripts. Rewrite the label text you are given as a script to be read aloud in ${languageName(language)}: `
+    + 'short sentences, no parentheses, no dates or references in brackets, numbers and years as a speaker would say them. '
+    + 'Where the text describes something visible, guide the listener\'s eye, e.g. "look at the lower left corner". '
+    + 'Do not add facts that are not in the text. Return only the script, no title or other text.';
+}
+
+function scriptRequest(description: string, subject: ScriptSubject): string {
+  const about = [subject.title, subject.author].filter(Boolean).join(', ');
+  return about ? `Artwork: ${about}\n\n${description}` : description;
+}
+
+async function scriptWithClaude(description: string, language: LanguageCode, subject: ScriptSubject): Promise<NarrationScript> {
+  const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  const model = process.env.ANTHROPIC_NARRATION_MODEL || 'claude-3-5-haiku-latest';
+  const response = await client.messages.create({
+    model,
+    max_tokens: 1024,
+    system: scriptPrompt(language),
+    messages: [{ role: 'user', content: scriptRequest(description, subject) }],
+    temperature: 0.3
+  });
+  const text = response.content.map(block => (block.type === 'text' ? block.text : '')).join('').trim();
+  if (!text) throw new Error('Claude returned an empty script');
+  return { text, origin: 'llm', model: response.model || model };
+}
+
+async function scriptWithOpenAI(description: string, language: LanguageCode, subject: ScriptSubject): Promise<NarrationScript> {
+  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  const model = process.env.OPENAI_NARRATION_MODEL || 'gpt-4o-mini';
+  const response = await client.chat.completions.create({
+    model,
+    messages: [
+      { role: 'system', content: scriptPrompt(language) },
+      { role: 'user', content: scriptRequest(description, subject) }
+    ],
+    max_tokens: 1024,
+    temperature: 0.3
+  });
+  const text = response.choices[0]?.message?.content?.trim();
+  if (!text) throw new Error('OpenAI returned an empty script');
+  return { text, origin: 'llm', model: response.model || model };
+}
+
+/**
+ * The description made easier to follow by ear, without inventing anything: asides in
+ * parentheses or brackets (dates, references, footnote marks) are dropped and semicolons
+ * end the sentence. Works the same for every language and always gives the same result.
+ */
+export function templateNarration(description: string): string {
+  return description
+    .replace(/\s*\([^()]*\)/g, '')
+    .replace(/\s*\[[^\][]*\]/g, '')
+    .replace(/\s*;\s*(\S)/g, (_, next: string) => `. ${next.toUpperCase()}`)
+    .replace(/[ \t]+([,.!?:])/g, '$1')
+    .replace(/[ \t]{2,}/g, ' ')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Write the narration script for one language of a description. Never throws for a
+ * failing LLM: the template is used instead and the reason returned with it.
+ */
+export async function writeNarrationScript(description: string, language: LanguageCode, subject: ScriptSubject = {}): Promise<NarrationScript> {
+  const llm = process.env.ANTHROPIC_API_KEY ? scriptWithClaude : process.env.OPENAI_API_KEY ? scriptWithOpenAI : null;
+  if (!llm) return { text: templateNarration(description), origin: 'template' };
+
+  try {
+    return await llm(description, language, subject);
+  } catch (error) {
+    return {
+      text: templateNarration(description),
+      origin: 'template',
+      fallbackReason: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { EventEmitter } from 'events';
+
+export type ProgressLevel = 'info' | 'success' | 'warning' | 'error';
+
+/**
+ * One line of an artwork's processing log. Events with a status move a stage
+ * through the checklist; events without one add detail under it.
+ */
+export interface ProgressEvent {
+  artworkId: string;
+  jobId?: string;
+  stage: string; // "embedding", "duplicates", a job step name, or "job"
+  status?: string; // running, completed, failed, skipped, retrying; queued/completed/failed for "job"
+  level: ProgressLevel;
+  message: string;
+  language?: string;
+  at: Date;
+}
+
+// Late subscribers (the dashboard connects after the upload returns) get recent history first
+const HISTORY_LIMIT = 200;
+const HISTORY_TTL_MS = 30 * 60 * 1000;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open dashboard
+
+const history = new Map<string, { events: ProgressEvent[]; expiresAt: number }>();
+
+function pruneHistory(now: number) {
+  for (const [artworkId, entry] of history) {
+    if (entry.expiresAt < now) history.delete(artworkId);
+  }
+}
+
+/**
+ * Record a progress event for an artwork and push it to live subscribers
+ */
+export function publishProgress(artworkId: unknown, event: Omit<ProgressEvent, 'artworkId' | 'at'>) {
+  const key = String(artworkId);
+  const now = Date.now();
+  const full: ProgressEvent = { ...event, artworkId: key, at: new Date(now) };
+
+  pruneHistory(now);
+  const entry = history.get(key) || { events: [], expiresAt: 0 };
+  entry.events = [...entry.events, full].slice(-HISTORY_LIMIT);
+  entry.expiresAt = now + HISTORY_TTL_MS;
+  history.set(key, entry);
+
+  emitter.emit(key, full);
+}
+
+export function progressHistory(artworkId: unknown): ProgressEvent[] {
+  return history.get(String(artworkId))?.events || [];
+}
+
+/**
+ * Listen for an artwork's progress events
+ * @returns Unsubscribe function
+ */
+export function subscribeProgress(artworkId: unknown, listener: (event: ProgressEvent) => void): () => void {
+  const key = String(artworkId);
+  emitter.on(key, listener);
+  return () => {
+    emitter.off(key, listener);
+  };
+}
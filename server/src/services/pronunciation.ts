@@ -0,0 +1,83 @@
+import { PronunciationEntry } from '../models/Museum';
+import { LanguageCode, normalizeLanguageCode } from './languages';
+import { phrasePattern } from './glossary';
+
+/**
+ * Per-museum pronunciation lexicon for narration. Before text is sent to a TTS
+ * provider, each listed term is wrapped in an SSML phoneme tag (for providers that
+ * read them) or replaced by its spoken alias, so names like "Giorgione" are said right.
+ */
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function appliesTo(entry: PronunciationEntry, language: LanguageCode): boolean {
+  return !entry.languages?.length || entry.languages.some(code => code === language || code === language.split('-')[0]);
+}
+
+/**
+ * The text as the provider should speak it. Entries with a phoneme use it when the
+ * provider supports phoneme tags, otherwise their alias; entries with neither usable are left as written.
+ */
+export function applyPronunciations(
+  text: string,
+  lexicon: PronunciationEntry[] = [],
+  language: LanguageCode,
+  phonemes: boolean
+): string {
+  const entries = lexicon.filter(entry => appliesTo(entry, language) && ((phonemes && entry.phoneme) || entry.alias));
+  if (entries.length === 0) return text;
+
+  const byTerm = new Map(entries.map(entry => [entry.term.toLowerCase(), entry]));
+  return text.replace(phrasePattern([...byTerm.keys()]), match => {
+    const entry = byTerm.get(match.toLowerCase())!;
+    if (phonemes && entry.phoneme) return `<phoneme alphabet="ipa" ph="${escapeAttribute(entry.phoneme)}">${match}</phoneme>`;
+    return entry.alias || match;
+  });
+}
+
+/**
+ * Validate a lexicon from a request: terms unique (ignoring case), each with an
+ * alias and/or an IPA phoneme. Returns the cleaned list, or an error message.
+ */
+export function parsePronunciations(value: unknown): { pronunciations?: PronunciationEntry[]; error?: string } {
+  if (!Array.isArray(value)) return { error: 'pronunciations must be a list of entries' };
+
+  const pronunciations: PronunciationEntry[] = [];
+  for (const raw of value) {
+    const term = typeof raw?.term === 'string' ? raw.term.trim() : '';
+    if (!term) return { error: 'Every pronunciation needs a term' };
+    if (pronunciations.some(entry => entry.term.toLowerCase() === term.toLowerCase())) {
+      return { error: `"${term}" is in the lexicon twice` };
+    }
+
+    for (const field of ['alias', 'phoneme'] as const) {
+      if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== 'string') {
+        return { error: `The ${field} of "${term}" must be text` };
+      }
+    }
+    const alias = raw.alias?.trim() || undefined;
+    const phoneme = raw.phoneme?.trim() || undefined;
+    if (!alias && !phoneme) return { error: `"${term}" needs an alias, a phoneme or both` };
+
+    let languages: LanguageCode[] | undefined;
+    if (raw.languages !== undefined && raw.languages !== null) {
+      if (!Array.isArray(raw.languages)) return { error: `Languages of "${term}" must be a list of codes` };
+      languages = [];
+      for (const code of raw.languages) {
+        const language = typeof code === 'string' ? normalizeLanguageCode(code) : null;
+        if (!language) return { error: `"${code}" is not a valid language code (pronunciation "${term}")` };
+        if (!languages.includes(language)) languages.push(language);
+      }
+    }
+
+    pronunciations.push({
+      term,
+      ...(alias && { alias }),
+      ...(phoneme && { phoneme }),
+      ...(languages?.length && { languages })
+    });
+  }
+  return { pronunciations };
+}
@@ -0,0 +1,309 @@
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import { Artwork, ArtworkDocument, StagedEmbeddings } from '../models/Artwork';
+import { Museum, IMuseum } from '../models/Museum';
+import { ReembedJob, IReembedJob } from '../models/ReembedJob';
+import { IUser } from '../models/User';
+import { generateImageEmbedding, embeddingModelOf } from './clip';
+import { dropMuseumIndex } from './artwork-index';
+import Logger from '../utils/logger';
+
+const SERVER_ROOT = path.join(__dirname, '..', '..');
+
+// Failures kept on the job document for the admin to inspect
+const MAX_FAILURES_KEPT = 50;
+
+export const ACTIVE_JOB_STATUSES = ['queued', 'running', 'paused'] as const;
+
+// Jobs run one at a time; embedding is CPU-bound and would only slow each other down
+let queue: Promise<void> = Promise.resolve();
+
+export interface CutoverResult {
+  switched: boolean;
+  model: string;
+  total: number;
+  promoted: number; // Artworks whose staged vectors went live
+  missing: number; // Artworks with no vectors for the new model yet
+}
+
+function jobScope(job: IReembedJob) {
+  return job.museumId ? { museumId: job.museumId } : {};
+}
+
+function imagePath(imageUrl: string): string {
+  return path.join(SERVER_ROOT, imageUrl.replace(/^\//, ''));
+}
+
+// Every stored view is already embedded with the model, so there is nothing to stage
+function isUpToDate(artwork: ArtworkDocument, model: string): boolean {
+  if (artwork.imageUrl && embeddingModelOf(artwork.embeddingModel) !== model) return false;
+  return (artwork.referenceImages || []).every(ref => embeddingModelOf(ref.embeddingModel) === model);
+}
+
+// Staged vectors cover the primary image and every reference view
+function isFullyStaged(artwork: ArtworkDocument, model: string): boolean {
+  const staged = artwork.stagedEmbeddings;
+  if (!staged || staged.model !== model) return false;
+  if (artwork.imageUrl && !staged.image?.length) return false;
+  return (artwork.referenceImages || []).every(ref =>
+    staged.references?.some(s => String(s.referenceId) === String(ref._id))
+  );
+}
+
+/**
+ * Embed an artwork's primary image and reference views with the target model,
+ * storing the vectors beside the live ones until cut-over
+ */
+async function stageArtwork(artwork: ArtworkDocument, model: string): Promise<void> {
+  if (isUpToDate(artwork, model) || isFullyStaged(artwork, model)) return;
+
+  const staged: StagedEmbeddings = { model, references: [], updatedAt: new Date() };
+
+  if (artwork.imageUrl) {
+    const file = imagePath(artwork.imageUrl);
+    if (!fs.existsSync(file)) throw new Error(`Image file missing: ${artwork.imageUrl}`);
+    staged.image = await generateImageEmbedding(file, model);
+  }
+
+  for (const reference of artwork.referenceImages || []) {
+    const file = imagePath(reference.imageUrl);
+    if (!fs.existsSync(file)) throw new Error(`Reference image missing: ${reference.imageUrl}`);
+    staged.references!.push({
+      referenceId: reference._id as mongoose.Types.ObjectId,
+      embedding: await generateImageEmbedding(file, model)
+    });
+  }
+
+  // Direct update so concurrent admin edits to the artwork are not overwritten
+  await Artwork.updateOne({ _id: artwork._id }, { $set: { stagedEmbeddings: staged } });
+}
+
+async function runJob(jobId: string): Promise<void> {
+  const job = await ReembedJob.findById(jobId);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+  job.status = 'running';
+  job.startedAt = job.startedAt || new Date();
+  if (!job.total) job.total = await Artwork.countDocuments(jobScope(job));
+  await job.save();
+
+  Logger.info(`Re-embed job ${job._id} running: ${job.processed}/${job.total} artworks to ${job.targetModel}`);
+
+  try {
+    while (true) {
+      // Pick up pause and cancel requests made through the API
+      const current = await ReembedJob.findById(jobId).select('status');
+      if (current?.status !== 'running') {
+        Logger.info(`Re-embed job ${job._id} stopped at ${job.processed}/${job.total} (${current?.status || 'deleted'})`);
+        return;
+      }
+
+      const artwork = await Artwork.findOne({
+        ...jobScope(job),
+        ...(job.lastArtworkId ? { _id: { $gt: job.lastArtworkId } } : {})
+      }).sort({ _id: 1 });
+      if (!artwork) break;
+
+      try {
+        await stageArtwork(artwork, job.targetModel);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        Logger.warn(`Re-embed job ${job._id}: artwork ${artwork._id} failed: ${message}`);
+        job.failed += 1;
+        job.failures = [...job.failures, { artworkId: artwork._id as mongoose.Types.ObjectId, message }].slice(-MAX_FAILURES_KEPT);
+      }
+
+      job.processed += 1;
+      job.lastArtworkId = artwork._id as mongoose.Types.ObjectId;
+      await ReembedJob.updateOne(
+        { _id: job._id, status: 'running' },
+        { $set: { processed: job.processed, failed: job.failed, failures: job.failures, lastArtworkId: job.lastArtworkId } }
+      );
+    }
+
+    // Artworks uploaded mid-run are picked up too, so the final count is what was processed
+    await ReembedJob.updateOne(
+      { _id: job._id, status: 'running' },
+      { $set: { status: 'completed', total: job.processed, finishedAt: new Date() } }
+    );
+    Logger.info(`Re-embed job ${job._id} completed: ${job.processed} artworks, ${job.failed} failed`);
+  } catch (error) {
+    Logger.error(`Re-embed job ${job._id} failed: ${error}`);
+    await ReembedJob.updateOne({ _id: job._id }, { $set: { status: 'failed', finishedAt: new Date() } });
+  }
+}
+
+function enqueue(jobId: string) {
+  queue = queue.then(() => runJob(jobId)).catch(error => {
+    Logger.error(`Re-embed job ${jobId} crashed: ${error}`);
+  });
+}
+
+/**
+ * An unfinished job that covers the same artworks, if any
+ */
+export async function findConflictingJob(museumId?: unknown): Promise<IReembedJob | null> {
+  return ReembedJob.findOne({
+    status: { $in: ACTIVE_JOB_STATUSES },
+    // A whole-database job overlaps every museum job and vice versa
+    ...(museumId ? { $or: [{ museumId }, { museumId: null }] } : {})
+  });
+}
+
+/**
+ * Queue a re-embedding run for one museum, or every museum when museumId is omitted
+ */
+export async function startReembedJob(targetModel: string, museumId: unknown, user: IUser): Promise<IReembedJob> {
+  const job = await ReembedJob.create({
+    museumId: museumId || undefined,
+    targetModel,
+    createdBy: user._id
+  });
+  Logger.info(`Re-embed job ${job._id} queued by ${user.email}: ${museumId ? `museum ${museumId}` : 'all museums'} to ${targetModel}`);
+  enqueue(String(job._id));
+  return job;
+}
+
+export async function pauseReembedJob(job: IReembedJob): Promise<IReembedJob> {
+  job.status = 'paused';
+  return job.save();
+}
+
+export async function resumeReembedJob(job: IReembedJob): Promise<IReembedJob> {
+  job.status = 'queued';
+  job.finishedAt = undefined;
+  await job.save();
+  enqueue(String(job._id));
+  return job;
+}
+
+/**
+ * Stop a job and throw away the vectors it staged
+ */
+export async function cancelReembedJob(job: IReembedJob): Promise<IReembedJob> {
+  job.status = 'cancelled';
+  job.finishedAt = new Date();
+  await job.save();
+
+  await Artwork.updateMany(
+    { ...jobScope(job), 'stagedEmbeddings.model': job.targetModel },
+    { $unset: { stagedEmbeddings: 1 } }
+  );
+  return job;
+}
+
+/**
+ * Restart jobs that were running or waiting when the server stopped, and finish
+ * cut-overs that were interrupted between promoting vectors and switching the museum
+ */
+export async function resumeInterruptedJobs(): Promise<void> {
+  const jobs = await ReembedJob.find({ status: { $in: ['running', 'queued'] } }).sort({ createdAt: 1 });
+  for (const job of jobs) {
+    Logger.info(`Resuming re-embed job ${job._id} after restart (${job.processed}/${job.total})`);
+    enqueue(String(job._id));
+  }
+
+  const museums = await Museum.find({ embeddingCutover: { $exists: true } }).select('name embeddingCutover');
+  for (const museum of museums) {
+    Logger.info(`Finishing cut-over of museum ${museum.name} to ${museum.embeddingCutover} after restart`);
+    await promoteAndSwitch(museum, museum.embeddingCutover!);
+  }
+}
+
+/**
+ * Update pipeline that moves an artwork's staged vectors into its live fields and drops the staging
+ */
+function promoteStaged(model: string) {
+  const tag = { $literal: model };
+  const hasImage = { $gt: [{ $size: { $ifNull: ['$stagedEmbeddings.image', []] } }, 0] };
+  return [
+    {
+      $set: {
+        imageEmbedding: { $cond: [hasImage, '$stagedEmbeddings.image', '$imageEmbedding'] },
+        embeddingModel: { $cond: [hasImage, tag, '$embeddingModel'] },
+        referenceImages: {
+          $map: {
+            input: { $ifNull: ['$referenceImages', []] },
+            as: 'ref',
+            in: {
+              $let: {
+                vars: {
+                  staged: {
+                    $arrayElemAt: [{
+                      $filter: {
+                        input: { $ifNull: ['$stagedEmbeddings.references', []] },
+                        as: 'vector',
+                        cond: { $eq: ['$$vector.referenceId', '$$ref._id'] }
+                      }
+                    }, 0]
+                  }
+                },
+                in: {
+                  $cond: [
+                    { $eq: [{ $type: '$$staged' }, 'missing'] },
+                    '$$ref',
+                    { $mergeObjects: ['$$ref', { embedding: '$$staged.embedding', embeddingModel: tag }] }
+                  ]
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    { $unset: 'stagedEmbeddings' }
+  ];
+}
+
+/**
+ * Promote every staged vector in one server-side update, then switch the museum. Nothing
+ * is loaded into memory, and the live ANN index keeps answering from the old vectors
+ * until it is dropped after the switch. The museum is marked first, so a crash in
+ * between is finished by resumeInterruptedJobs instead of leaving it half cut over.
+ */
+async function promoteAndSwitch(museum: IMuseum, model: string): Promise<number> {
+  await Museum.updateOne({ _id: museum._id }, { $set: { embeddingCutover: model } });
+
+  const { modifiedCount } = await Artwork.updateMany(
+    { museumId: museum._id, 'stagedEmbeddings.model': model },
+    promoteStaged(model)
+  );
+
+  // Thresholds were tuned on the old model's score scale
+  await Museum.updateOne(
+    { _id: museum._id },
+    { $set: { embeddingModel: model }, $unset: { matching: 1, embeddingCutover: 1 } }
+  );
+
+  dropMuseumIndex(museum._id);
+  return modifiedCount;
+}
+
+/**
+ * Switch a museum to a new embedding model: staged vectors go live, the museum
+ * identifies with the new model from then on and its ANN index is rebuilt.
+ * @param force - Switch even if some artworks have no vectors for the new model; they stop being matchable until re-embedded
+ */
+export async function cutOverMuseum(museum: IMuseum, model: string, force: boolean = false): Promise<CutoverResult> {
+  // Streamed without the live vectors; only the staged ones are needed to check coverage
+  const cursor = Artwork.find({ museumId: museum._id })
+    .select('imageUrl embeddingModel referenceImages._id referenceImages.embeddingModel stagedEmbeddings')
+    .cursor();
+  let total = 0;
+  let missing = 0;
+  for await (const artwork of cursor) {
+    total += 1;
+    if (!isUpToDate(artwork, model) && !isFullyStaged(artwork, model)) missing += 1;
+  }
+
+  if (missing > 0 && !force) {
+    return { switched: false, model, total, promoted: 0, missing };
+  }
+
+  const promoted = await promoteAndSwitch(museum, model);
+
+  Logger.info(`Museum ${museum.name} cut over to ${model}: ${promoted} artworks promoted, ${missing} without vectors`);
+
+  return { switched: true, model, total, promoted, missing };
+}
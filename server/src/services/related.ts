@@ -0,0 +1,60 @@
+import { Artwork, ArtworkDocument } from '../models/Artwork';
+import { Museum } from '../models/Museum';
+import { artworkEmbeddings, findBestMatches } from './clip';
+import { searchMuseumIndex, embeddedArtworksQuery, museumEmbeddingModel } from './artwork-index';
+
+export interface RelatedArtwork {
+  artwork: ArtworkDocument;
+  score: number;
+  partner: boolean; // Comes from a partner museum rather than the artwork's own
+}
+
+// Visually nearest artworks in one museum: ANN index first, exact scan as fallback.
+// Museums on a different embedding model are only searched if the artwork has a view in that model.
+async function nearestInMuseum(museumId: unknown, artwork: ArtworkDocument, k: number): Promise<{ artworkId: string; score: number }[]> {
+  const model = await museumEmbeddingModel(museumId);
+  const [view] = artworkEmbeddings(artwork, model);
+  if (!view) return [];
+
+  const hits = await searchMuseumIndex(museumId, view.embedding, k, model);
+  if (hits) return hits;
+
+  const artworks = await Artwork.find(embeddedArtworksQuery(museumId, model)).select('imageEmbedding embeddingModel referenceImages');
+  return findBestMatches(view.embedding, artworks, k, model).map(m => ({ artworkId: String(m.artwork._id), score: m.score }));
+}
+
+/**
+ * Artworks that look most like this one, from its museum and optionally its partner museums
+ * @param limit - Maximum number of related artworks
+ * @param includePartners - Also search the museums listed in the museum's partnerMuseumIds
+ */
+export async function findRelatedArtworks(
+  artwork: ArtworkDocument,
+  { limit = 8, includePartners = false }: { limit?: number; includePartners?: boolean } = {}
+): Promise<RelatedArtwork[]> {
+  if (!artwork.museumId) return [];
+
+  const ownMuseumId = String(artwork.museumId);
+  const museumIds = [ownMuseumId];
+  if (includePartners) {
+    const museum = await Museum.findById(ownMuseumId).select('partnerMuseumIds');
+    museumIds.push(...(museum?.partnerMuseumIds || []).map(String));
+  }
+
+  // One extra per museum, since the artwork finds itself first in its own museum
+  const perMuseum = await Promise.all(museumIds.map(id => nearestInMuseum(id, artwork, limit + 1)));
+
+  const scored = perMuseum
+    .flatMap((hits, i) => hits.map(hit => ({ ...hit, partner: museumIds[i] !== ownMuseumId })))
+    .filter(hit => hit.artworkId !== String(artwork._id))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  const artworks = await Artwork.find({ _id: { $in: scored.map(hit => hit.artworkId) } })
+    .select('-imageEmbedding -referenceImages.embedding');
+  const byId = new Map(artworks.map(a => [String(a._id), a]));
+
+  return scored
+    .filter(hit => byId.has(hit.artworkId))
+    .map(hit => ({ artwork: byId.get(hit.artworkId)!, score: hit.score, partner: hit.partner }));
+}
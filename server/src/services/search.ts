@@ -0,0 +1,166 @@
+import { Artwork, ArtworkDocument } from '../models/Artwork';
+import { generateTextEmbedding, findBestMatches, embeddingModelOf } from './clip';
+import { searchMuseumIndex, museumEmbeddingModel } from './artwork-index';
+import Logger from '../utils/logger';
+
+// CLIP text-to-image cosine scores sit in a narrow band; map it onto 0-1 before blending
+const SEMANTIC_FLOOR = 0.18;
+const SEMANTIC_CEILING = 0.32;
+
+// Share of the blended score that comes from CLIP; the rest is keyword hits
+const SEMANTIC_WEIGHT = 0.6;
+
+// Keyword weight per matched field
+const FIELD_WEIGHTS = { title: 1, author: 0.8, style: 0.6 } as const;
+
+type KeywordField = keyof typeof FIELD_WEIGHTS;
+
+export interface SearchHit {
+  artwork: ArtworkDocument;
+  score: number; // Blended 0-1 relevance
+  semanticScore: number; // Raw CLIP text-to-image similarity
+  keywordScore: number; // 0-1 from title/author/style hits
+  matchedFields: KeywordField[];
+}
+
+export interface SearchOptions {
+  scope: Record<string, unknown>; // Mongo filter limiting which artworks are searched
+  museumId?: unknown; // Set when the scope is a single museum, so its ANN index can be used
+  limit?: number;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalizeSemantic(score: number): number {
+  return Math.min(1, Math.max(0, (score - SEMANTIC_FLOOR) / (SEMANTIC_CEILING - SEMANTIC_FLOOR)));
+}
+
+// Every model the artworks in scope have embeddings from, on the artwork or any reference view.
+// Embeddings stored before models were tagged count as the default model.
+async function scopeEmbeddingModels(scope: Record<string, unknown>): Promise<string[]> {
+  const [tagged, viewTagged, untagged, untaggedViews] = await Promise.all([
+    Artwork.distinct('embeddingModel', scope),
+    Artwork.distinct('referenceImages.embeddingModel', scope),
+    Artwork.exists({ ...scope, 'imageEmbedding.0': { $exists: true }, embeddingModel: null }),
+    Artwork.exists({ ...scope, referenceImages: { $elemMatch: { 'embedding.0': { $exists: true }, embeddingModel: null } } })
+  ]);
+  const models = [...tagged, ...viewTagged].filter(Boolean).map(m => embeddingModelOf(m as string));
+  if (untagged || untaggedViews) models.push(embeddingModelOf(undefined));
+  return Array.from(new Set(models));
+}
+
+// Best-view CLIP similarity for each artwork in scope
+async function semanticScores(query: string, options: SearchOptions, limit: number): Promise<Map<string, { artwork?: ArtworkDocument; score: number }>> {
+  const scores = new Map<string, { artwork?: ArtworkDocument; score: number }>();
+
+  // The query is embedded once per model in scope so it is only compared with like vectors
+  const models = options.museumId ? [await museumEmbeddingModel(options.museumId)] : await scopeEmbeddingModels(options.scope);
+  if (models.length === 0) return scores;
+
+  const artworks = options.museumId ? null : await Artwork.find(options.scope);
+
+  for (const model of models) {
+    let embedding: number[];
+    try {
+      embedding = await generateTextEmbedding(query, model);
+    } catch (error) {
+      // Keyword search still works without the text model
+      Logger.warn(`Semantic search unavailable for ${model}, using keywords only: ${error}`);
+      continue;
+    }
+
+    const hits = options.museumId ? await searchMuseumIndex(options.museumId, embedding, limit, model) : null;
+    if (hits) {
+      for (const hit of hits) {
+        scores.set(hit.artworkId, { score: hit.score });
+      }
+      continue;
+    }
+
+    for (const match of findBestMatches(embedding, artworks || await Artwork.find(options.scope), limit, model)) {
+      const id = String(match.artwork._id);
+      if ((scores.get(id)?.score ?? -1) < match.score) {
+        scores.set(id, { artwork: match.artwork, score: match.score });
+      }
+    }
+  }
+  return scores;
+}
+
+// Keyword hits on title, author and style; every query word has to appear somewhere
+async function keywordScores(query: string, options: SearchOptions, limit: number): Promise<Map<string, { artwork: ArtworkDocument; score: number; fields: KeywordField[] }>> {
+  const scores = new Map<string, { artwork: ArtworkDocument; score: number; fields: KeywordField[] }>();
+  const words = query.split(/\s+/).filter(Boolean).map(escapeRegex);
+  if (words.length === 0) return scores;
+
+  const fields = Object.keys(FIELD_WEIGHTS) as KeywordField[];
+  const artworks = await Artwork.find({
+    ...options.scope,
+    $and: words.map(word => ({ $or: fields.map(field => ({ [field]: { $regex: word, $options: 'i' } })) }))
+  })
+    .select('-imageEmbedding -referenceImages.embedding')
+    .limit(limit);
+
+  const phrase = new RegExp(escapeRegex(query.trim()), 'i');
+  for (const artwork of artworks) {
+    const matched = fields.filter(field => words.some(word => new RegExp(word, 'i').test(artwork[field] || '')));
+    // Best field counts fully, the phrase appearing verbatim tops it up
+    let score = Math.max(...matched.map(field => FIELD_WEIGHTS[field]));
+    if (matched.some(field => phrase.test(artwork[field] || ''))) score = Math.min(1, score + 0.2);
+    scores.set(String(artwork._id), { artwork, score, fields: matched });
+  }
+  return scores;
+}
+
+/**
+ * Search artworks by free text, blending CLIP text-to-image similarity with keyword hits
+ * @param query - Free-text query, e.g. "stormy sea with a small boat" or "Monet"
+ * @returns Hits sorted by blended score, best first
+ */
+export async function searchArtworks(query: string, options: SearchOptions): Promise<SearchHit[]> {
+  const limit = options.limit || 20;
+  const started = Date.now();
+
+  const [semantic, keyword] = await Promise.all([
+    semanticScores(query, options, limit),
+    keywordScores(query, options, limit)
+  ]);
+
+  // Load artworks that only the ANN index returned
+  const missing = Array.from(semantic.entries())
+    .filter(([id, entry]) => !entry.artwork && !keyword.has(id))
+    .map(([id]) => id);
+  const loaded = missing.length > 0
+    ? await Artwork.find({ ...options.scope, _id: { $in: missing } }).select('-imageEmbedding -referenceImages.embedding')
+    : [];
+  const byId = new Map(loaded.map(a => [String(a._id), a]));
+
+  const hits: SearchHit[] = [];
+  for (const id of new Set([...semantic.keys(), ...keyword.keys()])) {
+    const artwork = keyword.get(id)?.artwork || semantic.get(id)?.artwork || byId.get(id);
+    if (!artwork) continue;
+
+    const semanticScore = semantic.get(id)?.score ?? 0;
+    const keywordScore = keyword.get(id)?.score ?? 0;
+    const relevance = normalizeSemantic(semanticScore);
+
+    // Drop semantic-only results that are no closer than an unrelated image
+    if (keywordScore === 0 && relevance === 0) continue;
+
+    hits.push({
+      artwork,
+      score: SEMANTIC_WEIGHT * relevance + (1 - SEMANTIC_WEIGHT) * keywordScore,
+      semanticScore,
+      keywordScore,
+      matchedFields: keyword.get(id)?.fields || []
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+
+  Logger.info(`Search "${query}": ${semantic.size} semantic, ${keyword.size} keyword, ${hits.length} results in ${Date.now() - started}ms`);
+
+  return hits.slice(0, limit);
+}
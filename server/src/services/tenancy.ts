@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import { IUser } from '../models/User';
+
+/**
+ * Super-admins operate across the whole deployment; every other role is
+ * bound to the museums listed on their account.
+ */
+export function hasGlobalAccess(user: IUser): boolean {
+  return user.role === 'super-admin';
+}
+
+export function accessibleMuseumIds(user: IUser): mongoose.Types.ObjectId[] {
+  return user.museumIds || [];
+}
+
+export function canAccessMuseum(user: IUser, museumId: unknown): boolean {
+  if (hasGlobalAccess(user)) return true;
+  if (!museumId) return false;
+
+  const target = String(museumId);
+  return accessibleMuseumIds(user).some(id => String(id) === target);
+}
+
+/**
+ * Mongo filter restricting Museum queries to the caller's museums
+ */
+export function museumScope(user: IUser): Record<string, unknown> {
+  if (hasGlobalAccess(user)) return {};
+  return { _id: { $in: accessibleMuseumIds(user) } };
+}
+
+/**
+ * Mongo filter restricting Artwork queries to the caller's museums
+ */
+export function artworkScope(user: IUser): Record<string, unknown> {
+  if (hasGlobalAccess(user)) return {};
+  return { museumId: { $in: accessibleMuseumIds(user) } };
+}
@@ -0,0 +1,131 @@
+import OpenAI from 'openai';
+import axios from 'axios';
+import { LanguageCode, languageName } from './languages';
+
+/**
+ * Machine translation backends. Each museum picks one (Museum.translationProvider);
+ * a provider either returns a translation or throws, it never invents a fallback.
+ */
+
+export interface ProviderTranslation {
+  text: string;
+  model?: string; // Model or engine version that produced the text, recorded with it
+}
+
+export interface TranslationProvider {
+  key: string;
+  label: string;
+  // Why the provider cannot be used right now (e.g. a missing API key), or null when it can
+  unavailableReason(): string | null;
+  translate(text: string, sourceLanguage: LanguageCode, targetLanguage: LanguageCode): Promise<ProviderTranslation>;
+}
+
+const providers = new Map<string, TranslationProvider>();
+
+export function registerTranslationProvider(provider: TranslationProvider) {
+  providers.set(provider.key, provider);
+}
+
+export function translationProviders(): TranslationProvider[] {
+  return [...providers.values()];
+}
+
+export function translationProvider(key: string): TranslationProvider {
+  const provider = providers.get(key);
+  if (!provider) throw new Error(`Unknown translation provider: ${key}`);
+  return provider;
+}
+
+/**
+ * Provider for museums that have not picked one: TRANSLATION_PROVIDER, else OpenAI when
+ * a key is set, else the free Google endpoint (what the app used before providers existed)
+ */
+export function defaultTranslationProvider(): string {
+  const configured = process.env.TRANSLATION_PROVIDER;
+  if (configured && providers.has(configured)) return configured;
+  return process.env.OPENAI_API_KEY ? 'openai' : 'google';
+}
+
+export function translationProviderOf(key?: string | null): string {
+  return key && providers.has(key) ? key : defaultTranslationProvider();
+}
+
+// OpenAI chat completions
+registerTranslationProvider({
+  key: 'openai',
+  label: 'OpenAI',
+  unavailableReason: () => (process.env.OPENAI_API_KEY ? null : 'OPENAI_API_KEY not set'),
+  async translate(text, sourceLanguage, targetLanguage) {
+    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const model = process.env.OPENAI_TRANSLATION_MODEL || 'gpt-3.5-turbo';
+    const response = await client.chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: `You are a professional museum translator. Translate text from ${languageName(sourceLanguage)} to ${languageName(targetLanguage)} only. Keep the meaning and professional tone. Leave placeholders such as [[0]] exactly as they are. Return only the translation, no other text.` },
+        { role: 'user', content: text }
+      ],
+      max_tokens: 500,
+      temperature: 0.1, // Lower temperature for more consistent translations
+    });
+
+    const translation = response.choices[0]?.message?.content?.trim();
+    if (!translation) throw new Error('OpenAI returned an empty translation');
+    return { text: translation, model: response.model || model };
+  }
+});
+
+// The unofficial translate.googleapis.com endpoint (free, no API key, no guarantees)
+registerTranslationProvider({
+  key: 'google',
+  label: 'Google Translate (unofficial endpoint)',
+  unavailableReason: () => null,
+  async translate(text, sourceLanguage, targetLanguage) {
+    const response = await axios.get('https://translate.googleapis.com/translate_a/single', {
+      params: { client: 'gtx', sl: sourceLanguage, tl: targetLanguage, dt: 't', q: text },
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+      },
+      timeout: 15000
+    });
+
+    // [[["translated sentence", "source sentence", ...], ...], ...]
+    const sentences = Array.isArray(response.data?.[0]) ? response.data[0] : [];
+    const translation = sentences.map((sentence: unknown[]) => sentence?.[0] || '').join('').trim();
+    if (!translation) throw new Error('Google Translate returned an empty translation');
+    return { text: translation, model: 'gtx' };
+  }
+});
+
+// A LibreTranslate-compatible server, normally self-hosted (docker run -p 5000:5000 libretranslate/libretranslate)
+registerTranslationProvider({
+  key: 'libretranslate',
+  label: 'LibreTranslate (self-hosted)',
+  unavailableReason: () => null,
+  async translate(text, sourceLanguage, targetLanguage) {
+    const baseUrl = (process.env.LIBRETRANSLATE_URL || 'http://localhost:5000').replace(/\/+$/, '');
+    const response = await axios.post(`${baseUrl}/translate`, {
+      q: text,
+      source: sourceLanguage,
+      target: targetLanguage,
+      format: 'text',
+      ...(process.env.LIBRETRANSLATE_API_KEY && { api_key: process.env.LIBRETRANSLATE_API_KEY })
+    }, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: 30000
+    });
+
+    const translation = response.data?.translatedText?.trim();
+    if (!translation) throw new Error(`LibreTranslate at ${baseUrl} returned an empty translation`);
+    return { text: translation, model: `libretranslate@${baseUrl}` };
+  }
+});
+
+// Deterministic and offline, for tests and demos; the output is obviously not a real translation
+registerTranslationProvider({
+  key: 'fake',
+  label: 'Fake (offline, for testing)',
+  unavailableReason: () => null,
+  async translate(text, sourceLanguage, targetLanguage) {
+    return { text: `[${sourceLanguage}→${targetLanguage}] ${text}`, model: 'fake-1' };
+  }
+});
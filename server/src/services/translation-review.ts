@@ -0,0 +1,60 @@
+import { ArtworkDocument, LocalizedStrings, TranslationRecord, TranslationStatus } from '../models/Artwork';
+import { IMuseum } from '../models/Museum';
+import { DEFAULT_LANGUAGES, LanguageCode } from './languages';
+
+/**
+ * Review state of an artwork's descriptions. The source language holds text staff
+ * wrote (or recognition produced); every other language is a translation of it
+ * that is machine-made until a reviewer edits or approves it.
+ */
+
+// What visitors and reviewers are told about a description
+export type DescriptionStatus = 'source' | TranslationStatus;
+
+type ReviewedArtwork = Pick<ArtworkDocument, 'description' | 'descriptions' | 'translations'>;
+
+/**
+ * The language the artwork's other descriptions were translated from
+ */
+export function descriptionSourceLanguage(artwork: ReviewedArtwork, languages: LanguageCode[] = DEFAULT_LANGUAGES): LanguageCode {
+  const fromRecords = Object.values(artwork.translations || {}).find(record => record?.sourceLanguage)?.sourceLanguage;
+  if (fromRecords) return fromRecords;
+  return languages.find(code => artwork.descriptions?.[code]) || Object.keys(artwork.descriptions || {})[0] || languages[0];
+}
+
+export function descriptionStatus(artwork: ReviewedArtwork, language: LanguageCode): DescriptionStatus {
+  const record = artwork.translations?.[language];
+  return record ? record.status || 'machine' : 'source';
+}
+
+// Reviewed and approved text is a person's work: jobs keep it rather than re-translating over it
+export function isHumanReviewed(record?: TranslationRecord | null): boolean {
+  return record?.status === 'reviewed' || record?.status === 'approved';
+}
+
+/**
+ * Languages whose description visitors may see. Museums that publish approved
+ * translations only drop machine, reviewed and stale ones, so visitors fall back
+ * to the source text instead.
+ */
+export function publishedLanguages(
+  artwork: ReviewedArtwork,
+  museum?: Pick<IMuseum, 'approvedTranslationsOnly'> | null
+): LanguageCode[] {
+  return Object.keys(artwork.descriptions || {}).filter(language => {
+    if (!artwork.descriptions![language]) return false;
+    if (!museum?.approvedTranslationsOnly) return true;
+    const record = artwork.translations?.[language];
+    return !record || (record.status === 'approved' && !record.stale);
+  });
+}
+
+// Keep only the published languages of a per-language map (descriptions, audio)
+export function publishedValues(
+  values: LocalizedStrings | undefined,
+  artwork: ReviewedArtwork,
+  museum?: Pick<IMuseum, 'approvedTranslationsOnly'> | null
+): LocalizedStrings {
+  const published = publishedLanguages(artwork, museum);
+  return Object.fromEntries(Object.entries(values || {}).filter(([language]) => published.includes(language)));
+}
@@ -0,0 +1,216 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import { spawn, spawnSync } from 'child_process';
+import { LanguageCode } from './languages';
+import { writeWav } from './wav';
+import { CharacterAlignment } from './captions';
+
+/**
+ * Text-to-speech backends for narration. Each museum picks one (Museum.ttsProvider),
+ * optionally overridden per language with a voice (Museum.narrationVoices); a provider
+ * either returns audio or throws.
+ */
+
+export type AudioFormat = 'mp3' | 'wav';
+
+export function audioMimeType(format?: string): string {
+  return format === 'wav' ? 'audio/wav' : 'audio/mpeg';
+}
+
+export interface ProviderAudio {
+  audio: Buffer;
+  format: AudioFormat;
+  alignment?: CharacterAlignment; // When the provider reports when each character is spoken
+}
+
+export interface TtsProvider {
+  key: string;
+  label: string;
+  // Why the provider cannot be used right now (e.g. a missing API key or binary), or null when it can
+  unavailableReason(): string | null;
+  // Voice used for a language when the museum does not choose one
+  defaultVoice(language: LanguageCode): string;
+  // Longest text one request may carry; longer narrations are split into chunks
+  maxCharacters: number;
+  // Formats it can produce, preferred first; all can produce WAV, which chunks are stitched in
+  formats: AudioFormat[];
+  // Whether it reads SSML <phoneme> tags (services/pronunciation); otherwise aliases are used
+  supportsPhonemes(): boolean;
+  synthesize(text: string, language: LanguageCode, voice: string, format: AudioFormat): Promise<ProviderAudio>;
+}
+
+const providers = new Map<string, TtsProvider>();
+
+export function registerTtsProvider(provider: TtsProvider) {
+  providers.set(provider.key, provider);
+}
+
+export function ttsProviders(): TtsProvider[] {
+  return [...providers.values()];
+}
+
+export function ttsProvider(key: string): TtsProvider {
+  const provider = providers.get(key);
+  if (!provider) throw new Error(`Unknown TTS provider: ${key}`);
+  return provider;
+}
+
+/**
+ * Provider for museums that have not picked one: TTS_PROVIDER, else ElevenLabs
+ * (the only narration backend before providers existed)
+ */
+export function defaultTtsProvider(): string {
+  const configured = process.env.TTS_PROVIDER;
+  return configured && providers.has(configured) ? configured : 'elevenlabs';
+}
+
+export function ttsProviderOf(key?: string | null): string {
+  return key && providers.has(key) ? key : defaultTtsProvider();
+}
+
+// ENV_NAME_<LANG>, e.g. ELEVENLABS_VOICE_PT_BR for pt-BR
+function languageEnv(prefix: string, language: LanguageCode): string | undefined {
+  return process.env[`${prefix}_${language.toUpperCase().replace(/-/g, '_')}`];
+}
+
+// Whether a local binary can be started; checked once per command
+const commandChecks = new Map<string, boolean>();
+
+function commandAvailable(command: string): boolean {
+  if (!commandChecks.has(command)) {
+    const result = spawnSync(command, ['--help'], { stdio: 'ignore', timeout: 10000 });
+    commandChecks.set(command, !result.error);
+  }
+  return commandChecks.get(command)!;
+}
+
+/**
+ * Run a local engine that reads text on stdin and writes a WAV file, and return the audio
+ */
+async function synthesizeWithCommand(command: string, args: (outPath: string) => string[], text: string): Promise<ProviderAudio> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tts-'));
+  const outPath = path.join(dir, 'narration.wav');
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(command, args(outPath), { stdio: ['pipe', 'ignore', 'pipe'] });
+      let stderr = '';
+      const timer = setTimeout(() => child.kill('SIGKILL'), 120000);
+      child.stderr.on('data', chunk => { stderr += chunk; });
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) resolve();
+        else reject(new Error(`${command} exited with ${signal || code}: ${stderr.trim().slice(0, 500)}`));
+      });
+      child.stdin.end(text);
+    });
+
+    const audio = fs.readFileSync(outPath);
+    if (audio.length === 0) throw new Error(`${command} produced no audio`);
+    return { audio, format: 'wav' };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// Built-in ElevenLabs voices per language
+const ELEVENLABS_VOICES: Record<LanguageCode, string> = {
+  en: '21m00Tcm4TlvDq8ikWAM', // Rachel (English)
+  fr: 'ThT5KcBeYPX3keUQqHPh', // Dorothy (French)
+  es: 'IKne3meq5aSn9XLyUdCD', // Domi (Spanish)
+};
+
+// ElevenLabs models that read <phoneme> tags (English only)
+const ELEVENLABS_PHONEME_MODELS = ['eleven_flash_v2', 'eleven_turbo_v2', 'eleven_monolingual_v1'];
+
+// ElevenLabs, by default its multilingual model (ELEVENLABS_MODEL)
+registerTtsProvider({
+  key: 'elevenlabs',
+  label: 'ElevenLabs',
+  maxCharacters: 5000,
+  formats: ['mp3', 'wav'],
+  supportsPhonemes: () => ELEVENLABS_PHONEME_MODELS.includes(process.env.ELEVENLABS_MODEL || ''),
+  unavailableReason: () => (process.env.ELEVENLABS_API_KEY ? null : 'ELEVENLABS_API_KEY not set'),
+  // ELEVENLABS_VOICE_<LANG>, then the built-in voice, then the English one, which the multilingual model can speak any language with
+  defaultVoice: language => languageEnv('ELEVENLABS_VOICE', language)
+    || ELEVENLABS_VOICES[language] || ELEVENLABS_VOICES[language.split('-')[0]] || ELEVENLABS_VOICES.en,
+  // The with-timestamps endpoint returns the audio as base64 along with per-character timings for captions
+  async synthesize(text, language, voice, format) {
+    const response = await axios.post(
+      `https://api.elevenlabs.io/v1/text-to-speech/${encodeURIComponent(voice)}/with-timestamps`,
+      { text, model_id: process.env.ELEVENLABS_MODEL || 'eleven_multilingual_v2' },
+      {
+        // WAV comes back as raw 16-bit mono PCM
+        params: { output_format: format === 'wav' ? 'pcm_24000' : 'mp3_44100_128' },
+        headers: { 'xi-api-key': process.env.ELEVENLABS_API_KEY },
+        timeout: 120000
+      }
+    );
+    const audio = Buffer.from(response.data.audio_base64, 'base64');
+    const timings = response.data.alignment;
+    const alignment = timings && {
+      characters: timings.characters,
+      startTimes: timings.character_start_times_seconds,
+      endTimes: timings.character_end_times_seconds
+    };
+    return format === 'wav'
+      ? { audio: writeWav({ sampleRate: 24000, channels: 1, bitsPerSample: 16 }, audio), format, alignment }
+      : { audio, format: 'mp3', alignment };
+  }
+});
+
+// eSpeak NG, installed locally (apt install espeak-ng); robotic but offline, fast and deterministic
+registerTtsProvider({
+  key: 'espeak',
+  label: 'eSpeak NG (local, offline)',
+  maxCharacters: 2000,
+  formats: ['wav'],
+  supportsPhonemes: () => false,
+  unavailableReason: () => {
+    const command = process.env.ESPEAK_PATH || 'espeak-ng';
+    return commandAvailable(command) ? null : `${command} not found (install espeak-ng or set ESPEAK_PATH)`;
+  },
+  // eSpeak voices are named after languages (en, fr, pt-br)
+  defaultVoice: language => language.toLowerCase(),
+  async synthesize(text, language, voice) {
+    return synthesizeWithCommand(process.env.ESPEAK_PATH || 'espeak-ng', outPath => ['-v', voice, '-w', outPath, '--stdin'], text);
+  }
+});
+
+// Piper voices per language (https://github.com/rhasspy/piper/blob/master/VOICES.md)
+const PIPER_VOICES: Record<LanguageCode, string> = {
+  en: 'en_US-lessac-medium',
+  fr: 'fr_FR-siwis-medium',
+  es: 'es_ES-davefx-medium',
+  de: 'de_DE-thorsten-medium',
+  it: 'it_IT-riccardo-x_low',
+  nl: 'nl_NL-mls-medium',
+  pt: 'pt_BR-faber-medium'
+};
+
+// Piper neural TTS, installed locally with its .onnx voice models in PIPER_VOICES_DIR
+registerTtsProvider({
+  key: 'piper',
+  label: 'Piper (local, offline)',
+  maxCharacters: 2000,
+  formats: ['wav'],
+  supportsPhonemes: () => false,
+  unavailableReason: () => {
+    const command = process.env.PIPER_PATH || 'piper';
+    return commandAvailable(command) ? null : `${command} not found (install piper or set PIPER_PATH)`;
+  },
+  // PIPER_VOICE_<LANG>, then the built-in voice for the language
+  defaultVoice: language => languageEnv('PIPER_VOICE', language)
+    || PIPER_VOICES[language] || PIPER_VOICES[language.split('-')[0]] || PIPER_VOICES.en,
+  async synthesize(text, language, voice) {
+    const voicesDir = path.resolve(process.env.PIPER_VOICES_DIR || 'piper-voices');
+    const model = path.join(voicesDir, `${path.basename(voice)}.onnx`);
+    if (!fs.existsSync(model)) throw new Error(`Piper voice ${voice} not found in ${voicesDir}`);
+    return synthesizeWithCommand(process.env.PIPER_PATH || 'piper', outPath => ['--model', model, '--output_file', outPath], text);
+  }
+});
@@ -1,97 +1,313 @@
-import fs from 'fs';
-import path from 'path';
-import dotenv from 'dotenv';
-import axios from 'axios';
-import Logger from '../utils/logger';
+import { AudioRecord } from '../models/Artwork';
+import { IMuseum, NarrationVoice, PronunciationEntry } from '../models/Museum';
+import { LanguageCode, normalizeLanguageCode } from './languages';
+import { AudioFormat, ProviderAudio, ttsProvider, ttsProviderOf, ttsProviders } from './tts-providers';
+import { cachedCaptions, cachedNarration, narrationHash, saveCaptions, saveNarration } from './audio-cache';
+import { applyPronunciations } from './pronunciation';
+import { CaptionTiming, CharacterAlignment, ChunkSentence, TimedSentence, captionTimingOf, chunkTimings, toWebVtt } from './captions';
+import { stitchWav } from './wav';
 
 export interface TtsOptions {
   text: string;
-  voiceId?: string; // For ElevenLabs
-  language?: 'en' | 'fr' | 'es'; // Supported languages
+  language?: LanguageCode;
+  provider?: string; // TTS provider key; unset means the default
+  voice?: string; // Unset means the provider's default voice for the language
+  pronunciations?: PronunciationEntry[]; // The museum's lexicon
 }
 
-export interface MultiLanguageAudio {
-  en?: string;
-  fr?: string;
-  es?: string;
+// One request to the provider: its spoken text (pronunciations applied, within the provider's limit) and the sentences in it
+export interface NarrationChunk {
+  text: string;
+  sentences: ChunkSentence[];
+}
+
+// What will be sent to the provider, and the hash that names the resulting file
+export interface PreparedNarration {
+  provider: string;
+  voice: string;
+  language: LanguageCode;
+  chunks: NarrationChunk[];
+  hash: string;
+}
+
+// Audio URL per language code
+export type MultiLanguageAudio = Partial<Record<LanguageCode, string>>;
+
+export interface Narration {
+  url: string;
+  record: AudioRecord;
+  cached: boolean; // An identical narration already existed and was reused
 }
 
-// Voice IDs for different languages
-const VOICE_IDS = {
-  en: '21m00Tcm4TlvDq8ikWAM', // Rachel (English)
-  fr: 'ThT5KcBeYPX3keUQqHPh', // Dorothy (French)
-  es: 'IKne3meq5aSn9XLyUdCD', // Domi (Spanish)
+/**
+ * Provider and voice a museum narrates a language with: the language's own setting,
+ * then the museum's provider, then the server default
+ */
+export function narrationVoice(
+  museum: Pick<IMuseum, 'ttsProvider' | 'narrationVoices'> | null | undefined,
+  language: LanguageCode
+): { provider: string; voice: string } {
+  const configured = museum?.narrationVoices?.[language];
+  const provider = ttsProviderOf(configured?.provider || museum?.ttsProvider);
+  // A voice belongs to a provider; it only applies to the one it was chosen for
+  const voice = configured?.voice && (!configured.provider || configured.provider === provider)
+    ? configured.voice
+    : ttsProvider(provider).defaultVoice(language);
+  return { provider, voice };
+}
+
+/**
+ * Validate per-language narration settings from a request. Returns the cleaned
+ * map (empty entries dropped), or an error message.
+ */
+export function parseNarrationVoices(value: unknown): { voices?: Record<LanguageCode, NarrationVoice>; error?: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'narrationVoices must map language codes to { provider, voice }' };
+  }
+
+  const voices: Record<LanguageCode, NarrationVoice> = {};
+  for (const [code, raw] of Object.entries(value)) {
+    const language = normalizeLanguageCode(code);
+    if (!language) return { error: `"${code}" is not a valid language code` };
+    if (typeof raw !== 'object' || raw === null) return { error: `Narration settings for ${language} must be { provider, voice }` };
+
+    const { provider, voice } = raw as Record<string, unknown>;
+    if (provider !== undefined && provider !== null && provider !== '' && (typeof provider !== 'string' || !ttsProviders().some(p => p.key === provider))) {
+      return { error: `The ${language} provider must be one of: ${ttsProviders().map(p => p.key).join(', ')}` };
+    }
+    if (voice !== undefined && voice !== null && typeof voice !== 'string') {
+      return { error: `The ${language} voice must be text` };
+    }
+
+    const entry: NarrationVoice = {
+      ...(typeof provider === 'string' && provider && { provider }),
+      ...(typeof voice === 'string' && voice.trim() && { voice: voice.trim() })
+    };
+    if (entry.provider || entry.voice) voices[language] = entry;
+  }
+  return { voices };
+}
+
+// MPEG audio bitrates (kbps) by "<1 for MPEG-1, 2 for MPEG-2/2.5>-<layer>", and sample rates by version bits
+const MP3_BITRATES: Record<string, number[]> = {
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000] // MPEG-2.5
 };
 
-export async function synthesizeWithElevenLabs(options: TtsOptions): Promise<string | null> {
-  // Force-load env from the server/.env file to avoid stale User/Machine vars
-  dotenv.config({ path: path.resolve(__dirname, '..', '..', '.env'), override: true });
-  const apiKey = process.env.ELEVENLABS_API_KEY;
-  if (!apiKey) return null;
+// Duration of an MP3 by walking its frame headers (works for constant and variable bitrate)
+function mp3Duration(audio: Buffer): number {
+  let offset = 0;
+  // Skip an ID3v2 tag; its size is stored as four 7-bit bytes
+  if (audio.length > 10 && audio.toString('latin1', 0, 3) === 'ID3') {
+    offset = 10 + ((audio[6] & 0x7f) << 21 | (audio[7] & 0x7f) << 14 | (audio[8] & 0x7f) << 7 | (audio[9] & 0x7f));
+  }
 
-  const language = options.language || 'en';
-  const voiceId = options.voiceId || VOICE_IDS[language];
-  const url = `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`;
-  const outName = `${Date.now()}_narration_${language}.mp3`;
-  // Resolve uploads directory relative to compiled file location to avoid cwd issues
-  const uploadsDir = path.resolve(__dirname, '..', '..', 'uploads');
-  const outPath = path.join(uploadsDir, outName);
-
-  try {
-    // Debug: log masked key and current quota
-    const maskedKey = `${apiKey.slice(0, 6)}...${apiKey.slice(-4)}`;
-    try {
-      const quotaRes = await axios.get('https://api.elevenlabs.io/v1/user', {
-        headers: { 'xi-api-key': apiKey }
-      });
-      const sub = quotaRes.data?.subscription || {};
-      const remaining = typeof sub.character_limit === 'number' && typeof sub.character_count === 'number'
-        ? sub.character_limit - sub.character_count
-        : undefined;
-      Logger.info(`ElevenLabs key ${maskedKey} | remaining=${remaining} of ${sub.character_limit}`);
-    } catch (quotaErr: any) {
-      Logger.warn(`Unable to read ElevenLabs quota: ${quotaErr?.response?.status} ${quotaErr?.response?.data?.toString?.() || quotaErr?.message}`);
+  let seconds = 0;
+  while (offset + 4 <= audio.length) {
+    if (audio[offset] !== 0xff || (audio[offset + 1] & 0xe0) !== 0xe0) {
+      offset++;
+      continue;
+    }
+    const version = (audio[offset + 1] >> 3) & 3;
+    const layer = 4 - ((audio[offset + 1] >> 1) & 3);
+    const bitrate = MP3_BITRATES[`${version === 3 ? 1 : 2}-${layer}`]?.[audio[offset + 2] >> 4];
+    const sampleRate = MP3_SAMPLE_RATES[version]?.[(audio[offset + 2] >> 2) & 3];
+    if (!bitrate || !sampleRate) {
+      offset++;
+      continue;
     }
+    const padding = (audio[offset + 2] >> 1) & 1;
+    const samples = layer === 1 ? 384 : layer === 3 && version !== 3 ? 576 : 1152;
+    const frameLength = layer === 1
+      ? (Math.floor(12 * bitrate * 1000 / sampleRate) + padding) * 4
+      : Math.floor(samples / 8 * bitrate * 1000 / sampleRate) + padding;
+    seconds += samples / sampleRate;
+    offset += frameLength;
+  }
+  return seconds;
+}
 
-    // Ensure uploads directory exists
-    fs.mkdirSync(uploadsDir, { recursive: true });
-
-    const response = await axios.post(
-      url,
-      { text: options.text, model_id: 'eleven_multilingual_v2' },
-      { responseType: 'arraybuffer', headers: { 'xi-api-key': apiKey } }
-    );
-
-    fs.writeFileSync(outPath, Buffer.from(response.data));
-    return `/uploads/${outName}`;
-  } catch (error: any) {
-    const status = error?.response?.status;
-    const data = error?.response?.data?.toString?.() || error?.message;
-    Logger.error(`TTS error for ${language}: status=${status} details=${data}`);
-    return null;
+// Duration of a PCM WAV from its fmt byte rate and data chunk size
+function wavDuration(audio: Buffer): number {
+  let byteRate = 0;
+  let offset = 12; // After "RIFF", size, "WAVE"
+  while (offset + 8 <= audio.length) {
+    const chunk = audio.toString('latin1', offset, offset + 4);
+    const size = audio.readUInt32LE(offset + 4);
+    if (chunk === 'fmt ') byteRate = audio.readUInt32LE(offset + 16);
+    if (chunk === 'data') {
+      // Engines that stream to stdout leave the size unset; the data then runs to the end
+      const dataBytes = Math.min(size, audio.length - offset - 8);
+      return byteRate ? dataBytes / byteRate : 0;
+    }
+    offset += 8 + size + (size % 2);
   }
+  return 0;
+}
+
+export function audioDuration(audio: Buffer, format: AudioFormat): number {
+  const seconds = format === 'wav' ? wavDuration(audio) : mp3Duration(audio);
+  return Math.round(seconds * 100) / 100;
 }
 
-export async function generateMultiLanguageAudio(descriptions: {
-  en?: string;
-  fr?: string;
-  es?: string;
-}): Promise<MultiLanguageAudio> {
-  const audioUrls: MultiLanguageAudio = {};
-
-  for (const [lang, text] of Object.entries(descriptions)) {
-    if (text && (lang === 'en' || lang === 'fr' || lang === 'es')) {
-      const audioUrl = await synthesizeWithElevenLabs({
-        text,
-        language: lang as 'en' | 'fr' | 'es'
-      });
-      if (audioUrl) {
-        audioUrls[lang as keyof MultiLanguageAudio] = audioUrl;
+// A sentence with its closing punctuation, quotes and trailing space (Latin and CJK full stops)
+const SENTENCE = /[^.!?。！？]+(?:[.!?。！？]+["'»”’)\]]*\s*|$)/g;
+
+/**
+ * Split text into chunks of at most maxCharacters, on sentence boundaries where
+ * possible, then on commas or spaces for sentences that are themselves too long.
+ * Lengths are those of the text as spoken (see prepareNarration), but cuts are made
+ * in the written text, so whatever speak() inserts stays whole.
+ * Each chunk is returned as its pieces (sentences or parts of one), which caption cues follow.
+ */
+export function splitForSpeech(text: string, maxCharacters: number, speak: (piece: string) => string = piece => piece): string[][] {
+  const pieces: string[] = [];
+  const spokenLengths: number[] = [];
+  for (const segment of text.trim().match(SENTENCE) || []) {
+    let sentence = segment;
+    let limit = maxCharacters;
+    while (speak(sentence).length > maxCharacters) {
+      const window = sentence.slice(0, limit);
+      const cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '));
+      const at = cut > limit / 2 ? cut + 1 : window.lastIndexOf(' ') > 0 ? window.lastIndexOf(' ') : limit;
+      const piece = sentence.slice(0, at);
+      // Aliases and phoneme tags lengthen the piece; cut earlier until it fits
+      if (speak(piece).length > maxCharacters && at > 1) {
+        limit = at - 1;
+        continue;
       }
+      pieces.push(piece);
+      spokenLengths.push(speak(piece).length);
+      sentence = sentence.slice(at);
+      limit = maxCharacters;
     }
+    pieces.push(sentence);
+    spokenLengths.push(speak(sentence).length);
   }
 
-  return audioUrls;
+  const chunks: string[][] = [];
+  const lengths: number[] = [];
+  pieces.forEach((piece, i) => {
+    const last = chunks.length - 1;
+    if (last >= 0 && lengths[last] + spokenLengths[i] <= maxCharacters) {
+      chunks[last].push(piece);
+      lengths[last] += spokenLengths[i];
+    } else {
+      chunks.push([piece]);
+      lengths.push(spokenLengths[i]);
+    }
+  });
+  return chunks.filter(chunk => chunk.join('').trim());
+}
+
+/**
+ * Resolve provider and voice, chunk the text and apply the pronunciation lexicon.
+ * Chunks are sized by their spoken form, so phoneme tags and aliases never push one
+ * over the provider's limit, but cut in the written text so a tag is never cut in two.
+ * Each sentence keeps its written text for captions and where its spoken form lies in the chunk.
+ */
+export function prepareNarration(options: TtsOptions): PreparedNarration {
+  const language = options.language || 'en';
+  const provider = ttsProvider(ttsProviderOf(options.provider));
+  const voice = options.voice || provider.defaultVoice(language);
+  const speak = (piece: string) => applyPronunciations(piece, options.pronunciations, language, provider.supportsPhonemes());
+  const chunks = splitForSpeech(options.text, provider.maxCharacters, speak).map(pieces => {
+    let spoken = '';
+    const sentences: ChunkSentence[] = [];
+    for (const piece of pieces) {
+      const said = speak(piece);
+      const from = spoken.length + said.length - said.trimStart().length;
+      spoken += said;
+      if (piece.trim()) sentences.push({ text: piece.trim(), from, to: spoken.trimEnd().length });
+    }
+    // Offsets are into the trimmed text that is actually sent
+    const lead = spoken.length - spoken.trimStart().length;
+    return {
+      text: spoken.trim(),
+      sentences: sentences.map(sentence => ({ ...sentence, from: sentence.from - lead, to: sentence.to - lead }))
+    };
+  });
+  return {
+    provider: provider.key,
+    voice,
+    language,
+    chunks,
+    hash: narrationHash({ text: chunks.map(chunk => chunk.text).join('\n'), language, provider: provider.key, voice })
+  };
 }
 
+/**
+ * Narrate text with a TTS provider and save it to uploads under a hash of its inputs,
+ * reusing the file when the same narration was made before. Text over the provider's
+ * limit is synthesized in chunks and stitched into one WAV at even loudness.
+ * A sentence-level WebVTT transcript is saved alongside (services/captions).
+ * Throws when the provider is unavailable or fails; callers decide whether to retry.
+ */
+export async function synthesizeNarration(options: TtsOptions): Promise<Narration> {
+  const { provider: key, voice, language, chunks, hash } = prepareNarration(options);
+  const provider = ttsProvider(key);
+
+  const record = (audio: Buffer, format: AudioFormat, captionsUrl: string, captionTiming: CaptionTiming): AudioRecord => ({
+    provider: provider.key,
+    voice,
+    format,
+    hash,
+    durationSeconds: audioDuration(audio, format),
+    bytes: audio.length,
+    generatedAt: new Date(),
+    captionsUrl,
+    captionTiming
+  });
+
+  const cached = cachedNarration(hash);
+  if (cached) {
+    const captions = cachedCaptions(hash);
+    if (captions) {
+      return { url: cached.url, record: record(cached.audio, cached.format, captions.url, captionTimingOf(captions.vtt)), cached: true };
+    }
+    // Audio from before captions existed: where the chunks fall is unknown, so spread all sentences over the whole of it
+    const { sentences } = chunkTimings('', chunks.flatMap(chunk => chunk.sentences), 0, audioDuration(cached.audio, cached.format));
+    const captionsUrl = saveCaptions(hash, toWebVtt(sentences, 'estimated'));
+    return { url: cached.url, record: record(cached.audio, cached.format, captionsUrl, 'estimated'), cached: true };
+  }
+
+  const unavailable = provider.unavailableReason();
+  if (unavailable) throw new Error(`${provider.label}: ${unavailable}`);
+  if (chunks.length === 0) throw new Error('Nothing to narrate');
+
+  let audio: Buffer;
+  let format: AudioFormat;
+  const timed: TimedSentence[] = [];
+  let timing: CaptionTiming = 'aligned';
+  const addTimings = (chunk: NarrationChunk, start: number, end: number, alignment?: CharacterAlignment) => {
+    const result = chunkTimings(chunk.text, chunk.sentences, start, end - start, alignment);
+    timed.push(...result.sentences);
+    if (result.timing === 'estimated') timing = 'estimated';
+  };
 
+  if (chunks.length === 1 && provider.formats[0] !== 'wav') {
+    const result = await provider.synthesize(chunks[0].text, language, voice, provider.formats[0]);
+    ({ audio, format } = result);
+    addTimings(chunks[0], 0, audioDuration(audio, format), result.alignment);
+  } else {
+    const parts: ProviderAudio[] = [];
+    for (const chunk of chunks) {
+      parts.push(await provider.synthesize(chunk.text, language, voice, 'wav'));
+    }
+    const stitched = stitchWav(parts.map(part => part.audio));
+    stitched.spans.forEach((span, index) => addTimings(chunks[index], span.start, span.end, parts[index].alignment));
+    audio = stitched.audio;
+    format = 'wav';
+  }
+  const captionsUrl = saveCaptions(hash, toWebVtt(timed, timing));
+  return { url: saveNarration(hash, audio, format), record: record(audio, format, captionsUrl, timing), cached: false };
+}
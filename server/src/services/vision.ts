@@ -14,6 +14,7 @@ export interface VisionResult {
   relatedWorks?: string;
   museumLinks?: string;
   confidence?: number;
+  provider?: 'claude' | 'openai' | 'huggingface' | 'mock'; // Which service produced the result
 }
 
 function encodeImageToDataUrl(imageDiskPath: string): string {
@@ -207,7 +208,7 @@ private tour with a world-class curator. Every sentence should educate and inspi
             const json = text.slice(jsonStart, jsonEnd + 1);
             const parsed = JSON.parse(json);
             console.log('✅ Parsed Claude result:', parsed);
-            return parsed as VisionResult;
+            return { ...parsed, provider: 'claude' } as VisionResult;
           }
         } catch (parseError) {
           console.log('⚠️ JSON parse failed, using text response');
@@ -220,7 +221,8 @@ private tour with a world-class curator. Every sentence should educate and inspi
           educationalNotes: 'This analysis was generated by AI. For more detailed information, consult museum resources.',
           relatedWorks: 'Related works can be found through museum collections and art databases.',
           museumLinks: 'Visit museum websites or contact local institutions for more information.',
-          confidence: 0.5
+          confidence: 0.5,
+          provider: 'claude'
         } as VisionResult;
       }
     } catch (error: any) {
@@ -324,7 +326,7 @@ Remember: You are creating content for a museum experience. Every response shoul
           const json = text.slice(jsonStart, jsonEnd + 1);
           const parsed = JSON.parse(json);
           console.log('✅ Parsed AI result:', parsed);
-          return parsed as VisionResult;
+          return { ...parsed, provider: 'openai' } as VisionResult;
         }
       } catch (parseError) {
         console.log('⚠️ JSON parse failed, using text response');
@@ -337,7 +339,8 @@ Remember: You are creating content for a museum experience. Every response shoul
         educationalNotes: 'This analysis was generated by AI. For more detailed information, consult museum resources.',
         relatedWorks: 'Related works can be found through museum collections and art databases.',
         museumLinks: 'Visit museum websites or contact local institutions for more information.',
-        confidence: 0.5
+        confidence: 0.5,
+        provider: 'openai'
       } as VisionResult;
 
     } catch (error) {
@@ -358,7 +361,8 @@ Remember: You are creating content for a museum experience. Every response shoul
         year: hfResult.year || 'Unknown',
         style: hfResult.style || 'Unknown',
         description: hfResult.description || 'No description available',
-        confidence: hfResult.confidence || 0.0
+        confidence: hfResult.confidence || 0.0,
+        provider: 'huggingface'
       };
     } catch (error) {
       console.error('❌ Hugging Face failed, falling back to local processing:', error);
@@ -368,7 +372,7 @@ Remember: You are creating content for a museum experience. Every response shoul
 
   // Use mock analysis as last resort
   console.log('🎭 Using Mock AI Analysis (no API keys available)');
-  return getMockAnalysis(imageDiskPath);
+  return { ...getMockAnalysis(imageDiskPath), provider: 'mock' };
 }
 
 
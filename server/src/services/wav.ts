@@ -0,0 +1,126 @@
+/**
+ * Just enough PCM WAV handling to stitch narration chunks together: read and
+ * write files, match each chunk's loudness, and join them with short pauses.
+ */
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+export interface Wav extends PcmFormat {
+  data: Buffer; // Interleaved little-endian samples
+}
+
+// Speech level chunks are brought to (RMS, in dBFS) and the pause between them
+const TARGET_DBFS = -20;
+const PAUSE_MS = 350;
+
+export function readWav(audio: Buffer): Wav {
+  if (audio.toString('latin1', 0, 4) !== 'RIFF' || audio.toString('latin1', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+  let format: PcmFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= audio.length) {
+    const chunk = audio.toString('latin1', offset, offset + 4);
+    const size = audio.readUInt32LE(offset + 4);
+    if (chunk === 'fmt ') {
+      format = {
+        channels: audio.readUInt16LE(offset + 10),
+        sampleRate: audio.readUInt32LE(offset + 12),
+        bitsPerSample: audio.readUInt16LE(offset + 22)
+      };
+    }
+    if (chunk === 'data') {
+      if (!format) throw new Error('WAV data before its format');
+      // Engines that stream to stdout leave the size unset; the data then runs to the end
+      return { ...format, data: audio.subarray(offset + 8, offset + 8 + Math.min(size, audio.length - offset - 8)) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error('WAV file has no data');
+}
+
+export function writeWav(format: PcmFormat, data: Buffer): Buffer {
+  const header = Buffer.alloc(44);
+  const blockAlign = format.channels * format.bitsPerSample / 8;
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'latin1');
+  header.write('fmt ', 12, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(format.bitsPerSample, 34);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Scale 16-bit samples so speech sits at the target level. Loudness is measured
+ * over 20 ms windows that are not near-silent, so pauses do not drag it down;
+ * the gain is capped so peaks never clip.
+ */
+export function normalizeLoudness(wav: Wav): Wav {
+  if (wav.bitsPerSample !== 16) return wav;
+
+  const samples = wav.data.length >> 1;
+  const window = Math.max(1, Math.round(wav.sampleRate * wav.channels * 0.02));
+  const gate = 32768 * 10 ** (-50 / 20);
+  let sumSquares = 0;
+  let counted = 0;
+  let peak = 0;
+  for (let start = 0; start < samples; start += window) {
+    let windowSquares = 0;
+    const end = Math.min(samples, start + window);
+    for (let i = start; i < end; i++) {
+      const sample = wav.data.readInt16LE(i * 2);
+      windowSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    if (Math.sqrt(windowSquares / (end - start)) >= gate) {
+      sumSquares += windowSquares;
+      counted += end - start;
+    }
+  }
+  if (counted === 0 || peak === 0) return wav;
+
+  const rms = Math.sqrt(sumSquares / counted);
+  const gain = Math.min(32768 * 10 ** (TARGET_DBFS / 20) / rms, 32767 * 0.95 / peak, 10);
+  const data = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    data.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(wav.data.readInt16LE(i * 2) * gain))), i * 2);
+  }
+  return { ...wav, data };
+}
+
+/**
+ * Join WAV chunks of one voice into a single file, each at the same loudness,
+ * with a short pause between them. Also returns where each chunk sits, in seconds.
+ */
+export function stitchWav(chunks: Buffer[]): { audio: Buffer; spans: Array<{ start: number; end: number }> } {
+  const wavs = chunks.map(readWav).map(normalizeLoudness);
+  const [first] = wavs;
+  if (wavs.some(wav => wav.sampleRate !== first.sampleRate || wav.channels !== first.channels || wav.bitsPerSample !== first.bitsPerSample)) {
+    throw new Error('Narration chunks came back in different audio formats');
+  }
+
+  const blockAlign = first.channels * first.bitsPerSample / 8;
+  const pause = Buffer.alloc(Math.round(first.sampleRate * PAUSE_MS / 1000) * blockAlign);
+  const parts = wavs.flatMap((wav, index) => (index === 0 ? [wav.data] : [pause, wav.data]));
+  const byteRate = first.sampleRate * blockAlign;
+  let at = 0;
+  const spans = wavs.map((wav, index) => {
+    if (index > 0) at += pause.length / byteRate;
+    const span = { start: at, end: at + wav.data.length / byteRate };
+    at = span.end;
+    return span;
+  });
+  return { audio: writeWav(first, Buffer.concat(parts)), spans };
+}
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import yauzl, { Entry, ZipFile } from 'yauzl';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Random-access reading of uploaded ZIP archives. Opening reads only the central
+ * directory; each entry is streamed from disk when it is needed, so an archive of
+ * any size costs memory only for the entries read into buffers (manifests).
+ */
+
+export interface ArchiveEntry {
+  name: string; // Path inside the archive, always with forward slashes
+  size: number; // Uncompressed size as declared; yauzl fails the read if the data is longer
+  isDirectory: boolean;
+  raw: Entry;
+}
+
+export class ZipArchive {
+  private constructor(private readonly zip: ZipFile, readonly entries: ArchiveEntry[]) {}
+
+  static open(file: string): Promise<ZipArchive> {
+    return new Promise((resolve, reject) => {
+      yauzl.open(file, { lazyEntries: true, autoClose: false }, (error, zip) => {
+        if (error) return reject(error);
+
+        const entries: ArchiveEntry[] = [];
+        zip.on('entry', (entry: Entry) => {
+          entries.push({ name: entry.fileName, size: entry.uncompressedSize, isDirectory: entry.fileName.endsWith('/'), raw: entry });
+          zip.readEntry();
+        });
+        zip.on('end', () => resolve(new ZipArchive(zip, entries)));
+        zip.on('error', failure => {
+          zip.close();
+          reject(failure);
+        });
+        zip.readEntry();
+      });
+    });
+  }
+
+  getEntry(name: string): ArchiveEntry | undefined {
+    return this.entries.find(entry => entry.name === name);
+  }
+
+  /**
+   * Read a whole entry into memory; meant for manifests, so it refuses entries above maxBytes
+   */
+  async read(entry: ArchiveEntry, maxBytes: number): Promise<Buffer> {
+    if (entry.size > maxBytes) {
+      throw new Error(`${entry.name} is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.zip.openReadStreamPromise(entry.raw)) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Stream an entry to a file on disk
+   */
+  async extract(entry: ArchiveEntry, target: string): Promise<void> {
+    await pipeline(await this.zip.openReadStreamPromise(entry.raw), fs.createWriteStream(target));
+  }
+
+  close(): void {
+    this.zip.close();
+  }
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react'
+import axios from 'axios'
+
+export type StaffRole = 'super-admin' | 'museum-admin' | 'curator' | 'translator' | 'read-only'
+
+export type Permission =
+  | 'museums:read'
+  | 'museums:create'
+  | 'museums:update'
+  | 'museums:delete'
+  | 'artworks:read'
+  | 'artworks:create'
+  | 'artworks:delete'
+  | 'translations:edit'
+  | 'translations:approve'
+  | 'users:manage'
+
+export interface StaffUser {
+  id: string
+  email: string
+  name?: string
+  role: StaffRole
+  museumIds: string[]
+  permissions: Permission[]
+}
+
+const TOKEN_KEY = 'museumStaffToken'
+const API_BASE = `http://${window.location.hostname}:4000/api`
+
+// Attach the bearer token to every axios request once signed in
+function applyToken(token: string | null) {
+  if (token) {
+    axios.defaults.headers.common.Authorization = `Bearer ${token}`
+  } else {
+    delete axios.defaults.headers.common.Authorization
+  }
+}
+
+applyToken(localStorage.getItem(TOKEN_KEY))
+
+export function useStaffSession() {
+  const [user, setUser] = useState<StaffUser | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!localStorage.getItem(TOKEN_KEY)) {
+      setLoading(false)
+      return
+    }
+
+    axios.get(`${API_BASE}/auth/me`)
+      .then(response => setUser(response.data.user))
+      .catch(() => {
+        // Stale or revoked token
+        localStorage.removeItem(TOKEN_KEY)
+        applyToken(null)
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const login = async (email: string, password: string) => {
+    const response = await axios.post(`${API_BASE}/auth/login`, { email, password })
+    localStorage.setItem(TOKEN_KEY, response.data.token)
+    applyToken(response.data.token)
+    setUser(response.data.user)
+  }
+
+  const logout = async () => {
+    try {
+      await axios.post(`${API_BASE}/auth/logout`)
+    } catch {
+      // Session may already be gone server-side
+    }
+    localStorage.removeItem(TOKEN_KEY)
+    applyToken(null)
+    setUser(null)
+  }
+
+  const can = (permission: Permission) => !!user?.permissions.includes(permission)
+
+  return { user, loading, login, logout, can }
+}
@@ -1,5 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react'
 import axios from 'axios'
+import { useStaffSession } from '../auth'
+import StaffLogin from './StaffLogin'
+import ReferenceViews from './ReferenceViews'
+import FeedbackReview from './FeedbackReview'
+import TranslationReview from './TranslationReview'
+import EmbeddingModels from './EmbeddingModels'
+import BulkImport from './BulkImport'
+import CollectionExport from './CollectionExport'
+import JobProgress, { type EnrichmentJob, type JobArtwork } from './JobProgress'
+import { DEFAULT_LANGUAGES, languageName, languageOption } from '../languages'
 
 interface Artwork {
   id: string
@@ -8,16 +18,9 @@ interface Artwork {
   year: string
   style: string
   imageUrl: string
-  descriptions: {
-    english: string
-    french: string
-    spanish: string
-  }
-  audioUrls: {
-    english: string
-    french: string
-    spanish: string
-  }
+  descriptions: Record<string, string>
+  translations: NonNullable<JobArtwork['translations']>
+  audioUrls: Record<string, string>
   translationsGenerated: string[]
   audioFilesGenerated: string[]
 }
@@ -26,9 +29,43 @@ interface Museum {
   _id: string;
   name: string;
   location: string;
+  languages?: string[];
+}
+
+interface DuplicateCandidate {
+  artworkId: string
+  title: string
+  imageUrl?: string
+  kind: 'exact' | 'near'
+  reasons: string[]
+}
+
+type DuplicateAction = 'attach' | 'replace' | 'create'
+
+// Languages that have text, the museum's first
+const languagesWithText = (values: Record<string, string | undefined>, languages: string[]) => [
+  ...languages.filter(code => values[code]),
+  ...Object.keys(values).filter(code => values[code] && !languages.includes(code))
+]
+
+// Flag and English name, for staff screens
+const languageLabel = (code: string) => `${languageOption(code).flag} ${languageName(code, 'en')}`
+
+// Glossary terms a machine translation did not render as the museum requires
+const GlossaryFlag: React.FC<{ terms?: string[] }> = ({ terms }) => (
+  terms?.length ? (
+    <p style={{ color: '#b45309', fontSize: '13px' }}>⚠️ Glossary not followed for: {terms.join(', ')}</p>
+  ) : null
+)
+
+interface MuseumArtwork {
+  _id: string
+  title: string
+  author?: string
 }
 
 const AdminDashboard: React.FC = () => {
+  const { user, loading: sessionLoading, login, logout, can } = useStaffSession()
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [uploading, setUploading] = useState(false)
   const [uploadResult, setUploadResult] = useState<any>(null)
@@ -46,13 +83,41 @@ const AdminDashboard: React.FC = () => {
   const [selectedMuseum, setSelectedMuseum] = useState<string>('')
   const [loadingMuseums, setLoadingMuseums] = useState(true)
 
+  // Existing artworks in the selected museum (for managing reference views)
+  const [museumArtworks, setMuseumArtworks] = useState<MuseumArtwork[]>([])
+  const [managedArtworkId, setManagedArtworkId] = useState<string>('')
+  // Bumped after a bulk import so the artwork list reloads
+  const [collectionVersion, setCollectionVersion] = useState(0)
+
+  // Likely duplicates reported by the upload, waiting for the admin's decision
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[] | null>(null)
+  const [duplicateNotice, setDuplicateNotice] = useState<string | null>(null)
+
+  // Background enrichment jobs started by upload and finalize
+  const [uploadJob, setUploadJob] = useState<{ artworkId: string; jobId: string } | null>(null)
+  const [finalizeJob, setFinalizeJob] = useState<{ artworkId: string; jobId: string } | null>(null)
+
   const API_HOST = `http://${window.location.hostname}:4000`
   const API_BASE = `${API_HOST}/api`
 
-  // Fetch museums on component mount
+  // The selected museum's languages: what descriptions are written in, translated to and narrated in
+  const museumLanguages = museums.find(m => m._id === selectedMuseum)?.languages || DEFAULT_LANGUAGES
+
+  // Fetch museums once signed in
   useEffect(() => {
-    fetchMuseums()
-  }, [])
+    if (user) fetchMuseums()
+  }, [user])
+
+  useEffect(() => {
+    setManagedArtworkId('')
+    if (!selectedMuseum) {
+      setMuseumArtworks([])
+      return
+    }
+    axios.get(`${API_BASE}/museums/${selectedMuseum}/artworks`)
+      .then(response => setMuseumArtworks(response.data.artworks || []))
+      .catch(error => console.error('Failed to fetch museum artworks:', error))
+  }, [API_BASE, selectedMuseum, artwork, collectionVersion])
 
   const fetchMuseums = async () => {
     try {
@@ -66,12 +131,26 @@ const AdminDashboard: React.FC = () => {
     }
   }
 
+  // A restored archive may have created a new museum; switch to it
+  const handleImported = async (museumId: string) => {
+    if (museumId !== selectedMuseum) {
+      await fetchMuseums()
+      setSelectedMuseum(museumId)
+    } else {
+      setCollectionVersion(version => version + 1)
+    }
+  }
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
       setSelectedFile(file)
       setUploadResult(null)
       setArtwork(null)
+      setDuplicates(null)
+      setDuplicateNotice(null)
+      setUploadJob(null)
+      setFinalizeJob(null)
     }
   }
 
@@ -201,11 +280,15 @@ const AdminDashboard: React.FC = () => {
       setSelectedFile(file)
       setUploadResult(null)
       setArtwork(null)
+      setDuplicates(null)
+      setDuplicateNotice(null)
+      setUploadJob(null)
+      setFinalizeJob(null)
       stopCamera()
     }, 'image/jpeg', 0.92)
   }
 
-  const handleUpload = async () => {
+  const handleUpload = async (duplicateAction?: DuplicateAction, targetArtworkId?: string) => {
     if (!selectedFile) return
 
     if (!selectedMuseum) {
@@ -217,6 +300,8 @@ const AdminDashboard: React.FC = () => {
     const formData = new FormData()
     formData.append('image', selectedFile)
     formData.append('museumId', selectedMuseum)
+    if (duplicateAction) formData.append('duplicateAction', duplicateAction)
+    if (targetArtworkId) formData.append('targetArtworkId', targetArtworkId)
 
     try {
       // Uploading file
@@ -225,9 +310,24 @@ const AdminDashboard: React.FC = () => {
         headers: { 'Content-Type': 'multipart/form-data' }
       })
 
-      setUploadResult(response.data)
-      // Upload successful
+      setDuplicates(null)
+      if (duplicateAction === 'attach' || duplicateAction === 'replace') {
+        // No new artwork: the image went onto an existing one
+        const verb = duplicateAction === 'attach' ? 'added as a view of' : 'now the image of'
+        resetForm()
+        setDuplicateNotice(`✅ Photo ${verb} "${response.data.title}"`)
+        return
+      }
+
+      // The draft is saved; AI recognition and translations continue in the background
+      setUploadJob({ artworkId: response.data.id, jobId: response.data.jobId })
     } catch (error: any) {
+      if (error.response?.status === 409 && error.response.data?.duplicates) {
+        // Ask before running the paid AI steps on a likely duplicate
+        setDuplicates(error.response.data.duplicates)
+        return
+      }
+
       console.error('❌ Upload failed:', error)
       console.error('Error details:', {
         status: error.response?.status,
@@ -256,19 +356,57 @@ const AdminDashboard: React.FC = () => {
         style: artworkData.style,
         description: artworkData.description,
         sources: artworkData.sources,
-        sourceLanguage: 'en'
+        sourceLanguage: artworkData.sourceLanguage
       })
 
-      setArtwork(response.data)
-      // Finalize result
+      // Translations and audio are generated by a background job
+      setFinalizeJob({ artworkId: response.data.id, jobId: response.data.jobId })
     } catch (error) {
       console.error('Finalize failed:', error)
       alert('Finalize failed. Please try again.')
-    } finally {
       setFinalizing(false)
     }
   }
 
+  const stepResult = (job: EnrichmentJob, name: string) => job.steps.find(step => step.name === name)?.result as Record<string, unknown> | undefined
+
+  const handleUploadFinished = (job: EnrichmentJob, saved: JobArtwork | null) => {
+    if (!saved) return
+    const descriptions = saved.descriptions || {}
+    const audioUrls = saved.audioUrls || {}
+    setUploadResult({
+      id: saved._id,
+      imageUrl: saved.imageUrl,
+      ai: stepResult(job, 'recognize'),
+      wiki: stepResult(job, 'wikipedia'),
+      autoTranslated: Object.keys(descriptions).length > 1,
+      description: saved.description,
+      descriptions,
+      translations: saved.translations || {},
+      audioUrls
+    })
+  }
+
+  const handleFinalizeFinished = (_job: EnrichmentJob, saved: JobArtwork | null) => {
+    setFinalizing(false)
+    if (!saved) return
+    const descriptions = saved.descriptions || {}
+    const audioUrls = saved.audioUrls || {}
+    setArtwork({
+      id: saved._id,
+      title: saved.title,
+      author: saved.author || '',
+      year: saved.year || '',
+      style: saved.style || '',
+      imageUrl: saved.imageUrl,
+      descriptions,
+      translations: saved.translations || {},
+      audioUrls,
+      translationsGenerated: languagesWithText(descriptions, museumLanguages).map(lang => languageName(lang, 'en')),
+      audioFilesGenerated: languagesWithText(audioUrls, museumLanguages).map(lang => languageName(lang, 'en'))
+    })
+  }
+
   const handleDelete = async (id: string) => {
     if (!confirm('Delete this artwork?')) return
     try {
@@ -276,6 +414,8 @@ const AdminDashboard: React.FC = () => {
       alert('Artwork deleted')
       setUploadResult(null)
       setArtwork(null)
+      setUploadJob(null)
+      setFinalizeJob(null)
     } catch (error) {
       alert('Failed to delete')
     }
@@ -285,136 +425,275 @@ const AdminDashboard: React.FC = () => {
     setSelectedFile(null)
     setUploadResult(null)
     setArtwork(null)
+    setDuplicates(null)
+    setDuplicateNotice(null)
+    setUploadJob(null)
+    setFinalizeJob(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
   }
 
+  if (sessionLoading) {
+    return (
+      <div className="admin-dashboard">
+        <div className="loading">
+          <div className="loading-spinner">🔐</div>
+          <p>Checking session...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="admin-dashboard">
+        <StaffLogin onLogin={login} />
+      </div>
+    )
+  }
+
   return (
     <div className="admin-dashboard">
       <div className="admin-header">
         <h1>🎨 Museum Admin Dashboard</h1>
         <p>Upload artwork images and manage multilingual content</p>
+        <p style={{ fontSize: '0.9rem' }}>
+          Signed in as <strong>{user.name || user.email}</strong> ({user.role}) ·{' '}
+          <button onClick={logout} className="btn-secondary" type="button">Sign out</button>
+        </p>
       </div>
 
+      {!can('artworks:create') && (
+        <div className="admin-section">
+          <p>👁️ Your role ({user.role}) can view the collection but cannot upload artworks.</p>
+        </div>
+      )}
+
       {/* Step 1: Select Museum & Upload Image */}
-      <div className="admin-section">
-        <h2>📸 Step 1: Select Museum & Upload Artwork</h2>
-
-        {/* Museum Selector */}
-        <div className="upload-area" style={{ marginBottom: '1.5rem' }}>
-          <label htmlFor="museum-select" style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', color: '#2c3e50' }}>
-            🏛️ Select Museum *
-          </label>
-          {loadingMuseums ? (
-            <p>Loading museums...</p>
-          ) : museums.length === 0 ? (
-            <div style={{ padding: '1rem', background: '#fff3cd', borderRadius: '8px', border: '1px solid #ffc107' }}>
-              <p style={{ margin: 0 }}>⚠️ No museums found. Please <a href="/admin/museums" style={{ color: '#667eea', fontWeight: 'bold' }}>create a museum first</a>.</p>
+      {can('artworks:create') && (
+        <div className="admin-section">
+          <h2>📸 Step 1: Select Museum & Upload Artwork</h2>
+
+          {/* Museum Selector */}
+          <div className="upload-area" style={{ marginBottom: '1.5rem' }}>
+            <label htmlFor="museum-select" style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', color: '#2c3e50' }}>
+              🏛️ Select Museum *
+            </label>
+            {loadingMuseums ? (
+              <p>Loading museums...</p>
+            ) : museums.length === 0 ? (
+              <div style={{ padding: '1rem', background: '#fff3cd', borderRadius: '8px', border: '1px solid #ffc107' }}>
+                <p style={{ margin: 0 }}>⚠️ No museums found. Please <a href="/admin/museums" style={{ color: '#667eea', fontWeight: 'bold' }}>create a museum first</a>.</p>
+              </div>
+            ) : (
+              <select
+                id="museum-select"
+                value={selectedMuseum}
+                onChange={(e) => setSelectedMuseum(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '2px solid #e0e0e0',
+                  borderRadius: '8px',
+                  fontSize: '1rem',
+                  backgroundColor: 'white',
+                  cursor: 'pointer'
+                }}
+              >
+                <option value="">-- Select a museum --</option>
+                {museums.map(museum => (
+                  <option key={museum._id} value={museum._id}>
+                    {museum.name} ({museum.location})
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* File Upload */}
+          <div className="upload-area">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleFileSelect}
+              className="file-input"
+              disabled={!selectedMuseum}
+            />
+            <div style={{ marginTop: '8px' }}>
+              <button
+                onClick={handleStartCamera}
+                className="upload-btn"
+                type="button"
+                disabled={!selectedMuseum}
+                style={{ opacity: selectedMuseum ? 1 : 0.5 }}
+              >
+                📷 Use Camera
+              </button>
             </div>
-          ) : (
-            <select
-              id="museum-select"
-              value={selectedMuseum}
-              onChange={(e) => setSelectedMuseum(e.target.value)}
-              style={{
-                width: '100%',
-                padding: '0.75rem',
-                border: '2px solid #e0e0e0',
-                borderRadius: '8px',
-                fontSize: '1rem',
-                backgroundColor: 'white',
-                cursor: 'pointer'
-              }}
-            >
-              <option value="">-- Select a museum --</option>
-              {museums.map(museum => (
-                <option key={museum._id} value={museum._id}>
-                  {museum.name} ({museum.location})
-                </option>
-              ))}
-            </select>
-          )}
-        </div>
 
-        {/* File Upload */}
-        <div className="upload-area">
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/*"
-            onChange={handleFileSelect}
-            className="file-input"
-            disabled={!selectedMuseum}
-          />
-          <div style={{ marginTop: '8px' }}>
+            {showCamera && (
+              <div style={{ marginTop: '12px', border: '2px solid #3498db', borderRadius: 8, padding: '8px', background: '#000' }}>
+                <video
+                  ref={videoRef}
+                  style={{ width: '100%', borderRadius: 8, display: 'block', minHeight: '200px', background: '#000' }}
+                  autoPlay
+                  muted
+                  playsInline
+                />
+                {!cameraReady && (
+                  <p style={{ color: '#f39c12', marginTop: '8px' }}>⏳ Initializing camera...</p>
+                )}
+                <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+                  <button
+                    onClick={handleCapturePhoto}
+                    className="upload-btn"
+                    type="button"
+                    disabled={!cameraReady}
+                    style={{ opacity: cameraReady ? 1 : 0.5 }}
+                  >
+                    📸 {cameraReady ? 'Capture' : 'Wait...'}
+                  </button>
+                  <button onClick={stopCamera} className="upload-btn" type="button" style={{ background: '#7f8c8d' }}>✖ Close</button>
+                </div>
+                <canvas ref={canvasRef} style={{ display: 'none' }} />
+              </div>
+            )}
+
+            {selectedFile && (
+              <div className="file-preview">
+                <img
+                  src={URL.createObjectURL(selectedFile)}
+                  alt="Preview"
+                  className="preview-image"
+                />
+                <p>Selected: {selectedFile.name}</p>
+              </div>
+            )}
+
             <button
-              onClick={handleStartCamera}
+              onClick={() => handleUpload()}
+              disabled={!selectedFile || !selectedMuseum || uploading}
               className="upload-btn"
-              type="button"
-              disabled={!selectedMuseum}
-              style={{ opacity: selectedMuseum ? 1 : 0.5 }}
             >
-              📷 Use Camera
+              {uploading ? '🔄 Processing...' : '🚀 Upload & Analyze'}
             </button>
-          </div>
-
-          {showCamera && (
-            <div style={{ marginTop: '12px', border: '2px solid #3498db', borderRadius: 8, padding: '8px', background: '#000' }}>
-              <video
-                ref={videoRef}
-                style={{ width: '100%', borderRadius: 8, display: 'block', minHeight: '200px', background: '#000' }}
-                autoPlay
-                muted
-                playsInline
-              />
-              {!cameraReady && (
-                <p style={{ color: '#f39c12', marginTop: '8px' }}>⏳ Initializing camera...</p>
-              )}
-              <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
-                <button
-                  onClick={handleCapturePhoto}
-                  className="upload-btn"
-                  type="button"
-                  disabled={!cameraReady}
-                  style={{ opacity: cameraReady ? 1 : 0.5 }}
-                >
-                  📸 {cameraReady ? 'Capture' : 'Wait...'}
+            {selectedFile && !selectedMuseum && (
+              <p style={{ color: '#e74c3c', marginTop: '0.5rem' }}>⚠️ Please select a museum before uploading</p>
+            )}
+            {duplicateNotice && <p style={{ marginTop: '0.5rem' }}>{duplicateNotice}</p>}
+
+            {duplicates && duplicates.length > 0 && (
+              <div style={{ marginTop: '1rem', padding: '1rem', border: '2px solid #f39c12', borderRadius: '8px' }}>
+                <h3>⚠️ This image may already be in the collection</h3>
+                <p style={{ fontSize: '0.9rem' }}>Nothing has been analyzed yet. Choose what to do with this photo:</p>
+                {duplicates.map(candidate => (
+                  <div key={candidate.artworkId} style={{ display: 'flex', gap: 12, alignItems: 'center', margin: '8px 0' }}>
+                    {candidate.imageUrl && (
+                      <img src={`${API_HOST}${candidate.imageUrl}`} alt={candidate.title} style={{ width: 80, height: 60, objectFit: 'cover', borderRadius: 4 }} />
+                    )}
+                    <div style={{ flex: 1 }}>
+                      <strong>{candidate.title}</strong> {candidate.kind === 'exact' ? '(identical file)' : '(near duplicate)'}
+                      <br />
+                      <small>{candidate.reasons.join(' · ')}</small>
+                    </div>
+                    <button onClick={() => handleUpload('attach', candidate.artworkId)} disabled={uploading} className="btn-secondary">
+                      ➕ Attach as additional view
+                    </button>
+                    <button onClick={() => handleUpload('replace', candidate.artworkId)} disabled={uploading} className="btn-secondary">
+                      🔁 Replace image
+                    </button>
+                  </div>
+                ))}
+                <button onClick={() => handleUpload('create')} disabled={uploading} className="upload-btn">
+                  🆕 Create new artwork anyway
                 </button>
-                <button onClick={stopCamera} className="upload-btn" type="button" style={{ background: '#7f8c8d' }}>✖ Close</button>
               </div>
-              <canvas ref={canvasRef} style={{ display: 'none' }} />
-            </div>
-          )}
+            )}
+          </div>
+        </div>
+      )}
 
-          {selectedFile && (
-            <div className="file-preview">
-              <img
-                src={URL.createObjectURL(selectedFile)}
-                alt="Preview"
-                className="preview-image"
-              />
-              <p>Selected: {selectedFile.name}</p>
-            </div>
-          )}
+      {/* Bulk onboarding from a ZIP of images and a manifest */}
+      {can('artworks:create') && selectedMuseum && (
+        <div className="admin-section">
+          <h2>📦 Bulk Import</h2>
+          <BulkImport
+            key={selectedMuseum}
+            museumId={selectedMuseum}
+            languages={museumLanguages}
+            canCreateMuseum={can('museums:create')}
+            onImported={handleImported}
+          />
+        </div>
+      )}
 
-          <button
-            onClick={handleUpload}
-            disabled={!selectedFile || !selectedMuseum || uploading}
-            className="upload-btn"
+      {/* Collection downloads: spreadsheet, JSON or a restorable archive */}
+      {can('artworks:read') && selectedMuseum && (
+        <div className="admin-section">
+          <h2>📤 Export Collection</h2>
+          <CollectionExport key={selectedMuseum} museumId={selectedMuseum} />
+        </div>
+      )}
+
+      {/* Reference views for artworks already in the collection */}
+      {can('artworks:create') && selectedMuseum && museumArtworks.length > 0 && (
+        <div className="admin-section">
+          <h2>🖼️ Manage Reference Views</h2>
+          <select
+            value={managedArtworkId}
+            onChange={(e) => setManagedArtworkId(e.target.value)}
+            style={{ width: '100%', padding: '0.75rem', border: '2px solid #e0e0e0', borderRadius: '8px', fontSize: '1rem', marginBottom: '1rem' }}
           >
-            {uploading ? '🔄 Processing...' : '🚀 Upload & Analyze'}
-          </button>
-          {selectedFile && !selectedMuseum && (
-            <p style={{ color: '#e74c3c', marginTop: '0.5rem' }}>⚠️ Please select a museum before uploading</p>
+            <option value="">-- Select an existing artwork --</option>
+            {museumArtworks.map(item => (
+              <option key={item._id} value={item._id}>
+                {item.title}{item.author ? ` — ${item.author}` : ''}
+              </option>
+            ))}
+          </select>
+          {managedArtworkId && (
+            <ReferenceViews key={managedArtworkId} artworkId={managedArtworkId} canEdit={can('artworks:create')} />
           )}
         </div>
-      </div>
+      )}
+
+      {/* Visitor confirmations awaiting curator review */}
+      {can('artworks:create') && selectedMuseum && (
+        <div className="admin-section">
+          <h2>🙋 Visitor Feedback Review</h2>
+          <FeedbackReview key={selectedMuseum} museumId={selectedMuseum} />
+        </div>
+      )}
+
+      {/* Machine translations awaiting human review and approval */}
+      {can('translations:edit') && selectedMuseum && (
+        <div className="admin-section">
+          <h2>🌍 Translation Review</h2>
+          <TranslationReview key={selectedMuseum} museumId={selectedMuseum} canApprove={can('translations:approve')} />
+        </div>
+      )}
+
+      {/* Embedding model upgrades: re-embed in the background, then cut over */}
+      {can('museums:update') && selectedMuseum && (
+        <div className="admin-section">
+          <h2>🧬 Embedding Model</h2>
+          <EmbeddingModels key={selectedMuseum} museumId={selectedMuseum} />
+        </div>
+      )}
 
       {/* Step 2: Review AI Results */}
-      {uploadResult && (
+      {uploadJob && (
         <div className="admin-section">
           <h2>🤖 Step 2: AI Analysis Results</h2>
+          <JobProgress
+            key={uploadJob.jobId}
+            artworkId={uploadJob.artworkId}
+            jobId={uploadJob.jobId}
+            onFinished={handleUploadFinished}
+          />
+          {uploadResult && (
           <div className="analysis-results">
             <div className="result-card">
               <h3>📷 Image Analysis</h3>
@@ -453,39 +732,21 @@ const AdminDashboard: React.FC = () => {
               <div className="result-card">
                 <h3>🌍 Translations Generated</h3>
                 <div className="translations">
-                  <div className="translation">
-                    <h4>🇺🇸 English</h4>
-                    <p>{uploadResult.descriptions?.english}</p>
-                    {uploadResult.audioUrls?.english && (
-                      <audio controls>
-                        <source src={`${API_HOST}${uploadResult.audioUrls.english}`} type="audio/mpeg" />
-                      </audio>
-                    )}
-                  </div>
-
-                  <div className="translation">
-                    <h4>🇫🇷 French</h4>
-                    <p>{uploadResult.descriptions?.french}</p>
-                    {uploadResult.audioUrls?.french && (
-                      <audio controls>
-                        <source src={`${API_HOST}${uploadResult.audioUrls.french}`} type="audio/mpeg" />
-                      </audio>
-                    )}
-                  </div>
-
-                  <div className="translation">
-                    <h4>🇪🇸 Spanish</h4>
-                    <p>{uploadResult.descriptions?.spanish}</p>
-                    {uploadResult.audioUrls?.spanish && (
-                      <audio controls>
-                        <source src={`${API_HOST}${uploadResult.audioUrls.spanish}`} type="audio/mpeg" />
-                      </audio>
-                    )}
-                  </div>
+                  {languagesWithText(uploadResult.descriptions, museumLanguages).map(lang => (
+                    <div className="translation" key={lang}>
+                      <h4>{languageLabel(lang)}</h4>
+                      <p>{uploadResult.descriptions[lang]}</p>
+                      <GlossaryFlag terms={uploadResult.translations?.[lang]?.glossaryViolations} />
+                      {uploadResult.audioUrls?.[lang] && (
+                        <audio controls src={`${API_HOST}${uploadResult.audioUrls[lang]}`} />
+                      )}
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
           </div>
+          )}
         </div>
       )}
 
@@ -495,9 +756,18 @@ const AdminDashboard: React.FC = () => {
           <h2>✅ Step 3: Finalize Artwork</h2>
           <FinalizeForm
             initialData={uploadResult}
+            languages={museumLanguages}
             onFinalize={handleFinalize}
             isLoading={finalizing}
           />
+          {finalizeJob && (
+            <JobProgress
+              key={finalizeJob.jobId}
+              artworkId={finalizeJob.artworkId}
+              jobId={finalizeJob.jobId}
+              onFinished={handleFinalizeFinished}
+            />
+          )}
         </div>
       )}
 
@@ -521,32 +791,24 @@ const AdminDashboard: React.FC = () => {
               <p><strong>Audio Files:</strong> {artwork.audioFilesGenerated.join(', ')}</p>
 
               <div className="language-tabs">
-                <div className="language-content">
-                  <h4>🇺🇸 English</h4>
-                  <p>{artwork.descriptions.english}</p>
-                  <audio controls>
-                    <source src={`${API_HOST}${artwork.audioUrls.english}`} type="audio/mpeg" />
-                  </audio>
-                </div>
-
-                <div className="language-content">
-                  <h4>🇫🇷 French</h4>
-                  <p>{artwork.descriptions.french}</p>
-                  <audio controls>
-                    <source src={`${API_HOST}${artwork.audioUrls.french}`} type="audio/mpeg" />
-                  </audio>
-                </div>
-
-                <div className="language-content">
-                  <h4>🇪🇸 Spanish</h4>
-                  <p>{artwork.descriptions.spanish}</p>
-                  <audio controls>
-                    <source src={`${API_HOST}${artwork.audioUrls.spanish}`} type="audio/mpeg" />
-                  </audio>
-                </div>
+                {languagesWithText(artwork.descriptions, museumLanguages).map(lang => (
+                  <div className="language-content" key={lang}>
+                    <h4>{languageLabel(lang)}</h4>
+                    <p>{artwork.descriptions[lang]}</p>
+                    <GlossaryFlag terms={artwork.translations[lang]?.glossaryViolations} />
+                    {artwork.audioUrls[lang] && (
+                      <audio controls src={`${API_HOST}${artwork.audioUrls[lang]}`} />
+                    )}
+                  </div>
+                ))}
               </div>
             </div>
 
+            <div className="success-card">
+              <h3>🖼️ Reference Views</h3>
+              <ReferenceViews artworkId={artwork.id} canEdit={can('artworks:create')} />
+            </div>
+
             <div className="success-card">
               <h3>🔗 Public Access</h3>
               <p>Visitors can now access this artwork at:</p>
@@ -558,11 +820,13 @@ const AdminDashboard: React.FC = () => {
               >
                 View Public Page →
               </a>
-              <div style={{ marginTop: '12px' }}>
-                <button onClick={() => handleDelete(artwork.id)} className="upload-btn" style={{ background: '#c0392b' }}>
-                  🗑️ Delete Artwork
-                </button>
-              </div>
+              {can('artworks:delete') && (
+                <div style={{ marginTop: '12px' }}>
+                  <button onClick={() => handleDelete(artwork.id)} className="upload-btn" style={{ background: '#c0392b' }}>
+                    🗑️ Delete Artwork
+                  </button>
+                </div>
+              )}
             </div>
 
             <button onClick={resetForm} className="reset-btn">
@@ -578,26 +842,31 @@ const AdminDashboard: React.FC = () => {
 // Finalize Form Component
 interface FinalizeFormProps {
   initialData: any
+  languages: string[]
   onFinalize: (data: any) => void
   isLoading: boolean
 }
 
-const FinalizeForm: React.FC<FinalizeFormProps> = ({ initialData, onFinalize, isLoading }) => {
+const FinalizeForm: React.FC<FinalizeFormProps> = ({ initialData, languages, onFinalize, isLoading }) => {
+  // The description is edited in the first of the museum's languages enrichment produced
+  const startLanguage = languages.find(code => initialData.descriptions?.[code]) || languages[0]
   const [formData, setFormData] = useState({
     title: initialData.ai?.title || '',
     author: initialData.ai?.author || '',
     year: initialData.ai?.year || '',
     style: initialData.ai?.style || '',
-    description: initialData.descriptions?.english || initialData.ai?.description || '',
+    description: initialData.descriptions?.[startLanguage] || initialData.description || initialData.ai?.description || '',
+    sourceLanguage: startLanguage,
     sources: initialData.wiki?.sources || []
   })
+  const otherLanguages = languages.filter(code => code !== formData.sourceLanguage).map(code => languageName(code, 'en'))
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     onFinalize(formData)
   }
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData({
       ...formData,
       [e.target.name]: e.target.value
@@ -661,9 +930,18 @@ const FinalizeForm: React.FC<FinalizeFormProps> = ({ initialData, onFinalize, is
           onChange={handleChange}
           required
           rows={4}
-          placeholder="Detailed description (will be translated to French and Spanish automatically)"
+          placeholder={`Detailed description (will be translated to ${otherLanguages.join(', ') || 'no other language'} automatically)`}
         />
-        <small>💡 This description will be automatically translated to French and Spanish with audio narration</small>
+        <small>💡 This description will be automatically translated to {otherLanguages.join(', ') || 'no other language'} with audio narration</small>
+      </div>
+
+      <div className="form-group">
+        <label>Written in</label>
+        <select name="sourceLanguage" value={formData.sourceLanguage} onChange={handleChange}>
+          {languages.map(code => (
+            <option key={code} value={code}>{languageName(code, 'en')}</option>
+          ))}
+        </select>
       </div>
 
       <button
@@ -1,6 +1,9 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { useParams, useSearchParams, Link } from 'react-router-dom'
 import axios from 'axios'
+import RelatedArtworks from './RelatedArtworks'
+import MachineTranslatedBadge from './MachineTranslatedBadge'
+import { languageOption, languageOptions } from '../languages'
 
 interface ArtworkDetail {
   _id: string
@@ -13,30 +16,30 @@ interface ArtworkDetail {
   educationalNotes?: string
   relatedWorks?: string
   museumLinks?: string
-  descriptions?: {
-    en: string
-    fr: string
-    es: string
-  }
-  audioUrls?: {
-    en: string
-    fr: string
-    es: string
-  }
+  descriptions?: Record<string, string>
+  audioUrls?: Record<string, string>
   sources?: Array<{
     provider: string
     url: string
   }>
   currentLanguage: string
   localizedDescription: string
+  translationStatus?: string
   localizedAudioUrl?: string
-  availableLanguages: {
-    en: boolean
-    fr: boolean
-    es: boolean
-  }
+  audioLanguage?: string
+  captionsUrl?: string
+  availableLanguages: Record<string, boolean>
   createdAt: string
   updatedAt: string
+  jsonLd?: Record<string, unknown>
+  linkedArtUrl?: string
+}
+
+// A sentence of the narration and when it is spoken, in seconds
+interface Caption {
+  start: number
+  end: number
+  text: string
 }
 
 const ArtworkDetail: React.FC = () => {
@@ -46,31 +49,53 @@ const ArtworkDetail: React.FC = () => {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
+  const [captions, setCaptions] = useState<Caption[]>([])
+  const [activeCaption, setActiveCaption] = useState(-1)
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const trackRef = useRef<HTMLTrackElement>(null)
 
-  const currentLang = (searchParams.get('lang') || 'en') as 'en' | 'fr' | 'es'
+  // The server falls back to the museum's default language when this one is not offered
+  const requestedLang = searchParams.get('lang') || ''
   const API_HOST = `http://${window.location.hostname}:4000`
   const API_BASE = `${API_HOST}/api`
 
-  const languageOptions = {
-    en: { flag: '🇺🇸', name: 'English' },
-    fr: { flag: '🇫🇷', name: 'Français' },
-    es: { flag: '🇪🇸', name: 'Español' }
-  }
-
   useEffect(() => {
     if (id) {
       fetchArtwork()
     }
-  }, [id, currentLang])
+  }, [id, requestedLang])
+
+  // The narration's WebVTT track is kept hidden; its cues are shown as a transcript instead
+  useEffect(() => {
+    setCaptions([])
+    setActiveCaption(-1)
+    const element = trackRef.current
+    if (!element) return
+    element.track.mode = 'hidden'
+    const loadCues = () => {
+      setCaptions(Array.from(element.track.cues || []).map(cue => ({
+        start: cue.startTime,
+        end: cue.endTime,
+        text: (cue as VTTCue).text
+      })))
+    }
+    element.addEventListener('load', loadCues)
+    if (element.readyState === HTMLTrackElement.LOADED) loadCues()
+    return () => element.removeEventListener('load', loadCues)
+  }, [artwork?.captionsUrl])
 
   const fetchArtwork = async () => {
     try {
       setLoading(true)
       setError(null)
-      const response = await axios.get(`${API_BASE}/visit/artwork/${id}?language=${currentLang}`)
+      const response = await axios.get(`${API_BASE}/visit/artwork/${id}`, {
+        params: requestedLang ? { language: requestedLang } : {}
+      })
       
       // Transform the response to match the expected interface
       const artworkData = response.data.artwork
+      const language: string = artworkData.language || requestedLang || 'en'
+      const languages: string[] = artworkData.languages?.length ? artworkData.languages : [language]
       const transformedArtwork: ArtworkDetail = {
         _id: artworkData.id,
         title: artworkData.title,
@@ -83,16 +108,18 @@ const ArtworkDetail: React.FC = () => {
         relatedWorks: artworkData.relatedWorks,
         museumLinks: artworkData.museumLinks,
         sources: artworkData.sources || [],
-        currentLanguage: currentLang,
+        currentLanguage: language,
         localizedDescription: artworkData.description,
+        translationStatus: artworkData.translationStatus,
         localizedAudioUrl: artworkData.audioUrl,
-        availableLanguages: {
-          en: true,  // Assume all artworks have English
-          fr: true,  // Assume all artworks have French  
-          es: true   // Assume all artworks have Spanish
-        },
+        audioLanguage: artworkData.audioLanguage || undefined,
+        captionsUrl: artworkData.captionsUrl || undefined,
+        // The museum's languages this artwork has a description in
+        availableLanguages: Object.fromEntries(languages.map(code => [code, true])),
         createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
+        updatedAt: new Date().toISOString(),
+        jsonLd: artworkData.jsonLd,
+        linkedArtUrl: artworkData.linkedArtUrl
       }
       
       setArtwork(transformedArtwork)
@@ -104,7 +131,7 @@ const ArtworkDetail: React.FC = () => {
     }
   }
 
-  const changeLanguage = (lang: 'en' | 'fr' | 'es') => {
+  const changeLanguage = (lang: string) => {
     setSearchParams({ lang })
   }
 
@@ -118,6 +145,18 @@ const ArtworkDetail: React.FC = () => {
 
   const handleAudioEnded = () => {
     setIsPlaying(false)
+    setActiveCaption(-1)
+  }
+
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLAudioElement>) => {
+    const time = e.currentTarget.currentTime
+    setActiveCaption(captions.findIndex(caption => time >= caption.start && time < caption.end))
+  }
+
+  const seekTo = (seconds: number) => {
+    if (!audioRef.current) return
+    audioRef.current.currentTime = seconds
+    audioRef.current.play()
   }
 
   if (loading) {
@@ -143,8 +182,20 @@ const ArtworkDetail: React.FC = () => {
     )
   }
 
+  const current = languageOption(artwork.currentLanguage)
+  // The narration may fall back to another language than the description
+  const narration = languageOption(artwork.audioLanguage || artwork.currentLanguage)
+
   return (
     <div className="artwork-detail">
+      {/* Structured data for search engines; React hoists the link into <head> */}
+      {artwork.jsonLd && (
+        <script type="application/ld+json">{JSON.stringify(artwork.jsonLd)}</script>
+      )}
+      {artwork.linkedArtUrl && (
+        <link rel="alternate" type="application/ld+json" title="Linked Art" href={artwork.linkedArtUrl} />
+      )}
+
       {/* Navigation */}
       <div className="artwork-nav">
         <Link to="/" className="back-btn">← Back to Collection</Link>
@@ -152,12 +203,12 @@ const ArtworkDetail: React.FC = () => {
         {/* Language Switcher */}
         <div className="language-switcher">
           <span>Language: </span>
-          {Object.entries(languageOptions).map(([code, info]) => (
+          {languageOptions(Object.keys(artwork.availableLanguages)).map(({ code, ...info }) => (
             <button
               key={code}
-              onClick={() => changeLanguage(code as 'en' | 'fr' | 'es')}
-              className={`lang-btn ${currentLang === code ? 'active' : ''}`}
-              disabled={!artwork.availableLanguages[code as keyof typeof artwork.availableLanguages]}
+              onClick={() => changeLanguage(code)}
+              className={`lang-btn ${artwork.currentLanguage === code ? 'active' : ''}`}
+              disabled={!artwork.availableLanguages[code]}
             >
               {info.flag} {info.name}
             </button>
@@ -182,23 +233,56 @@ const ArtworkDetail: React.FC = () => {
             <div className="audio-player-section">
               <h3>🎵 Audio Guide</h3>
               <div className="audio-controls">
+                {/* Keyed so a new language reloads the audio and its captions; narrations may be MP3 or WAV */}
                 <audio 
+                  key={artwork.localizedAudioUrl}
+                  ref={audioRef}
                   controls
+                  crossOrigin="anonymous"
+                  src={`${API_HOST}${artwork.localizedAudioUrl}`}
                   onPlay={handleAudioPlay}
                   onPause={handleAudioPause}
                   onEnded={handleAudioEnded}
+                  onTimeUpdate={handleTimeUpdate}
                   className="audio-player"
                 >
-                  <source 
-                    src={`${API_HOST}${artwork.localizedAudioUrl}`} 
-                    type="audio/mpeg" 
-                  />
+                  {artwork.captionsUrl && (
+                    <track
+                      ref={trackRef}
+                      kind="captions"
+                      default
+                      srcLang={narration.code}
+                      label={narration.name}
+                      src={`${API_HOST}${artwork.captionsUrl}`}
+                    />
+                  )}
                   Your browser does not support the audio element.
                 </audio>
                 <p className="audio-info">
                   {isPlaying ? '🔊 Playing' : '🔇 Paused'} - 
-                  {languageOptions[currentLang].flag} {languageOptions[currentLang].name} narration
+                  {narration.flag} {narration.name} narration
                 </p>
+                {captions.length > 0 && (
+                  <div className="audio-transcript" lang={narration.code} style={{ maxHeight: '220px', overflowY: 'auto', marginTop: '12px', lineHeight: 1.6 }}>
+                    {captions.map((caption, index) => (
+                      <span
+                        key={index}
+                        aria-current={index === activeCaption ? 'true' : undefined}
+                        title="Play from here"
+                        onClick={() => seekTo(caption.start)}
+                        style={{
+                          cursor: 'pointer',
+                          padding: '1px 2px',
+                          borderRadius: '3px',
+                          backgroundColor: index === activeCaption ? '#fff3a3' : 'transparent',
+                          fontWeight: index === activeCaption ? 600 : 'normal'
+                        }}
+                      >
+                        {caption.text}{' '}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -221,6 +305,7 @@ const ArtworkDetail: React.FC = () => {
           <div className="artwork-description">
             <h3>📖 Description</h3>
             <div className="description-content">
+              <MachineTranslatedBadge status={artwork.translationStatus} />
               <p>{artwork.localizedDescription}</p>
             </div>
             
@@ -231,8 +316,8 @@ const ArtworkDetail: React.FC = () => {
                 {Object.entries(artwork.availableLanguages).map(([lang, available]) => (
                   available && (
                     <span key={lang} className="translation-badge">
-                      {languageOptions[lang as keyof typeof languageOptions].flag}
-                      {languageOptions[lang as keyof typeof languageOptions].name}
+                      {languageOption(lang).flag}
+                      {languageOption(lang).name}
                     </span>
                   )
                 ))}
@@ -290,6 +375,9 @@ const ArtworkDetail: React.FC = () => {
             </div>
           )}
 
+          {/* Visually similar artworks */}
+          <RelatedArtworks artworkId={artwork._id} language={artwork.currentLanguage} />
+
           {/* Technical Details */}
           <div className="technical-details">
             <h3>⚙️ Technical Information</h3>
@@ -298,7 +386,7 @@ const ArtworkDetail: React.FC = () => {
                 <strong>Artwork ID:</strong> {artwork._id}
               </div>
               <div className="tech-detail">
-                <strong>Current Language:</strong> {languageOptions[currentLang].flag} {languageOptions[currentLang].name}
+                <strong>Current Language:</strong> {current.flag} {current.name}
               </div>
               <div className="tech-detail">
                 <strong>Added to Collection:</strong> {new Date(artwork.createdAt).toLocaleDateString()}
@@ -317,17 +405,12 @@ const ArtworkDetail: React.FC = () => {
                 {Object.entries(artwork.descriptions).map(([lang, description]) => (
                   <div key={lang} className="language-preview">
                     <h4>
-                      {languageOptions[lang as keyof typeof languageOptions].flag}
-                      {languageOptions[lang as keyof typeof languageOptions].name}
+                      {languageOption(lang).flag}
+                      {languageOption(lang).name}
                     </h4>
                     <p>{description.substring(0, 150)}...</p>
-                    {artwork.audioUrls?.[lang as keyof typeof artwork.audioUrls] && (
-                      <audio controls className="preview-audio">
-                        <source 
-                          src={`${API_HOST}${artwork.audioUrls[lang as keyof typeof artwork.audioUrls]}`} 
-                          type="audio/mpeg" 
-                        />
-                      </audio>
+                    {artwork.audioUrls?.[lang] && (
+                      <audio controls className="preview-audio" src={`${API_HOST}${artwork.audioUrls[lang]}`} />
                     )}
                   </div>
                 ))}
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import axios from 'axios';
+import { DEFAULT_LANGUAGES, languageOptions } from '../languages';
+import MachineTranslatedBadge from './MachineTranslatedBadge';
 
 interface Artwork {
   id: string;
@@ -10,12 +12,15 @@ interface Artwork {
   style: string;
   imageUrl: string;
   description: string;
+  translationStatus?: string;
   audioUrl?: string;
+  relevance?: number;
 }
 
 interface Museum {
   id: string;
   name: string;
+  languages?: string[];
 }
 
 const BrowseCollection: React.FC = () => {
@@ -27,15 +32,15 @@ const BrowseCollection: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [selectedLanguage, setSelectedLanguage] = useState<string>('en');
   const [selectedArtwork, setSelectedArtwork] = useState<Artwork | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Artwork[] | null>(null);
+  const [searching, setSearching] = useState(false);
 
   const API_HOST = `http://${window.location.hostname}:4000`;
   const API_BASE = `${API_HOST}/api`;
 
-  const languageOptions = {
-    en: { flag: '🇺🇸', name: 'English' },
-    fr: { flag: '🇫🇷', name: 'Français' },
-    es: { flag: '🇪🇸', name: 'Español' }
-  };
+  // Only the languages this museum publishes in
+  const languages = museum?.languages?.length ? museum.languages : DEFAULT_LANGUAGES;
 
   useEffect(() => {
     fetchArtworks();
@@ -49,6 +54,10 @@ const BrowseCollection: React.FC = () => {
       });
       setArtworks(response.data.artworks || []);
       setMuseum(response.data.museum);
+      // A language the museum does not offer is answered in its default one
+      if (response.data.language && response.data.language !== selectedLanguage) {
+        setSelectedLanguage(response.data.language);
+      }
     } catch (error) {
       console.error('Failed to fetch artworks:', error);
       alert('Failed to load collection');
@@ -57,6 +66,34 @@ const BrowseCollection: React.FC = () => {
     }
   };
 
+  // Search as the visitor types, once they pause
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const response = await axios.get(`${API_BASE}/visit/${qrCode}/search`, {
+          params: { q: query, language: selectedLanguage }
+        });
+        setSearchResults(response.data.artworks || []);
+      } catch (error) {
+        console.error('Search failed:', error);
+        setSearchResults([]);
+      } finally {
+        setSearching(false);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [API_BASE, qrCode, searchQuery, selectedLanguage]);
+
+  const shownArtworks = searchResults ?? artworks;
+
   if (loading) {
     return (
       <div className="browse-collection">
@@ -80,7 +117,7 @@ const BrowseCollection: React.FC = () => {
         </div>
 
         <div className="language-switcher">
-          {Object.entries(languageOptions).map(([code, info]) => (
+          {languageOptions(languages).map(({ code, ...info }) => (
             <button
               key={code}
               onClick={() => setSelectedLanguage(code)}
@@ -93,14 +130,30 @@ const BrowseCollection: React.FC = () => {
         </div>
       </div>
 
-      {artworks.length === 0 ? (
+      <div className="collection-search">
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder='🔍 Search, e.g. "stormy sea with a small boat" or an artist'
+          style={{ width: '100%', padding: '0.75rem', border: '2px solid #e0e0e0', borderRadius: '8px', fontSize: '1rem', marginBottom: '1rem' }}
+        />
+        {searching && <p>Searching...</p>}
+      </div>
+
+      {searchResults && searchResults.length === 0 && !searching ? (
+        <div className="empty-state">
+          <h3>No matching artworks</h3>
+          <p>Try describing what the artwork shows, or search for an artist or style</p>
+        </div>
+      ) : shownArtworks.length === 0 ? (
         <div className="empty-state">
           <h3>No artworks yet</h3>
           <p>This museum's collection is being updated</p>
         </div>
       ) : (
         <div className="artworks-grid">
-          {artworks.map(artwork => (
+          {shownArtworks.map(artwork => (
             <div
               key={artwork.id}
               className="artwork-card"
@@ -142,15 +195,14 @@ const BrowseCollection: React.FC = () => {
               </p>
 
               <div className="description">
+                <MachineTranslatedBadge status={selectedArtwork.translationStatus} />
                 <p>{selectedArtwork.description}</p>
               </div>
 
               {selectedArtwork.audioUrl && (
                 <div className="audio-section">
                   <h4>🎧 Audio Guide</h4>
-                  <audio controls style={{ width: '100%' }}>
-                    <source src={`${API_HOST}${selectedArtwork.audioUrl}`} type="audio/mpeg" />
-                  </audio>
+                  <audio controls style={{ width: '100%' }} src={`${API_HOST}${selectedArtwork.audioUrl}`} />
                 </div>
               )}
             </div>
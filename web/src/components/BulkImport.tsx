@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react'
+import axios from 'axios'
+import { DEFAULT_LANGUAGES, languageName } from '../languages'
+
+interface ImportRow {
+  row: number
+  file?: string
+  sourceId?: string
+  status: 'created' | 'error' | 'duplicate'
+  artworkId?: string
+  title?: string
+  errors?: string[]
+  duplicateOf?: { artworkId: string; title: string; reasons: string[] }
+  enrichedFields?: string[]
+}
+
+interface ImportReport {
+  manifest: string | null
+  museumId: string
+  ignoredColumns: string[]
+  warnings?: string[]
+  summary: { total: number; created: number; errors: number; duplicates: number }
+  rows: ImportRow[]
+}
+
+// What the import job has done so far
+interface ImportProgress {
+  total: number
+  rows: ImportRow[]
+}
+
+interface ImportJob {
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  steps: { name: string; status: string; error?: string; result?: unknown }[]
+}
+
+const POLL_INTERVAL_MS = 2000
+
+interface BulkImportProps {
+  museumId: string
+  languages?: string[]
+  canCreateMuseum?: boolean
+  onImported?: (museumId: string) => void
+}
+
+const STATUS_LABELS: Record<ImportRow['status'], string> = {
+  created: '✅ Created',
+  duplicate: '⏭️ Duplicate',
+  error: '❌ Error'
+}
+
+const BulkImport: React.FC<BulkImportProps> = ({ museumId, languages = DEFAULT_LANGUAGES, canCreateMuseum, onImported }) => {
+  const [archive, setArchive] = useState<File | null>(null)
+  const [manifest, setManifest] = useState<File | null>(null)
+  // Manifest descriptions are in one of the museum's languages, its default unless chosen otherwise
+  const [chosenLanguage, setChosenLanguage] = useState<string | null>(null)
+  const sourceLanguage = chosenLanguage && languages.includes(chosenLanguage) ? chosenLanguage : languages[0]
+  // Collection archives from another deployment can recreate their museum
+  const [asNewMuseum, setAsNewMuseum] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const API_HOST = `http://${window.location.hostname}:4000`
+  const API_BASE = `${API_HOST}/api`
+
+  const handleImport = async () => {
+    if (!archive) return
+    const formData = new FormData()
+    formData.append('archive', archive)
+    if (manifest) formData.append('manifest', manifest)
+    if (!asNewMuseum) formData.append('museumId', museumId)
+    formData.append('sourceLanguage', sourceLanguage)
+
+    setImporting(true)
+    setMessage(null)
+    setReport(null)
+    setProgress(null)
+    try {
+      // The server queues the import and answers right away; the report comes from the job
+      const response = await axios.post(`${API_BASE}/admin/import`, formData)
+      setJobId(response.data.jobId)
+    } catch (error) {
+      const detail = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+      setMessage(`❌ ${detail || 'Import failed'}`)
+      setImporting(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!jobId) return
+    let cancelled = false
+
+    const poll = async () => {
+      try {
+        const response = await axios.get(`${API_BASE}/admin/jobs/${jobId}`)
+        if (cancelled) return
+        const job = response.data.job as ImportJob
+        const step = job.steps.find(s => s.name === 'import')
+        if (job.status !== 'completed' && job.status !== 'failed') {
+          setProgress((step?.result as ImportProgress | undefined) || null)
+          return
+        }
+
+        clearInterval(timer)
+        setJobId(null)
+        setImporting(false)
+        if (step?.status === 'completed') {
+          const result = step.result as ImportReport
+          setReport(result)
+          if (result.summary.created > 0) onImported?.(result.museumId)
+        } else {
+          setMessage(`❌ ${step?.error || 'Import failed'}`)
+        }
+      } catch (error) {
+        const detail = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+        setMessage(`⚠️ Could not check the import: ${detail || 'Unknown error'}`)
+      }
+    }
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [API_BASE, jobId, onImported])
+
+  return (
+    <div className="bulk-import">
+      <p style={{ marginTop: 0 }}>
+        Upload a ZIP of images. Add a CSV or JSON manifest (inside the ZIP or below) with a <code>file</code> column
+        and any of title, author, year, style, description or accession number; AI enrichment only fills in what it leaves empty.
+        A full archive exported from a museum is restored as-is.
+      </p>
+
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center' }}>
+        <label>
+          ZIP archive{' '}
+          <input type="file" accept=".zip" onChange={(e) => setArchive(e.target.files?.[0] || null)} />
+        </label>
+        <label>
+          Manifest (optional){' '}
+          <input type="file" accept=".csv,.json" onChange={(e) => setManifest(e.target.files?.[0] || null)} />
+        </label>
+        <label>
+          Description language{' '}
+          <select value={sourceLanguage} onChange={(e) => setChosenLanguage(e.target.value)}>
+            {languages.map(code => <option key={code} value={code}>{languageName(code, 'en')}</option>)}
+          </select>
+        </label>
+        {canCreateMuseum && (
+          <label>
+            <input type="checkbox" checked={asNewMuseum} onChange={(e) => setAsNewMuseum(e.target.checked)} /> Restore archive as a new museum
+          </label>
+        )}
+        <button className="btn-primary" onClick={handleImport} disabled={importing || !archive}>
+          {importing ? '⏳ Importing...' : '📦 Import'}
+        </button>
+      </div>
+
+      {importing && (
+        <p>
+          Importing in the background{progress ? `: ${progress.rows.length} of ${progress.total} done` : ''}.
+          Large archives take a few minutes; embedding and AI enrichment continue after the import.
+        </p>
+      )}
+      {message && <p>{message}</p>}
+
+      {report && (
+        <div style={{ marginTop: 12 }}>
+          <p>
+            <strong>{report.summary.created}</strong> created · <strong>{report.summary.duplicates}</strong> duplicates skipped ·{' '}
+            <strong>{report.summary.errors}</strong> errors
+            {report.manifest ? ` (manifest: ${report.manifest})` : ' (no manifest)'}
+          </p>
+          {report.warnings?.map(warning => <p key={warning} style={{ color: '#e67e22' }}>⚠️ {warning}</p>)}
+          {report.ignoredColumns.length > 0 && (
+            <p style={{ color: '#e67e22' }}>⚠️ Ignored columns: {report.ignoredColumns.join(', ')}</p>
+          )}
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', borderBottom: '2px solid #e0e0e0' }}>
+                <th>Row</th>
+                <th>File</th>
+                <th>Status</th>
+                <th>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map(row => (
+                <tr key={row.row} style={{ borderBottom: '1px solid #eee', verticalAlign: 'top' }}>
+                  <td>{row.row}</td>
+                  <td>{row.file || '—'}</td>
+                  <td>{STATUS_LABELS[row.status]}</td>
+                  <td>
+                    {row.title && <div>{row.title}</div>}
+                    {row.duplicateOf && (
+                      <div>Same as “{row.duplicateOf.title}”: {row.duplicateOf.reasons.join('; ')}</div>
+                    )}
+                    {row.errors?.map(error => <div key={error} style={{ color: '#c0392b' }}>{error}</div>)}
+                    {row.enrichedFields && row.enrichedFields.length > 0 && (
+                      <small>AI will fill in: {row.enrichedFields.join(', ')}</small>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BulkImport
@@ -0,0 +1,70 @@
+import React, { useState } from 'react'
+import axios from 'axios'
+
+interface CollectionExportProps {
+  museumId: string
+}
+
+const FORMATS = [
+  { format: 'csv', label: '📄 CSV', hint: 'Spreadsheet with every language and source links' },
+  { format: 'json', label: '🧾 JSON', hint: 'Museum and artworks for other systems' },
+  { format: 'archive', label: '🗄️ Full archive', hint: 'Images, audio and embeddings; restore it with Bulk Import' }
+] as const
+
+const CollectionExport: React.FC<CollectionExportProps> = ({ museumId }) => {
+  const [exporting, setExporting] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const API_HOST = `http://${window.location.hostname}:4000`
+  const API_BASE = `${API_HOST}/api`
+
+  // Downloads go through axios so the staff token is sent
+  const handleExport = async (format: string) => {
+    setExporting(format)
+    setMessage(null)
+    try {
+      const response = await axios.get(`${API_BASE}/museums/${museumId}/export`, {
+        params: { format },
+        responseType: 'blob'
+      })
+      const disposition: string = response.headers['content-disposition'] || ''
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `collection.${format === 'archive' ? 'zip' : format}`
+
+      const url = URL.createObjectURL(response.data)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+
+      const missing = Number(response.headers['x-missing-files'] || 0)
+      if (missing > 0) setMessage(`⚠️ ${missing} image or audio file(s) were missing on the server and are not in the archive`)
+    } catch (error) {
+      console.error('Export failed:', error)
+      setMessage('❌ Export failed')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div className="collection-export">
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+        {FORMATS.map(({ format, label, hint }) => (
+          <button
+            key={format}
+            className="btn-secondary"
+            title={hint}
+            onClick={() => handleExport(format)}
+            disabled={!!exporting}
+          >
+            {exporting === format ? '⏳ Exporting...' : label}
+          </button>
+        ))}
+      </div>
+      {message && <p>{message}</p>}
+    </div>
+  )
+}
+
+export default CollectionExport
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import axios from 'axios'
+
+interface EmbeddingModel {
+  key: string
+  modelId: string
+  version: number
+  dimensions: number
+}
+
+interface ReembedJob {
+  id: string
+  targetModel: string
+  status: 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+  total: number
+  processed: number
+  failed: number
+  percent: number
+  failures: Array<{ artworkId: string; message: string }>
+  createdAt: string
+}
+
+interface EmbeddingModelsProps {
+  museumId: string
+}
+
+const ACTIVE_STATUSES = ['queued', 'running', 'paused']
+
+const EmbeddingModels: React.FC<EmbeddingModelsProps> = ({ museumId }) => {
+  const [models, setModels] = useState<EmbeddingModel[]>([])
+  const [currentModel, setCurrentModel] = useState<string>('')
+  const [targetModel, setTargetModel] = useState<string>('')
+  const [job, setJob] = useState<ReembedJob | null>(null)
+  const [force, setForce] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const API_HOST = `http://${window.location.hostname}:4000`
+  const API_BASE = `${API_HOST}/api`
+
+  const errorMessage = (error: unknown, fallback: string) =>
+    (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback
+
+  const fetchState = useCallback(async () => {
+    try {
+      const [modelsResponse, jobsResponse] = await Promise.all([
+        axios.get(`${API_BASE}/admin/embeddings/models`),
+        axios.get(`${API_BASE}/admin/embeddings/jobs`, { params: { museumId } })
+      ])
+      const museum = modelsResponse.data.museums.find((m: { id: string }) => m.id === museumId)
+      setModels(modelsResponse.data.models)
+      setCurrentModel(museum?.embeddingModel || modelsResponse.data.defaultModel)
+      setJob(jobsResponse.data.jobs[0] || null)
+    } catch (error) {
+      console.error('Failed to fetch embedding models:', error)
+    }
+  }, [API_BASE, museumId])
+
+  useEffect(() => {
+    fetchState()
+  }, [fetchState])
+
+  // Poll progress while a job is queued or running
+  useEffect(() => {
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return
+    const timer = setInterval(async () => {
+      try {
+        const response = await axios.get(`${API_BASE}/admin/embeddings/jobs/${job.id}`)
+        setJob(response.data.job)
+      } catch (error) {
+        console.error('Failed to refresh re-embed job:', error)
+      }
+    }, 2000)
+    return () => clearInterval(timer)
+  }, [API_BASE, job])
+
+  const handleStart = async () => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const response = await axios.post(`${API_BASE}/admin/embeddings/jobs`, { museumId, model: targetModel })
+      setJob(response.data.job)
+    } catch (error) {
+      setMessage(`❌ ${errorMessage(error, 'Failed to start re-embedding')}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleJobAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (!job) return
+    setBusy(true)
+    setMessage(null)
+    try {
+      const response = await axios.post(`${API_BASE}/admin/embeddings/jobs/${job.id}/${action}`)
+      setJob(response.data.job)
+    } catch (error) {
+      setMessage(`❌ ${errorMessage(error, `Failed to ${action} job`)}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCutover = async () => {
+    if (!job) return
+    if (!confirm(`Switch identification to ${job.targetModel}? Matching thresholds will be reset for recalibration.`)) return
+    setBusy(true)
+    setMessage(null)
+    try {
+      const response = await axios.post(`${API_BASE}/admin/embeddings/cutover`, { museumId, model: job.targetModel, force })
+      const [result] = response.data.results
+      setMessage(`✅ Now using ${result.model} (${result.promoted} artworks switched${result.missing ? `, ${result.missing} without vectors` : ''})`)
+      await fetchState()
+    } catch (error) {
+      const result = axios.isAxiosError(error) ? error.response?.data?.results?.[0] : undefined
+      setMessage(`❌ ${errorMessage(error, 'Cut-over failed')}${result ? ` (${result.missing} of ${result.total} artworks missing)` : ''}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const jobActive = !!job && ACTIVE_STATUSES.includes(job.status)
+  const canCutOver = !!job && job.status === 'completed' && job.targetModel !== currentModel
+
+  return (
+    <div className="embedding-models">
+      <p>
+        Identification model: <strong>{currentModel || '...'}</strong>
+      </p>
+
+      {!jobActive && (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+          <select value={targetModel} onChange={(e) => setTargetModel(e.target.value)}>
+            <option value="">Choose a model...</option>
+            {models.filter(m => m.key !== currentModel).map(m => (
+              <option key={m.key} value={m.key}>
+                {m.modelId} v{m.version} ({m.dimensions}d)
+              </option>
+            ))}
+          </select>
+          <button className="btn-secondary" onClick={handleStart} disabled={busy || !targetModel}>
+            🔄 Re-embed collection
+          </button>
+        </div>
+      )}
+
+      {job && (
+        <div style={{ border: '1px solid #e0e0e0', borderRadius: 8, padding: 8, marginTop: 12 }}>
+          <p style={{ margin: 0 }}>
+            Re-embedding to <strong>{job.targetModel}</strong>: {job.status} · {job.processed}/{job.total} artworks
+            {job.failed > 0 && ` · ${job.failed} failed`}
+          </p>
+          <div style={{ background: '#eee', borderRadius: 4, height: 8, margin: '8px 0' }}>
+            <div style={{ background: '#4caf50', borderRadius: 4, height: 8, width: `${job.percent}%` }} />
+          </div>
+
+          {job.failures.length > 0 && (
+            <details>
+              <summary>Failures</summary>
+              <ul>
+                {job.failures.map(f => <li key={f.artworkId}>{f.artworkId}: {f.message}</li>)}
+              </ul>
+            </details>
+          )}
+
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+            {(job.status === 'queued' || job.status === 'running') && (
+              <button className="btn-secondary" onClick={() => handleJobAction('pause')} disabled={busy}>⏸️ Pause</button>
+            )}
+            {(job.status === 'paused' || job.status === 'failed') && (
+              <button className="btn-secondary" onClick={() => handleJobAction('resume')} disabled={busy}>▶️ Resume</button>
+            )}
+            {(jobActive || job.status === 'failed') && (
+              <button className="btn-secondary" onClick={() => handleJobAction('cancel')} disabled={busy}>✖️ Cancel</button>
+            )}
+            {canCutOver && (
+              <>
+                <button className="btn-primary" onClick={handleCutover} disabled={busy}>🔀 Cut over to {job.targetModel}</button>
+                <label style={{ fontSize: '0.9rem' }}>
+                  <input type="checkbox" checked={force} onChange={(e) => setForce(e.target.checked)} /> Switch even if some artworks failed
+                </label>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {message && <p>{message}</p>}
+    </div>
+  )
+}
+
+export default EmbeddingModels
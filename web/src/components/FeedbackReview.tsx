@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import axios from 'axios'
+
+interface ReviewArtwork {
+  _id: string
+  title: string
+  author?: string
+  imageUrl: string
+}
+
+interface FeedbackItem {
+  id: string
+  photoUrl?: string
+  confirmedScore: number | null
+  confirmedAt?: string
+  confirmedArtwork: ReviewArtwork | null
+  suggested: Array<{ artwork: ReviewArtwork | null; score: number; view?: string }>
+}
+
+// Visitor photos are private: fetched with the staff session and shown from a blob URL
+const FeedbackPhoto: React.FC<{ url: string }> = ({ url }) => {
+  const [src, setSrc] = useState<string | null>(null)
+
+  useEffect(() => {
+    let objectUrl: string | null = null
+    let cancelled = false
+    axios.get(url, { responseType: 'blob' })
+      .then(response => {
+        if (cancelled) return
+        objectUrl = URL.createObjectURL(response.data)
+        setSrc(objectUrl)
+      })
+      .catch(error => console.error('Failed to load visitor photo:', error))
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [url])
+
+  const style = { width: 120, height: 90, objectFit: 'cover' as const, borderRadius: 4 }
+  return src ? <img src={src} alt="Visitor photo" style={style} /> : <div style={{ ...style, background: '#eee' }} />
+}
+
+interface FeedbackReviewProps {
+  museumId: string
+}
+
+const FeedbackReview: React.FC<FeedbackReviewProps> = ({ museumId }) => {
+  const [items, setItems] = useState<FeedbackItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const API_HOST = `http://${window.location.hostname}:4000`
+  const API_BASE = `${API_HOST}/api`
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await axios.get(`${API_BASE}/admin/feedback`, { params: { museumId } })
+      setItems(response.data.items || [])
+    } catch (error) {
+      console.error('Failed to fetch visitor feedback:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [API_BASE, museumId])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  const handleDecision = async (item: FeedbackItem, decision: 'approve' | 'reject') => {
+    setBusyId(item.id)
+    try {
+      await axios.post(`${API_BASE}/admin/feedback/${item.id}/${decision}`)
+      setItems(current => current.filter(i => i.id !== item.id))
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+      alert(`Failed to ${decision} feedback: ${message || 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (loading) {
+    return <p>Loading review queue...</p>
+  }
+
+  if (items.length === 0) {
+    return <p>✅ No visitor confirmations waiting for review.</p>
+  }
+
+  return (
+    <div className="feedback-review">
+      <p style={{ fontSize: '0.9rem' }}>
+        💡 Visitors confirmed these artworks after a weak or wrong match. Approving adds the visitor photo as a reference view.
+      </p>
+
+      {items.map(item => {
+        const topSuggestion = item.suggested[0]
+        return (
+          <div key={item.id} style={{ display: 'flex', gap: 12, alignItems: 'center', border: '1px solid #e0e0e0', borderRadius: 8, padding: 8, marginBottom: 8 }}>
+            {item.photoUrl && (
+              <FeedbackPhoto url={`${API_HOST}${item.photoUrl}`} />
+            )}
+            <span>➡️</span>
+            {item.confirmedArtwork && (
+              <img src={`${API_HOST}${item.confirmedArtwork.imageUrl}`} alt={item.confirmedArtwork.title} style={{ width: 120, height: 90, objectFit: 'cover', borderRadius: 4 }} />
+            )}
+            <div style={{ flex: 1 }}>
+              <strong>{item.confirmedArtwork?.title || 'Deleted artwork'}</strong>
+              <p style={{ margin: '4px 0', fontSize: '0.9rem' }}>
+                Similarity: {item.confirmedScore ?? '?'}%
+                {topSuggestion?.artwork && topSuggestion.artwork._id !== item.confirmedArtwork?._id && (
+                  <> · we suggested "{topSuggestion.artwork.title}" ({topSuggestion.score}%)</>
+                )}
+              </p>
+            </div>
+            <button onClick={() => handleDecision(item, 'approve')} disabled={busyId === item.id || !item.confirmedArtwork} className="btn-primary">
+              ✅ Approve
+            </button>
+            <button onClick={() => handleDecision(item, 'reject')} disabled={busyId === item.id} className="btn-icon btn-danger" title="Reject">
+              🗑️
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default FeedbackReview
@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { languageName } from '../languages';
+
+interface GlossaryEntry {
+  term: string;
+  translations?: Record<string, string>;
+  doNotTranslate?: boolean;
+  note?: string;
+}
+
+interface GlossaryViolation {
+  artworkId: string;
+  title: string;
+  languages: Record<string, string[]>;
+}
+
+interface GlossaryEditorProps {
+  museumId: string;
+  canEdit: boolean;
+}
+
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ museumId, canEdit }) => {
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [entries, setEntries] = useState<GlossaryEntry[] | null>(null);
+  const [violations, setViolations] = useState<{ checked: number; items: GlossaryViolation[] } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const API_HOST = `http://${window.location.hostname}:4000`;
+  const API_BASE = `${API_HOST}/api`;
+
+  const fetchGlossary = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE}/museums/${museumId}/glossary`);
+      setLanguages(response.data.languages || []);
+      setEntries(response.data.glossary || []);
+    } catch (error) {
+      console.error('Failed to fetch glossary:', error);
+    }
+  }, [API_BASE, museumId]);
+
+  const fetchViolations = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE}/museums/${museumId}/glossary/violations`);
+      setViolations({ checked: response.data.checked, items: response.data.violations || [] });
+    } catch (error) {
+      console.error('Failed to check glossary:', error);
+    }
+  }, [API_BASE, museumId]);
+
+  useEffect(() => {
+    fetchGlossary();
+    fetchViolations();
+  }, [fetchGlossary, fetchViolations]);
+
+  const updateEntry = (index: number, changes: Partial<GlossaryEntry>) => {
+    setEntries(current => current!.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  const updateRendering = (index: number, language: string, value: string) => {
+    const entry = entries![index];
+    updateEntry(index, { translations: { ...entry.translations, [language]: value } });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setMessage(null);
+    try {
+      const glossary = entries!.filter(entry => entry.term.trim());
+      const response = await axios.put(`${API_BASE}/museums/${museumId}/glossary`, { glossary });
+      setEntries(response.data.glossary || []);
+      setMessage('✅ Saved. New translations will follow the glossary.');
+      fetchViolations();
+    } catch (error) {
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setMessage(`❌ ${reason || 'Failed to save glossary'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!entries) {
+    return <p>Loading glossary...</p>;
+  }
+
+  return (
+    <form onSubmit={handleSave} className="museum-form">
+      <small>
+        Artist names, titles and terms of art that machine translation must not change. Mark a term
+        "never translate" to keep it as written, or give its preferred rendering per language.
+      </small>
+
+      {entries.map((entry, index) => (
+        <div key={index} className="form-group" style={{ borderBottom: '1px solid #eee', paddingBottom: '12px' }}>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={entry.term}
+              placeholder="Term, e.g. sfumato"
+              disabled={!canEdit}
+              onChange={(e) => updateEntry(index, { term: e.target.value })}
+              style={{ flex: 1 }}
+            />
+            <label style={{ fontWeight: 'normal', whiteSpace: 'nowrap' }}>
+              <input
+                type="checkbox"
+                checked={!!entry.doNotTranslate}
+                disabled={!canEdit}
+                onChange={(e) => updateEntry(index, { doNotTranslate: e.target.checked })}
+              />{' '}
+              Never translate
+            </label>
+            {canEdit && (
+              <button
+                type="button"
+                className="btn-icon btn-danger"
+                title="Remove"
+                onClick={() => setEntries(entries.filter((_, i) => i !== index))}
+              >
+                🗑️
+              </button>
+            )}
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '8px' }}>
+            {languages.map(language => (
+              <input
+                key={language}
+                type="text"
+                value={entry.translations?.[language] || ''}
+                placeholder={`${languageName(language, 'en')} rendering`}
+                disabled={!canEdit}
+                onChange={(e) => updateRendering(index, language, e.target.value)}
+                style={{ flex: '1 1 140px' }}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {entries.length === 0 && <p>No glossary terms yet.</p>}
+
+      {message && <p>{message}</p>}
+
+      {canEdit && (
+        <div className="form-actions">
+          <button type="button" className="btn-secondary" onClick={() => setEntries([...entries, { term: '' }])}>
+            ➕ Add Term
+          </button>
+          <button type="submit" className="btn-primary" disabled={busy}>
+            Save Glossary
+          </button>
+        </div>
+      )}
+
+      <h3 style={{ marginTop: '24px' }}>⚠️ Translations That Break the Glossary</h3>
+      {!violations ? (
+        <p>Checking translations...</p>
+      ) : violations.items.length === 0 ? (
+        <p>✅ All {violations.checked} machine-translated artworks follow the glossary.</p>
+      ) : (
+        <ul>
+          {violations.items.map(item => (
+            <li key={item.artworkId}>
+              <strong>{item.title}</strong>:{' '}
+              {Object.entries(item.languages)
+                .map(([language, terms]) => `${languageName(language, 'en')} (${terms.join(', ')})`)
+                .join('; ')}
+            </li>
+          ))}
+        </ul>
+      )}
+    </form>
+  );
+};
+
+export default GlossaryEditor;
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react'
+import axios from 'axios'
+import { readEventStream } from '../eventStream'
+
+export interface JobStep {
+  name: string
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped'
+  attempts: number
+  error?: string
+  result?: unknown
+}
+
+export interface EnrichmentJob {
+  id: string
+  type: string
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  steps: JobStep[]
+  finishedAt?: string
+}
+
+// The artwork as saved so far by the job's steps
+export interface JobArtwork {
+  _id: string
+  title: string
+  author?: string
+  year?: string
+  style?: string
+  description?: string
+  descriptions?: Record<string, string>
+  // Provenance of machine translations; glossaryViolations lists terms the translation got wrong
+  translations?: Record<string, { provider: string; model?: string; glossaryViolations?: string[] }>
+  audioUrls?: Record<string, string>
+  imageUrl: string
+  sources?: Array<{ provider: string; url: string }>
+}
+
+interface ProgressEvent {
+  jobId?: string
+  stage: string
+  status?: string
+  level: 'info' | 'success' | 'warning' | 'error'
+  message: string
+  language?: string
+  at: string
+}
+
+interface JobProgressProps {
+  artworkId: string
+  jobId: string
+  onFinished: (job: EnrichmentJob, artwork: JobArtwork | null) => void
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  embedding: 'Image embedding',
+  duplicates: 'Duplicate check',
+  recognize: 'AI recognition',
+  wikipedia: 'Wikipedia lookup',
+  translate: 'Translations',
+  script: 'Narration scripts',
+  audio: 'Audio narration'
+}
+
+const STATUS_ICONS: Record<string, string> = {
+  pending: '⏳',
+  queued: '⏳',
+  running: '🔄',
+  retrying: '🔁',
+  completed: '✅',
+  failed: '❌',
+  skipped: '⏭️'
+}
+
+const LEVEL_ICONS: Record<ProgressEvent['level'], string> = {
+  info: 'ℹ️',
+  success: '✔️',
+  warning: '⚠️',
+  error: '❌'
+}
+
+const JobProgress: React.FC<JobProgressProps> = ({ artworkId, jobId, onFinished }) => {
+  const [job, setJob] = useState<EnrichmentJob | null>(null)
+  const [events, setEvents] = useState<ProgressEvent[]>([])
+  const [retrying, setRetrying] = useState(false)
+  const onFinishedRef = useRef(onFinished)
+  const handledFinishRef = useRef<string | null>(null)
+
+  const API_HOST = `http://${window.location.hostname}:4000`
+  const API_BASE = `${API_HOST}/api`
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished
+  }, [onFinished])
+
+  // Load the final step results and artwork once per completion
+  const loadResult = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE}/admin/jobs/${jobId}`)
+      const finished: EnrichmentJob = response.data.job
+      setJob(finished)
+      if (finished.finishedAt && handledFinishRef.current !== finished.finishedAt) {
+        handledFinishRef.current = finished.finishedAt
+        onFinishedRef.current(finished, response.data.artwork)
+      }
+    } catch (error) {
+      console.error('Failed to fetch job result:', error)
+    }
+  }, [API_BASE, jobId])
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    readEventStream(`${API_BASE}/admin/${artworkId}/progress?jobId=${jobId}`, ({ event, data }) => {
+      if (event === 'snapshot') {
+        // Sent on every (re)connect, followed by the recent log
+        const snapshot = data as EnrichmentJob
+        setJob(snapshot)
+        setEvents([])
+        if (snapshot.status === 'completed' || snapshot.status === 'failed') loadResult()
+      } else if (event === 'progress') {
+        const progress = data as ProgressEvent
+        setEvents(current => [...current, progress])
+        if (progress.stage === 'job' && (progress.status === 'completed' || progress.status === 'failed')) loadResult()
+      }
+    }, controller.signal)
+
+    return () => controller.abort()
+  }, [API_BASE, artworkId, jobId, loadResult])
+
+  const handleRetry = async (step?: string) => {
+    setRetrying(true)
+    try {
+      const response = await axios.post(`${API_BASE}/admin/jobs/${jobId}/retry`, { step })
+      setJob(response.data.job)
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+      alert(`Retry failed: ${message || 'Unknown error'}`)
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  if (!job) {
+    return <p>Connecting to progress stream...</p>
+  }
+
+  // Stages that ran during the upload request come first, then the job's steps
+  const stepNames = job.steps.map(step => step.name)
+  const stages = Array.from(new Set([
+    ...events.map(e => e.stage).filter(stage => stage !== 'job' && !stepNames.includes(stage)),
+    ...stepNames
+  ]))
+
+  const stageStatus = (stage: string) => {
+    const latest = [...events].reverse().find(e => e.stage === stage && e.status)
+    return latest?.status || job.steps.find(step => step.name === stage)?.status || 'pending'
+  }
+
+  const failedSteps = job.steps.filter(step => stageStatus(step.name) === 'failed')
+
+  return (
+    <div className="job-progress">
+      <ul style={{ listStyle: 'none', padding: 0 }}>
+        {stages.map(stage => {
+          const status = stageStatus(stage)
+          const details = events.filter(e => e.stage === stage && !e.status)
+          return (
+            <li key={stage} style={{ marginBottom: 8 }}>
+              <strong>{STATUS_ICONS[status] || '•'} {STAGE_LABELS[stage] || stage}</strong>
+              {details.length > 0 && (
+                <ul style={{ listStyle: 'none', paddingLeft: 24, margin: '4px 0' }}>
+                  {details.map((detail, i) => (
+                    <li key={i} style={{ fontSize: '0.9rem', color: detail.level === 'warning' || detail.level === 'error' ? '#c0392b' : '#444' }}>
+                      {LEVEL_ICONS[detail.level]} {detail.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {status === 'failed' && job.steps.some(step => step.name === stage) && (
+                <div style={{ paddingLeft: 24 }}>
+                  <small style={{ display: 'block', color: '#c0392b' }}>
+                    {job.steps.find(step => step.name === stage)?.error}
+                  </small>
+                  <button className="btn-secondary" onClick={() => handleRetry(stage)} disabled={retrying} style={{ marginTop: 4 }}>
+                    🔁 Re-run
+                  </button>
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+      {failedSteps.length > 1 && (
+        <button className="btn-secondary" onClick={() => handleRetry()} disabled={retrying}>
+          🔁 Re-run all failed steps
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default JobProgress
@@ -0,0 +1,22 @@
+import React from 'react'
+
+interface MachineTranslatedBadgeProps {
+  // translationStatus from the visitor API: source, machine, reviewed or approved
+  status?: string
+}
+
+// Tells visitors a description came straight from machine translation, without human review
+const MachineTranslatedBadge: React.FC<MachineTranslatedBadgeProps> = ({ status }) => {
+  if (status !== 'machine') return null
+  return (
+    <span
+      className="machine-translated-badge"
+      title="This description was translated automatically and has not been reviewed yet"
+      style={{ display: 'inline-block', fontSize: '0.75rem', padding: '2px 8px', borderRadius: 12, background: '#f3f4f6', color: '#555', marginBottom: 6 }}
+    >
+      🤖 Machine translated
+    </span>
+  )
+}
+
+export default MachineTranslatedBadge
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+
+interface Thresholds {
+  minScore: number;
+  confidentScore: number;
+  minMargin: number;
+}
+
+interface Matching extends Thresholds {
+  calibratedAt: string | null;
+  calibrationSamples: number;
+  defaults: Thresholds;
+}
+
+interface MatchingSettingsProps {
+  museumId: string;
+}
+
+const FIELDS: Array<{ key: keyof Thresholds; label: string; help: string }> = [
+  { key: 'confidentScore', label: 'Confident score', help: 'Top similarity needed to show a single answer' },
+  { key: 'minMargin', label: 'Minimum margin', help: 'Lead the top artwork needs over the runner-up' },
+  { key: 'minScore', label: 'Collection floor', help: 'Below this, the photo is treated as not in the collection' }
+];
+
+// Thresholds are stored as 0-1 similarities and edited as percentages
+const toPercent = (value: number) => Math.round(value * 1000) / 10;
+
+const MatchingSettings: React.FC<MatchingSettingsProps> = ({ museumId }) => {
+  const [matching, setMatching] = useState<Matching | null>(null);
+  const [draft, setDraft] = useState<Record<keyof Thresholds, string>>({ minScore: '', confidentScore: '', minMargin: '' });
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const API_HOST = `http://${window.location.hostname}:4000`;
+  const API_BASE = `${API_HOST}/api`;
+
+  const applyMatching = (next: Matching) => {
+    setMatching(next);
+    setDraft({
+      minScore: String(toPercent(next.minScore)),
+      confidentScore: String(toPercent(next.confidentScore)),
+      minMargin: String(toPercent(next.minMargin))
+    });
+  };
+
+  const fetchMatching = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE}/museums/${museumId}/matching`);
+      applyMatching(response.data.matching);
+    } catch (error) {
+      console.error('Failed to fetch matching settings:', error);
+    }
+  }, [API_BASE, museumId]);
+
+  useEffect(() => {
+    fetchMatching();
+  }, [fetchMatching]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setMessage(null);
+    try {
+      const body = Object.fromEntries(
+        FIELDS.map(({ key }) => [key, draft[key] === '' ? null : Number(draft[key]) / 100])
+      );
+      const response = await axios.put(`${API_BASE}/museums/${museumId}/matching`, body);
+      applyMatching(response.data.matching);
+      setMessage('✅ Saved');
+    } catch (error) {
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setMessage(`❌ ${reason || 'Failed to save settings'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCalibrate = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await axios.post(`${API_BASE}/museums/${museumId}/matching/calibrate`);
+      applyMatching(response.data.matching);
+      const { samples, precision, coverage } = response.data.calibration;
+      setMessage(`✅ Calibrated from ${samples} confirmations: ${precision}% precision, ${coverage}% of correct matches confident`);
+    } catch (error) {
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setMessage(`❌ ${reason || 'Calibration failed'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!matching) {
+    return <p>Loading matching settings...</p>;
+  }
+
+  return (
+    <form onSubmit={handleSave} className="museum-form">
+      {FIELDS.map(({ key, label, help }) => (
+        <div key={key} className="form-group">
+          <label>{label} (%)</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={0.1}
+            value={draft[key]}
+            placeholder={String(toPercent(matching.defaults[key]))}
+            onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+          />
+          <small>{help}. Leave empty for the default ({toPercent(matching.defaults[key])}%).</small>
+        </div>
+      ))}
+
+      <p style={{ fontSize: '14px', color: '#666' }}>
+        {matching.calibratedAt
+          ? `📐 Calibrated ${new Date(matching.calibratedAt).toLocaleDateString()} from ${matching.calibrationSamples} visitor confirmations`
+          : '📐 Not calibrated yet'}
+      </p>
+
+      {message && <p>{message}</p>}
+
+      <div className="form-actions">
+        <button type="submit" className="btn-primary" disabled={busy}>
+          Save Thresholds
+        </button>
+        <button type="button" className="btn-secondary" onClick={handleCalibrate} disabled={busy}>
+          📐 Calibrate from Visitor Confirmations
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default MatchingSettings;
@@ -1,5 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import axios from 'axios';
+import { useStaffSession } from '../auth';
+import StaffLogin from './StaffLogin';
+import MatchingSettings from './MatchingSettings';
+import GlossaryEditor from './GlossaryEditor';
+import PronunciationEditor from './PronunciationEditor';
+import { DEFAULT_LANGUAGES, languageName } from '../languages';
 
 interface Museum {
   _id: string;
@@ -9,29 +15,70 @@ interface Museum {
   website?: string;
   description?: string;
   artworkCount?: number;
+  partnerMuseumIds?: string[];
+  languages?: string[];
+  translationProvider?: string;
+  approvedTranslationsOnly?: boolean;
+  ttsProvider?: string;
+  narrationVoices?: Record<string, NarrationVoice>;
   createdAt: string;
 }
 
+interface NarrationVoice {
+  provider?: string;
+  voice?: string;
+}
+
+interface ProviderInfo {
+  key: string;
+  label: string;
+  available: boolean;
+  unavailableReason: string | null;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  location: '',
+  website: '',
+  description: '',
+  languages: DEFAULT_LANGUAGES.join(', '),
+  translationProvider: '',
+  approvedTranslationsOnly: false,
+  ttsProvider: '',
+  narrationVoices: {} as Record<string, NarrationVoice>
+};
+
 const MuseumManagement: React.FC = () => {
+  const { user, loading: sessionLoading, login, logout, can } = useStaffSession();
   const [museums, setMuseums] = useState<Museum[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingMuseum, setEditingMuseum] = useState<Museum | null>(null);
   const [qrCodeData, setQrCodeData] = useState<{ museumId: string; image: string; url: string } | null>(null);
+  const [matchingMuseum, setMatchingMuseum] = useState<Museum | null>(null);
+  const [glossaryMuseum, setGlossaryMuseum] = useState<Museum | null>(null);
+  const [pronunciationMuseum, setPronunciationMuseum] = useState<Museum | null>(null);
+  const [partnerIds, setPartnerIds] = useState<string[]>([]);
+  const [translationProviders, setTranslationProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState('');
+  const [ttsProviders, setTtsProviders] = useState<ProviderInfo[]>([]);
+  const [defaultTtsProvider, setDefaultTtsProvider] = useState('');
+
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
-  const [formData, setFormData] = useState({
-    name: '',
-    location: '',
-    website: '',
-    description: ''
-  });
+  // Language codes as typed, e.g. "en, fr, de"; the server validates them
+  const languageCodes = formData.languages.split(',').map(code => code.trim()).filter(Boolean);
 
   const API_HOST = `http://${window.location.hostname}:4000`;
   const API_BASE = `${API_HOST}/api`;
 
   useEffect(() => {
-    fetchMuseums();
-  }, []);
+    if (user) {
+      fetchMuseums();
+      fetchTranslationProviders();
+      fetchTtsProviders();
+    }
+  }, [user]);
 
   const fetchMuseums = async () => {
     try {
@@ -46,7 +93,40 @@ const MuseumManagement: React.FC = () => {
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const fetchTranslationProviders = async () => {
+    try {
+      const response = await axios.get(`${API_BASE}/museums/translation-providers`);
+      setTranslationProviders(response.data.providers || []);
+      setDefaultProvider(response.data.defaultProvider || '');
+    } catch (error) {
+      console.error('Failed to fetch translation providers:', error);
+    }
+  };
+
+  const fetchTtsProviders = async () => {
+    try {
+      const response = await axios.get(`${API_BASE}/museums/tts-providers`);
+      setTtsProviders(response.data.providers || []);
+      setDefaultTtsProvider(response.data.defaultProvider || '');
+    } catch (error) {
+      console.error('Failed to fetch TTS providers:', error);
+    }
+  };
+
+  const providerLabel = (key?: string) =>
+    translationProviders.find(provider => provider.key === (key || defaultProvider))?.label || key || defaultProvider;
+
+  const ttsProviderLabel = (key?: string) =>
+    ttsProviders.find(provider => provider.key === (key || defaultTtsProvider))?.label || key || defaultTtsProvider;
+
+  const updateNarrationVoice = (language: string, changes: NarrationVoice) => {
+    setFormData({
+      ...formData,
+      narrationVoices: { ...formData.narrationVoices, [language]: { ...formData.narrationVoices[language], ...changes } }
+    });
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData({
       ...formData,
       [e.target.name]: e.target.value
@@ -64,15 +144,15 @@ const MuseumManagement: React.FC = () => {
     try {
       if (editingMuseum) {
         // Update existing museum
-        await axios.put(`${API_BASE}/museums/${editingMuseum._id}`, formData);
+        await axios.put(`${API_BASE}/museums/${editingMuseum._id}`, { ...formData, languages: languageCodes, partnerMuseumIds: partnerIds });
         alert('Museum updated successfully!');
       } else {
         // Create new museum
-        await axios.post(`${API_BASE}/museums`, formData);
+        await axios.post(`${API_BASE}/museums`, { ...formData, languages: languageCodes });
         alert('Museum created successfully!');
       }
 
-      setFormData({ name: '', location: '', website: '', description: '' });
+      setFormData(EMPTY_FORM);
       setShowForm(false);
       setEditingMuseum(null);
       fetchMuseums();
@@ -88,8 +168,14 @@ const MuseumManagement: React.FC = () => {
       name: museum.name,
       location: museum.location,
       website: museum.website || '',
-      description: museum.description || ''
+      description: museum.description || '',
+      languages: (museum.languages?.length ? museum.languages : DEFAULT_LANGUAGES).join(', '),
+      translationProvider: museum.translationProvider || '',
+      approvedTranslationsOnly: !!museum.approvedTranslationsOnly,
+      ttsProvider: museum.ttsProvider || '',
+      narrationVoices: museum.narrationVoices || {}
     });
+    setPartnerIds(museum.partnerMuseumIds || []);
     setShowForm(true);
   };
 
@@ -122,13 +208,27 @@ const MuseumManagement: React.FC = () => {
     }
   };
 
+  const togglePartner = (museumId: string) => {
+    setPartnerIds(current =>
+      current.includes(museumId) ? current.filter(id => id !== museumId) : [...current, museumId]
+    );
+  };
+
   const handleCancelForm = () => {
     setShowForm(false);
     setEditingMuseum(null);
-    setFormData({ name: '', location: '', website: '', description: '' });
+    setFormData(EMPTY_FORM);
   };
 
-  if (loading) {
+  if (!sessionLoading && !user) {
+    return (
+      <div className="museum-management">
+        <StaffLogin onLogin={login} />
+      </div>
+    );
+  }
+
+  if (sessionLoading || loading) {
     return (
       <div className="museum-management">
         <div className="loading">
@@ -144,13 +244,19 @@ const MuseumManagement: React.FC = () => {
       <div className="museum-header">
         <h1>🏛️ Museum Management</h1>
         <p>Manage museums and their QR codes for visitor access</p>
-        <button
-          onClick={() => setShowForm(true)}
-          className="btn-primary"
-          style={{ marginTop: '16px' }}
-        >
-          ➕ Add New Museum
-        </button>
+        <p style={{ fontSize: '0.9rem' }}>
+          Signed in as <strong>{user?.name || user?.email}</strong> ({user?.role}) ·{' '}
+          <button onClick={logout} className="btn-secondary" type="button">Sign out</button>
+        </p>
+        {can('museums:create') && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="btn-primary"
+            style={{ marginTop: '16px' }}
+          >
+            ➕ Add New Museum
+          </button>
+        )}
       </div>
 
       {/* Museum Form */}
@@ -209,6 +315,97 @@ const MuseumManagement: React.FC = () => {
                 />
               </div>
 
+              <div className="form-group">
+                <label>Languages</label>
+                <input
+                  type="text"
+                  name="languages"
+                  value={formData.languages}
+                  onChange={handleInputChange}
+                  placeholder="en, fr, es"
+                />
+                <small>
+                  Language codes, default first. Descriptions are translated and narrated in each:{' '}
+                  {languageCodes.map(code => languageName(code, 'en')).join(', ')}
+                </small>
+              </div>
+
+              <div className="form-group">
+                <label>Translation Provider</label>
+                <select name="translationProvider" value={formData.translationProvider} onChange={handleInputChange}>
+                  <option value="">Server default ({providerLabel()})</option>
+                  {translationProviders.map(provider => (
+                    <option key={provider.key} value={provider.key}>
+                      {provider.label}{provider.available ? '' : ` (unavailable: ${provider.unavailableReason})`}
+                    </option>
+                  ))}
+                </select>
+                <small>Machine translation used for this museum's descriptions</small>
+              </div>
+
+              <div className="form-group">
+                <label style={{ fontWeight: 'normal' }}>
+                  <input
+                    type="checkbox"
+                    checked={formData.approvedTranslationsOnly}
+                    onChange={(e) => setFormData({ ...formData, approvedTranslationsOnly: e.target.checked })}
+                  />{' '}
+                  Only show visitors approved translations
+                </label>
+                <small>Otherwise machine translations are shown with a "machine translated" badge</small>
+              </div>
+
+              <div className="form-group">
+                <label>Narration Provider</label>
+                <select name="ttsProvider" value={formData.ttsProvider} onChange={handleInputChange}>
+                  <option value="">Server default ({ttsProviderLabel()})</option>
+                  {ttsProviders.map(provider => (
+                    <option key={provider.key} value={provider.key}>
+                      {provider.label}{provider.available ? '' : ` (unavailable: ${provider.unavailableReason})`}
+                    </option>
+                  ))}
+                </select>
+                <small>Text-to-speech used for audio descriptions; each language can use another provider or voice</small>
+                {languageCodes.map(code => (
+                  <div key={code} style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '6px' }}>
+                    <span style={{ width: '100px' }}>{languageName(code, 'en')}</span>
+                    <select
+                      value={formData.narrationVoices[code]?.provider || ''}
+                      onChange={(e) => updateNarrationVoice(code, { provider: e.target.value })}
+                    >
+                      <option value="">Museum provider</option>
+                      {ttsProviders.map(provider => (
+                        <option key={provider.key} value={provider.key}>{provider.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={formData.narrationVoices[code]?.voice || ''}
+                      onChange={(e) => updateNarrationVoice(code, { voice: e.target.value })}
+                      placeholder="Default voice"
+                      style={{ flex: 1 }}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {editingMuseum && museums.length > 1 && (
+                <div className="form-group">
+                  <label>Partner Museums</label>
+                  <small>Their artworks can appear in "More like this" when visitors include partners.</small>
+                  {museums.filter(m => m._id !== editingMuseum._id).map(m => (
+                    <label key={m._id} style={{ display: 'block', fontWeight: 'normal' }}>
+                      <input
+                        type="checkbox"
+                        checked={partnerIds.includes(m._id)}
+                        onChange={() => togglePartner(m._id)}
+                      />{' '}
+                      {m.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+
               <div className="form-actions">
                 <button type="button" onClick={handleCancelForm} className="btn-secondary">
                   Cancel
@@ -247,6 +444,48 @@ const MuseumManagement: React.FC = () => {
         </div>
       )}
 
+      {/* Matching Settings Modal */}
+      {matchingMuseum && (
+        <div className="modal-overlay" onClick={() => setMatchingMuseum(null)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>🎯 Matching Thresholds · {matchingMuseum.name}</h2>
+              <button onClick={() => setMatchingMuseum(null)} className="close-btn">✖</button>
+            </div>
+            <MatchingSettings museumId={matchingMuseum._id} />
+          </div>
+        </div>
+      )}
+
+      {/* Translation Glossary Modal */}
+      {glossaryMuseum && (
+        <div className="modal-overlay" onClick={() => setGlossaryMuseum(null)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>📖 Translation Glossary · {glossaryMuseum.name}</h2>
+              <button onClick={() => setGlossaryMuseum(null)} className="close-btn">✖</button>
+            </div>
+            <GlossaryEditor museumId={glossaryMuseum._id} canEdit={can('translations:edit')} />
+          </div>
+        </div>
+      )}
+
+      {pronunciationMuseum && (
+        <div className="modal-overlay" onClick={() => setPronunciationMuseum(null)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>🗣️ Narration Pronunciations · {pronunciationMuseum.name}</h2>
+              <button onClick={() => setPronunciationMuseum(null)} className="close-btn">✖</button>
+            </div>
+            <PronunciationEditor
+              museumId={pronunciationMuseum._id}
+              canEdit={can('translations:edit')}
+              canPreview={can('artworks:create')}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Museums List */}
       <div className="museums-list">
         {museums.length === 0 ? (
@@ -268,20 +507,47 @@ const MuseumManagement: React.FC = () => {
                     >
                       📱
                     </button>
+                    {can('museums:update') && (
+                      <button
+                        onClick={() => handleEdit(museum)}
+                        className="btn-icon"
+                        title="Edit"
+                      >
+                        ✏️
+                      </button>
+                    )}
+                    {can('museums:update') && (
+                      <button
+                        onClick={() => setMatchingMuseum(museum)}
+                        className="btn-icon"
+                        title="Matching Thresholds"
+                      >
+                        🎯
+                      </button>
+                    )}
                     <button
-                      onClick={() => handleEdit(museum)}
+                      onClick={() => setGlossaryMuseum(museum)}
                       className="btn-icon"
-                      title="Edit"
+                      title="Translation Glossary"
                     >
-                      ✏️
+                      📖
                     </button>
                     <button
-                      onClick={() => handleDelete(museum)}
-                      className="btn-icon btn-danger"
-                      title="Delete"
+                      onClick={() => setPronunciationMuseum(museum)}
+                      className="btn-icon"
+                      title="Narration Pronunciations"
                     >
-                      🗑️
+                      🗣️
                     </button>
+                    {can('museums:delete') && (
+                      <button
+                        onClick={() => handleDelete(museum)}
+                        className="btn-icon btn-danger"
+                        title="Delete"
+                      >
+                        🗑️
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -293,6 +559,9 @@ const MuseumManagement: React.FC = () => {
                   {museum.description && (
                     <p><strong>📝 Description:</strong> {museum.description}</p>
                   )}
+                  <p><strong>🌍 Languages:</strong> {(museum.languages?.length ? museum.languages : DEFAULT_LANGUAGES).map(code => languageName(code, 'en')).join(', ')}</p>
+                  <p><strong>🔤 Translation:</strong> {providerLabel(museum.translationProvider)}</p>
+                  <p><strong>🔊 Narration:</strong> {ttsProviderLabel(museum.ttsProvider)}</p>
                   <p><strong>🎨 Artworks:</strong> {museum.artworkCount || 0}</p>
                   <p><strong>🔑 QR Code:</strong> <code>{museum.qrCode}</code></p>
                 </div>
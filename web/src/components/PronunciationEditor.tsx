@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { languageName } from '../languages';
+
+interface PronunciationEntry {
+  term: string;
+  alias?: string;
+  phoneme?: string;
+  languages?: string[];
+}
+
+interface PronunciationEditorProps {
+  museumId: string;
+  canEdit: boolean;
+  canPreview: boolean;
+}
+
+const PronunciationEditor: React.FC<PronunciationEditorProps> = ({ museumId, canEdit, canPreview }) => {
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [entries, setEntries] = useState<PronunciationEntry[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [previewing, setPreviewing] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const API_HOST = `http://${window.location.hostname}:4000`;
+  const API_BASE = `${API_HOST}/api`;
+
+  const fetchPronunciations = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_BASE}/museums/${museumId}/pronunciations`);
+      setLanguages(response.data.languages || []);
+      setEntries(response.data.pronunciations || []);
+    } catch (error) {
+      console.error('Failed to fetch pronunciations:', error);
+    }
+  }, [API_BASE, museumId]);
+
+  useEffect(() => {
+    fetchPronunciations();
+  }, [fetchPronunciations]);
+
+  const updateEntry = (index: number, changes: Partial<PronunciationEntry>) => {
+    setEntries(current => current!.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  const toggleLanguage = (index: number, language: string) => {
+    const current = entries![index].languages || [];
+    updateEntry(index, {
+      languages: current.includes(language) ? current.filter(code => code !== language) : [...current, language]
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setMessage(null);
+    try {
+      const pronunciations = entries!.filter(entry => entry.term.trim());
+      const response = await axios.put(`${API_BASE}/museums/${museumId}/pronunciations`, { pronunciations });
+      setEntries(response.data.pronunciations || []);
+      setMessage('✅ Saved. Narrations using these terms are redone the next time an artwork is finalized.');
+    } catch (error) {
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setMessage(`❌ ${reason || 'Failed to save pronunciations'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Narrates the term with the museum's voice and the saved lexicon
+  const handlePreview = async (index: number) => {
+    const entry = entries![index];
+    const language = entry.languages?.[0] || languages[0] || 'en';
+    setPreviewing(index);
+    try {
+      const response = await axios.post(`${API_BASE}/admin/test-tts`, { text: entry.term, language, museumId });
+      if (response.data.success) {
+        new Audio(`${API_HOST}${response.data.audioUrl}`).play();
+      } else {
+        setMessage(`❌ ${response.data.message}`);
+      }
+    } catch (error) {
+      const reason = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setMessage(`❌ ${reason || 'Preview failed'}`);
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  if (!entries) {
+    return <p>Loading pronunciations...</p>;
+  }
+
+  return (
+    <form onSubmit={handleSave} className="museum-form">
+      <small>
+        Names and terms the narration mispronounces. Give a spoken alias (e.g. "van ike" for Van Eyck), an IPA
+        pronunciation for voices that support it, or both. Leave every language unticked to apply it to all of them.
+      </small>
+
+      {entries.map((entry, index) => (
+        <div key={index} className="form-group" style={{ borderBottom: '1px solid #eee', paddingBottom: '12px' }}>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={entry.term}
+              placeholder="Term, e.g. Giorgione"
+              disabled={!canEdit}
+              onChange={(e) => updateEntry(index, { term: e.target.value })}
+              style={{ flex: 1 }}
+            />
+            <input
+              type="text"
+              value={entry.alias || ''}
+              placeholder="Say it as, e.g. jor-JOH-neh"
+              disabled={!canEdit}
+              onChange={(e) => updateEntry(index, { alias: e.target.value })}
+              style={{ flex: 1 }}
+            />
+            <input
+              type="text"
+              value={entry.phoneme || ''}
+              placeholder="IPA, e.g. dʒorˈdʒoːne"
+              disabled={!canEdit}
+              onChange={(e) => updateEntry(index, { phoneme: e.target.value })}
+              style={{ flex: 1 }}
+            />
+            {canPreview && (
+              <button
+                type="button"
+                className="btn-icon"
+                title="Preview (saved lexicon)"
+                disabled={previewing !== null || !entry.term.trim()}
+                onClick={() => handlePreview(index)}
+              >
+                {previewing === index ? '⏳' : '🔊'}
+              </button>
+            )}
+            {canEdit && (
+              <button
+                type="button"
+                className="btn-icon btn-danger"
+                title="Remove"
+                onClick={() => setEntries(entries.filter((_, i) => i !== index))}
+              >
+                🗑️
+              </button>
+            )}
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', marginTop: '8px' }}>
+            {languages.map(language => (
+              <label key={language} style={{ fontWeight: 'normal' }}>
+                <input
+                  type="checkbox"
+                  checked={!!entry.languages?.includes(language)}
+                  disabled={!canEdit}
+                  onChange={() => toggleLanguage(index, language)}
+                />{' '}
+                {languageName(language, 'en')}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {entries.length === 0 && <p>No pronunciations yet.</p>}
+
+      {message && <p>{message}</p>}
+
+      {canEdit && (
+        <div className="form-actions">
+          <button type="button" className="btn-secondary" onClick={() => setEntries([...entries, { term: '' }])}>
+            ➕ Add Term
+          </button>
+          <button type="submit" className="btn-primary" disabled={busy}>
+            Save Pronunciations
+          </button>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default PronunciationEditor;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import axios from 'axios'
+
+interface ReferenceView {
+  id: string
+  label: string
+  imageUrl: string
+  hasEmbedding: boolean
+  removable: boolean
+}
+
+interface ReferenceViewsProps {
+  artworkId: string
+  canEdit: boolean
+}
+
+const ReferenceViews: React.FC<ReferenceViewsProps> = ({ artworkId, canEdit }) => {
+  const [views, setViews] = useState<ReferenceView[]>([])
+  const [labels, setLabels] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [file, setFile] = useState<File | null>(null)
+  const [label, setLabel] = useState('side')
+  const [saving, setSaving] = useState(false)
+
+  const API_HOST = `http://${window.location.hostname}:4000`
+  const API_BASE = `${API_HOST}/api`
+
+  const fetchViews = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await axios.get(`${API_BASE}/admin/${artworkId}/views`)
+      setViews(response.data.views || [])
+      setLabels(response.data.labels || [])
+    } catch (error) {
+      console.error('Failed to fetch reference views:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [API_BASE, artworkId])
+
+  useEffect(() => {
+    fetchViews()
+  }, [fetchViews])
+
+  const handleAdd = async () => {
+    if (!file) return
+
+    setSaving(true)
+    const formData = new FormData()
+    formData.append('image', file)
+    formData.append('label', label)
+
+    try {
+      const response = await axios.post(`${API_BASE}/admin/${artworkId}/views`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      })
+      setViews(response.data.views || [])
+      setFile(null)
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+      alert(`Failed to add view: ${message || 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (view: ReferenceView) => {
+    if (!confirm(`Remove the "${view.label}" view?`)) return
+
+    try {
+      const response = await axios.delete(`${API_BASE}/admin/${artworkId}/views/${view.id}`)
+      setViews(response.data.views || [])
+    } catch (error) {
+      console.error('Failed to remove reference view:', error)
+      alert('Failed to remove view')
+    }
+  }
+
+  if (loading) {
+    return <p>Loading reference views...</p>
+  }
+
+  return (
+    <div className="reference-views">
+      <p style={{ fontSize: '0.9rem' }}>
+        💡 Visitor photos are matched against every view. Add side, detail or framed shots for sculptures,
+        glare-prone frames or large works that visitors photograph partially.
+      </p>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))', gap: '12px', margin: '12px 0' }}>
+        {views.map(view => (
+          <div key={view.id} style={{ border: '1px solid #e0e0e0', borderRadius: 8, padding: 8 }}>
+            <img
+              src={`${API_HOST}${view.imageUrl}`}
+              alt={view.label}
+              style={{ width: '100%', height: 100, objectFit: 'cover', borderRadius: 4 }}
+            />
+            <p style={{ margin: '6px 0 0', fontWeight: 'bold' }}>{view.label}</p>
+            {!view.hasEmbedding && <small style={{ color: '#e74c3c' }}>⚠️ No embedding</small>}
+            {canEdit && view.removable && (
+              <button onClick={() => handleRemove(view)} className="btn-icon btn-danger" title="Remove view">
+                🗑️
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canEdit && (
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            type="file"
+            accept="image/*"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="file-input"
+          />
+          <select value={label} onChange={(e) => setLabel(e.target.value)} style={{ padding: '0.5rem', borderRadius: 8 }}>
+            {labels.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <button onClick={handleAdd} disabled={!file || saving} className="upload-btn" type="button">
+            {saving ? '🔄 Embedding...' : '➕ Add View'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ReferenceViews
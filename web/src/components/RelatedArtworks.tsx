@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { Link } from 'react-router-dom'
+import axios from 'axios'
+
+interface RelatedArtwork {
+  id: string
+  title: string
+  author: string
+  year: string
+  imageUrl: string
+  similarity: number
+  partner: boolean
+  museum: { id: string; name: string | null }
+}
+
+interface RelatedArtworksProps {
+  artworkId: string
+  language?: string
+}
+
+const RelatedArtworks: React.FC<RelatedArtworksProps> = ({ artworkId, language = 'en' }) => {
+  const [related, setRelated] = useState<RelatedArtwork[]>([])
+  const [includePartners, setIncludePartners] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const trackRef = useRef<HTMLDivElement>(null)
+
+  const API_HOST = `http://${window.location.hostname}:4000`
+  const API_BASE = `${API_HOST}/api`
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchRelated = async () => {
+      try {
+        setLoading(true)
+        const response = await axios.get(`${API_BASE}/visit/artwork/${artworkId}/related`, {
+          params: { language, includePartners }
+        })
+        if (!cancelled) setRelated(response.data.related || [])
+      } catch (error) {
+        console.error('Failed to fetch related artworks:', error)
+        if (!cancelled) setRelated([])
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchRelated()
+    return () => { cancelled = true }
+  }, [API_BASE, artworkId, language, includePartners])
+
+  const scrollBy = (direction: 1 | -1) => {
+    const track = trackRef.current
+    if (track) track.scrollBy({ left: direction * track.clientWidth * 0.8, behavior: 'smooth' })
+  }
+
+  if (!loading && related.length === 0 && !includePartners) {
+    return null
+  }
+
+  return (
+    <div className="related-artworks">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 8 }}>
+        <h3>🖼️ More Like This</h3>
+        <label style={{ fontSize: '0.9rem' }}>
+          <input
+            type="checkbox"
+            checked={includePartners}
+            onChange={(e) => setIncludePartners(e.target.checked)}
+          />{' '}
+          Include partner museums
+        </label>
+      </div>
+
+      {loading ? (
+        <p>Finding similar artworks...</p>
+      ) : related.length === 0 ? (
+        <p>No similar artworks found.</p>
+      ) : (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <button onClick={() => scrollBy(-1)} className="btn-icon" title="Previous" type="button">‹</button>
+          <div
+            ref={trackRef}
+            style={{ display: 'flex', gap: 12, overflowX: 'auto', scrollSnapType: 'x mandatory', flex: 1, paddingBottom: 8 }}
+          >
+            {related.map(item => (
+              <Link
+                key={item.id}
+                to={`/artwork/${item.id}?lang=${language}`}
+                style={{ flex: '0 0 160px', scrollSnapAlign: 'start', textDecoration: 'none', color: 'inherit' }}
+              >
+                <img
+                  src={`${API_HOST}${item.imageUrl}`}
+                  alt={item.title}
+                  style={{ width: '100%', height: 120, objectFit: 'cover', borderRadius: 8 }}
+                />
+                <p style={{ margin: '6px 0 0', fontWeight: 'bold' }}>{item.title}</p>
+                <small>{item.author}{item.year ? `, ${item.year}` : ''}</small>
+                {item.partner && item.museum.name && (
+                  <small style={{ display: 'block', color: '#666' }}>🏛️ {item.museum.name}</small>
+                )}
+              </Link>
+            ))}
+          </div>
+          <button onClick={() => scrollBy(1)} className="btn-icon" title="Next" type="button">›</button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RelatedArtworks
@@ -0,0 +1,69 @@
+import React, { useState } from 'react'
+import axios from 'axios'
+
+interface StaffLoginProps {
+  onLogin: (email: string, password: string) => Promise<void>
+}
+
+const StaffLogin: React.FC<StaffLoginProps> = ({ onLogin }) => {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      await onLogin(email, password)
+    } catch (err) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.error : undefined
+      setError(message || 'Login failed')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="admin-section" style={{ maxWidth: '420px', margin: '2rem auto' }}>
+      <h2>🔐 Staff Sign In</h2>
+      <p>Sign in with your museum staff account to continue.</p>
+
+      <form onSubmit={handleSubmit} className="finalize-form">
+        <div className="form-group">
+          <label>Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            autoComplete="username"
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            autoComplete="current-password"
+          />
+        </div>
+
+        {error && (
+          <p style={{ color: '#e74c3c', marginBottom: '1rem' }}>⚠️ {error}</p>
+        )}
+
+        <button type="submit" disabled={submitting} className="finalize-btn">
+          {submitting ? '🔄 Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  )
+}
+
+export default StaffLogin
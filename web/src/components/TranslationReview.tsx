@@ -0,0 +1,340 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import axios from 'axios'
+import { languageName, languageOption } from '../languages'
+
+type TranslationStatus = 'machine' | 'reviewed' | 'approved'
+
+interface QueueItem {
+  id: string
+  title: string
+  imageUrl?: string
+  languages: Array<{ language: string; status: TranslationStatus; stale: boolean }>
+}
+
+interface ReviewTranslation {
+  language: string
+  text: string
+  status: TranslationStatus | 'source' | null
+  stale: boolean
+  provider: string | null
+  model: string | null
+  reviewedBy: string | null
+  reviewedAt: string | null
+  glossaryViolations: string[]
+}
+
+// The script the audio guide reads for a language instead of its description
+interface ReviewNarration {
+  language: string
+  text: string
+  origin: 'llm' | 'template' | 'curator' | null
+  model: string | null
+  stale: boolean
+  editedBy: string | null
+  writtenAt: string | null
+}
+
+interface Review {
+  artwork: { id: string; title: string; imageUrl?: string }
+  sourceLanguage: string
+  source: string
+  translations: ReviewTranslation[]
+  narrations: ReviewNarration[]
+}
+
+interface TranslationReviewProps {
+  museumId: string
+  canApprove: boolean
+}
+
+const FILTERS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Needs review (machine or stale)' },
+  { value: 'machine', label: 'Machine translated' },
+  { value: 'reviewed', label: 'Reviewed' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'stale', label: 'Stale' }
+]
+
+const STATUS_BADGES: Record<string, string> = {
+  machine: '🤖 Machine',
+  reviewed: '👀 Reviewed',
+  approved: '✅ Approved'
+}
+
+const SCRIPT_ORIGINS: Record<string, string> = {
+  llm: '🤖 Written by AI',
+  template: '📄 From the description',
+  curator: '✍️ Curator'
+}
+
+const TranslationReview: React.FC<TranslationReviewProps> = ({ museumId, canApprove }) => {
+  const [filter, setFilter] = useState('')
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [review, setReview] = useState<Review | null>(null)
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [scriptDrafts, setScriptDrafts] = useState<Record<string, string>>({})
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const API_HOST = `http://${window.location.hostname}:4000`
+  const API_BASE = `${API_HOST}/api`
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await axios.get(`${API_BASE}/admin/translations`, { params: { museumId, ...(filter ? { status: filter } : {}) } })
+      setItems(response.data.items || [])
+    } catch (error) {
+      console.error('Failed to fetch translation queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [API_BASE, museumId, filter])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  const showReview = (next: Review) => {
+    setReview(next)
+    setDrafts({
+      [next.sourceLanguage]: next.source,
+      ...Object.fromEntries(next.translations.map(t => [t.language, t.text]))
+    })
+    setScriptDrafts(Object.fromEntries((next.narrations || []).map(n => [n.language, n.text])))
+  }
+
+  const openReview = async (artworkId: string) => {
+    try {
+      const response = await axios.get(`${API_BASE}/admin/translations/${artworkId}`)
+      showReview(response.data)
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+      alert(`Failed to load translations: ${message || 'Unknown error'}`)
+    }
+  }
+
+  // Saving the source marks every translation stale; saving a translation records the review
+  const save = async (language: string, status?: TranslationStatus) => {
+    if (!review) return
+    setBusy(language)
+    try {
+      const response = await axios.put(`${API_BASE}/admin/translations/${review.artwork.id}/${language}`, {
+        text: drafts[language],
+        ...(status ? { status } : {})
+      })
+      showReview(response.data)
+      fetchQueue()
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+      alert(`Failed to save: ${message || 'Unknown error'}`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const retranslate = async (language: string) => {
+    if (!review) return
+    if (!confirm(`Replace the ${languageName(language, 'en')} text with a new machine translation?`)) return
+    setBusy(language)
+    try {
+      const response = await axios.post(`${API_BASE}/admin/translations/${review.artwork.id}/${language}/retranslate`)
+      showReview(response.data)
+      fetchQueue()
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+      alert(`Failed to retranslate: ${message || 'Unknown error'}`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  // Saves the curator's script, or drops it (null) so the next finalize writes one from the description
+  const saveScript = async (language: string, text: string | null) => {
+    if (!review) return
+    setBusy(`script-${language}`)
+    try {
+      const response = await axios.put(`${API_BASE}/admin/translations/${review.artwork.id}/${language}/narration`, { text })
+      showReview(response.data)
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+      alert(`Failed to save the narration script: ${message || 'Unknown error'}`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const rewriteScript = async (language: string) => {
+    if (!review) return
+    if (!confirm(`Replace the ${languageName(language, 'en')} narration script with a new one written from the description?`)) return
+    setBusy(`script-${language}`)
+    try {
+      const response = await axios.post(`${API_BASE}/admin/translations/${review.artwork.id}/${language}/narration/regenerate`)
+      showReview(response.data)
+      if (response.data.warning) alert(response.data.warning)
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined
+      alert(`Failed to rewrite the narration script: ${message || 'Unknown error'}`)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (review) {
+    const source = languageOption(review.sourceLanguage)
+    return (
+      <div className="translation-review">
+        <button className="btn-secondary" onClick={() => setReview(null)}>← Back to queue</button>
+        <h3>{review.artwork.title}</h3>
+
+        {review.translations.map(translation => {
+          const option = languageOption(translation.language)
+          return (
+            <div key={translation.language} style={{ display: 'flex', gap: 12, borderBottom: '1px solid #e0e0e0', padding: '12px 0' }}>
+              <div style={{ flex: 1 }}>
+                <h4>{source.flag} {languageName(review.sourceLanguage, 'en')} (source)</h4>
+                <p style={{ whiteSpace: 'pre-wrap', fontSize: '0.9rem' }}>{review.source}</p>
+              </div>
+              <div style={{ flex: 1 }}>
+                <h4>
+                  {option.flag} {languageName(translation.language, 'en')}{' '}
+                  {translation.status && translation.status !== 'source' && <span>{STATUS_BADGES[translation.status]}</span>}
+                  {translation.stale && <span style={{ color: '#b45309' }}> ⏳ Stale</span>}
+                </h4>
+                <textarea
+                  value={drafts[translation.language] || ''}
+                  onChange={(e) => setDrafts({ ...drafts, [translation.language]: e.target.value })}
+                  rows={8}
+                  style={{ width: '100%' }}
+                  placeholder="No translation yet; write one here"
+                />
+                {translation.glossaryViolations.length > 0 && (
+                  <p style={{ color: '#b45309', fontSize: '13px' }}>⚠️ Glossary not followed for: {translation.glossaryViolations.join(', ')}</p>
+                )}
+                <p style={{ fontSize: '12px', color: '#666' }}>
+                  {translation.provider && `From ${translation.provider}${translation.model ? ` (${translation.model})` : ''}`}
+                  {translation.reviewedBy && ` · ${translation.status} by ${translation.reviewedBy} on ${new Date(translation.reviewedAt!).toLocaleDateString()}`}
+                </p>
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <button className="btn-secondary" disabled={busy !== null || !drafts[translation.language]} onClick={() => save(translation.language, 'reviewed')}>
+                    👀 Save as Reviewed
+                  </button>
+                  {canApprove && (
+                    <button className="btn-primary" disabled={busy !== null || !drafts[translation.language]} onClick={() => save(translation.language, 'approved')}>
+                      ✅ Approve
+                    </button>
+                  )}
+                  <button className="btn-secondary" disabled={busy !== null} onClick={() => retranslate(translation.language)}>
+                    🔄 Retranslate
+                  </button>
+                </div>
+              </div>
+            </div>
+          )
+        })}
+
+        <div style={{ marginTop: 16 }}>
+          <h4>✏️ Edit the {languageName(review.sourceLanguage, 'en')} source</h4>
+          <textarea
+            value={drafts[review.sourceLanguage] || ''}
+            onChange={(e) => setDrafts({ ...drafts, [review.sourceLanguage]: e.target.value })}
+            rows={6}
+            style={{ width: '100%' }}
+          />
+          <p style={{ fontSize: '0.9rem' }}>💡 Saving the source marks every translation stale until it is reviewed again.</p>
+          <button
+            className="btn-secondary"
+            disabled={busy !== null || !drafts[review.sourceLanguage] || drafts[review.sourceLanguage] === review.source}
+            onClick={() => save(review.sourceLanguage)}
+          >
+            Save Source
+          </button>
+        </div>
+
+        {review.narrations?.length > 0 && (
+          <div style={{ marginTop: 24 }}>
+            <h4>🎙️ Narration Scripts</h4>
+            <p style={{ fontSize: '0.9rem' }}>
+              💡 The audio guide reads these instead of the descriptions. Changes are narrated the next time the artwork is finalized.
+            </p>
+            {review.narrations.map(narration => {
+              const option = languageOption(narration.language)
+              return (
+                <div key={narration.language} style={{ borderBottom: '1px solid #e0e0e0', padding: '12px 0' }}>
+                  <h5>
+                    {option.flag} {languageName(narration.language, 'en')}{' '}
+                    {narration.origin && <span>{SCRIPT_ORIGINS[narration.origin]}</span>}
+                    {narration.stale && <span style={{ color: '#b45309' }}> ⏳ Stale</span>}
+                  </h5>
+                  <textarea
+                    value={scriptDrafts[narration.language] || ''}
+                    onChange={(e) => setScriptDrafts({ ...scriptDrafts, [narration.language]: e.target.value })}
+                    rows={6}
+                    style={{ width: '100%' }}
+                    placeholder="No script yet; the description is narrated as written"
+                  />
+                  <p style={{ fontSize: '12px', color: '#666' }}>
+                    {narration.model && `From ${narration.model}`}
+                    {narration.editedBy && `Edited by ${narration.editedBy}`}
+                    {narration.writtenAt && ` on ${new Date(narration.writtenAt).toLocaleDateString()}`}
+                  </p>
+                  <div style={{ display: 'flex', gap: 8 }}>
+                    <button
+                      className="btn-primary"
+                      disabled={busy !== null || !scriptDrafts[narration.language]?.trim() || (scriptDrafts[narration.language] === narration.text && !narration.stale)}
+                      onClick={() => saveScript(narration.language, scriptDrafts[narration.language])}
+                    >
+                      💾 Save Script
+                    </button>
+                    <button className="btn-secondary" disabled={busy !== null} onClick={() => rewriteScript(narration.language)}>
+                      ✨ Rewrite from Description
+                    </button>
+                    {narration.text && (
+                      <button className="btn-secondary" disabled={busy !== null} onClick={() => saveScript(narration.language, null)}>
+                        🗑️ Drop Script
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="translation-review">
+      <label>
+        Show:{' '}
+        <select value={filter} onChange={(e) => setFilter(e.target.value)}>
+          {FILTERS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+      </label>
+
+      {loading ? (
+        <p>Loading translations...</p>
+      ) : items.length === 0 ? (
+        <p>✅ No translations in this list.</p>
+      ) : (
+        items.map(item => (
+          <div key={item.id} style={{ display: 'flex', gap: 12, alignItems: 'center', border: '1px solid #e0e0e0', borderRadius: 8, padding: 8, marginTop: 8 }}>
+            {item.imageUrl && (
+              <img src={`${API_HOST}${item.imageUrl}`} alt={item.title} style={{ width: 80, height: 60, objectFit: 'cover', borderRadius: 4 }} />
+            )}
+            <div style={{ flex: 1 }}>
+              <strong>{item.title}</strong>
+              <div style={{ fontSize: '0.85rem' }}>
+                {item.languages.map(l => `${languageOption(l.language).flag} ${STATUS_BADGES[l.status]}${l.stale ? ' ⏳' : ''}`).join('  ')}
+              </div>
+            </div>
+            <button className="btn-primary" onClick={() => openReview(item.id)}>Review</button>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
+
+export default TranslationReview
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import axios from 'axios'
+import { DEFAULT_LANGUAGES, languageOption, languageOptions } from '../languages'
 
 interface Artwork {
   _id: string
@@ -10,27 +11,22 @@ interface Artwork {
   style: string
   imageUrl: string
   description: string
-  descriptions?: {
-    en: string
-    fr: string
-    es: string
-  }
+  descriptions?: Record<string, string>
   createdAt: string
 }
 
 const VisitorInterface: React.FC = () => {
   const [artworks, setArtworks] = useState<Artwork[]>([])
   const [loading, setLoading] = useState(true)
-  const [selectedLanguage, setSelectedLanguage] = useState<'en' | 'fr' | 'es'>('en')
+  const [selectedLanguage, setSelectedLanguage] = useState('en')
 
   const API_HOST = `http://${window.location.hostname}:4000`
   const API_BASE = `${API_HOST}/api`
 
-  const languageOptions = {
-    en: { flag: '🇺🇸', name: 'English' },
-    fr: { flag: '🇫🇷', name: 'Français' },
-    es: { flag: '🇪🇸', name: 'Español' }
-  }
+  // Every language some museum has descriptions in; each artwork page then follows its own museum
+  const describedLanguages = Array.from(new Set(artworks.flatMap(artwork => Object.keys(artwork.descriptions || {}))))
+  const languages = describedLanguages.length > 0 ? describedLanguages : DEFAULT_LANGUAGES
+  const selected = languageOption(selectedLanguage)
 
   useEffect(() => {
     fetchArtworks()
@@ -38,23 +34,9 @@ const VisitorInterface: React.FC = () => {
 
   const fetchArtworks = async () => {
     try {
-      // Get all museums first
-      const museumsResponse = await axios.get(`${API_BASE}/museums`)
-      const museums = museumsResponse.data.museums || []
-      
-      // Fetch artworks from all museums
-      const allArtworks: Artwork[] = []
-      for (const museum of museums) {
-        try {
-          const artworksResponse = await axios.get(`${API_BASE}/museums/${museum._id}/artworks`)
-          const museumArtworks = artworksResponse.data.artworks || []
-          allArtworks.push(...museumArtworks)
-        } catch (err) {
-          console.warn(`Failed to fetch artworks for museum ${museum.name}:`, err)
-        }
-      }
-      
-      setArtworks(allArtworks)
+      // Museum management routes are staff-only, so use the public artwork feed
+      const response = await axios.get(`${API_BASE}/artworks`)
+      setArtworks(response.data || [])
     } catch (error) {
       console.error('Failed to fetch artworks:', error)
     } finally {
@@ -91,10 +73,10 @@ const VisitorInterface: React.FC = () => {
         <div className="language-selector">
           <h3>Choose your language:</h3>
           <div className="language-buttons">
-            {Object.entries(languageOptions).map(([code, info]) => (
+            {languageOptions(languages).map(({ code, ...info }) => (
               <button
                 key={code}
-                onClick={() => setSelectedLanguage(code as 'en' | 'fr' | 'es')}
+                onClick={() => setSelectedLanguage(code)}
                 className={`language-btn ${selectedLanguage === code ? 'active' : ''}`}
               >
                 {info.flag} {info.name}
@@ -110,7 +92,7 @@ const VisitorInterface: React.FC = () => {
           <h3>📱 How to Use</h3>
           <ol>
             <li><strong>Browse Collection:</strong> View all artworks below</li>
-            <li><strong>Select Language:</strong> Choose English, French, or Spanish</li>
+            <li><strong>Select Language:</strong> Choose any language the museums offer</li>
             <li><strong>Click Artwork:</strong> Get detailed information and audio guide</li>
             <li><strong>Listen:</strong> Play AI-generated narration in your language</li>
           </ol>
@@ -120,7 +102,7 @@ const VisitorInterface: React.FC = () => {
           <h3>🎵 Features</h3>
           <ul>
             <li>✅ <strong>AI Recognition:</strong> Automatic artwork identification</li>
-            <li>✅ <strong>Multi-language:</strong> English, French, Spanish support</li>
+            <li>✅ <strong>Multi-language:</strong> Each museum chooses its languages</li>
             <li>✅ <strong>Audio Guides:</strong> Natural voice narration</li>
             <li>✅ <strong>Wikipedia Integration:</strong> Rich historical context</li>
           </ul>
@@ -173,7 +155,7 @@ const VisitorInterface: React.FC = () => {
                       to={`/artwork/${artwork._id}?lang=${selectedLanguage}`}
                       className="view-artwork-btn"
                     >
-                      {languageOptions[selectedLanguage].flag} View in {languageOptions[selectedLanguage].name}
+                      {selected.flag} View in {selected.name}
                     </Link>
                   </div>
                 </div>
@@ -202,13 +184,13 @@ const VisitorInterface: React.FC = () => {
           <div className="demo-step">
             <div className="step-number">3</div>
             <h3>🌍 Auto Translation</h3>
-            <p>Google Translate creates French and Spanish versions automatically</p>
+            <p>Descriptions are translated into every language the museum offers</p>
           </div>
           
           <div className="demo-step">
             <div className="step-number">4</div>
             <h3>🎵 Voice Generation</h3>
-            <p>ElevenLabs creates natural audio narration in all three languages</p>
+            <p>ElevenLabs creates natural audio narration in each of those languages</p>
           </div>
           
           <div className="demo-step">
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import axios from 'axios';
+import RelatedArtworks from './RelatedArtworks';
+import { DEFAULT_LANGUAGES, languageOptions } from '../languages';
+import MachineTranslatedBadge from './MachineTranslatedBadge';
 
 interface Museum {
   id: string;
@@ -8,6 +11,7 @@ interface Museum {
   location: string;
   description?: string;
   website?: string;
+  languages?: string[];
   artworkCount: number;
 }
 
@@ -19,8 +23,10 @@ interface MatchedArtwork {
   style: string;
   imageUrl: string;
   description: string;
+  translationStatus?: string;
   audioUrl?: string;
   matchScore: number;
+  matchedView?: string;
   sources?: Array<{ provider: string; url: string }>;
 }
 
@@ -40,29 +46,24 @@ const VisitorScan: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const photoRef = useRef<Blob | null>(null);
 
   // Match results
   const [matchResult, setMatchResult] = useState<{
     confident: boolean;
+    outcome?: 'confident' | 'uncertain' | 'not-in-collection';
+    confidence?: { reasons: string[] };
     bestMatch: MatchedArtwork | null;
     alternatives: MatchedArtwork[];
+    matchId?: string | null;
   } | null>(null);
+  const [feedbackStatus, setFeedbackStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
 
   const API_HOST = `http://${window.location.hostname}:4000`;
   const API_BASE = `${API_HOST}/api`;
 
-  const languageOptions = {
-    en: { flag: '🇺🇸', name: 'English' },
-    fr: { flag: '🇫🇷', name: 'Français' },
-    es: { flag: '🇪🇸', name: 'Español' },
-    de: { flag: '🇩🇪', name: 'Deutsch' },
-    zh: { flag: '🇨🇳', name: '中文' },
-    ja: { flag: '🇯🇵', name: '日本語' },
-    it: { flag: '🇮🇹', name: 'Italiano' },
-    pt: { flag: '🇵🇹', name: 'Português' },
-    ru: { flag: '🇷🇺', name: 'Русский' },
-    ar: { flag: '🇸🇦', name: 'العربية' }
-  };
+  // Only the languages this museum publishes in
+  const languages = museum?.languages?.length ? museum.languages : DEFAULT_LANGUAGES;
 
   useEffect(() => {
     fetchMuseum();
@@ -73,6 +74,9 @@ const VisitorScan: React.FC = () => {
       setLoading(true);
       const response = await axios.get(`${API_BASE}/visit/${qrCode}`);
       setMuseum(response.data.museum);
+      // Start in the museum's default language unless the visitor already picked one it offers
+      const offered: string[] = response.data.museum.languages || DEFAULT_LANGUAGES;
+      setSelectedLanguage(current => offered.includes(current) ? current : offered[0]);
     } catch (err: any) {
       console.error('Failed to fetch museum:', err);
       setError('Museum not found or invalid QR code');
@@ -136,6 +140,7 @@ const VisitorScan: React.FC = () => {
 
         setIdentifying(true);
         stopCamera();
+        photoRef.current = blob;
 
         const formData = new FormData();
         formData.append('photo', blob, 'artwork.jpg');
@@ -151,6 +156,7 @@ const VisitorScan: React.FC = () => {
 
           // Match result received
           setMatchResult(response.data);
+          setFeedbackStatus('idle');
         } catch (error: any) {
           console.error('Identification failed:', error);
           alert(error.response?.data?.error || 'Failed to identify artwork');
@@ -168,11 +174,53 @@ const VisitorScan: React.FC = () => {
     }
   };
 
+  // Tell the museum which artwork the photo really showed
+  const confirmArtwork = async (artwork: MatchedArtwork) => {
+    if (!matchResult?.matchId || !photoRef.current) return;
+
+    setFeedbackStatus('sending');
+
+    const formData = new FormData();
+    formData.append('photo', photoRef.current, 'artwork.jpg');
+    formData.append('matchId', matchResult.matchId);
+    formData.append('artworkId', artwork.id);
+
+    try {
+      await axios.post(
+        `${API_BASE}/visit/${qrCode}/feedback`,
+        formData,
+        { headers: { 'Content-Type': 'multipart/form-data' } }
+      );
+
+      // Show the artwork the visitor picked
+      if (artwork.id !== matchResult.bestMatch?.id) {
+        const others = matchResult.alternatives.filter(a => a.id !== artwork.id);
+        // The visitor told us, so it is no longer a guess
+        setMatchResult({
+          ...matchResult,
+          confident: true,
+          outcome: 'confident',
+          confidence: undefined,
+          bestMatch: artwork,
+          alternatives: matchResult.bestMatch ? [matchResult.bestMatch, ...others] : others
+        });
+      }
+      setFeedbackStatus('sent');
+    } catch (error) {
+      console.error('Feedback failed:', error);
+      setFeedbackStatus('idle');
+    }
+  };
+
   const handleTryAgain = () => {
     setMatchResult(null);
     setShowCamera(false);
+    setFeedbackStatus('idle');
+    photoRef.current = null;
   };
 
+  const canGiveFeedback = Boolean(matchResult?.matchId) && feedbackStatus !== 'sent';
+
   if (loading) {
     return (
       <div className="visitor-scan">
@@ -204,14 +252,34 @@ const VisitorScan: React.FC = () => {
       <div className="visitor-scan">
         <div className="match-results">
           <h2>
-            {matchResult.confident ? '✅ Artwork Identified!' : '🤔 Possible Matches'}
+            {matchResult.outcome === 'not-in-collection'
+              ? '🔍 Not in This Collection'
+              : matchResult.confident ? '✅ Artwork Identified!' : '🤔 Possible Matches'}
           </h2>
 
+          {matchResult.outcome === 'not-in-collection' && (
+            <p>This doesn't look like one of our artworks. Try again closer to the piece, or pick it below if it's there.</p>
+          )}
+
+          {matchResult.confidence && matchResult.confidence.reasons.length > 0 && (
+            <details className="match-explanation">
+              <summary>Why this result?</summary>
+              <ul>
+                {matchResult.confidence.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
           {matchResult.bestMatch && (
             <div className="artwork-match">
               <div className="match-header">
                 <span className="confidence-badge">
                   {matchResult.bestMatch.matchScore}% Match
+                  {matchResult.bestMatch.matchedView && matchResult.bestMatch.matchedView !== 'primary' && (
+                    <> · {matchResult.bestMatch.matchedView} view</>
+                  )}
                 </span>
               </div>
 
@@ -223,6 +291,18 @@ const VisitorScan: React.FC = () => {
 
               <div className="artwork-info">
                 <h3>{matchResult.bestMatch.title}</h3>
+                {canGiveFeedback && (
+                  <button
+                    onClick={() => confirmArtwork(matchResult.bestMatch!)}
+                    disabled={feedbackStatus === 'sending'}
+                    className="btn-secondary"
+                  >
+                    ✅ Yes, this is it
+                  </button>
+                )}
+                {feedbackStatus === 'sent' && (
+                  <p className="feedback-thanks">🙏 Thanks! Your confirmation helps us recognise artworks better.</p>
+                )}
                 <p className="artwork-meta">
                   <strong>Artist:</strong> {matchResult.bestMatch.author}<br />
                   <strong>Year:</strong> {matchResult.bestMatch.year}<br />
@@ -230,15 +310,14 @@ const VisitorScan: React.FC = () => {
                 </p>
 
                 <div className="artwork-description">
+                  <MachineTranslatedBadge status={matchResult.bestMatch.translationStatus} />
                   <p>{matchResult.bestMatch.description}</p>
                 </div>
 
                 {matchResult.bestMatch.audioUrl && (
                   <div className="audio-player">
                     <h4>🎧 Audio Guide</h4>
-                    <audio controls style={{ width: '100%' }}>
-                      <source src={`${API_HOST}${matchResult.bestMatch.audioUrl}`} type="audio/mpeg" />
-                    </audio>
+                    <audio controls style={{ width: '100%' }} src={`${API_HOST}${matchResult.bestMatch.audioUrl}`} />
                   </div>
                 )}
 
@@ -258,13 +337,17 @@ const VisitorScan: React.FC = () => {
                     ))}
                   </div>
                 )}
+
+                {matchResult.confident && (
+                  <RelatedArtworks artworkId={matchResult.bestMatch.id} language={selectedLanguage} />
+                )}
               </div>
             </div>
           )}
 
           {!matchResult.confident && matchResult.alternatives.length > 0 && (
             <div className="alternatives">
-              <h3>Other Possible Matches:</h3>
+              <h3>{matchResult.bestMatch ? 'Other Possible Matches:' : 'Closest Artworks:'}</h3>
               <div className="alternatives-grid">
                 {matchResult.alternatives.map(artwork => (
                   <div key={artwork.id} className="alternative-card">
@@ -273,6 +356,15 @@ const VisitorScan: React.FC = () => {
                       <h4>{artwork.title}</h4>
                       <p>{artwork.author}</p>
                       <span className="match-score">{artwork.matchScore}% match</span>
+                      {canGiveFeedback && (
+                        <button
+                          onClick={() => confirmArtwork(artwork)}
+                          disabled={feedbackStatus === 'sending'}
+                          className="btn-secondary"
+                        >
+                          This one
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -361,7 +453,7 @@ const VisitorScan: React.FC = () => {
         <div className="language-selector">
           <h3>🌍 Select Your Language</h3>
           <div className="language-grid">
-            {Object.entries(languageOptions).map(([code, info]) => (
+            {languageOptions(languages).map(({ code, ...info }) => (
               <button
                 key={code}
                 onClick={() => setSelectedLanguage(code)}
@@ -0,0 +1,52 @@
+import axios from 'axios'
+
+export interface StreamMessage {
+  event: string
+  data: unknown
+}
+
+const RECONNECT_DELAY_MS = 3000
+
+/**
+ * Read a Server-Sent Events stream. Uses fetch rather than EventSource so the
+ * staff bearer token can be sent; reconnects until the signal is aborted.
+ */
+export async function readEventStream(url: string, onMessage: (message: StreamMessage) => void, signal: AbortSignal) {
+  while (!signal.aborted) {
+    try {
+      const authorization = axios.defaults.headers.common.Authorization
+      const response = await fetch(url, {
+        headers: authorization ? { Authorization: String(authorization) } : {},
+        signal
+      })
+      if (!response.ok || !response.body) throw new Error(`Stream failed with status ${response.status}`)
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { value, done } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+
+        // Events are separated by a blank line
+        const blocks = buffer.split('\n\n')
+        buffer = blocks.pop() || ''
+        for (const block of blocks) {
+          let event = 'message'
+          let data = ''
+          for (const line of block.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim()
+            else if (line.startsWith('data:')) data += line.slice(5).trim()
+          }
+          if (data) onMessage({ event, data: JSON.parse(data) })
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) return
+      console.error('Progress stream interrupted:', error)
+    }
+    await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS))
+  }
+}
@@ -0,0 +1,45 @@
+// Used until the museum's own list has loaded, and by museums that never configured one
+export const DEFAULT_LANGUAGES = ['en', 'fr', 'es']
+
+// Flags for languages we have one for; any other code still works, shown with a globe
+const FLAGS: Record<string, string> = {
+  en: '🇺🇸',
+  fr: '🇫🇷',
+  es: '🇪🇸',
+  de: '🇩🇪',
+  zh: '🇨🇳',
+  ja: '🇯🇵',
+  it: '🇮🇹',
+  pt: '🇵🇹',
+  ru: '🇷🇺',
+  ar: '🇸🇦'
+}
+
+export interface LanguageOption {
+  code: string
+  flag: string
+  name: string
+}
+
+/**
+ * Name of a language, by default in that language itself ("de" → "Deutsch")
+ */
+export function languageName(code: string, displayLanguage: string = code): string {
+  try {
+    const name = new Intl.DisplayNames([displayLanguage], { type: 'language' }).of(code) || code
+    return name.charAt(0).toLocaleUpperCase(displayLanguage) + name.slice(1)
+  } catch {
+    return code
+  }
+}
+
+/**
+ * Flag and native name for a language switcher button
+ */
+export function languageOption(code: string): LanguageOption {
+  return { code, flag: FLAGS[code] || FLAGS[code.split('-')[0]] || '🌐', name: languageName(code) }
+}
+
+export function languageOptions(codes: string[]): LanguageOption[] {
+  return codes.map(languageOption)
+}